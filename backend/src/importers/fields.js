@@ -0,0 +1,61 @@
+/**
+ * Cell parsing helpers shared by the broker importers
+ */
+
+/**
+ * Parses a numeric cell, ignoring currency symbols and thousands separators
+ * @param {string|number} value - Cell value
+ * @returns {number} The number, or 0 if missing
+ */
+export function parseAmount(value) {
+  if (value === null || value === undefined || value === '') return 0;
+  if (typeof value === 'number') return value;
+  return Number(String(value).replace(/[₹,\s]/g, '').replace(/^Rs\.?/i, '')) || 0;
+}
+
+/**
+ * Normalizes a buy/sell cell ("BUY", "Buy", "B", "sell", ...)
+ * @param {string} value - Cell value
+ * @returns {string} 'buy', 'sell', or the lowercased value for validation to reject
+ */
+export function parseTradeType(value) {
+  const type = String(value ?? '').trim().toLowerCase();
+  if (type === 'b' || type.startsWith('buy')) return 'buy';
+  if (type === 's' || type.startsWith('sell')) return 'sell';
+  return type;
+}
+
+/**
+ * Splits a scrip code into NSE symbol or BSE code (numeric codes are BSE)
+ * @param {string|number} value - Cell value
+ * @returns {Object} nseCode and bseCode
+ */
+export function parseScripCode(value) {
+  const code = String(value ?? '').trim().toUpperCase();
+  return /^\d+$/.test(code)
+    ? { nseCode: '', bseCode: code }
+    : { nseCode: code, bseCode: null };
+}
+
+/**
+ * Drops a time part from a date-time cell ("15-01-2024 10:15 AM" -> "15-01-2024")
+ * @param {string|number} value - Cell value
+ * @returns {string|number} The date part; numbers (Excel serials) are returned as is
+ */
+export function datePart(value) {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  // ISO timestamps keep their date prefix
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) return trimmed.substring(0, 10);
+  return trimmed.split(/\s+/)[0];
+}
+
+/**
+ * Whether a segment cell is cash equity (blank counts as equity)
+ * @param {string} value - Cell value, e.g. "EQ", "Equity", "FO"
+ * @returns {boolean}
+ */
+export function isEquitySegment(value) {
+  const segment = String(value ?? '').trim().toLowerCase();
+  return segment === '' || segment === 'eq' || segment.startsWith('equity') || segment === 'cash';
+}
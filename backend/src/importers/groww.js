@@ -0,0 +1,28 @@
+/**
+ * Groww importer for the stock order history export (Reports > Stocks > Order history)
+ * Only executed orders are imported; the export has no per-order charges
+ */
+
+import { parseAmount, parseTradeType, parseScripCode, datePart } from './fields.js';
+
+export const growwOrders = {
+  id: 'groww-orders',
+  broker: 'Groww',
+  label: 'Groww order history',
+  kind: 'tradebook',
+  headers: ['symbol', 'type', 'quantity', 'value', 'execution date and time', 'order status'],
+  toRecord(get) {
+    if (!/^executed$/i.test(String(get('order status') ?? '').trim())) return null;
+
+    const quantity = parseAmount(get('quantity'));
+    return {
+      ...parseScripCode(get('symbol')),
+      particulars: String(get('stock name') ?? get('symbol') ?? '').trim(),
+      type: parseTradeType(get('type')),
+      date: datePart(get('execution date and time')),
+      // Orders carry the total value; fills at several prices average out
+      price: quantity > 0 ? parseAmount(get('value')) / quantity : 0,
+      quantity
+    };
+  }
+};
@@ -0,0 +1,28 @@
+/**
+ * ICICI Direct importer for the equity trade history (Portfolio > Equity > Trade book)
+ * ICICI Direct uses its own stock codes (e.g. INFTEC for Infosys), which are kept as
+ * the NSE code; rename them in the ledger to match NSE symbols for live prices
+ */
+
+import { parseAmount, parseTradeType, parseScripCode, datePart } from './fields.js';
+
+export const iciciDirectTrades = {
+  id: 'icici-direct-trades',
+  broker: 'ICICI Direct',
+  label: 'ICICI Direct trade history',
+  kind: 'tradebook',
+  headers: ['stock symbol', 'action', 'quantity', 'transaction price', 'transaction date'],
+  toRecord(get) {
+    return {
+      ...parseScripCode(get('stock symbol')),
+      particulars: String(get('company name') ?? get('stock symbol') ?? '').trim(),
+      type: parseTradeType(get('action')),
+      date: datePart(get('transaction date')),
+      price: parseAmount(get('transaction price')),
+      quantity: parseAmount(get('quantity')),
+      charges: parseAmount(get('brokerage')) +
+        parseAmount(get('transaction charges')) +
+        parseAmount(get('stampduty'))
+    };
+  }
+};
@@ -0,0 +1,210 @@
+/**
+ * Broker file importer registry
+ *
+ * An importer describes one broker export layout:
+ * - id, broker, label
+ * - kind: 'tradebook' (rows are buys and sells) or 'holdings' (rows are positions)
+ * - headers: column names that identify the layout (case-insensitive); an entry
+ *   may be an array of alternative names
+ * - toRecord(get): maps a row to transaction or holding fields, or null to skip it;
+ *   get(name) reads a cell by column name. Throwing marks the row as invalid
+ */
+
+import xlsx from 'xlsx';
+import { createTransaction, validateTransaction, sortTransactions } from '../models/Transaction.js';
+import { createHolding, validateHolding } from '../models/Holding.js';
+import { createExcelError } from '../models/ApiError.js';
+import { zerodhaTradebook, zerodhaHoldings } from './zerodha.js';
+import { growwOrders } from './groww.js';
+import { upstoxTradebook } from './upstox.js';
+import { iciciDirectTrades } from './iciciDirect.js';
+
+// Brokers put account details above the table; the header row is searched for
+const HEADER_SEARCH_ROWS = 25;
+
+const importers = new Map();
+
+const normalizeHeader = header => String(header ?? '').trim().toLowerCase();
+const alternatives = name => (Array.isArray(name) ? name : [name]).map(normalizeHeader);
+
+/**
+ * Adds an importer to the registry
+ * @param {Object} importer - Importer definition (see module comment)
+ * @throws {Error} If the definition is incomplete or the id is taken
+ */
+export function registerImporter(importer) {
+  if (!importer || !importer.id || typeof importer.toRecord !== 'function' ||
+      !Array.isArray(importer.headers) || importer.headers.length === 0 ||
+      !['tradebook', 'holdings'].includes(importer.kind)) {
+    throw new Error('Invalid importer: needs id, kind, headers and toRecord');
+  }
+  if (importers.has(importer.id)) {
+    throw new Error(`Invalid importer: ${importer.id} is already registered`);
+  }
+  importers.set(importer.id, importer);
+}
+
+/**
+ * Looks up an importer by id
+ * @param {string} id - Importer id, e.g. 'zerodha-tradebook'
+ * @returns {Object} The importer
+ * @throws {Error} If no importer has the id
+ */
+export function getImporter(id) {
+  const importer = importers.get(id);
+  if (!importer) {
+    throw new Error(`Invalid importer: ${id} (expected one of ${Array.from(importers.keys()).join(', ')})`);
+  }
+  return importer;
+}
+
+/**
+ * Lists the registered importers
+ * @returns {Array} Importers as { id, broker, label, kind }
+ */
+export function listImporters() {
+  return Array.from(importers.values()).map(({ id, broker, label, kind }) => ({ id, broker, label, kind }));
+}
+
+/**
+ * Finds the importer whose identifying columns are all present
+ * When several match, the one with the most identifying columns wins
+ * @param {Array} headers - Column names
+ * @returns {Object|null} The importer, or null if none matches
+ */
+export function detectImporter(headers) {
+  const present = new Set(headers.map(normalizeHeader));
+
+  return Array.from(importers.values())
+    .filter(importer => importer.headers.every(name => alternatives(name).some(alt => present.has(alt))))
+    .sort((a, b) => b.headers.length - a.headers.length)[0] || null;
+}
+
+/**
+ * Parses sheet rows with an importer
+ * @param {Array} rows - Rows as arrays of cells (xlsx header: 1 layout), header row included
+ * @param {string} importerId - Importer id, or omitted/'auto' to detect from the header row
+ * @returns {Object} importer id, holdings, chronologically sorted transactions, row errors
+ *   in the ApiError shape (source 'excel' with row) and the number of rows skipped
+ * @throws {Error} If no header row matches the importer (or any importer when detecting)
+ */
+export function parseBrokerRows(rows, importerId) {
+  const explicit = importerId && importerId !== 'auto' ? getImporter(importerId) : null;
+  let importer = null;
+  let headerIndex = -1;
+
+  for (let i = 0; i < Math.min(rows.length, HEADER_SEARCH_ROWS) && !importer; i++) {
+    const headers = (rows[i] || []).map(normalizeHeader);
+    const match = explicit
+      ? (explicit.headers.every(name => alternatives(name).some(alt => headers.includes(alt))) ? explicit : null)
+      : detectImporter(headers);
+    if (match) {
+      importer = match;
+      headerIndex = i;
+    }
+  }
+
+  if (!importer) {
+    throw new Error(explicit
+      ? `Invalid broker file: expected ${explicit.label} columns ${explicit.headers.map(name => alternatives(name)[0]).join(', ')}`
+      : 'Invalid broker file: columns do not match any supported broker export');
+  }
+
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const transactions = [];
+  const holdings = [];
+  const errors = [];
+  let skipped = 0;
+
+  rows.slice(headerIndex + 1).forEach((cells, index) => {
+    const row = headerIndex + index + 2; // 1-based sheet row
+    if (!cells || cells.every(cell => cell === null || cell === undefined || String(cell).trim() === '')) {
+      return;
+    }
+
+    const get = name => {
+      for (const alt of alternatives(name)) {
+        const column = headers.indexOf(alt);
+        if (column !== -1 && cells[column] !== null && cells[column] !== undefined && cells[column] !== '') {
+          return cells[column];
+        }
+      }
+      return null;
+    };
+
+    let data;
+    try {
+      data = importer.toRecord(get);
+    } catch (error) {
+      errors.push(createExcelError(error.message, row));
+      return;
+    }
+    if (!data) {
+      skipped++;
+      return;
+    }
+
+    if (importer.kind === 'tradebook') {
+      const transaction = createTransaction(data);
+      const validation = validateTransaction(transaction);
+      if (validation.isValid) {
+        transactions.push(transaction);
+      } else {
+        errors.push(createExcelError(
+          `Invalid transaction: ${validation.errors.join(', ')}`,
+          row,
+          transaction.nseCode || transaction.bseCode || undefined
+        ));
+      }
+    } else {
+      const holding = createHolding({ ...data, sector: data.sector || 'Uncategorized' });
+      const validation = validateHolding(holding);
+      if (validation.isValid && holding.quantity > 0) {
+        holdings.push(holding);
+      } else {
+        const problems = validation.isValid ? ['Invalid quantity: must be a positive number'] : validation.errors;
+        errors.push(createExcelError(
+          `Invalid holding: ${problems.join(', ')}`,
+          row,
+          holding.nseCode || holding.bseCode || undefined
+        ));
+      }
+    }
+  });
+
+  return {
+    importer: importer.id,
+    kind: importer.kind,
+    holdings,
+    transactions: sortTransactions(transactions),
+    errors,
+    skipped
+  };
+}
+
+/**
+ * Reads a broker export (csv or xlsx) and parses its first sheet that an importer recognizes
+ * Cells are read unformatted so CSV dates stay as written
+ * @param {Buffer} buffer - File contents
+ * @param {string} importerId - Importer id, or omitted/'auto' to detect
+ * @returns {Object} See parseBrokerRows
+ * @throws {Error} If the file has no sheet an importer recognizes
+ */
+export function parseBrokerFile(buffer, importerId) {
+  const workbook = xlsx.read(buffer, { type: 'buffer', raw: true });
+  let lastError = new Error('Invalid broker file: the file contains no sheets');
+
+  for (const sheetName of workbook.SheetNames || []) {
+    const rows = xlsx.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, raw: true, defval: null, blankrows: true });
+    try {
+      return parseBrokerRows(rows, importerId);
+    } catch (error) {
+      if (!error.message.startsWith('Invalid broker file')) throw error;
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+[zerodhaTradebook, zerodhaHoldings, growwOrders, upstoxTradebook, iciciDirectTrades].forEach(registerImporter);
@@ -0,0 +1,25 @@
+/**
+ * Upstox importer for the equity tradebook (Reports > Trade)
+ */
+
+import { parseAmount, parseTradeType, parseScripCode, datePart, isEquitySegment } from './fields.js';
+
+export const upstoxTradebook = {
+  id: 'upstox-tradebook',
+  broker: 'Upstox',
+  label: 'Upstox tradebook',
+  kind: 'tradebook',
+  headers: ['date', 'scrip code', 'side', 'quantity', 'price'],
+  toRecord(get) {
+    if (!isEquitySegment(get('segment'))) return null;
+
+    return {
+      ...parseScripCode(get('scrip code')),
+      particulars: String(get('company') ?? get('scrip code') ?? '').trim(),
+      type: parseTradeType(get('side')),
+      date: datePart(get('date')),
+      price: parseAmount(get('price')),
+      quantity: parseAmount(get('quantity'))
+    };
+  }
+};
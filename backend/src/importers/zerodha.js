@@ -0,0 +1,48 @@
+/**
+ * Zerodha importers
+ * - Tradebook exported from Console (Reports > Tradebook)
+ * - Holdings exported from Console or Kite
+ */
+
+import { parseAmount, parseTradeType, parseScripCode, isEquitySegment } from './fields.js';
+
+export const zerodhaTradebook = {
+  id: 'zerodha-tradebook',
+  broker: 'Zerodha',
+  label: 'Zerodha tradebook',
+  kind: 'tradebook',
+  headers: ['symbol', 'trade_date', 'trade_type', 'quantity', 'price'],
+  toRecord(get) {
+    // F&O and currency trades share the tradebook
+    if (!isEquitySegment(get('segment'))) return null;
+
+    return {
+      ...parseScripCode(get('symbol')),
+      particulars: String(get('symbol') ?? '').trim(),
+      type: parseTradeType(get('trade_type')),
+      date: get('trade_date'),
+      price: parseAmount(get('price')),
+      quantity: parseAmount(get('quantity'))
+    };
+  }
+};
+
+export const zerodhaHoldings = {
+  id: 'zerodha-holdings',
+  broker: 'Zerodha',
+  label: 'Zerodha holdings',
+  kind: 'holdings',
+  // Console names the columns in full, Kite abbreviates them
+  headers: [['symbol', 'instrument'], ['quantity available', 'qty.'], ['average price', 'avg. cost']],
+  toRecord(get) {
+    const symbol = String(get(['symbol', 'instrument']) ?? '').trim();
+
+    return {
+      ...parseScripCode(symbol),
+      particulars: symbol,
+      quantity: parseAmount(get(['quantity available', 'qty.'])) + parseAmount(get('quantity long term')),
+      purchasePrice: parseAmount(get(['average price', 'avg. cost'])),
+      sector: String(get('sector') ?? '').trim()
+    };
+  }
+};
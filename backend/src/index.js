@@ -1,8 +1,10 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import portfolioRoutes from './routes/portfolio.js';
+import portfolioRoutes, { captureSnapshot, watchPortfolioFiles } from './routes/portfolio.js';
+import portfoliosRoutes from './routes/portfolios.js';
 import healthRoutes from './routes/health.js';
+import marketRoutes from './routes/market.js';
 import { requestLogger } from './middleware/requestLogger.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
 
@@ -57,7 +59,9 @@ app.use(requestLogger);
 
 // Routes
 app.use('/api/portfolio', portfolioRoutes);
+app.use('/api/portfolios', portfoliosRoutes);
 app.use('/api/health', healthRoutes);
+app.use('/api/market', marketRoutes);
 
 // 404 handler for undefined routes
 app.use(notFoundHandler);
@@ -69,4 +73,11 @@ app.listen(PORT, () => {
   console.log(`Backend server running on port ${PORT}`);
   console.log(`CORS enabled for: ${allowedOrigins.join(', ')}`);
   console.log(`Excel file path: ${process.env.EXCEL_FILE_PATH || 'NOT CONFIGURED'}`);
+
+  // Re-parse the portfolio files as soon as they change
+  watchPortfolioFiles();
+
+  // Capture a snapshot on startup and then hourly so history has a point for every trading day
+  captureSnapshot();
+  setInterval(captureSnapshot, 60 * 60 * 1000).unref();
 });
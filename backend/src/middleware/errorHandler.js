@@ -38,8 +38,18 @@ export const errorHandler = (err, req, res, next) => {
     if (err.symbol) {
       errorResponse.symbol = err.symbol;
     }
-  } else if (err.message.includes('Excel file')) {
-    // Excel parsing errors
+  } else if (
+    err.message.includes('Excel file') ||
+    err.message.includes('Transactions file') ||
+    err.message.includes('Corporate actions file') ||
+    err.message.includes('Broker file') ||
+    err.message.includes('Mapping profiles file') ||
+    err.message.includes('Symbol aliases file') ||
+    err.message.includes('Portfolios file') ||
+    err.message.includes('grandfathering prices file')
+  ) {
+    // Excel, ledger, corporate actions, broker export, mapping profile, symbol alias,
+    // portfolio list and grandfathering price parsing errors
     statusCode = 400; // Bad Request
     errorResponse.error = 'DataParsingError';
   } else if (err.message.includes('not found')) {
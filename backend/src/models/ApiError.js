@@ -12,6 +12,7 @@ export function createApiError(data) {
     source: data.source || 'system',
     message: data.message || 'An unknown error occurred',
     symbol: data.symbol || undefined,
+    ...(data.row !== undefined && { row: data.row }), // Sheet row of Excel/CSV parsing errors
     timestamp: data.timestamp || new Date()
   };
 }
@@ -23,10 +24,10 @@ export function createApiError(data) {
  */
 export function validateApiError(error) {
   const errors = [];
-  const validSources = ['yahoo', 'google', 'system'];
+  const validSources = ['yahoo', 'google', 'bhavcopy', 'amfi', 'system', 'excel'];
 
   if (!error.source || !validSources.includes(error.source)) {
-    errors.push('Invalid source: must be one of yahoo, google, or system');
+    errors.push('Invalid source: must be one of yahoo, google, bhavcopy, amfi, system, or excel');
   }
 
   if (!error.message || typeof error.message !== 'string') {
@@ -86,3 +87,19 @@ export function createSystemError(message) {
     message
   });
 }
+
+/**
+ * Creates an Excel/CSV parsing error for a sheet row
+ * @param {string} message - Error message
+ * @param {number} row - 1-based sheet row, counting the header
+ * @param {string} symbol - Stock symbol (optional)
+ * @returns {Object} An ApiError object
+ */
+export function createExcelError(message, row, symbol) {
+  return createApiError({
+    source: 'excel',
+    message,
+    symbol,
+    row
+  });
+}
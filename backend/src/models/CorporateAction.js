@@ -0,0 +1,116 @@
+/**
+ * CorporateAction model factory and validators
+ */
+
+import { toIsoDate } from '../utils/dateUtils.js';
+
+export const CORPORATE_ACTION_TYPES = ['split', 'bonus', 'rights', 'demerger'];
+
+const RATIO_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*[:/]\s*(\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Parses a ratio written as "new:held" (e.g. "5:1" or "1/2")
+ * @param {string|number} value - The ratio
+ * @returns {Array|null} [new, held] as numbers, or null if it cannot be parsed
+ */
+export function parseRatio(value) {
+  const match = String(value ?? '').match(RATIO_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return [Number(match[1]), Number(match[2])];
+}
+
+/**
+ * Creates a new CorporateAction object
+ * Ratios are "new:held": a 5:1 split turns 1 share into 5, a 1:1 bonus adds one
+ * share per share held, a 1:5 rights issue offers one share per five held, and a
+ * 1:1 demerger allots one share of the new company per share held
+ * @param {Object} data - The corporate action data
+ * @returns {Object} A CorporateAction object
+ */
+export function createCorporateAction(data) {
+  const [ratioNew, ratioHeld] = parseRatio(data.ratio) || [0, 0];
+
+  return {
+    id: data.id || generateId(),
+    type: String(data.type || '').trim().toLowerCase(),
+    particulars: data.particulars || '',
+    nseCode: data.nseCode || '',
+    bseCode: data.bseCode || null,
+    exDate: toIsoDate(data.exDate),
+    ratioNew,
+    ratioHeld,
+    price: Number(data.price) || 0, // Rights issue price per share
+    costAllocation: Number(data.costAllocation) || 0, // Demerger: % of cost moved to the new company
+    newParticulars: data.newParticulars || '',
+    newNseCode: data.newNseCode || '',
+    newBseCode: data.newBseCode || null
+  };
+}
+
+/**
+ * Validates a CorporateAction object
+ * @param {Object} action - The corporate action to validate
+ * @returns {Object} Validation result with isValid and errors
+ */
+export function validateCorporateAction(action) {
+  const errors = [];
+
+  if (!CORPORATE_ACTION_TYPES.includes(action.type)) {
+    errors.push(`Invalid type: must be one of ${CORPORATE_ACTION_TYPES.join(', ')}`);
+  }
+
+  if (!action.exDate || typeof action.exDate !== 'string') {
+    errors.push('Invalid or missing ex-date');
+  }
+
+  if (!action.nseCode && !action.bseCode) {
+    errors.push('Invalid or missing NSE/BSE code');
+  }
+
+  if (!(action.ratioNew > 0) || !(action.ratioHeld > 0)) {
+    errors.push('Invalid ratio: must be "new:held" with positive numbers');
+  }
+
+  if (action.type === 'rights' && !(action.price > 0)) {
+    errors.push('Invalid price: rights issues need a positive issue price');
+  }
+
+  if (action.type === 'demerger') {
+    if (!action.newNseCode && !action.newBseCode) {
+      errors.push('Invalid or missing NSE/BSE code of the demerged company');
+    }
+    if (!(action.costAllocation > 0) || action.costAllocation >= 100) {
+      errors.push('Invalid cost allocation: must be a percentage between 0 and 100');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Sorts corporate actions by ex-date, keeping file order for the same date
+ * @param {Array} actions - Array of corporate actions
+ * @returns {Array} New array sorted by ex-date
+ */
+export function sortCorporateActions(actions) {
+  return actions
+    .map((action, index) => ({ action, index }))
+    .sort((a, b) => {
+      if (a.action.exDate === b.action.exDate) return a.index - b.index;
+      return a.action.exDate < b.action.exDate ? -1 : 1;
+    })
+    .map(({ action }) => action);
+}
+
+/**
+ * Generates a unique ID for a corporate action
+ * @returns {string} A unique identifier
+ */
+function generateId() {
+  return `ca_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
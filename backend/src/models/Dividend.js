@@ -0,0 +1,92 @@
+/**
+ * Dividend model factory and validators
+ */
+
+import { toIsoDate } from '../utils/dateUtils.js';
+import { parseSheetNumber } from '../utils/portfolioSheet.js';
+
+export const DIVIDEND_SOURCES = ['manual', 'import'];
+
+// Amounts may be written with thousands separators or a currency symbol ("1,250.00", "₹785")
+const toAmount = value => Number(parseSheetNumber(value)) || 0;
+
+/**
+ * Creates a new Dividend object
+ * The gross amount defaults to amount per share × quantity when not given
+ * @param {Object} data - The dividend data
+ * @returns {Object} A Dividend object
+ */
+export function createDividend(data) {
+  const amountPerShare = toAmount(data.amountPerShare);
+  const quantity = toAmount(data.quantity);
+  const amount = toAmount(data.amount) || amountPerShare * quantity;
+  const tds = toAmount(data.tds);
+
+  return {
+    id: data.id || generateId(),
+    particulars: data.particulars || '',
+    nseCode: data.nseCode ? String(data.nseCode).trim().toUpperCase() : '',
+    bseCode: data.bseCode ? String(data.bseCode).trim() : null,
+    exDate: toIsoDate(data.exDate),
+    paymentDate: toIsoDate(data.paymentDate),
+    amountPerShare,
+    quantity,
+    amount, // Gross dividend
+    tds, // Tax deducted at source
+    netAmount: amount - tds,
+    source: DIVIDEND_SOURCES.includes(data.source) ? data.source : 'manual'
+  };
+}
+
+/**
+ * Validates a Dividend object
+ * @param {Object} dividend - The dividend to validate
+ * @returns {Object} Validation result with isValid and errors
+ */
+export function validateDividend(dividend) {
+  const errors = [];
+
+  if (!dividend.paymentDate || typeof dividend.paymentDate !== 'string') {
+    errors.push('Invalid or missing payment date');
+  }
+
+  if (!dividend.nseCode && !dividend.bseCode) {
+    errors.push('Invalid or missing NSE/BSE code');
+  }
+
+  if (typeof dividend.amount !== 'number' || dividend.amount <= 0) {
+    errors.push('Invalid amount: give a positive amount, or amount per share and quantity');
+  }
+
+  if (typeof dividend.tds !== 'number' || dividend.tds < 0 || dividend.tds > dividend.amount) {
+    errors.push('Invalid TDS: must be between zero and the gross amount');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Sorts dividends by payment date, keeping entry order for the same date
+ * @param {Array} dividends - Array of dividends
+ * @returns {Array} New array sorted by payment date
+ */
+export function sortDividends(dividends) {
+  return dividends
+    .map((dividend, index) => ({ dividend, index }))
+    .sort((a, b) => {
+      if (a.dividend.paymentDate === b.dividend.paymentDate) return a.index - b.index;
+      return a.dividend.paymentDate < b.dividend.paymentDate ? -1 : 1;
+    })
+    .map(({ dividend }) => dividend);
+}
+
+/**
+ * Generates a unique ID for a dividend
+ * @returns {string} A unique identifier
+ */
+function generateId() {
+  return `div_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -2,6 +2,8 @@
  * ExcelRow model validators
  */
 
+import { INSTRUMENT_TYPES, parseInstrumentType } from './Holding.js';
+
 /**
  * Validates an Excel row
  * @param {Object} row - The Excel row to validate
@@ -30,6 +32,11 @@ export function validateExcelRow(row) {
     errors.push('Invalid or missing Sector');
   }
 
+  // Type is optional; rows without one are equities unless the code names a fund (MF:120465)
+  if (row.Type !== undefined && row.Type !== null && !parseInstrumentType(row.Type)) {
+    errors.push(`Invalid Type: must be one of ${INSTRUMENT_TYPES.join(', ')}`);
+  }
+
   return {
     isValid: errors.length === 0,
     errors
@@ -83,6 +90,7 @@ export function normalizeExcelRow(row) {
     'Purchase Price': Number(row['Purchase Price']) || 0,
     Qty: Number(row.Qty) || 0,
     'NSE/BSE': String(row['NSE/BSE'] || '').trim(),
-    Sector: String(row.Sector || '').trim()
+    Sector: String(row.Sector || '').trim(),
+    ...(row.Type && { Type: String(row.Type).trim() })
   };
 }
@@ -2,6 +2,20 @@
  * Holding model factory and validators
  */
 
+import { valueLots } from '../utils/lotCalculations.js';
+
+// Kinds of instrument a holding can be; mutual funds are priced by NAV and keyed by AMFI scheme code
+export const INSTRUMENT_TYPES = ['equity', 'mutual_fund', 'etf', 'bond', 'gold'];
+
+// Names a portfolio sheet or broker file may use for each instrument type
+const INSTRUMENT_TYPE_ALIASES = {
+  equity: ['equity', 'equities', 'stock', 'stocks', 'share', 'shares', 'eq'],
+  mutual_fund: ['mutual fund', 'mutual funds', 'mutual_fund', 'mf', 'fund'],
+  etf: ['etf', 'etfs', 'exchange traded fund'],
+  bond: ['bond', 'bonds', 'debenture', 'ncd', 'gsec', 'g-sec'],
+  gold: ['gold', 'sgb', 'sovereign gold bond', 'gold bond']
+};
+
 /**
  * Creates a new Holding object
  * @param {Object} data - The holding data
@@ -9,7 +23,8 @@
  */
 export function createHolding(data) {
   const holding = {
-    id: data.id || generateId(),
+    // Derived from the ISIN (or exchange code) so the same holding keeps its id across reloads
+    id: data.id || getHoldingIdentity(data) || generateId(),
     particulars: data.particulars || '',
     purchasePrice: Number(data.purchasePrice) || 0,
     quantity: Number(data.quantity) || 0,
@@ -17,10 +32,29 @@ export function createHolding(data) {
     portfolioPercentage: 0, // Will be calculated
     nseCode: data.nseCode || '',
     bseCode: data.bseCode || null,
+    isin: data.isin || null, // Canonical identity; from the security master or symbol aliases
+    previousCodes: data.previousCodes || [], // Old codes the symbol alias table mapped to this holding
+    instrumentType: data.instrumentType || 'equity',
+    schemeCode: data.schemeCode ? String(data.schemeCode) : null, // AMFI scheme code of a mutual fund
+    schemeCategory: data.schemeCategory || null, // AMFI scheme category, e.g. 'Equity Scheme - Large Cap Fund'
     cmp: Number(data.cmp) || 0,
+    previousClose: data.previousClose ? Number(data.previousClose) : null, // Last session's close
+    priceProvider: data.priceProvider || null, // Market data provider that supplied cmp (e.g. 'yahoo')
+    dayChange: 0, // Will be calculated
+    dayChangePercent: 0, // Will be calculated
     presentValue: 0, // Will be calculated
     gainLoss: 0, // Will be calculated
     gainLossPercentage: 0, // Will be calculated
+    realizedGain: Number(data.realizedGain) || 0, // From FIFO-matched sells in the ledger
+    unrealizedGain: 0, // Will be calculated
+    lots: data.lots || [], // Open FIFO lots from the ledger
+    realizedLots: data.realizedLots || [], // Sells matched against lots (FIFO)
+    adjustments: data.adjustments || [], // Corporate action audit trail, oldest first
+    dividends: data.dividends || [], // Dividends paid, from the dividend ledger
+    dividendsReceived: Number(data.dividendsReceived) || 0, // Gross dividends paid to date
+    dividendYieldOnCost: Number(data.dividendYieldOnCost) || 0, // Trailing 12-month dividends / investment (%)
+    xirr: null, // Annualized money-weighted return (%), calculated from the ledger
+    twr: null, // Cumulative time-weighted return (%), calculated from the ledger
     peRatio: data.peRatio !== undefined ? Number(data.peRatio) : null,
     latestEarnings: data.latestEarnings || null,
     sector: data.sector || '',
@@ -34,10 +68,30 @@ export function createHolding(data) {
   holding.gainLossPercentage = holding.investment !== 0 
     ? (holding.gainLoss / holding.investment) * 100 
     : 0;
+  holding.unrealizedGain = holding.gainLoss;
+  Object.assign(holding, calculateDayChange(holding.cmp, holding.previousClose, holding.quantity));
 
   return holding;
 }
 
+/**
+ * Calculates today's change of a position from the previous close
+ * @param {number} cmp - Current market price
+ * @param {number|null} previousClose - Previous session's close
+ * @param {number} quantity - Quantity held
+ * @returns {Object} dayChange (amount) and dayChangePercent, zero without a previous close
+ */
+export function calculateDayChange(cmp, previousClose, quantity) {
+  if (!previousClose || !cmp) {
+    return { dayChange: 0, dayChangePercent: 0 };
+  }
+
+  return {
+    dayChange: (cmp - previousClose) * quantity,
+    dayChangePercent: ((cmp - previousClose) / previousClose) * 100
+  };
+}
+
 /**
  * Validates a Holding object
  * @param {Object} holding - The holding to validate
@@ -62,10 +116,22 @@ export function validateHolding(holding) {
     errors.push('Invalid quantity: must be a non-negative number');
   }
 
-  if (!holding.nseCode || typeof holding.nseCode !== 'string') {
+  if (!INSTRUMENT_TYPES.includes(holding.instrumentType)) {
+    errors.push(`Invalid instrumentType: must be one of ${INSTRUMENT_TYPES.join(', ')}`);
+  }
+
+  if (holding.instrumentType === 'mutual_fund') {
+    if (!holding.schemeCode || typeof holding.schemeCode !== 'string') {
+      errors.push('Invalid or missing schemeCode');
+    }
+  } else if (!holding.nseCode || typeof holding.nseCode !== 'string') {
     errors.push('Invalid or missing nseCode');
   }
 
+  if (holding.isin && !/^[A-Z]{2}[A-Z0-9]{9}\d$/.test(holding.isin)) {
+    errors.push('Invalid isin: must be a 12 character ISIN');
+  }
+
   if (typeof holding.cmp !== 'number' || holding.cmp < 0) {
     errors.push('Invalid cmp: must be a non-negative number');
   }
@@ -82,12 +148,45 @@ export function validateHolding(holding) {
     errors.push('Invalid latestEarnings: must be a string or null');
   }
 
+  if (typeof holding.realizedGain !== 'number') {
+    errors.push('Invalid realizedGain: must be a number');
+  }
+
+  if (!Array.isArray(holding.lots)) {
+    errors.push('Invalid lots: must be an array');
+  }
+
   return {
     isValid: errors.length === 0,
     errors
   };
 }
 
+/**
+ * Reads an instrument type from a sheet or broker label ("Mutual Fund", "MF", "SGB", "ETF")
+ * @param {string} value - Label
+ * @returns {string|null} One of INSTRUMENT_TYPES, or null for a blank or unknown label
+ */
+export function parseInstrumentType(value) {
+  const label = String(value ?? '').trim().toLowerCase();
+  if (!label) return null;
+
+  return INSTRUMENT_TYPES.find(type => type === label || INSTRUMENT_TYPE_ALIASES[type].includes(label)) || null;
+}
+
+/**
+ * Canonical identity of a holding: its ISIN, or its exchange code while the ISIN isn't known
+ * @param {Object} holding - Holding or holding data
+ * @returns {string|null} ISIN, MF:<scheme code>, NSE:<symbol> or BSE:<scrip code>; null without any code
+ */
+export function getHoldingIdentity(holding) {
+  if (holding.isin) return String(holding.isin).toUpperCase();
+  if (holding.schemeCode) return `MF:${holding.schemeCode}`;
+  if (holding.nseCode) return `NSE:${String(holding.nseCode).trim().toUpperCase()}`;
+  if (holding.bseCode) return `BSE:${String(holding.bseCode).trim()}`;
+  return null;
+}
+
 /**
  * Generates a unique ID for a holding
  * @returns {string} A unique identifier
@@ -110,6 +209,8 @@ export function updateHoldingMetrics(holding, cmp) {
   updated.gainLossPercentage = updated.investment !== 0 
     ? (updated.gainLoss / updated.investment) * 100 
     : 0;
+  updated.unrealizedGain = updated.gainLoss;
+  updated.lots = valueLots(updated.lots || [], cmp);
   updated.lastUpdated = new Date();
   
   return updated;
@@ -0,0 +1,98 @@
+/**
+ * MappingProfile model factory and validators
+ *
+ * A mapping profile describes one portfolio sheet layout:
+ * - columns: header aliases per field; a header matches when it contains an alias
+ * - sheet: sheet index or name
+ * - sectorRows: how sector header rows are recognized
+ *   'keywords' - name-only rows containing one of the keywords ("Financial Sector")
+ *   'nameOnly' - any row with a name and nothing else
+ *   'none'     - no sector rows; sectors come from the Sector column
+ * - numberFormat: decimal and thousands separators and currency symbols to ignore
+ */
+
+export const SECTOR_ROW_MODES = ['keywords', 'nameOnly', 'none'];
+
+// Fields every profile must give aliases for
+const REQUIRED_FIELDS = ['particulars', 'purchasePrice', 'quantity', 'stockCode'];
+const OPTIONAL_FIELDS = ['number', 'pe', 'earnings', 'sector', 'instrumentType'];
+
+/**
+ * Creates a MappingProfile object, filling in the standard sheet's conventions
+ * @param {Object} data - The profile data
+ * @returns {Object} A MappingProfile object
+ */
+export function createMappingProfile(data) {
+  const sectorRows = data.sectorRows || {};
+  const numberFormat = data.numberFormat || {};
+
+  return {
+    id: data.id ? String(data.id).trim() : '',
+    name: data.name || data.id || '',
+    sheet: data.sheet ?? 0,
+    columns: data.columns || {},
+    sectorRows: {
+      mode: sectorRows.mode || 'keywords',
+      keywords: sectorRows.keywords || ['Sector', 'Total'],
+      strip: sectorRows.strip || sectorRows.keywords || ['Sector', 'Total'],
+      defaultSector: sectorRows.defaultSector || 'Uncategorized'
+    },
+    numberFormat: {
+      decimalSeparator: numberFormat.decimalSeparator || '.',
+      thousandsSeparator: numberFormat.thousandsSeparator ?? ',',
+      currencySymbols: numberFormat.currencySymbols || ['₹', 'Rs.', 'INR']
+    }
+  };
+}
+
+/**
+ * Validates a MappingProfile object
+ * @param {Object} profile - The profile to validate
+ * @returns {Object} Validation result with isValid and errors
+ */
+export function validateMappingProfile(profile) {
+  const errors = [];
+
+  if (!profile.id || !/^[a-z0-9][a-z0-9-]*$/i.test(profile.id)) {
+    errors.push('Invalid or missing id: use letters, digits and dashes');
+  }
+
+  if (!(Number.isInteger(profile.sheet) && profile.sheet >= 0) && !(typeof profile.sheet === 'string' && profile.sheet.trim())) {
+    errors.push('Invalid sheet: must be a sheet index or name');
+  }
+
+  if (!profile.columns || typeof profile.columns !== 'object' || Array.isArray(profile.columns)) {
+    errors.push('Invalid columns: must map fields to header aliases');
+  } else {
+    Object.entries(profile.columns).forEach(([field, aliases]) => {
+      if (![...REQUIRED_FIELDS, ...OPTIONAL_FIELDS].includes(field)) {
+        errors.push(`Invalid column field: ${field}`);
+      } else if (!Array.isArray(aliases) || aliases.some(alias => typeof alias !== 'string' || !alias.trim())) {
+        errors.push(`Invalid aliases for ${field}: must be an array of header names`);
+      }
+    });
+    REQUIRED_FIELDS
+      .filter(field => !Array.isArray(profile.columns[field]) || profile.columns[field].length === 0)
+      .forEach(field => errors.push(`Missing aliases for ${field}`));
+  }
+
+  if (!SECTOR_ROW_MODES.includes(profile.sectorRows.mode)) {
+    errors.push(`Invalid sector row mode: must be one of ${SECTOR_ROW_MODES.join(', ')}`);
+  }
+  if (profile.sectorRows.mode === 'keywords' && profile.sectorRows.keywords.length === 0) {
+    errors.push('Invalid sector row keywords: keywords mode needs at least one');
+  }
+
+  const { decimalSeparator, thousandsSeparator } = profile.numberFormat;
+  if (typeof decimalSeparator !== 'string' || decimalSeparator.length !== 1) {
+    errors.push('Invalid decimal separator: must be one character');
+  }
+  if (typeof thousandsSeparator !== 'string' || thousandsSeparator.length > 1 || thousandsSeparator === decimalSeparator) {
+    errors.push('Invalid thousands separator: must be one character (or empty) other than the decimal separator');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Portfolio model factory and validators
+ *
+ * A portfolio is one sheet of a workbook (or a whole file) served on its own:
+ * - id: used in /api/portfolios/:id; 'household' is reserved for the combined view
+ * - name: display name for the switcher
+ * - filePath: workbook to read
+ * - sheet: sheet index or name, or null for the mapping profile's sheet
+ * - profile: mapping profile id, or 'auto'
+ * - mapping: column mapping overrides (committed uploads)
+ */
+
+export const HOUSEHOLD_PORTFOLIO_ID = 'household';
+
+/**
+ * Turns a sheet or file name into a portfolio id ("Family HUF" -> "family-huf")
+ * @param {string} name - Sheet or file name
+ * @returns {string} Lower-case id of letters, digits and dashes
+ */
+export function toPortfolioId(name) {
+  return String(name ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Creates a Portfolio object
+ * @param {Object} data - The portfolio data
+ * @returns {Object} A Portfolio object
+ */
+export function createPortfolio(data) {
+  const name = data.name ? String(data.name).trim() : '';
+
+  return {
+    id: data.id ? String(data.id).trim() : toPortfolioId(name),
+    name: name || (data.id ? String(data.id).trim() : ''),
+    filePath: data.filePath || '',
+    sheet: data.sheet ?? null,
+    profile: data.profile || 'auto',
+    mapping: data.mapping || null
+  };
+}
+
+/**
+ * Validates a Portfolio object
+ * @param {Object} portfolio - The portfolio to validate
+ * @returns {Object} Validation result with isValid and errors
+ */
+export function validatePortfolio(portfolio) {
+  const errors = [];
+
+  if (!portfolio.id || !/^[a-z0-9][a-z0-9-]*$/i.test(portfolio.id)) {
+    errors.push('Invalid or missing id: use letters, digits and dashes');
+  } else if (portfolio.id.toLowerCase() === HOUSEHOLD_PORTFOLIO_ID) {
+    errors.push(`Invalid id: ${HOUSEHOLD_PORTFOLIO_ID} is reserved for the combined view`);
+  }
+
+  if (!portfolio.name) {
+    errors.push('Missing name');
+  }
+
+  if (!portfolio.filePath || typeof portfolio.filePath !== 'string') {
+    errors.push('Missing file');
+  }
+
+  if (portfolio.sheet !== null &&
+    !(Number.isInteger(portfolio.sheet) && portfolio.sheet >= 0) &&
+    !(typeof portfolio.sheet === 'string' && portfolio.sheet.trim())) {
+    errors.push('Invalid sheet: must be a sheet index or name');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -2,6 +2,8 @@
  * SectorSummary model factory and validators
  */
 
+import { calculateDayChangeTotals, calculateDividendTotals } from '../utils/portfolioCalculations.js';
+
 /**
  * Creates a SectorSummary from an array of holdings
  * @param {string} sector - The sector name
@@ -22,6 +24,8 @@ export function createSectorSummary(sector, holdings) {
     totalPresentValue,
     totalGainLoss,
     gainLossPercentage,
+    ...calculateDayChangeTotals(holdings),
+    ...calculateDividendTotals(holdings),
     holdingsCount: holdings.length
   };
 }
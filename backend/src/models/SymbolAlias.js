@@ -0,0 +1,69 @@
+/**
+ * SymbolAlias model factory and validators
+ *
+ * A symbol alias points a code a security used to trade under at the code it trades under now:
+ * - rename    - the company changed its ticker (ZOMATO -> ETERNAL)
+ * - merger    - the listing continues under the surviving company's code
+ * - migration - the security moved exchange (a BSE-only scrip code -> its NSE symbol)
+ * Codes are NSE symbols or BSE scrip codes; an optional ISIN names the security when the
+ * security master doesn't know the old code any more.
+ */
+
+import { toIsoDate } from '../utils/dateUtils.js';
+
+export const SYMBOL_ALIAS_TYPES = ['rename', 'merger', 'migration'];
+
+const ISIN_PATTERN = /^IN[A-Z0-9]{9}\d$/;
+
+const toCode = value => String(value ?? '').trim().toUpperCase();
+
+/**
+ * Creates a SymbolAlias object
+ * @param {Object} data - The alias data
+ * @returns {Object} A SymbolAlias object of { from, to, type, date, isin }
+ */
+export function createSymbolAlias(data) {
+  return {
+    from: toCode(data.from),
+    to: toCode(data.to),
+    type: String(data.type || 'rename').trim().toLowerCase(),
+    date: data.date ? toIsoDate(data.date) || String(data.date) : null, // Date the new code took effect
+    isin: data.isin ? toCode(data.isin) : null
+  };
+}
+
+/**
+ * Validates a SymbolAlias object
+ * @param {Object} alias - The alias to validate
+ * @returns {Object} Validation result with isValid and errors
+ */
+export function validateSymbolAlias(alias) {
+  const errors = [];
+
+  if (!alias.from) {
+    errors.push('Invalid or missing from code');
+  }
+
+  if (!alias.to) {
+    errors.push('Invalid or missing to code');
+  } else if (alias.to === alias.from) {
+    errors.push('Invalid to code: must differ from the from code');
+  }
+
+  if (!SYMBOL_ALIAS_TYPES.includes(alias.type)) {
+    errors.push(`Invalid type: must be one of ${SYMBOL_ALIAS_TYPES.join(', ')}`);
+  }
+
+  if (alias.date !== null && !/^\d{4}-\d{2}-\d{2}$/.test(alias.date || '')) {
+    errors.push('Invalid date: use YYYY-MM-DD');
+  }
+
+  if (alias.isin !== null && !ISIN_PATTERN.test(alias.isin)) {
+    errors.push('Invalid isin: must be a 12 character Indian ISIN');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
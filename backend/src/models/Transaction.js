@@ -0,0 +1,99 @@
+/**
+ * Transaction model factory and validators
+ */
+
+import { toIsoDate } from '../utils/dateUtils.js';
+
+export const TRANSACTION_TYPES = ['buy', 'sell'];
+
+/**
+ * Creates a new Transaction object
+ * @param {Object} data - The transaction data
+ * @returns {Object} A Transaction object
+ */
+export function createTransaction(data) {
+  const transaction = {
+    id: data.id || generateId(),
+    particulars: data.particulars || '',
+    nseCode: data.nseCode || '',
+    bseCode: data.bseCode || null,
+    sector: data.sector || '',
+    type: String(data.type || '').trim().toLowerCase(),
+    date: toIsoDate(data.date),
+    price: Number(data.price) || 0,
+    quantity: Number(data.quantity) || 0,
+    charges: Number(data.charges) || 0,
+    amount: 0, // Will be calculated
+    netAmount: 0 // Will be calculated
+  };
+
+  // Calculate derived fields
+  // Charges add to the cost of a buy and reduce the proceeds of a sell
+  transaction.amount = transaction.price * transaction.quantity;
+  transaction.netAmount = transaction.type === 'sell'
+    ? transaction.amount - transaction.charges
+    : transaction.amount + transaction.charges;
+
+  return transaction;
+}
+
+/**
+ * Validates a Transaction object
+ * @param {Object} transaction - The transaction to validate
+ * @returns {Object} Validation result with isValid and errors
+ */
+export function validateTransaction(transaction) {
+  const errors = [];
+
+  if (!TRANSACTION_TYPES.includes(transaction.type)) {
+    errors.push('Invalid type: must be one of buy or sell');
+  }
+
+  if (!transaction.date || typeof transaction.date !== 'string') {
+    errors.push('Invalid or missing date');
+  }
+
+  if (!transaction.nseCode && !transaction.bseCode) {
+    errors.push('Invalid or missing NSE/BSE code');
+  }
+
+  if (typeof transaction.price !== 'number' || transaction.price < 0) {
+    errors.push('Invalid price: must be a non-negative number');
+  }
+
+  if (typeof transaction.quantity !== 'number' || transaction.quantity <= 0) {
+    errors.push('Invalid quantity: must be a positive number');
+  }
+
+  if (typeof transaction.charges !== 'number' || transaction.charges < 0) {
+    errors.push('Invalid charges: must be a non-negative number');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Sorts transactions chronologically, keeping file order for same-day entries
+ * @param {Array} transactions - Array of transactions
+ * @returns {Array} New array sorted by date
+ */
+export function sortTransactions(transactions) {
+  return transactions
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) => {
+      if (a.transaction.date === b.transaction.date) return a.index - b.index;
+      return a.transaction.date < b.transaction.date ? -1 : 1;
+    })
+    .map(({ transaction }) => transaction);
+}
+
+/**
+ * Generates a unique ID for a transaction
+ * @returns {string} A unique identifier
+ */
+function generateId() {
+  return `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
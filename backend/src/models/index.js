@@ -3,6 +3,9 @@
  */
 
 export {
+  INSTRUMENT_TYPES,
+  parseInstrumentType,
+  getHoldingIdentity,
   createHolding,
   validateHolding,
   updateHoldingMetrics,
@@ -20,7 +23,8 @@ export {
   validateApiError,
   createYahooError,
   createGoogleError,
-  createSystemError
+  createSystemError,
+  createExcelError
 } from './ApiError.js';
 
 export {
@@ -28,3 +32,44 @@ export {
   validateExcelRows,
   normalizeExcelRow
 } from './ExcelRow.js';
+
+export {
+  TRANSACTION_TYPES,
+  createTransaction,
+  validateTransaction,
+  sortTransactions
+} from './Transaction.js';
+
+export {
+  CORPORATE_ACTION_TYPES,
+  parseRatio,
+  createCorporateAction,
+  validateCorporateAction,
+  sortCorporateActions
+} from './CorporateAction.js';
+
+export {
+  DIVIDEND_SOURCES,
+  createDividend,
+  validateDividend,
+  sortDividends
+} from './Dividend.js';
+
+export {
+  SECTOR_ROW_MODES,
+  createMappingProfile,
+  validateMappingProfile
+} from './MappingProfile.js';
+
+export {
+  SYMBOL_ALIAS_TYPES,
+  createSymbolAlias,
+  validateSymbolAlias
+} from './SymbolAlias.js';
+
+export {
+  HOUSEHOLD_PORTFOLIO_ID,
+  toPortfolioId,
+  createPortfolio,
+  validatePortfolio
+} from './Portfolio.js';
@@ -0,0 +1,104 @@
+import express from 'express';
+import { HISTORY_RANGES } from '../services/YahooFinanceService.js';
+import {
+  yahooFinanceService,
+  getBhavcopyService,
+  getSecurityMaster,
+  clearMarketCaches
+} from '../services/marketServices.js';
+
+const router = express.Router();
+
+/**
+ * Resolves a requested symbol to a Yahoo Finance symbol
+ * Bare codes are treated as NSE symbols (INFY -> INFY.NS); indices (^NSEI)
+ * and already suffixed symbols (500209.BO) are passed through
+ * @param {string} symbol - Requested symbol
+ * @returns {string} Yahoo Finance symbol
+ */
+const toYahooSymbol = (symbol) => {
+  const normalized = symbol.trim().toUpperCase();
+  if (normalized.startsWith('^') || normalized.includes('.')) {
+    return normalized;
+  }
+  return `${normalized}.NS`;
+};
+
+/**
+ * GET /api/market/history/:symbol?range=1y&interval=1d&source=yahoo
+ * Historical OHLCV candles for a stock or index
+ * source=bhavcopy reads end-of-day candles from the local bhavcopy files instead of Yahoo
+ */
+router.get('/history/:symbol', async (req, res, next) => {
+  try {
+    const symbol = toYahooSymbol(req.params.symbol);
+    const range = req.query.range || '1mo';
+    const source = req.query.source || 'yahoo';
+
+    let interval;
+    let candles;
+    if (source === 'bhavcopy') {
+      interval = req.query.interval || '1d';
+      candles = await getBhavcopyService().getHistory(symbol, range, interval);
+    } else if (source === 'yahoo') {
+      interval = req.query.interval || HISTORY_RANGES[range]?.interval;
+      candles = await yahooFinanceService.getHistoricalPrices(symbol, range, interval);
+    } else {
+      throw new Error(`Invalid source: ${source} (expected yahoo or bhavcopy)`);
+    }
+
+    res.json({
+      symbol,
+      range,
+      interval,
+      source,
+      candles,
+      lastUpdated: new Date().toISOString()
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/market/securities?q=tata&limit=10
+ * Searches the security master by name, NSE symbol, BSE code or ISIN
+ */
+router.get('/securities', async (req, res, next) => {
+  try {
+    const query = String(req.query.q || '').trim();
+    if (!query) {
+      throw new Error('Invalid query: q is required');
+    }
+    const limit = Math.min(parseInt(req.query.limit) || 10, 50);
+
+    const master = getSecurityMaster();
+    await master.load();
+
+    res.json({
+      query,
+      securities: master.search(query, limit),
+      ...master.getStats()
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/market/cache/clear
+ * Empties the quote, fundamentals, bhavcopy, NAV and security master caches and resets the
+ * Yahoo rate limit, so the next request fetches and re-reads everything
+ */
+router.post('/cache/clear', (req, res) => {
+  clearMarketCaches();
+
+  res.json({
+    cleared: true,
+    lastUpdated: new Date().toISOString()
+  });
+});
+
+export default router;
@@ -1,122 +1,778 @@
 import express from 'express';
+import path from 'path';
 import PortfolioService from '../services/PortfolioService.js';
-import YahooFinanceService from '../services/YahooFinanceService.js';
-import GoogleFinanceService from '../services/GoogleFinanceService.js';
-import CacheService from '../services/CacheService.js';
+import { SERIES_RANGES } from '../services/YahooFinanceService.js';
+import TaxService from '../services/TaxService.js';
+import SnapshotService from '../services/SnapshotService.js';
+import BenchmarkService from '../services/BenchmarkService.js';
+import DividendService from '../services/DividendService.js';
+import ImportService from '../services/ImportService.js';
+import PortfolioRegistryService from '../services/PortfolioRegistryService.js';
+import FileWatchService from '../services/FileWatchService.js';
+import StatementService from '../services/StatementService.js';
+import MarketDataService, { selectMarketDataProviders } from '../services/MarketDataService.js';
+import {
+  yahooFinanceService,
+  googleFinanceService,
+  getBhavcopyService,
+  getAmfiNavService,
+  getSecurityMaster
+} from '../services/marketServices.js';
+import { HOUSEHOLD_PORTFOLIO_ID } from '../models/Portfolio.js';
+import { createHolding, getHoldingIdentity } from '../models/Holding.js';
+import { createApiError } from '../models/ApiError.js';
+import { todayIsoDate, addMonths } from '../utils/dateUtils.js';
+import { calculatePortfolioTotals } from '../utils/portfolioCalculations.js';
+import { summarizeSeries, combineSeries } from '../utils/seriesCalculations.js';
+import { parseBenchmarkList, parseSectorBenchmarks } from '../utils/benchmarks.js';
+import { groupDividendsByMonth } from '../utils/dividendCalculations.js';
+import { diffHoldings } from '../utils/holdingDiff.js';
+import { PORTFOLIO_COLUMNS } from '../utils/portfolioSheet.js';
+import {
+  HOLDING_EXPORT_COLUMNS,
+  SECTOR_EXPORT_COLUMNS,
+  selectExportColumns,
+  buildExportRecords,
+  toCsv
+} from '../utils/tableExport.js';
 
 const router = express.Router();
 
-// Initialize services
-const cacheService = new CacheService();
-const yahooFinanceService = new YahooFinanceService(cacheService, {
-  cacheTTL: parseInt(process.env.CACHE_TTL_CMP) || 120, // 120 seconds default - reduced API calls
-  maxRetries: 2,
-  initialRetryDelay: 1000
-});
-const googleFinanceService = new GoogleFinanceService(cacheService, {
-  cacheTTL: parseInt(process.env.CACHE_TTL_FINANCIALS) || 3600
-});
+// Initialize services; market data services are shared with the market routes
 const portfolioService = new PortfolioService();
+const taxService = new TaxService();
+const statementService = new StatementService();
+let grandfatheredPricesLoaded = false;
+let mappingProfilesLoaded = false;
+let symbolAliasesLoaded = false;
+let snapshotService = null;
+let marketDataService = null;
+let benchmarkService = null;
+let dividendService = null;
+let importService = null;
+let portfolioRegistry = null;
+let fileWatchService = null;
 
-// Store portfolio data in memory (could be moved to a database later)
-let cachedPortfolioData = null;
-let lastLoadTime = null;
+// Store portfolio data in memory per portfolio id (could be moved to a database later):
+// base holdings, transactions and load time, plus the enriched response to reduce API calls
+const portfolioCaches = new Map();
 
-// Cache for enriched response to reduce API calls
-let cachedEnrichedResponse = null;
-let lastEnrichTime = null;
+// Responses of clients connected to /api/portfolio/events
+const eventClients = new Set();
+const EVENT_KEEP_ALIVE_MS = 25000;
 const ENRICH_CACHE_TTL = 30000; // 30 seconds - balance between freshness and API limits
 
+// Parsed rows returned with an import preview
+const IMPORT_PREVIEW_ROWS = 20;
+const SPREADSHEET_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'text/csv',
+  'application/octet-stream'
+];
+
 /**
- * GET /api/portfolio
- * Fetch complete portfolio data with live prices
+ * Maps parser errors to the ApiError shape so the frontend can categorize them
+ * @param {Array} errors - Row-level errors from a parser
+ * @returns {Array} ApiError objects with source 'excel'
  */
-router.get('/', async (req, res, next) => {
+const toExcelErrors = (errors = []) => errors.map(err => ({
+  ...err,
+  source: 'excel',
+  message: err.error || err.message || 'Excel parsing error'
+}));
+
+/**
+ * Loads MAPPING_PROFILES_PATH into the portfolio service on first use so .env values are loaded
+ * @returns {Promise<void>}
+ */
+async function ensureMappingProfiles() {
+  const profilesFilePath = process.env.MAPPING_PROFILES_PATH;
+  if (profilesFilePath && !mappingProfilesLoaded) {
+    const count = await portfolioService.loadMappingProfiles(profilesFilePath);
+    mappingProfilesLoaded = true;
+    console.log(`Loaded ${count} mapping profiles from ${profilesFilePath}`);
+  }
+}
+
+/**
+ * Loads SYMBOL_ALIASES_PATH into the portfolio service on first use so .env values are loaded
+ * @returns {Promise<void>}
+ */
+async function ensureSymbolAliases() {
+  const aliasesFilePath = process.env.SYMBOL_ALIASES_PATH;
+  if (aliasesFilePath && !symbolAliasesLoaded) {
+    const count = await portfolioService.loadSymbolAliases(aliasesFilePath);
+    symbolAliasesLoaded = true;
+    console.log(`Loaded ${count} symbol aliases from ${aliasesFilePath}`);
+  }
+}
+
+/**
+ * Loads the security master from SECURITY_MASTER_DIR into the portfolio service, created on
+ * first use so .env values are loaded; later calls pick up changed lists
+ * @returns {Promise<void>}
+ */
+async function ensureSecurityMaster() {
+  portfolioService.securityMaster = getSecurityMaster();
+  await portfolioService.securityMaster.load();
+}
+
+/**
+ * The portfolio source: a committed import when there is one, otherwise the Excel file
+ * read with EXCEL_MAPPING_PROFILE (picked automatically when unset)
+ * @param {string} excelFilePath - Path to the portfolio Excel file
+ * @returns {Promise<Object>} { filePath, profile, mapping }
+ */
+async function getPortfolioSource(excelFilePath) {
+  await ensureMappingProfiles();
+  const active = await getImportService().getActive();
+  return active
+    ? { filePath: active.filePath, profile: active.profile, mapping: active.mapping }
+    : { filePath: excelFilePath, profile: process.env.EXCEL_MAPPING_PROFILE };
+}
+
+/**
+ * Lists the portfolios: those in PORTFOLIOS_FILE_PATH when set, otherwise one per sheet of the portfolio source
+ * @param {string} excelFilePath - Path to the portfolio Excel file
+ * @returns {Promise<Array>} Portfolios, the default one first
+ */
+export async function listPortfolios(excelFilePath) {
+  return getPortfolioRegistry().listPortfolios(await getPortfolioSource(excelFilePath));
+}
+
+/**
+ * The default portfolio, served by /api/portfolio
+ * @param {string} excelFilePath - Path to the portfolio Excel file
+ * @returns {Promise<Object>} The first portfolio
+ */
+async function getDefaultPortfolio(excelFilePath) {
+  return (await listPortfolios(excelFilePath))[0];
+}
+
+/**
+ * Loads a portfolio's sheet
+ * @param {Object} portfolio - Portfolio from listPortfolios
+ * @returns {Promise<Object>} See PortfolioService.loadPortfolioFromExcel
+ */
+async function loadPortfolioSheet(portfolio) {
+  await ensureMappingProfiles();
+  await ensureSymbolAliases();
+  await ensureSecurityMaster();
+  return portfolioService.loadPortfolioFromExcel(portfolio.filePath, {
+    profile: portfolio.profile,
+    mapping: portfolio.mapping || undefined,
+    sheet: portfolio.sheet ?? undefined
+  });
+}
+
+/**
+ * The in-memory cache entry of a portfolio, created empty on first use
+ * pendingErrors are parse errors of a background reload, returned with the next response;
+ * reloadError is set while a failed reload leaves the last good holdings in place
+ * @param {string} id - Portfolio id
+ * @returns {Object} { holdings, transactions, loadTime, enriched, enrichTime, pendingErrors, reloadError }
+ */
+function getPortfolioCache(id) {
+  if (!portfolioCaches.has(id)) {
+    portfolioCaches.set(id, {
+      holdings: null,
+      transactions: [],
+      loadTime: null,
+      enriched: null,
+      enrichTime: null,
+      pendingErrors: [],
+      reloadError: null
+    });
+  }
+  return portfolioCaches.get(id);
+}
+
+/**
+ * Loads holdings from a portfolio's sheet, tagged with the portfolio they belong to
+ * Corporate actions from CORPORATE_ACTIONS_FILE_PATH adjust quantity and cost from their ex-date.
+ * The transaction and dividend ledgers belong to the default portfolio only: when
+ * TRANSACTIONS_FILE_PATH is set they derive its quantity and cost, and dividends are
+ * attached to its holdings
+ * Updates the portfolio's in-memory cache
+ * @param {Object} portfolio - Portfolio from listPortfolios
+ * @param {boolean} isDefault - Whether this is the default portfolio
+ * @returns {Promise<Object>} Base holdings and parse errors
+ */
+async function loadBasePortfolio(portfolio, isDefault) {
+  const result = await loadPortfolioSheet(portfolio);
+  let baseHoldings = result.holdings;
+  let transactions = [];
+  const parseErrors = toExcelErrors(result.errors);
+
+  // Log parse summary
+  if (result.invalidRows > 0) {
+    console.log(`Excel parsed with mapping profile ${result.profile.id}: ${result.validRows} valid, ${result.invalidRows} invalid rows`);
+  }
+
+  let corporateActions = [];
+  const corporateActionsFilePath = process.env.CORPORATE_ACTIONS_FILE_PATH;
+  if (corporateActionsFilePath) {
+    const loaded = await portfolioService.loadCorporateActionsFromFile(corporateActionsFilePath);
+    corporateActions = loaded.actions;
+    parseErrors.push(...toExcelErrors(loaded.errors));
+  }
+
+  const transactionsFilePath = process.env.TRANSACTIONS_FILE_PATH;
+  if (transactionsFilePath && isDefault) {
+    // TRANSACTIONS_IMPORTER reads the ledger as a broker tradebook export
+    const ledger = process.env.TRANSACTIONS_IMPORTER
+      ? await portfolioService.loadBrokerFile(transactionsFilePath, process.env.TRANSACTIONS_IMPORTER)
+      : await portfolioService.loadTransactionsFromFile(transactionsFilePath);
+    const applied = portfolioService.applyTransactions(baseHoldings, ledger.transactions, corporateActions);
+    baseHoldings = applied.holdings;
+    transactions = ledger.transactions;
+    parseErrors.push(...toExcelErrors(ledger.errors), ...toExcelErrors(applied.errors));
+  }
+
+  if (corporateActions.length > 0) {
+    baseHoldings = portfolioService.applyCorporateActions(baseHoldings, corporateActions, result.asOfDate);
+    if (!result.asOfDate) {
+      parseErrors.push(createApiError({
+        source: 'excel',
+        message: `Corporate actions were not applied to the ${portfolio.name} sheet: add an "As of" date above its header row`
+      }));
+    }
+  }
+
+  const dividends = isDefault ? await getDividendService().readDividends() : [];
+  if (dividends.length > 0) {
+    baseHoldings = portfolioService.applyDividends(baseHoldings, dividends);
+  }
+
+  baseHoldings = baseHoldings.map(holding => ({ ...holding, portfolioId: portfolio.id, portfolioName: portfolio.name }));
+
+  const cache = getPortfolioCache(portfolio.id);
+  cache.holdings = baseHoldings;
+  cache.transactions = transactions;
+  cache.loadTime = Date.now();
+
+  return { baseHoldings, parseErrors };
+}
+
+/**
+ * Returns the snapshot service, created on first use so .env values are loaded
+ * @returns {SnapshotService}
+ */
+function getSnapshotService() {
+  if (!snapshotService) {
+    snapshotService = new SnapshotService({
+      filePath: process.env.SNAPSHOTS_FILE_PATH || './data/snapshots.jsonl',
+      minIntervalMinutes: parseInt(process.env.SNAPSHOT_INTERVAL_MINUTES) || 60
+    });
+  }
+  return snapshotService;
+}
+
+/**
+ * Returns the market data provider chain, created on first use so .env values are loaded
+ * @returns {MarketDataService}
+ */
+function getMarketDataService() {
+  if (!marketDataService) {
+    // Providers MARKET_DATA_PROVIDERS can list
+    const providers = {
+      yahoo: yahooFinanceService,
+      google: googleFinanceService,
+      bhavcopy: getBhavcopyService(),
+      amfi: getAmfiNavService()
+    };
+    marketDataService = new MarketDataService(
+      selectMarketDataProviders(process.env.MARKET_DATA_PROVIDERS || 'yahoo,google,amfi', providers),
+      {
+        quoteTimeout: parseInt(process.env.MARKET_DATA_QUOTE_TIMEOUT_MS) || 30000,
+        fundamentalsTimeout: parseInt(process.env.MARKET_DATA_FUNDAMENTALS_TIMEOUT_MS) || 5000
+      }
+    );
+  }
+  return marketDataService;
+}
+
+/**
+ * Returns the benchmark service, created on first use so .env values are loaded
+ * @returns {BenchmarkService}
+ */
+function getBenchmarkService() {
+  if (!benchmarkService) {
+    benchmarkService = new BenchmarkService(yahooFinanceService, {
+      benchmarks: parseBenchmarkList(process.env.BENCHMARK_SYMBOLS),
+      sectorBenchmarks: parseSectorBenchmarks(process.env.SECTOR_BENCHMARKS)
+    });
+  }
+  return benchmarkService;
+}
+
+/**
+ * Returns the dividend ledger service, created on first use so .env values are loaded
+ * @returns {DividendService}
+ */
+function getDividendService() {
+  if (!dividendService) {
+    dividendService = new DividendService({
+      filePath: process.env.DIVIDENDS_FILE_PATH || './data/dividends.jsonl'
+    });
+  }
+  return dividendService;
+}
+
+/**
+ * Returns the portfolio import service, created on first use so .env values are loaded
+ * @returns {ImportService}
+ */
+function getImportService() {
+  if (!importService) {
+    importService = new ImportService({
+      directory: process.env.PORTFOLIO_IMPORT_DIR || './data/imports'
+    });
+  }
+  return importService;
+}
+
+/**
+ * Returns the portfolio registry, created on first use so .env values are loaded
+ * @returns {PortfolioRegistryService}
+ */
+function getPortfolioRegistry() {
+  if (!portfolioRegistry) {
+    portfolioRegistry = new PortfolioRegistryService(portfolioService, {
+      configPath: process.env.PORTFOLIOS_FILE_PATH
+    });
+  }
+  return portfolioRegistry;
+}
+
+/**
+ * Returns the portfolio file watcher, created on first use so .env values are loaded
+ * @returns {FileWatchService}
+ */
+function getFileWatchService() {
+  if (!fileWatchService) {
+    fileWatchService = new FileWatchService({
+      debounceMs: parseInt(process.env.PORTFOLIO_WATCH_DEBOUNCE_MS) || 500
+    });
+  }
+  return fileWatchService;
+}
+
+/**
+ * Sends an event to every client connected to /api/portfolio/events
+ * @param {string} event - Event name
+ * @param {Object} data - JSON payload
+ */
+function broadcastEvent(event, data) {
+  const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  eventClients.forEach(client => client.write(message));
+}
+
+/**
+ * The ApiError returned while a portfolio that failed to reload is served from its last good load
+ * @param {Object} portfolio - Portfolio from listPortfolios
+ * @param {Error} error - Why the reload failed
+ * @returns {Object} ApiError with source 'excel'
+ */
+function createReloadError(portfolio, error) {
+  return createApiError({
+    source: 'excel',
+    message: `Could not reload ${portfolio.name}; showing the last version that loaded. ${error.message}`
+  });
+}
+
+/**
+ * Re-parses the portfolios whose files changed, or every portfolio when a ledger changed,
+ * and tells connected clients. A portfolio that fails to parse keeps its last good holdings
+ * and reports the failure with its responses until it loads again
+ * @param {Array<string>} changedPaths - Absolute paths from the file watcher
+ * @returns {Promise<void>}
+ */
+async function reloadChangedFiles(changedPaths) {
+  const changed = new Set(changedPaths);
+  const ledgerChanged = [process.env.TRANSACTIONS_FILE_PATH, process.env.CORPORATE_ACTIONS_FILE_PATH]
+    .filter(Boolean)
+    .some(filePath => changed.has(path.resolve(filePath)));
+
+  let portfolios;
   try {
-    const excelFilePath = process.env.EXCEL_FILE_PATH;
-    
-    if (!excelFilePath) {
-      return res.status(500).json({
-        error: 'EXCEL_FILE_PATH not configured',
-        message: 'Server configuration error: Excel file path not set'
-      });
+    portfolios = await listPortfolios(process.env.EXCEL_FILE_PATH);
+  } catch (error) {
+    console.error('Could not reload the portfolio list:', error.message);
+    broadcastEvent('reload', {
+      reloaded: [],
+      failed: [],
+      lastUpdated: new Date().toISOString(),
+      errors: [createApiError({ source: 'excel', message: `Could not reload the portfolio list. ${error.message}` })]
+    });
+    return;
+  }
+
+  // Sheets that were removed or renamed are no longer served
+  const ids = new Set(portfolios.map(portfolio => portfolio.id));
+  [...portfolioCaches.keys()].filter(id => !ids.has(id)).forEach(id => portfolioCaches.delete(id));
+
+  const reloaded = [];
+  const failed = [];
+  for (const [index, portfolio] of portfolios.entries()) {
+    if (!ledgerChanged && !changed.has(path.resolve(portfolio.filePath))) continue;
+
+    const cache = getPortfolioCache(portfolio.id);
+    try {
+      const { parseErrors } = await loadBasePortfolio(portfolio, index === 0);
+      cache.pendingErrors = parseErrors;
+      cache.reloadError = null;
+      reloaded.push(portfolio.id);
+    } catch (error) {
+      console.error(`Could not reload portfolio ${portfolio.id}:`, error.message);
+      cache.reloadError = createReloadError(portfolio, error);
+      failed.push(portfolio.id);
     }
+    cache.enriched = null;
+    cache.enrichTime = null;
+  }
+
+  console.log(`Portfolio files changed: reloaded ${reloaded.length}, failed ${failed.length}`);
+  broadcastEvent('reload', { reloaded, failed, lastUpdated: new Date().toISOString(), errors: [] });
+}
+
+/**
+ * Watches the portfolio files and the transaction and corporate action ledgers, reloading
+ * portfolios when they change. Called on startup and whenever the portfolio source changes;
+ * PORTFOLIO_WATCH=false turns watching off and brings back the 5 minute reload
+ * @returns {Promise<void>}
+ */
+export async function watchPortfolioFiles() {
+  const excelFilePath = process.env.EXCEL_FILE_PATH;
+  if (!excelFilePath || process.env.PORTFOLIO_WATCH === 'false') return;
+
+  try {
+    const portfolios = await listPortfolios(excelFilePath);
+    const files = [
+      ...portfolios.map(portfolio => portfolio.filePath),
+      process.env.TRANSACTIONS_FILE_PATH,
+      process.env.CORPORATE_ACTIONS_FILE_PATH
+    ].filter(Boolean).map(filePath => path.resolve(filePath));
 
-    // Check if we have a recent cached response (within 15 seconds)
-    const now = Date.now();
-    if (cachedEnrichedResponse && lastEnrichTime && (now - lastEnrichTime < ENRICH_CACHE_TTL)) {
-      // Return cached response with updated timestamp
-      return res.json({
-        ...cachedEnrichedResponse,
+    getFileWatchService().watch([...new Set(files)], reloadChangedFiles, error => {
+      console.error('Portfolio file watch:', error.message);
+      broadcastEvent('reload', {
+        reloaded: [],
+        failed: [],
         lastUpdated: new Date().toISOString(),
-        cached: true
+        errors: [createApiError({ source: 'excel', message: error.message })]
       });
+    });
+    console.log(`Watching ${new Set(files).size} portfolio files for changes`);
+  } catch (error) {
+    console.error('Could not watch the portfolio files:', error.message);
+  }
+}
+
+/**
+ * Parses a pending upload and diffs it against the current portfolio sheet
+ * @param {Object} upload - Pending import from ImportService.stage
+ * @param {Object} options - Optional mapping profile id and column mapping overrides
+ * @returns {Promise<Object>} Preview response body
+ */
+async function buildImportPreview(upload, options = {}) {
+  await ensureMappingProfiles();
+  await ensureSymbolAliases();
+  await ensureSecurityMaster();
+  const parsed = portfolioService.parsePortfolioFile(upload.buffer, options);
+
+  // Without a readable current sheet everything counts as added
+  let currentHoldings = [];
+  if (process.env.EXCEL_FILE_PATH) {
+    try {
+      currentHoldings = (await loadPortfolioSheet(await getDefaultPortfolio(process.env.EXCEL_FILE_PATH))).holdings;
+    } catch (error) {
+      console.error('Import preview could not load the current portfolio:', error.message);
     }
+  }
 
-    // Load portfolio from Excel if not cached or if it's been more than 5 minutes
-    const shouldReload = !cachedPortfolioData || 
-                        !lastLoadTime || 
-                        (now - lastLoadTime > 5 * 60 * 1000);
+  return {
+    importId: upload.id,
+    fileName: upload.fileName,
+    profile: parsed.profile,
+    headers: parsed.headers,
+    headerRow: parsed.headerRow,
+    columns: PORTFOLIO_COLUMNS.map(({ field, label, required }) => ({ field, label, required })),
+    detectedMapping: parsed.detectedMapping,
+    mapping: parsed.mapping,
+    missingColumns: parsed.missingColumns,
+    rows: parsed.rows.slice(0, IMPORT_PREVIEW_ROWS).map(({ row, values }) => ({ row, ...values })),
+    summary: {
+      totalRows: parsed.totalRows,
+      validRows: parsed.holdings.length,
+      invalidRows: parsed.errors.length
+    },
+    diff: diffHoldings(currentHoldings, parsed.holdings),
+    lastUpdated: new Date().toISOString(),
+    errors: toExcelErrors(parsed.errors)
+  };
+}
 
-    let baseHoldings;
-    let parseErrors = [];
+/**
+ * Marks the cached portfolios stale so the next request picks up ledger and source changes
+ * Holdings stay as the last good version in case the reload fails
+ */
+function invalidatePortfolioCache() {
+  portfolioCaches.forEach(cache => {
+    cache.loadTime = null;
+    cache.enriched = null;
+    cache.enrichTime = null;
+  });
+}
 
-    if (shouldReload) {
-      const result = await portfolioService.loadPortfolioFromExcel(excelFilePath);
-      baseHoldings = result.holdings;
-      // Add source to parse errors so frontend can categorize them properly
-      parseErrors = (result.errors || []).map(err => ({
-        ...err,
-        source: 'excel',
-        message: err.error || err.message || 'Excel parsing error'
-      }));
-      cachedPortfolioData = baseHoldings;
-      lastLoadTime = now;
-      
-      // Log parse summary
-      if (result.invalidRows > 0) {
-        console.log(`Excel parsed: ${result.validRows} valid, ${result.invalidRows} invalid rows`);
+/**
+ * Groups enriched holdings by sector with each sector's summary and benchmark index
+ * @param {Array} holdings - Enriched holdings
+ * @returns {Array} Sectors of { sector, holdings, summary }
+ */
+function buildSectors(holdings) {
+  const sectorMap = portfolioService.groupBySector(holdings);
+  const sectors = [];
+
+  for (const [sectorName, sectorHoldings] of sectorMap) {
+    const summary = portfolioService.calculateSectorSummary(sectorHoldings, sectorName);
+    sectors.push({
+      sector: sectorName,
+      holdings: sectorHoldings,
+      summary: { ...summary, benchmark: getBenchmarkService().getSectorBenchmark(sectorName) }
+    });
+  }
+
+  return sectors;
+}
+
+/**
+ * Records a daily snapshot in the background; failures are logged, never thrown
+ * Holdings the snapshot leaves out are reported with the portfolio's next response
+ * @param {Array} holdings - Enriched holdings
+ * @param {string} portfolioId - Id of the portfolio the holdings belong to
+ */
+function recordSnapshot(holdings, portfolioId) {
+  getSnapshotService()
+    .recordSnapshot(holdings)
+    .then(snapshot => {
+      if (snapshot) {
+        console.log(`Recorded portfolio snapshot for ${snapshot.date} (${snapshot.holdings.length} holdings)`);
+        getPortfolioCache(portfolioId).pendingErrors.push(...snapshot.errors);
       }
-    } else {
-      baseHoldings = cachedPortfolioData;
+    })
+    .catch(error => console.error('Failed to record portfolio snapshot:', error.message));
+}
+
+/**
+ * Whether a portfolio's cached Excel data is missing, or older than 5 minutes when the
+ * files are not watched (watched files are reloaded as soon as they change)
+ * @param {Object} cache - Cache entry from getPortfolioCache
+ * @returns {boolean}
+ */
+const shouldReloadPortfolio = cache => !cache.holdings ||
+  !cache.loadTime ||
+  (getFileWatchService().getWatchedFiles().length === 0 && Date.now() - cache.loadTime > 5 * 60 * 1000);
+
+/**
+ * Returns a portfolio's base holdings, loading them from Excel when the cache is missing or stale
+ * A load that fails while earlier holdings are cached keeps serving those, with the failure as an ApiError
+ * @param {Object} portfolio - Portfolio from listPortfolios
+ * @param {boolean} isDefault - Whether this is the default portfolio
+ * @returns {Promise<Object>} Base holdings and the errors to report with them
+ * @throws {Error} If the portfolio has never loaded and cannot be loaded now
+ */
+async function getBasePortfolio(portfolio, isDefault) {
+  const cache = getPortfolioCache(portfolio.id);
+  let baseHoldings = cache.holdings;
+  let parseErrors = [];
+
+  if (shouldReloadPortfolio(cache)) {
+    try {
+      ({ baseHoldings, parseErrors } = await loadBasePortfolio(portfolio, isDefault));
+      cache.reloadError = null;
+    } catch (error) {
+      // Without a previous load there is nothing to fall back to
+      if (!cache.holdings) throw error;
+      console.error(`Could not reload portfolio ${portfolio.id}:`, error.message);
+      cache.reloadError = createReloadError(portfolio, error);
+      cache.loadTime = Date.now();
     }
+  }
 
-    // Enrich with live data
-    const { holdings, errors } = await portfolioService.enrichWithLiveData(
-      baseHoldings,
-      yahooFinanceService,
-      googleFinanceService
-    );
+  const errors = [...(cache.reloadError ? [cache.reloadError] : []), ...parseErrors, ...cache.pendingErrors];
+  cache.pendingErrors = [];
+  return { baseHoldings, parseErrors: errors };
+}
 
-    // Group by sector for response
-    const sectorMap = portfolioService.groupBySector(holdings);
-    const sectors = [];
+/**
+ * Returns a portfolio's holdings enriched with live data, grouped by sector
+ * Serves the enriched response cache when it is fresh (within ENRICH_CACHE_TTL).
+ * Snapshots are recorded for the default portfolio only
+ * @param {string} excelFilePath - Path to the portfolio Excel file
+ * @param {Object} portfolio - Portfolio from listPortfolios, the default one when omitted
+ * @returns {Promise<Object>} holdings, sectors, totals, errors and whether the cache was used
+ */
+async function getEnrichedPortfolio(excelFilePath, portfolio) {
+  const portfolios = await listPortfolios(excelFilePath);
+  const target = portfolio || portfolios[0];
+  const isDefault = target.id === portfolios[0].id;
+  const cache = getPortfolioCache(target.id);
 
-    for (const [sectorName, sectorHoldings] of sectorMap) {
-      const summary = portfolioService.calculateSectorSummary(sectorHoldings, sectorName);
-      sectors.push({
-        sector: sectorName,
-        holdings: sectorHoldings,
-        summary
-      });
+  const now = Date.now();
+  if (cache.enriched && cache.enrichTime && (now - cache.enrichTime < ENRICH_CACHE_TTL)) {
+    return { ...cache.enriched, cached: true };
+  }
+
+  const { baseHoldings, parseErrors } = await getBasePortfolio(target, isDefault);
+
+  // Enrich with live data
+  const { holdings, errors } = await portfolioService.enrichWithLiveData(baseHoldings, getMarketDataService());
+
+  // Group by sector for response
+  const sectors = buildSectors(holdings);
+
+  const totals = calculatePortfolioTotals(holdings);
+
+  // Only cache if we have valid CMP data (at least one holding with CMP > 0)
+  const hasValidCMP = holdings.some(h => h.cmp > 0);
+  if (hasValidCMP) {
+    if (isDefault) {
+      recordSnapshot(holdings, target.id);
     }
+    cache.enriched = {
+      holdings,
+      sectors,
+      totals,
+      errors: [...parseErrors, ...errors]
+    };
+    cache.enrichTime = now;
+  }
+
+  return {
+    holdings,
+    sectors,
+    totals,
+    errors: [...parseErrors, ...errors],
+    cached: false
+  };
+}
+
+/**
+ * Combines every portfolio into the household view
+ * Holdings keep their portfolio tag, so a stock held in two portfolios appears twice, with
+ * the portfolio id in front of its holding id; weights, sectors and totals are recomputed over all of them
+ * @param {string} excelFilePath - Path to the portfolio Excel file
+ * @returns {Promise<Object>} holdings, sectors, totals, errors and whether every portfolio came from cache
+ */
+async function getHouseholdPortfolio(excelFilePath) {
+  const portfolios = await listPortfolios(excelFilePath);
+  const combined = [];
+  const errors = [];
+  let cached = true;
+
+  // One portfolio at a time so shared symbols are served from the price cache
+  for (const portfolio of portfolios) {
+    const result = await getEnrichedPortfolio(excelFilePath, portfolio);
+    combined.push(...result.holdings.map(holding => ({ ...holding, id: `${portfolio.id}/${holding.id}` })));
+    errors.push(...result.errors.map(error => ({ ...error, portfolioId: portfolio.id })));
+    cached = cached && Boolean(result.cached);
+  }
+
+  const holdings = portfolioService.calculatePortfolioPercentages(combined);
+  return {
+    holdings,
+    sectors: buildSectors(holdings),
+    totals: calculatePortfolioTotals(holdings),
+    errors,
+    cached
+  };
+}
+
+/**
+ * A portfolio, or the household view, enriched with live data
+ * @param {string} excelFilePath - Path to the portfolio Excel file
+ * @param {string} id - Portfolio id, or 'household' for every portfolio combined
+ * @returns {Promise<Object>} portfolio ({ id, name }), holdings, sectors, totals, errors and cached
+ * @throws {Error} If no portfolio has the id
+ */
+export async function getPortfolioView(excelFilePath, id) {
+  if (id === HOUSEHOLD_PORTFOLIO_ID) {
+    return {
+      portfolio: { id: HOUSEHOLD_PORTFOLIO_ID, name: 'Household' },
+      ...await getHouseholdPortfolio(excelFilePath)
+    };
+  }
 
-    // Only cache if we have valid CMP data (at least one holding with CMP > 0)
-    const hasValidCMP = holdings.some(h => h.cmp > 0);
-    if (hasValidCMP) {
-      cachedEnrichedResponse = {
-        holdings,
-        sectors,
-        errors: [...parseErrors, ...errors]
-      };
-      lastEnrichTime = now;
+  const portfolio = await getPortfolioRegistry().getPortfolio(await getPortfolioSource(excelFilePath), id);
+  return {
+    portfolio: { id: portfolio.id, name: portfolio.name },
+    ...await getEnrichedPortfolio(excelFilePath, portfolio)
+  };
+}
+
+/**
+ * A portfolio's holdings, sectors and totals as of a date
+ * Today is served with live prices; an earlier date is rebuilt from the last snapshot
+ * taken by then, which only the default portfolio records
+ * @param {string} excelFilePath - Path to the portfolio Excel file
+ * @param {string} id - Portfolio id
+ * @param {string} asOf - Date as YYYY-MM-DD, not after today
+ * @returns {Promise<Object>} { portfolio, holdings, sectors, totals }
+ */
+async function getStatementView(excelFilePath, id, asOf) {
+  if (asOf === todayIsoDate()) {
+    return getPortfolioView(excelFilePath, id);
+  }
+
+  const defaultPortfolio = await getDefaultPortfolio(excelFilePath);
+  if (id !== defaultPortfolio.id) {
+    throw new Error(`Invalid asOf date for portfolio ${id}: past statements are only kept for ${defaultPortfolio.id}`);
+  }
+
+  const snapshot = await getSnapshotService().getSnapshot(asOf);
+  if (!snapshot) {
+    throw new Error(`Portfolio snapshot not found on or before ${asOf}`);
+  }
+
+  const holdings = portfolioService.calculatePortfolioPercentages(snapshot.holdings.map(h => createHolding({
+    ...h,
+    purchasePrice: h.quantity ? h.investment / h.quantity : 0
+  })));
+
+  return {
+    portfolio: { id: defaultPortfolio.id, name: defaultPortfolio.name },
+    holdings,
+    sectors: buildSectors(holdings),
+    totals: calculatePortfolioTotals(holdings)
+  };
+}
+
+/**
+ * GET /api/portfolio
+ * Fetch complete portfolio data with live prices
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const excelFilePath = process.env.EXCEL_FILE_PATH;
+    
+    if (!excelFilePath) {
+      return res.status(500).json({
+        error: 'EXCEL_FILE_PATH not configured',
+        message: 'Server configuration error: Excel file path not set'
+      });
     }
 
+    const { holdings, sectors, totals, errors, cached } = await getEnrichedPortfolio(excelFilePath);
+
     res.json({
       holdings,
       sectors,
+      totals,
       lastUpdated: new Date().toISOString(),
-      errors: [...parseErrors, ...errors]
+      errors,
+      ...(cached && { cached: true })
     });
 
   } catch (error) {
@@ -126,7 +782,8 @@ router.get('/', async (req, res, next) => {
 
 /**
  * GET /api/portfolio/refresh
- * Trigger manual refresh of live data (clears cache and reloads)
+ * Reloads the portfolio files and re-prices the holdings; market data caches are kept
+ * (POST /api/market/cache/clear empties them)
  */
 router.get('/refresh', async (req, res, next) => {
   try {
@@ -139,51 +796,22 @@ router.get('/refresh', async (req, res, next) => {
       });
     }
 
-    // Clear caches and reset rate limit
-    yahooFinanceService.clearCache();
-    yahooFinanceService.lastRateLimitTime = 0; // Reset rate limit on manual refresh
-    googleFinanceService.clearCache();
-    
-    // Clear response cache
-    cachedEnrichedResponse = null;
-    lastEnrichTime = null;
+    // Clear every portfolio's cache so other portfolios reload on their next request
+    invalidatePortfolioCache();
 
     // Force reload from Excel
-    const result = await portfolioService.loadPortfolioFromExcel(excelFilePath);
-    const baseHoldings = result.holdings;
-    // Add source to parse errors
-    const parseErrors = (result.errors || []).map(err => ({
-      ...err,
-      source: 'excel',
-      message: err.error || err.message || 'Excel parsing error'
-    }));
-    
-    cachedPortfolioData = baseHoldings;
-    lastLoadTime = Date.now();
+    const portfolio = await getDefaultPortfolio(excelFilePath);
+    const { baseHoldings, parseErrors } = await getBasePortfolio(portfolio, true);
 
     // Enrich with live data
-    const { holdings, errors } = await portfolioService.enrichWithLiveData(
-      baseHoldings,
-      yahooFinanceService,
-      googleFinanceService
-    );
-
-    // Group by sector for response
-    const sectorMap = portfolioService.groupBySector(holdings);
-    const sectors = [];
+    const { holdings, errors } = await portfolioService.enrichWithLiveData(baseHoldings, getMarketDataService());
 
-    for (const [sectorName, sectorHoldings] of sectorMap) {
-      const summary = portfolioService.calculateSectorSummary(sectorHoldings, sectorName);
-      sectors.push({
-        sector: sectorName,
-        holdings: sectorHoldings,
-        summary
-      });
-    }
+    recordSnapshot(holdings, portfolio.id);
 
     res.json({
       holdings,
-      sectors,
+      sectors: buildSectors(holdings),
+      totals: calculatePortfolioTotals(holdings),
       lastUpdated: new Date().toISOString(),
       errors: [...parseErrors, ...errors],
       refreshed: true
@@ -194,5 +822,708 @@ router.get('/refresh', async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/portfolio/events
+ * Server-sent events: 'reload' ({ reloaded, failed, lastUpdated, errors }) whenever watched
+ * portfolio files change and are re-parsed
+ */
+router.get('/events', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+  eventClients.add(res);
+
+  // Comments keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), EVENT_KEEP_ALIVE_MS);
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    eventClients.delete(res);
+  });
+});
+
+/**
+ * GET /api/portfolio/transactions
+ * Fetch the transaction ledger behind the holdings
+ */
+router.get('/transactions', async (req, res, next) => {
+  try {
+    const excelFilePath = process.env.EXCEL_FILE_PATH;
+
+    if (!excelFilePath) {
+      return res.status(500).json({
+        error: 'EXCEL_FILE_PATH not configured',
+        message: 'Server configuration error: Excel file path not set'
+      });
+    }
+
+    const portfolio = await getDefaultPortfolio(excelFilePath);
+    const { parseErrors } = await getBasePortfolio(portfolio, true);
+    const cache = getPortfolioCache(portfolio.id);
+
+    res.json({
+      transactions: cache.transactions,
+      lastUpdated: new Date().toISOString(),
+      errors: parseErrors
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/tax-report?fy=2025-26&portfolio=id
+ * Capital gains (STCG/LTCG) report for a financial year, defaulting to the current one,
+ * for a portfolio or the household view; the default portfolio unless one is given
+ */
+router.get('/tax-report', async (req, res, next) => {
+  try {
+    const excelFilePath = process.env.EXCEL_FILE_PATH;
+
+    if (!excelFilePath) {
+      return res.status(500).json({
+        error: 'EXCEL_FILE_PATH not configured',
+        message: 'Server configuration error: Excel file path not set'
+      });
+    }
+
+    const financialYear = req.query.fy || taxService.getFinancialYear(todayIsoDate());
+    // Validate before doing any loading so a bad fy fails fast
+    taxService.parseFinancialYear(financialYear);
+
+    const taxErrors = [];
+    const pricesFilePath = process.env.GRANDFATHERED_PRICES_FILE_PATH;
+    if (pricesFilePath && !grandfatheredPricesLoaded) {
+      try {
+        const count = await taxService.loadGrandfatheredPrices(pricesFilePath);
+        grandfatheredPricesLoaded = true;
+        console.log(`Loaded ${count} grandfathered prices (31-Jan-2018)`);
+      } catch (error) {
+        taxErrors.push({
+          source: 'system',
+          message: error.message,
+          timestamp: new Date()
+        });
+      }
+    }
+
+    const id = req.query.portfolio || (await getDefaultPortfolio(excelFilePath)).id;
+    const { holdings, errors } = await getPortfolioView(excelFilePath, id);
+    const report = taxService.generateReport(holdings, financialYear);
+
+    const missingFmv = new Set(
+      [...report.realized, ...report.hypothetical]
+        .filter(entry => entry.grandfatheringMissing)
+        .map(entry => entry.nseCode || entry.bseCode)
+    );
+    missingFmv.forEach(symbol => {
+      taxErrors.push({
+        source: 'system',
+        symbol,
+        message: `No 31-Jan-2018 price for ${symbol}; grandfathering not applied`,
+        timestamp: new Date()
+      });
+    });
+    report.excluded.forEach(entry => {
+      taxErrors.push({
+        source: 'system',
+        symbol: entry.nseCode || entry.bseCode || undefined,
+        message: `${entry.particulars} is not listed equity (${entry.instrumentType}); left out of the tax report`,
+        timestamp: new Date()
+      });
+    });
+
+    res.json({
+      ...report,
+      lastUpdated: new Date().toISOString(),
+      errors: [...errors, ...taxErrors]
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/export.xlsx?portfolio=id
+ * The portfolio with live CMP, P/E and gains as a workbook in the layout the Excel loader reads,
+ * plus a Summary sheet of sector totals; the default portfolio unless one is given
+ */
+router.get('/export.xlsx', async (req, res, next) => {
+  try {
+    const excelFilePath = process.env.EXCEL_FILE_PATH;
+
+    if (!excelFilePath) {
+      return res.status(500).json({
+        error: 'EXCEL_FILE_PATH not configured',
+        message: 'Server configuration error: Excel file path not set'
+      });
+    }
+
+    const id = req.query.portfolio || (await getDefaultPortfolio(excelFilePath)).id;
+    const { portfolio, sectors, totals } = await getPortfolioView(excelFilePath, id);
+    const buffer = portfolioService.writePortfolioWorkbook(sectors, totals, { sheetName: portfolio.name });
+
+    res.set({
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="portfolio-${portfolio.id}-${todayIsoDate()}.xlsx"`
+    });
+    res.send(buffer);
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/export.csv?data=holdings&columns=particulars,cmp&raw=true&sector=Tech&portfolio=id
+ * GET /api/portfolio/export.json
+ * Holdings or sector summaries (data=sectors) as CSV or JSON for scripts, with the same
+ * columns and INR formatting as the dashboard's export menu; raw=true keeps plain numbers
+ */
+router.get('/export.:format', async (req, res, next) => {
+  try {
+    const excelFilePath = process.env.EXCEL_FILE_PATH;
+
+    if (!excelFilePath) {
+      return res.status(500).json({
+        error: 'EXCEL_FILE_PATH not configured',
+        message: 'Server configuration error: Excel file path not set'
+      });
+    }
+
+    const { format } = req.params;
+    const data = req.query.data || 'holdings';
+    if (!['csv', 'json'].includes(format)) {
+      throw new Error(`Invalid export format: ${format} (expected csv, json or xlsx)`);
+    }
+    if (!['holdings', 'sectors'].includes(data)) {
+      throw new Error(`Invalid export data: ${data} (expected holdings or sectors)`);
+    }
+
+    const columns = selectExportColumns(data === 'holdings' ? HOLDING_EXPORT_COLUMNS : SECTOR_EXPORT_COLUMNS, req.query.columns);
+    const id = req.query.portfolio || (await getDefaultPortfolio(excelFilePath)).id;
+    const { portfolio, holdings, sectors } = await getPortfolioView(excelFilePath, id);
+
+    const { sector } = req.query;
+    const rows = data === 'holdings'
+      ? holdings.filter(holding => !sector || holding.sector === sector)
+      : sectors.filter(entry => !sector || entry.sector === sector).map(entry => entry.summary);
+    const records = buildExportRecords(rows, columns, { raw: req.query.raw === 'true' });
+
+    res.set('Content-Disposition', `attachment; filename="${data}-${portfolio.id}-${todayIsoDate()}.${format}"`);
+    if (format === 'json') {
+      return res.json(records);
+    }
+    res.type('text/csv').send(toCsv(records, columns));
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/statement.pdf?asOf=YYYY-MM-DD&portfolio=id
+ * A printable statement with header totals, a value chart, sector totals, top gainers and losers
+ * and every holding. asOf defaults to today (live prices); earlier dates use recorded snapshots
+ */
+router.get('/statement.pdf', async (req, res, next) => {
+  try {
+    const excelFilePath = process.env.EXCEL_FILE_PATH;
+
+    if (!excelFilePath) {
+      return res.status(500).json({
+        error: 'EXCEL_FILE_PATH not configured',
+        message: 'Server configuration error: Excel file path not set'
+      });
+    }
+
+    const today = todayIsoDate();
+    const asOf = req.query.asOf || today;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || Number.isNaN(Date.parse(asOf)) || asOf > today) {
+      throw new Error(`Invalid asOf date: ${asOf} (expected YYYY-MM-DD, not after today)`);
+    }
+
+    const defaultId = (await getDefaultPortfolio(excelFilePath)).id;
+    const id = req.query.portfolio || defaultId;
+    const { portfolio, holdings, sectors, totals } = await getStatementView(excelFilePath, id, asOf);
+    // Snapshots are only recorded for the default portfolio
+    const history = id === defaultId
+      ? await getSnapshotService().getHistory({ from: addMonths(asOf, -12), to: asOf, granularity: 'week' })
+      : { portfolio: [] };
+
+    const buffer = await statementService.generateStatement({
+      portfolioName: portfolio.name,
+      asOf,
+      holdings,
+      sectors,
+      totals,
+      history: history.portfolio
+    });
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="statement-${portfolio.id}-${asOf}.pdf"`
+    });
+    res.send(buffer);
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/history?from=2025-01-01&to=2025-06-30&granularity=week&portfolio=id
+ * Portfolio and per-sector value series from recorded daily snapshots. Snapshots are only
+ * recorded for the default portfolio, so any other portfolio gets empty series and an error
+ */
+router.get('/history', async (req, res, next) => {
+  try {
+    const { from, to, granularity, portfolio: id } = req.query;
+
+    if (id) {
+      const defaultPortfolio = await getDefaultPortfolio(process.env.EXCEL_FILE_PATH);
+      if (id !== defaultPortfolio.id) {
+        return res.json({
+          from: null,
+          to: to || todayIsoDate(),
+          granularity: granularity || 'day',
+          portfolio: [],
+          sectors: [],
+          lastUpdated: new Date().toISOString(),
+          errors: [createApiError({
+            source: 'system',
+            message: `Value history is only recorded for ${defaultPortfolio.name}`
+          })]
+        });
+      }
+    }
+
+    const history = await getSnapshotService().getHistory({ from, to, granularity });
+
+    res.json({
+      ...history,
+      lastUpdated: new Date().toISOString(),
+      errors: []
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/sparklines?range=5d&portfolio=id
+ * Price series per holding (keyed by holding identity: ISIN, else exchange code) and value series per sector,
+ * each with the high, low and change over the range; the default portfolio unless one is given
+ */
+router.get('/sparklines', async (req, res, next) => {
+  try {
+    const excelFilePath = process.env.EXCEL_FILE_PATH;
+
+    if (!excelFilePath) {
+      return res.status(500).json({
+        error: 'EXCEL_FILE_PATH not configured',
+        message: 'Server configuration error: Excel file path not set'
+      });
+    }
+
+    const range = req.query.range || '5d';
+    if (!SERIES_RANGES[range]) {
+      throw new Error(`Invalid range: ${range} (expected one of ${Object.keys(SERIES_RANGES).join(', ')})`);
+    }
+
+    const id = req.query.portfolio || (await getDefaultPortfolio(excelFilePath)).id;
+    const { holdings } = await getPortfolioView(excelFilePath, id);
+    const openHoldings = holdings.filter(h => h.quantity > 0);
+    const symbols = openHoldings.map(h => portfolioService.getYahooSymbol(h)).filter(Boolean);
+    const seriesMap = await yahooFinanceService.getBatchPriceSeries(symbols, range);
+
+    const holdingSeries = {};
+    const sectorSeries = new Map();
+    const errors = [];
+
+    openHoldings.forEach(holding => {
+      const yahooSymbol = portfolioService.getYahooSymbol(holding);
+      const points = seriesMap.get(yahooSymbol);
+
+      if (!points) {
+        errors.push({
+          source: 'yahoo',
+          symbol: yahooSymbol,
+          message: `No ${range} price series for ${holding.particulars}`,
+          timestamp: new Date()
+        });
+        return;
+      }
+
+      holdingSeries[getHoldingIdentity(holding)] = summarizeSeries(
+        points.map(point => ({ timestamp: point.timestamp, value: point.close }))
+      );
+
+      const sector = holding.sector || 'Other';
+      if (!sectorSeries.has(sector)) sectorSeries.set(sector, []);
+      sectorSeries.get(sector).push({ weight: holding.quantity, points });
+    });
+
+    const sectors = {};
+    sectorSeries.forEach((weightedSeries, sector) => {
+      sectors[sector] = summarizeSeries(combineSeries(weightedSeries));
+    });
+
+    res.json({
+      range,
+      interval: SERIES_RANGES[range].interval,
+      holdings: holdingSeries,
+      sectors,
+      lastUpdated: new Date().toISOString(),
+      errors
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/benchmarks?range=1y&portfolio=id
+ * Portfolio, sector and holding price returns over a range against the configured
+ * benchmarks and each sector's index, with alpha in percentage points; the default
+ * portfolio unless one is given
+ */
+router.get('/benchmarks', async (req, res, next) => {
+  try {
+    const excelFilePath = process.env.EXCEL_FILE_PATH;
+
+    if (!excelFilePath) {
+      return res.status(500).json({
+        error: 'EXCEL_FILE_PATH not configured',
+        message: 'Server configuration error: Excel file path not set'
+      });
+    }
+
+    const range = req.query.range || '1y';
+    if (!SERIES_RANGES[range]) {
+      throw new Error(`Invalid range: ${range} (expected one of ${Object.keys(SERIES_RANGES).join(', ')})`);
+    }
+
+    const id = req.query.portfolio || (await getDefaultPortfolio(excelFilePath)).id;
+    const { holdings } = await getPortfolioView(excelFilePath, id);
+    const positions = holdings
+      .filter(h => h.quantity > 0)
+      .map(h => ({
+        key: getHoldingIdentity(h),
+        sector: h.sector,
+        quantity: h.quantity,
+        symbol: portfolioService.getYahooSymbol(h)
+      }));
+
+    const { missing, ...comparison } = await getBenchmarkService().compare(positions, range);
+
+    res.json({
+      ...comparison,
+      lastUpdated: new Date().toISOString(),
+      errors: missing.map(symbol => ({
+        source: 'yahoo',
+        symbol,
+        message: `No ${range} price series for ${symbol}`,
+        timestamp: new Date()
+      }))
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/dividends?portfolio=id
+ * The dividend ledger with monthly income, dividends not yet paid and totals. The ledger
+ * belongs to the default portfolio (and so to the household view); any other portfolio
+ * gets an empty ledger and an error
+ */
+router.get('/dividends', async (req, res, next) => {
+  try {
+    const id = req.query.portfolio;
+    const errors = [];
+    let dividends = [];
+
+    // Only another single portfolio needs the default one looked up
+    const defaultPortfolio = id && id !== HOUSEHOLD_PORTFOLIO_ID
+      ? await getDefaultPortfolio(process.env.EXCEL_FILE_PATH)
+      : null;
+    if (defaultPortfolio && id !== defaultPortfolio.id) {
+      errors.push(createApiError({
+        source: 'system',
+        message: `Dividends are only recorded for ${defaultPortfolio.name}`
+      }));
+    } else {
+      dividends = await getDividendService().readDividends();
+    }
+    const today = todayIsoDate();
+    const paid = dividends.filter(dividend => dividend.paymentDate <= today);
+
+    res.json({
+      dividends,
+      monthly: groupDividendsByMonth(dividends),
+      upcoming: dividends.filter(dividend => dividend.paymentDate > today),
+      totals: {
+        amount: paid.reduce((sum, dividend) => sum + dividend.amount, 0),
+        tds: paid.reduce((sum, dividend) => sum + dividend.tds, 0),
+        netAmount: paid.reduce((sum, dividend) => sum + dividend.netAmount, 0)
+      },
+      lastUpdated: new Date().toISOString(),
+      errors
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/portfolio/dividends
+ * Adds a manually entered dividend
+ */
+router.post('/dividends', async (req, res, next) => {
+  try {
+    const dividend = await getDividendService().addDividend(req.body || {});
+    invalidatePortfolioCache();
+
+    res.status(201).json({
+      dividend,
+      lastUpdated: new Date().toISOString(),
+      errors: []
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/portfolio/dividends/import
+ * Imports a CSV dividend statement sent as text/csv; rows already in the ledger are skipped
+ */
+router.post('/dividends/import', express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }), async (req, res, next) => {
+  try {
+    const content = typeof req.body === 'string' ? req.body : '';
+    const { imported, skipped, errors } = await getDividendService().importCsv(content);
+    if (imported.length > 0) {
+      invalidatePortfolioCache();
+    }
+
+    res.json({
+      imported,
+      skipped,
+      lastUpdated: new Date().toISOString(),
+      errors: toExcelErrors(errors)
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/portfolio/dividends/:id
+ * Removes a dividend from the ledger
+ */
+router.delete('/dividends/:id', async (req, res, next) => {
+  try {
+    const dividend = await getDividendService().deleteDividend(req.params.id);
+    invalidatePortfolioCache();
+
+    res.json({
+      dividend,
+      lastUpdated: new Date().toISOString(),
+      errors: []
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/mapping-profiles
+ * Sheet mapping profiles in the order they are tried
+ */
+router.get('/mapping-profiles', async (req, res, next) => {
+  try {
+    await ensureMappingProfiles();
+
+    res.json({
+      profiles: portfolioService.mappingProfiles,
+      lastUpdated: new Date().toISOString(),
+      errors: []
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/symbol-aliases
+ * Old NSE symbols and BSE codes mapped to the code each security trades under now
+ */
+router.get('/symbol-aliases', async (req, res, next) => {
+  try {
+    await ensureSymbolAliases();
+
+    res.json({
+      aliases: portfolioService.symbolAliases,
+      lastUpdated: new Date().toISOString(),
+      errors: []
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolio/import
+ * The committed import, or null when the configured Excel file is the portfolio source
+ */
+router.get('/import', async (req, res, next) => {
+  try {
+    const active = await getImportService().getActive();
+
+    res.json({
+      import: active && {
+        fileName: active.fileName,
+        importedAt: active.importedAt,
+        profile: active.profile,
+        mapping: active.mapping
+      },
+      lastUpdated: new Date().toISOString(),
+      errors: []
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/portfolio/import?fileName=holdings.xlsx&profile=standard
+ * Uploads an xlsx or csv portfolio (the request body is the file) and previews it:
+ * the mapping profile used, the detected column mapping, validated rows and a diff
+ * against the current holdings. Nothing changes until the import is committed
+ */
+router.post('/import', express.raw({ type: SPREADSHEET_TYPES, limit: '10mb' }), async (req, res, next) => {
+  try {
+    const upload = getImportService().stage(req.body, req.query.fileName);
+    res.status(201).json(await buildImportPreview(upload, { profile: req.query.profile }));
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/portfolio/import/:id/preview
+ * Previews a pending import again with another mapping profile or column mapping overrides
+ * ({ profile: 'standard', mapping: { field: column } })
+ */
+router.post('/import/:id/preview', async (req, res, next) => {
+  try {
+    const upload = getImportService().getPending(req.params.id);
+    res.json(await buildImportPreview(upload, { profile: req.body?.profile, mapping: req.body?.mapping }));
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/portfolio/import/:id/commit
+ * Makes a pending import the portfolio source, loaded with the given mapping profile and column mapping
+ */
+router.post('/import/:id/commit', async (req, res, next) => {
+  try {
+    await ensureMappingProfiles();
+    await ensureSymbolAliases();
+    await ensureSecurityMaster();
+    const upload = getImportService().getPending(req.params.id);
+    const parsed = portfolioService.parsePortfolioFile(upload.buffer, {
+      profile: req.body?.profile,
+      mapping: req.body?.mapping
+    });
+
+    if (parsed.missingColumns.length > 0) {
+      throw new Error(`Invalid import: map the ${parsed.missingColumns.join(', ')} columns first`);
+    }
+    if (parsed.holdings.length === 0) {
+      throw new Error('Invalid import: the file has no valid holdings');
+    }
+
+    const active = await getImportService().commit(upload.id, { profile: parsed.profile.id, mapping: parsed.mapping });
+    invalidatePortfolioCache();
+    await watchPortfolioFiles();
+
+    res.json({
+      import: {
+        fileName: active.fileName,
+        importedAt: active.importedAt,
+        profile: active.profile,
+        mapping: active.mapping
+      },
+      profile: parsed.profile,
+      holdings: parsed.holdings.length,
+      lastUpdated: new Date().toISOString(),
+      errors: toExcelErrors(parsed.errors)
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/portfolio/import
+ * Drops the committed import so the configured Excel file is the portfolio source again
+ */
+router.delete('/import', async (req, res, next) => {
+  try {
+    const cleared = await getImportService().clearActive();
+    if (cleared) {
+      invalidatePortfolioCache();
+      await watchPortfolioFiles();
+    }
+
+    res.json({
+      cleared,
+      lastUpdated: new Date().toISOString(),
+      errors: []
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Refreshes live data so that a snapshot is recorded even when no client is polling
+ * Used by the server's snapshot schedule
+ * @returns {Promise<void>}
+ */
+export async function captureSnapshot() {
+  const excelFilePath = process.env.EXCEL_FILE_PATH;
+  if (!excelFilePath) return;
+
+  try {
+    await getEnrichedPortfolio(excelFilePath);
+  } catch (error) {
+    console.error('Scheduled snapshot failed:', error.message);
+  }
+}
+
 export default router;
 ``
\ No newline at end of file
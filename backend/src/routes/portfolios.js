@@ -0,0 +1,76 @@
+import express from 'express';
+import path from 'path';
+import { listPortfolios, getPortfolioView } from './portfolio.js';
+import { HOUSEHOLD_PORTFOLIO_ID } from '../models/Portfolio.js';
+
+const router = express.Router();
+
+/**
+ * GET /api/portfolios
+ * The portfolios that can be viewed, the default one first, and the id of the combined household view
+ */
+router.get('/', async (req, res, next) => {
+  try {
+    const excelFilePath = process.env.EXCEL_FILE_PATH;
+
+    if (!excelFilePath) {
+      return res.status(500).json({
+        error: 'EXCEL_FILE_PATH not configured',
+        message: 'Server configuration error: Excel file path not set'
+      });
+    }
+
+    const portfolios = await listPortfolios(excelFilePath);
+
+    res.json({
+      portfolios: portfolios.map((portfolio, index) => ({
+        id: portfolio.id,
+        name: portfolio.name,
+        fileName: path.basename(portfolio.filePath),
+        sheet: portfolio.sheet,
+        isDefault: index === 0
+      })),
+      householdId: HOUSEHOLD_PORTFOLIO_ID,
+      lastUpdated: new Date().toISOString(),
+      errors: []
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/portfolios/:id
+ * One portfolio with live prices, in the same shape as /api/portfolio plus the portfolio's id and name;
+ * /api/portfolios/household combines every portfolio
+ */
+router.get('/:id', async (req, res, next) => {
+  try {
+    const excelFilePath = process.env.EXCEL_FILE_PATH;
+
+    if (!excelFilePath) {
+      return res.status(500).json({
+        error: 'EXCEL_FILE_PATH not configured',
+        message: 'Server configuration error: Excel file path not set'
+      });
+    }
+
+    const { portfolio, holdings, sectors, totals, errors, cached } = await getPortfolioView(excelFilePath, req.params.id);
+
+    res.json({
+      portfolio,
+      holdings,
+      sectors,
+      totals,
+      lastUpdated: new Date().toISOString(),
+      errors,
+      ...(cached && { cached: true })
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,166 @@
+import fs from 'fs';
+import { parseNavAll, getSchemeCode, isSchemeSymbol } from '../utils/amfi.js';
+
+/**
+ * AmfiNavService - Mutual fund NAVs from a local copy of AMFI's NAVAll.txt
+ *
+ * Features:
+ * - Keys schemes by AMFI scheme code; market data symbols are the code with a .MF suffix (120465.MF)
+ * - Re-reads the file only when it changes, keeping the NAV it replaces as the previous close
+ * - Quotes carry the scheme category, which becomes the sector of funds without one
+ * - Implements the market data provider contract (see MarketDataService) as 'amfi'
+ */
+class AmfiNavService {
+  /**
+   * @param {Object} options - Service options
+   * @param {string} options.filePath - Path to NAVAll.txt
+   * @param {number} options.refreshInterval - Milliseconds between checks for a changed file
+   */
+  constructor(options = {}) {
+    this.id = 'amfi';
+    this.filePath = options.filePath || './data/NAVAll.txt';
+    this.refreshInterval = options.refreshInterval ?? 60000;
+    this.schemes = new Map(); // scheme code -> scheme record with previousNav
+    this.mtimeMs = null;
+    this.lastCheckTime = 0;
+  }
+
+  /**
+   * Reads the NAV file if it changed; runs at most once per refresh interval
+   * A missing file leaves no schemes; a file that cannot be parsed keeps the last good NAVs
+   * @param {boolean} force - Check even if the file was checked recently
+   * @returns {Promise<void>}
+   */
+  async load(force = false) {
+    if (!force && this.lastCheckTime && Date.now() - this.lastCheckTime < this.refreshInterval) {
+      return;
+    }
+    this.lastCheckTime = Date.now();
+
+    let stats;
+    try {
+      stats = await fs.promises.stat(this.filePath);
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+      this.schemes = new Map();
+      this.mtimeMs = null;
+      return;
+    }
+    if (stats.mtimeMs === this.mtimeMs) return;
+    this.mtimeMs = stats.mtimeMs;
+
+    let records;
+    try {
+      records = parseNavAll(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      console.warn(`Skipping AMFI NAV file ${this.filePath}: ${error.message}`);
+      return;
+    }
+
+    const schemes = new Map();
+    records.forEach(record => {
+      // A newer NAV date pushes the NAV it replaces into previousNav
+      const known = this.schemes.get(record.schemeCode);
+      let previousNav = known ? known.previousNav : null;
+      if (known && known.date !== record.date) {
+        previousNav = known.nav;
+      }
+      schemes.set(record.schemeCode, { ...record, previousNav });
+    });
+    this.schemes = schemes;
+  }
+
+  /**
+   * Whether a symbol names a mutual fund scheme; the chain only asks this provider for those
+   * @param {string} symbol - Market data symbol
+   * @returns {boolean}
+   */
+  supportsSymbol(symbol) {
+    return isSchemeSymbol(symbol);
+  }
+
+  /**
+   * Get a scheme by AMFI scheme code
+   * @param {string} schemeCode - AMFI scheme code
+   * @returns {Promise<Object|null>} { schemeCode, schemeName, isin, isinReinvestment, nav, previousNav, date, category, fundHouse }
+   */
+  async getScheme(schemeCode) {
+    await this.load();
+    return this.schemes.get(String(schemeCode).trim()) || null;
+  }
+
+  /**
+   * Get the latest NAV of a scheme
+   * @param {string} symbol - Scheme symbol such as 120465.MF
+   * @returns {Promise<Object|null>} { price, previousClose, date, category }, or null for unknown schemes
+   */
+  async getQuote(symbol) {
+    await this.load();
+    return this._getQuote(symbol);
+  }
+
+  /**
+   * Get the latest NAV of each scheme
+   * @param {string[]} symbols - Scheme symbols such as 120465.MF; other symbols are left out
+   * @returns {Promise<Map<string, Object>>} Map of symbol to { price, previousClose, date, category }
+   */
+  async getBatchQuotes(symbols) {
+    await this.load();
+
+    const quoteMap = new Map();
+    (symbols || []).forEach(symbol => {
+      const quote = this._getQuote(symbol);
+      if (quote) {
+        quoteMap.set(symbol, quote);
+      }
+    });
+    return quoteMap;
+  }
+
+  /**
+   * Get NAVs keyed by symbol, mirroring YahooFinanceService.getBatchPrices
+   * @param {string[]} symbols - Scheme symbols such as 120465.MF
+   * @returns {Promise<Map<string, number>>} Map of symbol to NAV
+   */
+  async getBatchPrices(symbols) {
+    const quotes = await this.getBatchQuotes(symbols);
+    return new Map(Array.from(quotes, ([symbol, quote]) => [symbol, quote.price]));
+  }
+
+  /**
+   * Funds have no P/E ratio or earnings
+   * @returns {Promise<null>}
+   */
+  async getFundamentals() {
+    return null;
+  }
+
+  /**
+   * NAVAll.txt holds one day, so there is no history
+   * @returns {Promise<Array>} Always empty
+   */
+  async getHistory() {
+    return [];
+  }
+
+  /**
+   * Makes the next lookup check the file again
+   */
+  clearCache() {
+    this.lastCheckTime = 0;
+  }
+
+  /**
+   * @private
+   */
+  _getQuote(symbol) {
+    const scheme = this.schemes.get(getSchemeCode(symbol));
+    if (!scheme) {
+      return null;
+    }
+
+    return { price: scheme.nav, previousClose: scheme.previousNav, date: scheme.date, category: scheme.category };
+  }
+}
+
+export default AmfiNavService;
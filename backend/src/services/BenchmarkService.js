@@ -0,0 +1,163 @@
+import { SERIES_RANGES } from './YahooFinanceService.js';
+import { combineSeries, summarizeSeries } from '../utils/seriesCalculations.js';
+import {
+  getBenchmarkName,
+  getSectorBenchmark,
+  parseBenchmarkList
+} from '../utils/benchmarks.js';
+
+/**
+ * BenchmarkService - Compares portfolio, sector and holding returns with market indices
+ *
+ * Features:
+ * - Configurable list of benchmark indices (e.g. ^NSEI, ^BSESN, ^CNXIT)
+ * - Maps each sector to a sector index, with explicit overrides
+ * - Price returns over the same range for positions and indices, so periods always match
+ * - Alpha as the position's return minus its index's return, in percentage points
+ */
+class BenchmarkService {
+  /**
+   * @param {YahooFinanceService} yahooFinanceService - Source of price series
+   * @param {Object} options - Service options
+   * @param {string[]} options.benchmarks - Benchmark index symbols
+   * @param {Object} options.sectorBenchmarks - Map of sector name to index symbol
+   */
+  constructor(yahooFinanceService, options = {}) {
+    this.yahooFinanceService = yahooFinanceService;
+    this.benchmarks = options.benchmarks && options.benchmarks.length > 0
+      ? options.benchmarks
+      : parseBenchmarkList();
+    this.sectorBenchmarks = options.sectorBenchmarks || {};
+  }
+
+  /**
+   * Configured benchmarks with display names
+   * @returns {Array} Benchmarks of { symbol, name }
+   */
+  getBenchmarks() {
+    return this.benchmarks.map(symbol => ({ symbol, name: getBenchmarkName(symbol) }));
+  }
+
+  /**
+   * Index a sector is compared against
+   * @param {string} sector - Sector name
+   * @returns {string} Yahoo Finance index symbol
+   */
+  getSectorBenchmark(sector) {
+    return getSectorBenchmark(sector, this.sectorBenchmarks);
+  }
+
+  /**
+   * Compares the current positions with the benchmarks over a range
+   * Returns are price returns of today's quantities, so buys and sells within
+   * the range do not distort the comparison
+   * @param {Array} positions - Positions of { key, sector, quantity, symbol }
+   * @param {string} range - One of the SERIES_RANGES keys (default '1y')
+   * @returns {Promise<Object>} Portfolio, benchmark, sector and holding returns plus missing series
+   */
+  async compare(positions, range = '1y') {
+    if (!SERIES_RANGES[range]) {
+      throw new Error(`Invalid range: ${range} (expected one of ${Object.keys(SERIES_RANGES).join(', ')})`);
+    }
+
+    const sectorIndices = new Map();
+    positions.forEach(position => {
+      const sector = position.sector || 'Other';
+      if (!sectorIndices.has(sector)) sectorIndices.set(sector, this.getSectorBenchmark(sector));
+    });
+
+    const indexSymbols = Array.from(new Set([...this.benchmarks, ...sectorIndices.values()]));
+    const positionSymbols = positions.map(position => position.symbol).filter(Boolean);
+    const seriesMap = await this.yahooFinanceService.getBatchPriceSeries(
+      Array.from(new Set([...indexSymbols, ...positionSymbols])),
+      range
+    );
+
+    const indexReturns = new Map();
+    indexSymbols.forEach(symbol => {
+      indexReturns.set(symbol, this._calculateReturn(seriesMap.get(symbol)));
+    });
+
+    const missing = [];
+    const holdings = {};
+    const sectorSeries = new Map();
+    const portfolioSeries = [];
+
+    positions.forEach(position => {
+      const points = seriesMap.get(position.symbol);
+      if (!points) {
+        missing.push(position.symbol || position.key);
+        return;
+      }
+
+      const sector = position.sector || 'Other';
+      const benchmark = sectorIndices.get(sector);
+      holdings[position.key] = this._compareWith(this._calculateReturn(points), benchmark, indexReturns);
+
+      if (!sectorSeries.has(sector)) sectorSeries.set(sector, []);
+      sectorSeries.get(sector).push({ weight: position.quantity, points });
+      portfolioSeries.push({ weight: position.quantity, points });
+    });
+
+    const sectors = {};
+    sectorIndices.forEach((benchmark, sector) => {
+      const sectorReturn = this._calculateReturn(combineSeries(sectorSeries.get(sector) || []));
+      sectors[sector] = this._compareWith(sectorReturn, benchmark, indexReturns);
+    });
+
+    const portfolioReturn = this._calculateReturn(combineSeries(portfolioSeries));
+
+    missing.push(...indexSymbols.filter(symbol => !seriesMap.has(symbol)));
+
+    return {
+      range,
+      portfolio: { return: portfolioReturn },
+      benchmarks: this.getBenchmarks().map(({ symbol, name }) => {
+        const benchmarkReturn = indexReturns.get(symbol);
+        return {
+          symbol,
+          name,
+          return: benchmarkReturn,
+          excessReturn: portfolioReturn !== null && benchmarkReturn !== null
+            ? portfolioReturn - benchmarkReturn
+            : null
+        };
+      }),
+      sectors,
+      holdings,
+      missing
+    };
+  }
+
+  /**
+   * Change in percent from the first to the last point of a series
+   * Accepts price points ({ close }) or value points ({ value })
+   * @private
+   */
+  _calculateReturn(points) {
+    const summary = summarizeSeries(
+      (points || []).map(point => ({ timestamp: point.timestamp, value: point.value ?? point.close }))
+    );
+    return summary && summary.open > 0 ? summary.changePercent : null;
+  }
+
+  /**
+   * Pairs a return with its index's return and the resulting alpha
+   * @private
+   */
+  _compareWith(positionReturn, benchmark, indexReturns) {
+    const benchmarkReturn = indexReturns.get(benchmark) ?? null;
+
+    return {
+      benchmark,
+      benchmarkName: getBenchmarkName(benchmark),
+      return: positionReturn,
+      benchmarkReturn,
+      alpha: positionReturn !== null && benchmarkReturn !== null
+        ? positionReturn - benchmarkReturn
+        : null
+    };
+  }
+}
+
+export default BenchmarkService;
@@ -0,0 +1,347 @@
+import fs from 'fs';
+import path from 'path';
+import xlsx from 'xlsx';
+import { HISTORY_RANGES } from './YahooFinanceService.js';
+import { parseBhavcopyRows } from '../utils/bhavcopy.js';
+import { isSchemeSymbol } from '../utils/amfi.js';
+import { addMonths } from '../utils/dateUtils.js';
+
+const BHAVCOPY_INTERVALS = ['1d', '1wk', '1mo'];
+
+// Trading days covered by the short chart ranges
+const RANGE_DAYS = { '1d': 1, '5d': 5 };
+const RANGE_MONTHS = { '1mo': 1, '3mo': 3, '6mo': 6, '1y': 12, '2y': 24, '5y': 60, '10y': 120 };
+
+/**
+ * BhavcopyService - End-of-day prices from NSE and BSE bhavcopy files in a local directory
+ *
+ * Features:
+ * - Reads NSE, BSE and UDiFF bhavcopy CSVs dropped into the directory, re-reading only new or changed files
+ * - Answers quotes with the latest close and previous close, for air-gapped or rate-limited setups
+ * - Serves daily, weekly or monthly candles as far back as the files go
+ * - Uses Yahoo's symbol conventions: RELIANCE.NS for NSE symbols, 500325.BO for BSE scrip codes
+ * - Implements the market data provider contract (see MarketDataService) as 'bhavcopy'
+ */
+class BhavcopyService {
+  /**
+   * @param {Object} options - Service options
+   * @param {string} options.directory - Directory holding bhavcopy CSV files
+   * @param {number} options.refreshInterval - Milliseconds between directory scans
+   */
+  constructor(options = {}) {
+    this.id = 'bhavcopy';
+    this.directory = options.directory || './data/bhavcopy';
+    this.refreshInterval = options.refreshInterval ?? 60000;
+    this.files = new Map(); // file name -> { mtimeMs, records }
+    this.pricesByDate = new Map(); // date -> Map of exchange:code -> record
+    this.dates = []; // Trading dates with a file, oldest first
+    this.lastScanTime = 0;
+  }
+
+  /**
+   * Reads new and changed bhavcopy files; runs at most once per refresh interval
+   * Files that cannot be parsed are logged and skipped until they change
+   * @param {boolean} force - Scan even if the directory was scanned recently
+   * @returns {Promise<void>}
+   */
+  async load(force = false) {
+    if (!force && this.lastScanTime && Date.now() - this.lastScanTime < this.refreshInterval) {
+      return;
+    }
+    this.lastScanTime = Date.now();
+
+    let names;
+    try {
+      names = (await fs.promises.readdir(this.directory)).filter(name => /\.csv$/i.test(name));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+      names = [];
+    }
+
+    let changed = false;
+    for (const name of names) {
+      const filePath = path.join(this.directory, name);
+      const { mtimeMs } = await fs.promises.stat(filePath);
+      if (this.files.get(name)?.mtimeMs === mtimeMs) continue;
+
+      let records = [];
+      try {
+        const workbook = xlsx.read(await fs.promises.readFile(filePath), { type: 'buffer', raw: true });
+        const rows = xlsx.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { header: 1, raw: true, defval: null });
+        records = parseBhavcopyRows(rows, name).records;
+      } catch (error) {
+        console.warn(`Skipping bhavcopy ${name}: ${error.message}`);
+      }
+
+      this.files.set(name, { mtimeMs, records });
+      changed = true;
+    }
+
+    for (const name of this.files.keys()) {
+      if (!names.includes(name)) {
+        this.files.delete(name);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this._buildIndex();
+    }
+  }
+
+  /**
+   * Whether a symbol can be in a bhavcopy; mutual fund scheme codes are left to the amfi provider
+   * @param {string} symbol - Market data symbol
+   * @returns {boolean}
+   */
+  supportsSymbol(symbol) {
+    return !isSchemeSymbol(symbol);
+  }
+
+  /**
+   * Get the latest close of each symbol
+   * @param {string[]} symbols - Symbols such as RELIANCE.NS or 500325.BO
+   * @returns {Promise<Map<string, number>>} Map of symbol to close; symbols in no file are left out
+   */
+  async getBatchPrices(symbols) {
+    const quotes = await this.getBatchQuotes(symbols);
+    return new Map(Array.from(quotes, ([symbol, quote]) => [symbol, quote.price]));
+  }
+
+  /**
+   * Get the latest close and the close before it
+   * @param {string} symbol - Symbol such as RELIANCE.NS or 500325.BO
+   * @returns {Promise<Object|null>} { price, previousClose, date }, or null if no file has the symbol
+   */
+  async getQuote(symbol) {
+    await this.load();
+    return this._getQuote(symbol);
+  }
+
+  /**
+   * Get the latest quote of each symbol
+   * @param {string[]} symbols - Symbols such as RELIANCE.NS or 500325.BO
+   * @returns {Promise<Map<string, Object>>} Map of symbol to { price, previousClose, date }
+   */
+  async getBatchQuotes(symbols) {
+    await this.load();
+
+    const quoteMap = new Map();
+    (symbols || []).filter(s => s && typeof s === 'string').forEach(symbol => {
+      const quote = this._getQuote(symbol);
+      if (quote) {
+        quoteMap.set(symbol, quote);
+      }
+    });
+    return quoteMap;
+  }
+
+  /**
+   * Get the close on a date, or the last close before it when the market was shut
+   * @param {string} symbol - Symbol such as RELIANCE.NS or 500325.BO
+   * @param {string} date - Date as YYYY-MM-DD
+   * @returns {Promise<number|null>} The close, or null if no file up to the date has the symbol
+   */
+  async getPriceOn(symbol, date) {
+    await this.load();
+    const found = this._findRecord(this._toKey(symbol), date);
+    return found ? found.record.close : null;
+  }
+
+  /**
+   * Bhavcopies carry no P/E ratio or earnings, so the next provider is asked
+   * @returns {Promise<null>}
+   */
+  async getFundamentals() {
+    return null;
+  }
+
+  /**
+   * Get daily candles between two dates
+   * @param {string} symbol - Symbol such as RELIANCE.NS or 500325.BO
+   * @param {string} from - First date (YYYY-MM-DD), defaults to the oldest file
+   * @param {string} to - Last date (YYYY-MM-DD), defaults to the newest file
+   * @returns {Promise<Array>} Candles with timestamp, date, open, high, low, close and volume, oldest first
+   */
+  async getCandles(symbol, from, to) {
+    await this.load();
+    const key = this._toKey(symbol);
+
+    return this.dates
+      .filter(date => (!from || date >= from) && (!to || date <= to))
+      .map(date => this.pricesByDate.get(date).get(key))
+      .filter(Boolean)
+      .map(record => this._toCandle(record));
+  }
+
+  /**
+   * Get candles over a chart range, counted back from the newest file rather than today
+   * so stale directories still chart
+   * @param {string} symbol - Symbol such as RELIANCE.NS or 500325.BO
+   * @param {string} range - One of the HISTORY_RANGES keys (default '1mo')
+   * @param {string} interval - 1d, 1wk or 1mo (default 1d); bhavcopies have no intraday prices
+   * @returns {Promise<Array>} Candles, oldest first; weekly and monthly candles span their trading days
+   * @throws {Error} If the range or interval is invalid
+   */
+  async getHistory(symbol, range = '1mo', interval = '1d') {
+    if (!HISTORY_RANGES[range]) {
+      throw new Error(`Invalid range: ${range} (expected one of ${Object.keys(HISTORY_RANGES).join(', ')})`);
+    }
+    if (!BHAVCOPY_INTERVALS.includes(interval)) {
+      throw new Error(`Invalid interval: ${interval} (bhavcopy files only have ${BHAVCOPY_INTERVALS.join(', ')} candles)`);
+    }
+
+    await this.load();
+    const latest = this.dates[this.dates.length - 1];
+    if (!latest) {
+      return [];
+    }
+
+    let from = null;
+    if (RANGE_DAYS[range]) {
+      from = this.dates[Math.max(this.dates.length - RANGE_DAYS[range], 0)];
+    } else if (RANGE_MONTHS[range]) {
+      from = addMonths(latest, -RANGE_MONTHS[range]);
+    } else if (range === 'ytd') {
+      from = `${latest.substring(0, 4)}-01-01`;
+    }
+
+    const candles = await this.getCandles(symbol, from, latest);
+    return interval === '1d' ? candles : this._aggregate(candles, interval);
+  }
+
+  /**
+   * Makes the next lookup rescan the directory
+   */
+  clearCache() {
+    this.lastScanTime = 0;
+  }
+
+  /**
+   * Dates and file count of the loaded bhavcopies
+   * @returns {Object} files, from and to (YYYY-MM-DD or null)
+   */
+  getStats() {
+    return {
+      files: this.files.size,
+      from: this.dates[0] || null,
+      to: this.dates[this.dates.length - 1] || null
+    };
+  }
+
+  /**
+   * Rebuilds the per-date price index from the parsed files
+   * @private
+   */
+  _buildIndex() {
+    this.pricesByDate = new Map();
+
+    this.files.forEach(({ records }) => {
+      records.forEach(record => {
+        if (!record.date) return;
+        if (!this.pricesByDate.has(record.date)) this.pricesByDate.set(record.date, new Map());
+        const prices = this.pricesByDate.get(record.date);
+
+        prices.set(`${record.exchange}:${record.code}`, record);
+        // UDiFF BSE rows also carry the ticker, so RELIANCE.BO resolves as well as 500325.BO
+        if (record.exchange === 'BSE' && /^[A-Z0-9&-]+$/.test(record.symbol) && !prices.has(`BSE:${record.symbol}`)) {
+          prices.set(`BSE:${record.symbol}`, record);
+        }
+      });
+    });
+
+    this.dates = Array.from(this.pricesByDate.keys()).sort();
+  }
+
+  /**
+   * Index key of a Yahoo-style symbol; unsuffixed symbols are taken as NSE
+   * @private
+   */
+  _toKey(symbol) {
+    const upper = String(symbol || '').trim().toUpperCase();
+    if (upper.endsWith('.BO')) return `BSE:${upper.slice(0, -3)}`;
+    if (upper.endsWith('.NS')) return `NSE:${upper.slice(0, -3)}`;
+    return `NSE:${upper}`;
+  }
+
+  /**
+   * Latest record of a key on or before a date
+   * @private
+   */
+  _findRecord(key, onOrBefore) {
+    for (let i = this.dates.length - 1; i >= 0; i--) {
+      if (onOrBefore && this.dates[i] > onOrBefore) continue;
+      const record = this.pricesByDate.get(this.dates[i]).get(key);
+      if (record) return { record, index: i };
+    }
+    return null;
+  }
+
+  /**
+   * @private
+   */
+  _getQuote(symbol) {
+    const key = this._toKey(symbol);
+    const found = this._findRecord(key);
+    if (!found) {
+      return null;
+    }
+
+    // Files without a previous close column fall back to the close of the file before
+    let previousClose = found.record.previousClose;
+    if (previousClose === null && found.index > 0) {
+      previousClose = this._findRecord(key, this.dates[found.index - 1])?.record.close ?? null;
+    }
+
+    return { price: found.record.close, previousClose, date: found.record.date };
+  }
+
+  /**
+   * @private
+   */
+  _toCandle(record) {
+    return {
+      // NSE and BSE close at 15:30 IST
+      timestamp: `${record.date}T10:00:00.000Z`,
+      date: record.date,
+      open: record.open,
+      high: record.high,
+      low: record.low,
+      close: record.close,
+      volume: record.volume
+    };
+  }
+
+  /**
+   * Combines daily candles into weekly (keyed by Monday) or monthly candles
+   * @private
+   */
+  _aggregate(candles, interval) {
+    const periods = new Map();
+
+    candles.forEach(candle => {
+      let key = candle.date.substring(0, 7);
+      if (interval === '1wk') {
+        const date = new Date(`${candle.date}T00:00:00Z`);
+        date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+        key = date.toISOString().substring(0, 10);
+      }
+
+      const period = periods.get(key);
+      if (!period) {
+        periods.set(key, { ...candle });
+        return;
+      }
+      period.high = Math.max(period.high ?? candle.high, candle.high ?? period.high);
+      period.low = Math.min(period.low ?? candle.low, candle.low ?? period.low);
+      period.close = candle.close;
+      period.volume = (period.volume || 0) + (candle.volume || 0);
+      period.timestamp = candle.timestamp;
+      period.date = candle.date;
+    });
+
+    return Array.from(periods.values());
+  }
+}
+
+export default BhavcopyService;
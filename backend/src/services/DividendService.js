@@ -0,0 +1,200 @@
+import fs from 'fs';
+import path from 'path';
+import xlsx from 'xlsx';
+import { createDividend, validateDividend, sortDividends } from '../models/Dividend.js';
+
+/**
+ * DividendService - Keeps the dividend ledger in a JSON-lines file
+ *
+ * Features:
+ * - Manual entries and CSV imports share one ledger
+ * - Re-importing a statement skips dividends already in the ledger
+ * - Entries can be removed by id
+ */
+class DividendService {
+  /**
+   * @param {Object} options - Service options
+   * @param {string} options.filePath - Path to the JSON-lines dividend ledger
+   */
+  constructor(options = {}) {
+    this.filePath = options.filePath || './data/dividends.jsonl';
+  }
+
+  /**
+   * Reads the ledger sorted by payment date
+   * Unparseable lines (e.g. a write cut short) are skipped
+   * @returns {Promise<Array>} Dividends
+   */
+  async readDividends() {
+    let content;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const dividends = content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          return null;
+        }
+      })
+      .filter(dividend => dividend && dividend.id && dividend.paymentDate);
+
+    return sortDividends(dividends);
+  }
+
+  /**
+   * Adds a manually entered dividend
+   * @param {Object} data - Dividend fields (paymentDate, nseCode or bseCode, amount or amountPerShare and quantity)
+   * @returns {Promise<Object>} The stored dividend
+   * @throws {Error} If the dividend is invalid
+   */
+  async addDividend(data) {
+    const dividend = createDividend({ ...data, id: undefined, source: 'manual' });
+    const validation = validateDividend(dividend);
+
+    if (!validation.isValid) {
+      throw new Error(`Invalid dividend: ${validation.errors.join(', ')}`);
+    }
+
+    await this._append([dividend]);
+    return dividend;
+  }
+
+  /**
+   * Imports dividends from CSV text (e.g. a broker dividend statement)
+   * Expects Payment Date (or Date), NSE/BSE and either Amount or Per Share and Qty
+   * columns; Ex-Date, Particulars and TDS are optional
+   * @param {string} content - CSV text with a header row
+   * @returns {Promise<Object>} Imported dividends, count of duplicates skipped and row errors
+   */
+  async importCsv(content) {
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      throw new Error('Invalid dividend import: CSV content is empty');
+    }
+
+    // Cells are read as written so DD/MM/YYYY dates reach toIsoDate instead of SheetJS's month-first parsing
+    const workbook = xlsx.read(content, { type: 'string', raw: true });
+    const rawRows = xlsx.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { defval: null });
+    if (rawRows.length === 0) {
+      return { imported: [], skipped: 0, errors: [] };
+    }
+
+    // Ex-date is matched first so its column isn't taken for the payment date
+    const headers = Object.keys(rawRows[0]);
+    const findKey = (possibleNames, exclude = []) => headers.find(header =>
+      !exclude.includes(header) &&
+      possibleNames.some(name => header.toLowerCase().includes(name.toLowerCase()))
+    );
+    const exDateKey = findKey(['Ex-Date', 'Ex Date', 'Record Date']);
+    const keys = {
+      exDate: exDateKey,
+      paymentDate: findKey(['Payment Date', 'Paid', 'Date'], [exDateKey]),
+      particulars: findKey(['Particulars', 'Name', 'Company']),
+      stockCode: findKey(['NSE/BSE', 'Symbol', 'Code']),
+      amountPerShare: findKey(['Per Share', 'DPS', 'Rate']),
+      quantity: findKey(['Qty', 'Quantity', 'Shares']),
+      amount: findKey(['Amount', 'Gross', 'Dividend'], [findKey(['Per Share', 'DPS', 'Rate'])]),
+      tds: findKey(['TDS', 'Tax'])
+    };
+
+    const existing = await this.readDividends();
+    const seen = new Set(existing.map(dividend => this._getDedupKey(dividend)));
+    const imported = [];
+    const errors = [];
+    let skipped = 0;
+
+    rawRows.forEach((row, index) => {
+      const code = row[keys.stockCode] ? String(row[keys.stockCode]).trim() : '';
+      const isBse = /^\d+$/.test(code);
+      const dividend = createDividend({
+        particulars: row[keys.particulars] ? String(row[keys.particulars]).trim() : code,
+        nseCode: isBse ? '' : code,
+        bseCode: isBse ? code : null,
+        exDate: row[keys.exDate],
+        paymentDate: row[keys.paymentDate],
+        amountPerShare: row[keys.amountPerShare],
+        quantity: row[keys.quantity],
+        amount: row[keys.amount],
+        tds: row[keys.tds],
+        source: 'import'
+      });
+
+      const validation = validateDividend(dividend);
+      if (!validation.isValid) {
+        errors.push({
+          row: index + 2, // Account for the header row
+          error: `Invalid dividend: ${validation.errors.join(', ')}`
+        });
+        return;
+      }
+
+      const key = this._getDedupKey(dividend);
+      if (seen.has(key)) {
+        skipped++;
+        return;
+      }
+      seen.add(key);
+      imported.push(dividend);
+    });
+
+    await this._append(imported);
+    return { imported, skipped, errors };
+  }
+
+  /**
+   * Removes a dividend from the ledger
+   * @param {string} id - Dividend id
+   * @returns {Promise<Object>} The removed dividend
+   * @throws {Error} If no dividend has the id
+   */
+  async deleteDividend(id) {
+    const dividends = await this.readDividends();
+    const removed = dividends.find(dividend => dividend.id === id);
+
+    if (!removed) {
+      throw new Error(`Dividend not found: ${id}`);
+    }
+
+    const remaining = dividends.filter(dividend => dividend.id !== id);
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(
+      this.filePath,
+      remaining.map(dividend => `${JSON.stringify(dividend)}\n`).join(''),
+      'utf8'
+    );
+
+    return removed;
+  }
+
+  /**
+   * Appends dividends to the ledger file
+   * @private
+   */
+  async _append(dividends) {
+    if (dividends.length === 0) return;
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(
+      this.filePath,
+      dividends.map(dividend => `${JSON.stringify(dividend)}\n`).join(''),
+      'utf8'
+    );
+  }
+
+  /**
+   * Identifies the same payment across imports: symbol, payment date and gross amount
+   * @private
+   */
+  _getDedupKey(dividend) {
+    return `${dividend.nseCode || dividend.bseCode}|${dividend.paymentDate}|${dividend.amount.toFixed(2)}`;
+  }
+}
+
+export default DividendService;
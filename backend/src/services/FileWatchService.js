@@ -0,0 +1,175 @@
+import fs from 'fs';
+import path from 'path';
+
+// xlsx files are zip archives, complete once the end of central directory record is written
+const ZIP_END_SIGNATURE = Buffer.from([0x50, 0x4b, 0x05, 0x06]);
+const ZIP_END_MAX_LENGTH = 22 + 0xffff; // Fixed record plus the longest archive comment
+
+/**
+ * FileWatchService - Reports changes to a set of files once they are completely written
+ *
+ * Features:
+ * - Watches each file's directory, so editors that save by renaming a temp file are seen
+ * - Bursts of change events are debounced into one report per file set
+ * - Files caught mid-save (empty, still growing, or an xlsx without its zip end record)
+ *   are checked again until they settle; office lock files (~$name.xlsx) are ignored
+ */
+class FileWatchService {
+  /**
+   * @param {Object} options - Service options
+   * @param {number} options.debounceMs - Quiet time after the last event before checking files
+   * @param {number} options.settleMs - Time between the two size checks of a settled file
+   * @param {number} options.maxAttempts - Checks before a file that never settles is reported as an error
+   */
+  constructor(options = {}) {
+    this.debounceMs = options.debounceMs ?? 500;
+    this.settleMs = options.settleMs ?? 250;
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.watchers = new Map();
+    this.files = new Set();
+    this.changed = new Set();
+    this.timer = null;
+    this.attempts = 0;
+    this.onChange = null;
+    this.onError = null;
+  }
+
+  /**
+   * Starts watching files, replacing any files watched before
+   * @param {Array<string>} filePaths - Files to watch
+   * @param {Function} onChange - Called with the absolute paths of the files that changed
+   * @param {Function} onError - Called with an Error when a changed file never settles
+   */
+  watch(filePaths, onChange, onError = () => {}) {
+    this.close();
+    this.files = new Set(filePaths.filter(Boolean).map(filePath => path.resolve(filePath)));
+    this.onChange = onChange;
+    this.onError = onError;
+
+    new Set([...this.files].map(filePath => path.dirname(filePath))).forEach(directory => {
+      try {
+        // Not persistent, so watching never keeps the process alive on its own
+        const watcher = fs.watch(directory, { persistent: false }, (eventType, fileName) => {
+          if (fileName) this._handleEvent(path.join(directory, fileName.toString()));
+        });
+        watcher.on('error', error => console.error(`Stopped watching ${directory}:`, error.message));
+        this.watchers.set(directory, watcher);
+      } catch (error) {
+        console.error(`Cannot watch ${directory}:`, error.message);
+      }
+    });
+  }
+
+  /**
+   * The files being watched
+   * @returns {Array<string>} Absolute paths
+   */
+  getWatchedFiles() {
+    return [...this.files];
+  }
+
+  /**
+   * Stops watching and drops pending changes
+   */
+  close() {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.changed.clear();
+    this.attempts = 0;
+  }
+
+  /**
+   * @private
+   */
+  _handleEvent(filePath) {
+    if (!this.files.has(filePath)) return;
+    this.changed.add(filePath);
+    this.attempts = 0;
+    this._schedule(this.debounceMs);
+  }
+
+  /**
+   * @private
+   */
+  _schedule(delayMs) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this._flush().catch(error => console.error('File watch check failed:', error.message));
+    }, delayMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Reports the changed files once every one of them has settled
+   * @private
+   */
+  async _flush() {
+    const changed = [...this.changed];
+    const unsettled = [];
+    for (const filePath of changed) {
+      if (!await this._isSettled(filePath)) unsettled.push(filePath);
+    }
+
+    if (unsettled.length > 0) {
+      this.attempts += 1;
+      if (this.attempts < this.maxAttempts) {
+        this._schedule(this.debounceMs);
+        return;
+      }
+      unsettled.forEach(filePath => this.changed.delete(filePath));
+      this.attempts = 0;
+      this.onError(new Error(`Ignored an incomplete save of ${unsettled.map(filePath => path.basename(filePath)).join(', ')}`));
+      if (this.changed.size === 0) return;
+    }
+
+    const reported = [...this.changed];
+    this.changed.clear();
+    this.attempts = 0;
+    await this.onChange(reported);
+  }
+
+  /**
+   * Whether a file is completely written: present, not empty, the same size and
+   * modification time across settleMs, and for xlsx ending with a zip end record
+   * A file that was removed counts as settled, so its removal is reported
+   * @param {string} filePath - Absolute path
+   * @returns {Promise<boolean>}
+   * @private
+   */
+  async _isSettled(filePath) {
+    let before;
+    try {
+      before = await fs.promises.stat(filePath);
+    } catch (error) {
+      return error.code === 'ENOENT';
+    }
+    if (before.size === 0) return false;
+
+    await new Promise(resolve => setTimeout(resolve, this.settleMs));
+    let after;
+    try {
+      after = await fs.promises.stat(filePath);
+    } catch (error) {
+      return false;
+    }
+    if (after.size !== before.size || after.mtimeMs !== before.mtimeMs) return false;
+
+    if (path.extname(filePath).toLowerCase() === '.xlsx') {
+      const length = Math.min(after.size, ZIP_END_MAX_LENGTH);
+      const handle = await fs.promises.open(filePath, 'r');
+      try {
+        const tail = Buffer.alloc(length);
+        await handle.read(tail, 0, length, after.size - length);
+        return tail.lastIndexOf(ZIP_END_SIGNATURE) !== -1;
+      } finally {
+        await handle.close();
+      }
+    }
+    return true;
+  }
+}
+
+export default FileWatchService;
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { createGoogleError } from '../models/ApiError.js';
+import { isSchemeSymbol } from '../utils/amfi.js';
 
 /**
  * GoogleFinanceService - Fetches financial metrics from Google Finance
@@ -9,6 +10,8 @@ import { createGoogleError } from '../models/ApiError.js';
  * - Fetch P/E ratio for individual stocks
  * - Fetch latest earnings data
  * - Batch fetch financial metrics for multiple stocks
+ * - Fetch quotes as a fallback price source
+ * - Implements the market data provider contract (see MarketDataService) as 'google'
  * - Retry logic with exponential backoff
  * - Integration with CacheService (1-hour TTL)
  * - Handle missing data and errors gracefully
@@ -19,8 +22,10 @@ class GoogleFinanceService {
    * @param {Object} options - Configuration options
    */
   constructor(cacheService, options = {}) {
+    this.id = 'google';
     this.cacheService = cacheService;
     this.cacheTTL = options.cacheTTL || 3600; // 1 hour default
+    this.quoteCacheTTL = options.quoteCacheTTL || 120; // Prices go stale faster than metrics
     this.maxRetries = options.maxRetries || 1; // Faster fallback
     this.initialRetryDelay = options.initialRetryDelay || 500; // 0.5 second
     this.timeout = options.timeout || 3000; // 3 seconds
@@ -127,6 +132,84 @@ class GoogleFinanceService {
     return financialMap;
   }
 
+  /**
+   * Whether Google Finance can quote a symbol; mutual fund scheme codes are left to the amfi provider
+   * @param {string} symbol - Market data symbol
+   * @returns {boolean}
+   */
+  supportsSymbol(symbol) {
+    return !isSchemeSymbol(symbol);
+  }
+
+  /**
+   * Get the price and previous close of a symbol from its quote page
+   * @param {string} symbol - Stock symbol (e.g., 'RELIANCE.NS')
+   * @returns {Promise<Object|null>} { price, previousClose }, or null if the page shows no price
+   * @throws {Error} If the page cannot be fetched
+   */
+  async getQuote(symbol) {
+    if (!symbol || typeof symbol !== 'string') {
+      throw new Error('Invalid symbol: must be a non-empty string');
+    }
+
+    const cacheKey = `google:quote:${symbol}`;
+    const cachedQuote = this.cacheService.get(cacheKey);
+
+    if (cachedQuote !== undefined) {
+      return cachedQuote;
+    }
+
+    const quote = await this._fetchQuoteFromGoogle(symbol);
+
+    if (quote !== null) {
+      this.cacheService.set(cacheKey, quote, this.quoteCacheTTL);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Get quotes for multiple symbols; symbols that fail are left out
+   * @param {string[]} symbols - Array of stock symbols
+   * @returns {Promise<Map<string, Object>>} Map of symbol to { price, previousClose }
+   */
+  async getBatchQuotes(symbols) {
+    const validSymbols = (symbols || []).filter(s => s && typeof s === 'string');
+
+    const results = await Promise.all(validSymbols.map(symbol =>
+      this._queueRequest(() => this.getQuote(symbol))
+        .then(quote => ({ symbol, quote }))
+        .catch(() => ({ symbol, quote: null }))
+    ));
+
+    const quoteMap = new Map();
+    results.forEach(({ symbol, quote }) => {
+      if (quote !== null) {
+        quoteMap.set(symbol, quote);
+      }
+    });
+
+    return quoteMap;
+  }
+
+  /**
+   * Get P/E ratio and latest earnings for a symbol
+   * @param {string} symbol - Stock symbol
+   * @returns {Promise<{peRatio: number|null, latestEarnings: string|null}|null>} Metrics, or null if the page has neither
+   */
+  async getFundamentals(symbol) {
+    const data = await this._queueRequest(() => this._getFinancialData(symbol));
+    return data.peRatio === null && data.latestEarnings === null ? null : data;
+  }
+
+  /**
+   * Google Finance has no price history API
+   * @returns {Promise<Array>} No candles
+   */
+  async getHistory() {
+    return [];
+  }
+
   /**
    * Get both P/E ratio and earnings for a symbol
    * @private
@@ -393,6 +476,73 @@ class GoogleFinanceService {
     }
   }
 
+  /**
+   * Fetch the price and previous close from a Google Finance quote page
+   * @private
+   * @param {string} symbol - Stock symbol
+   * @returns {Promise<Object|null>} { price, previousClose }, or null if the page shows no price
+   */
+  async _fetchQuoteFromGoogle(symbol) {
+    const parsePrice = text => {
+      const parsed = parseFloat(String(text || '').replace(/[^0-9.-]/g, ''));
+      return isNaN(parsed) ? null : parsed;
+    };
+
+    try {
+      const googleSymbol = this._convertToGoogleSymbol(symbol);
+      const url = `https://www.google.com/finance/quote/${googleSymbol}`;
+
+      const response = await axios.get(url, {
+        timeout: this.timeout,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+          'Accept-Language': 'en-US,en;q=0.5',
+          'Accept-Encoding': 'gzip, deflate, br',
+          'Connection': 'keep-alive',
+          'Upgrade-Insecure-Requests': '1'
+        }
+      });
+
+      const $ = cheerio.load(response.data);
+
+      // The headline price, e.g. "₹2,861.20"
+      const price = parsePrice($('div[class*="YMlKec"][class*="fxKbKc"]').first().text());
+      if (price === null) {
+        return null;
+      }
+
+      let previousClose = null;
+      $('div[class*="gyFHrc"]').each((i, elem) => {
+        if ($(elem).text().includes('Previous close')) {
+          previousClose = parsePrice($(elem).find('div[class*="P6K39c"]').text());
+        }
+      });
+
+      return { price, previousClose };
+    } catch (error) {
+      if (error.response) {
+        if (error.response.status === 404) {
+          throw createGoogleError(`Symbol not found: ${symbol}`, symbol);
+        } else if (error.response.status === 429) {
+          throw createGoogleError(`Rate limit exceeded for symbol: ${symbol}`, symbol);
+        } else {
+          throw createGoogleError(
+            `HTTP error ${error.response.status} for symbol: ${symbol}`,
+            symbol
+          );
+        }
+      } else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        throw createGoogleError(`Timeout fetching quote for symbol: ${symbol}`, symbol);
+      } else {
+        throw createGoogleError(
+          `Failed to fetch quote for ${symbol}: ${error.message}`,
+          symbol
+        );
+      }
+    }
+  }
+
   /**
    * Convert Yahoo Finance symbol format to Google Finance format
    * @private
@@ -488,12 +638,12 @@ class GoogleFinanceService {
   }
 
   /**
-   * Clear all cached financial data
+   * Clear all cached quotes and financial data
    */
   clearCache() {
     const keys = this.cacheService.keys();
     keys.forEach(key => {
-      if (key.startsWith('google:pe:') || key.startsWith('google:earnings:')) {
+      if (key.startsWith('google:quote:') || key.startsWith('google:pe:') || key.startsWith('google:earnings:')) {
         this.cacheService.delete(key);
       }
     });
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+// Uploads not committed within this time are dropped
+const PENDING_TTL_MS = 30 * 60 * 1000;
+const MAX_PENDING = 10;
+
+/**
+ * ImportService - Stages portfolio uploads and keeps the committed one
+ *
+ * Features:
+ * - Uploads are held in memory until they are committed or expire
+ * - A committed upload is written to the import directory with its mapping profile
+ *   and column mapping, and replaces the configured Excel file as the portfolio source until cleared
+ */
+class ImportService {
+  /**
+   * @param {Object} options - Service options
+   * @param {string} options.directory - Directory for the committed upload and its manifest
+   */
+  constructor(options = {}) {
+    this.directory = options.directory || './data/imports';
+    this.pending = new Map();
+  }
+
+  /**
+   * Holds an upload until it is committed
+   * @param {Buffer} buffer - File contents
+   * @param {string} fileName - Original file name
+   * @returns {Object} The pending import { id, fileName, buffer, createdAt }
+   * @throws {Error} If the file is empty or not xlsx/csv
+   */
+  stage(buffer, fileName) {
+    if (!Buffer.isBuffer(buffer) || buffer.length === 0) {
+      throw new Error('Invalid import: the uploaded file is empty');
+    }
+    const extension = path.extname(fileName || '').toLowerCase();
+    if (!['.xlsx', '.xls', '.csv'].includes(extension)) {
+      throw new Error('Invalid import: expected an .xlsx, .xls or .csv file');
+    }
+
+    this._expire();
+    const upload = {
+      id: `import_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+      fileName: path.basename(fileName),
+      buffer,
+      createdAt: Date.now()
+    };
+    this.pending.set(upload.id, upload);
+
+    // Keep memory bounded when uploads are abandoned
+    while (this.pending.size > MAX_PENDING) {
+      this.pending.delete(this.pending.keys().next().value);
+    }
+
+    return upload;
+  }
+
+  /**
+   * Looks up a pending upload
+   * @param {string} id - Import id returned by stage
+   * @returns {Object} The pending import
+   * @throws {Error} If the upload is unknown or expired
+   */
+  getPending(id) {
+    this._expire();
+    const upload = this.pending.get(id);
+    if (!upload) {
+      throw new Error(`Import not found: ${id} (uploads expire after ${PENDING_TTL_MS / 60000} minutes)`);
+    }
+    return upload;
+  }
+
+  /**
+   * Makes a pending upload the portfolio source
+   * @param {string} id - Import id
+   * @param {Object} settings - How to load the file
+   * @param {string} settings.profile - Mapping profile id
+   * @param {Object} settings.mapping - Column mapping
+   * @returns {Promise<Object>} The active import { filePath, fileName, profile, mapping, importedAt }
+   */
+  async commit(id, settings = {}) {
+    const upload = this.getPending(id);
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const filePath = path.resolve(this.directory, `portfolio${path.extname(upload.fileName).toLowerCase()}`);
+    await fs.promises.writeFile(filePath, upload.buffer);
+
+    const active = {
+      filePath,
+      fileName: upload.fileName,
+      profile: settings.profile,
+      mapping: settings.mapping,
+      importedAt: new Date().toISOString()
+    };
+    await fs.promises.writeFile(this._manifestPath(), `${JSON.stringify(active, null, 2)}\n`, 'utf8');
+    this.pending.delete(id);
+
+    return active;
+  }
+
+  /**
+   * The committed upload, if any
+   * @returns {Promise<Object|null>} The active import, or null when the configured Excel file is used
+   */
+  async getActive() {
+    try {
+      return JSON.parse(await fs.promises.readFile(this._manifestPath(), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Goes back to the configured Excel file
+   * @returns {Promise<boolean>} Whether an import was active
+   */
+  async clearActive() {
+    const active = await this.getActive();
+    if (!active) return false;
+
+    await fs.promises.rm(this._manifestPath(), { force: true });
+    await fs.promises.rm(active.filePath, { force: true });
+    return true;
+  }
+
+  /**
+   * Drops uploads older than PENDING_TTL_MS
+   * @private
+   */
+  _expire() {
+    const cutoff = Date.now() - PENDING_TTL_MS;
+    this.pending.forEach((upload, id) => {
+      if (upload.createdAt < cutoff) this.pending.delete(id);
+    });
+  }
+
+  /**
+   * @private
+   */
+  _manifestPath() {
+    return path.join(this.directory, 'active.json');
+  }
+}
+
+export default ImportService;
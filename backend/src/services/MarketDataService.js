@@ -0,0 +1,208 @@
+import { createApiError } from '../models/ApiError.js';
+
+const PROVIDER_METHODS = ['getQuote', 'getBatchQuotes', 'getFundamentals', 'getHistory'];
+
+/**
+ * Market data provider contract
+ *
+ * A provider is any object with:
+ * - id: short name recorded on holdings and errors, e.g. 'yahoo'
+ * - getQuote(symbol): { price, previousClose } or null when it has no price
+ * - getBatchQuotes(symbols): Map of symbol to { price, previousClose }; symbols it cannot price are left out
+ * - getFundamentals(symbol): { peRatio, latestEarnings } or null when it has none
+ * - getHistory(symbol, range, interval): candles ({ timestamp, date, open, high, low, close, volume }), oldest first
+ * - supportsSymbol(symbol), optional: false for symbols the provider never serves, which the chain then doesn't ask it for
+ *
+ * Symbols are exchange-suffixed tickers (RELIANCE.NS, 500325.BO), or AMFI scheme codes for mutual funds
+ * (120465.MF), as PortfolioService.getYahooSymbol builds them. Quotes may carry a category (a fund's scheme category).
+ * Providers may throw; the chain treats a throw like a missing value and moves on.
+ */
+
+/**
+ * Checks that an object implements the provider contract
+ * @param {Object} provider - Candidate provider
+ * @throws {Error} If the id or a method is missing
+ */
+export function validateMarketDataProvider(provider) {
+  if (!provider || !provider.id || PROVIDER_METHODS.some(method => typeof provider[method] !== 'function')) {
+    throw new Error(`Invalid market data provider: needs id, ${PROVIDER_METHODS.join(', ')}`);
+  }
+}
+
+/**
+ * Picks providers by id in priority order
+ * @param {string} value - Comma-separated provider ids, e.g. "yahoo,google"
+ * @param {Object} available - Providers by id
+ * @returns {Array} Providers, highest priority first
+ * @throws {Error} If an id is unknown or the list is empty
+ */
+export function selectMarketDataProviders(value, available) {
+  const ids = Array.from(new Set(String(value || '').split(',').map(id => id.trim().toLowerCase()).filter(Boolean)));
+
+  if (ids.length === 0) {
+    throw new Error('Invalid market data providers: at least one provider is required');
+  }
+
+  return ids.map(id => {
+    if (!available[id]) {
+      throw new Error(`Invalid market data provider: ${id} (expected one of ${Object.keys(available).join(', ')})`);
+    }
+    return available[id];
+  });
+}
+
+/**
+ * MarketDataService - Prices and fundamentals from a priority chain of market data providers
+ *
+ * Features:
+ * - Asks each provider in turn for the symbols the providers before it could not serve
+ * - Records which provider supplied each value
+ * - Gives each provider a time budget so a slow source falls through instead of blocking the response
+ * - Reports provider failures as ApiErrors with the provider id as source
+ */
+class MarketDataService {
+  /**
+   * @param {Array} providers - Providers, highest priority first
+   * @param {Object} options - Service options
+   * @param {number} options.quoteTimeout - Milliseconds each provider gets for a batch of quotes
+   * @param {number} options.fundamentalsTimeout - Milliseconds each provider gets for fundamentals
+   */
+  constructor(providers, options = {}) {
+    if (!Array.isArray(providers) || providers.length === 0) {
+      throw new Error('Invalid market data providers: at least one provider is required');
+    }
+    providers.forEach(validateMarketDataProvider);
+
+    this.providers = providers;
+    this.quoteTimeout = options.quoteTimeout || 30000;
+    this.fundamentalsTimeout = options.fundamentalsTimeout || 5000;
+  }
+
+  /**
+   * Id of the first provider in the chain
+   * @returns {string}
+   */
+  get primaryProviderId() {
+    return this.providers[0].id;
+  }
+
+  /**
+   * Quotes symbols, falling through the chain for symbols a provider could not price
+   * @param {string[]} symbols - Exchange-suffixed symbols
+   * @returns {Promise<Object>} quotes (Map of symbol to { price, previousClose, provider, category? }) and errors
+   */
+  async getBatchQuotes(symbols) {
+    const quotes = new Map();
+    const errors = [];
+    let remaining = Array.from(new Set((symbols || []).filter(s => s && typeof s === 'string')));
+
+    for (const provider of this.providers) {
+      const asked = this._getSupportedSymbols(provider, remaining);
+      if (asked.length === 0) continue;
+
+      try {
+        const result = await this._withTimeout(provider.getBatchQuotes(asked), this.quoteTimeout);
+        if (result.timedOut) {
+          errors.push(createApiError({
+            source: provider.id,
+            message: `Quotes timed out after ${this.quoteTimeout}ms for ${asked.length} symbols`
+          }));
+          continue;
+        }
+
+        result.value.forEach((quote, symbol) => {
+          if (asked.includes(symbol) && quote && quote.price !== null && quote.price !== undefined && !isNaN(quote.price)) {
+            quotes.set(symbol, {
+              price: quote.price,
+              previousClose: quote.previousClose ?? null,
+              provider: provider.id,
+              ...(quote.category && { category: quote.category })
+            });
+          }
+        });
+      } catch (error) {
+        errors.push(createApiError({ source: provider.id, message: `Failed to fetch quotes: ${error.message}` }));
+      }
+
+      remaining = remaining.filter(symbol => !quotes.has(symbol));
+    }
+
+    return { quotes, errors };
+  }
+
+  /**
+   * Fetches P/E ratio and latest earnings, falling through the chain for symbols a provider has nothing for
+   * Values a provider returns before its time budget runs out are kept
+   * @param {string[]} symbols - Exchange-suffixed symbols
+   * @returns {Promise<Object>} fundamentals (Map of symbol to { peRatio, latestEarnings, provider }) and errors
+   */
+  async getBatchFundamentals(symbols) {
+    const fundamentals = new Map();
+    const errors = [];
+    let remaining = Array.from(new Set((symbols || []).filter(s => s && typeof s === 'string')));
+
+    for (const provider of this.providers) {
+      const asked = this._getSupportedSymbols(provider, remaining);
+      if (asked.length === 0) continue;
+
+      // Answers that arrive after the budget are dropped, so the next provider's values aren't overwritten
+      let open = true;
+      let failed = 0;
+      const requests = asked.map(symbol => Promise.resolve()
+        .then(() => provider.getFundamentals(symbol))
+        .then(data => {
+          if (open && data && (typeof data.peRatio === 'number' || data.latestEarnings)) {
+            fundamentals.set(symbol, { peRatio: data.peRatio ?? null, latestEarnings: data.latestEarnings ?? null, provider: provider.id });
+          }
+        })
+        .catch(() => {
+          failed++;
+        }));
+
+      const { timedOut } = await this._withTimeout(Promise.all(requests), this.fundamentalsTimeout);
+      open = false;
+      if (timedOut || failed > 0) {
+        errors.push(createApiError({
+          source: provider.id,
+          message: timedOut
+            ? `Financial metrics fetch timed out after ${this.fundamentalsTimeout}ms. Using Excel data.`
+            : `Financial metrics fetch failed for ${failed} of ${asked.length} symbols. Using Excel data.`
+        }));
+      }
+
+      remaining = remaining.filter(symbol => !fundamentals.has(symbol));
+    }
+
+    return { fundamentals, errors };
+  }
+
+  /**
+   * Symbols a provider can be asked for
+   * @private
+   */
+  _getSupportedSymbols(provider, symbols) {
+    return typeof provider.supportsSymbol === 'function'
+      ? symbols.filter(symbol => provider.supportsSymbol(symbol))
+      : symbols;
+  }
+
+  /**
+   * Waits for a promise for at most ms milliseconds
+   * @private
+   * @returns {Promise<Object>} { value } when it settles in time, { timedOut: true } otherwise
+   */
+  async _withTimeout(promise, ms) {
+    let timer;
+    const timeout = new Promise(resolve => {
+      timer = setTimeout(() => resolve({ timedOut: true }), ms);
+    });
+
+    try {
+      return await Promise.race([promise.then(value => ({ value, timedOut: false })), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export default MarketDataService;
@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+import { HOUSEHOLD_PORTFOLIO_ID, createPortfolio, validatePortfolio, toPortfolioId } from '../models/Portfolio.js';
+
+/**
+ * PortfolioRegistryService - Lists the portfolios served by the API
+ *
+ * Features:
+ * - A portfolios file lists them explicitly, one per sheet or one per file
+ * - Without one, every sheet of the source workbook that holds a portfolio becomes one,
+ *   named after the sheet
+ * - The first portfolio is the default one served by /api/portfolio
+ */
+class PortfolioRegistryService {
+  /**
+   * @param {PortfolioService} portfolioService - Used to find the sheets that hold a portfolio
+   * @param {Object} options - Service options
+   * @param {string} options.configPath - Optional JSON file listing the portfolios
+   */
+  constructor(portfolioService, options = {}) {
+    this.portfolioService = portfolioService;
+    this.configPath = options.configPath || null;
+    this.configEntries = null;
+    this.discovered = null;
+  }
+
+  /**
+   * Lists the portfolios
+   * @param {Object} source - The portfolio source: the configured Excel file or the committed upload
+   * @param {string} source.filePath - Workbook path
+   * @param {string} source.profile - Mapping profile id, or omitted/'auto'
+   * @param {Object} source.mapping - Column mapping of a committed upload
+   * @returns {Promise<Array>} Portfolio objects, the default one first
+   * @throws {Error} If the portfolios file cannot be read or lists an invalid portfolio
+   */
+  async listPortfolios(source) {
+    if (this.configPath) {
+      return (await this._readConfig()).map(entry => createPortfolio({
+        ...entry,
+        filePath: entry.file ? path.resolve(path.dirname(this.configPath), entry.file) : source.filePath,
+        profile: entry.profile || source.profile,
+        // A committed upload's mapping belongs to the sheet it was previewed on
+        mapping: entry.file || entry.sheet !== undefined ? null : source.mapping
+      }));
+    }
+
+    // A committed upload is previewed and mapped as a single sheet
+    if (source.mapping) {
+      return [createPortfolio({ ...source, name: path.parse(source.filePath).name })];
+    }
+
+    const sheets = await this._discoverSheets(source.filePath, source.profile);
+    if (sheets.length === 0) {
+      // Nothing recognized: load as before so the loader reports what is wrong
+      return [createPortfolio({ ...source, name: path.parse(source.filePath).name })];
+    }
+    if (sheets.length === 1) {
+      return [createPortfolio({ ...source, name: sheets[0], sheet: sheets[0] })];
+    }
+
+    const ids = new Set();
+    return sheets.map(sheet => {
+      // Sheet names that slug to the same id keep them apart with a suffix
+      const baseId = toPortfolioId(sheet) || 'portfolio';
+      let id = baseId;
+      for (let n = 2; ids.has(id) || id === HOUSEHOLD_PORTFOLIO_ID; n++) {
+        id = `${baseId}-${n}`;
+      }
+      ids.add(id);
+      return createPortfolio({ ...source, id, name: sheet, sheet });
+    });
+  }
+
+  /**
+   * Looks up a portfolio by id
+   * @param {Object} source - See listPortfolios
+   * @param {string} id - Portfolio id
+   * @returns {Promise<Object>} The portfolio
+   * @throws {Error} If no portfolio has the id
+   */
+  async getPortfolio(source, id) {
+    const portfolios = await this.listPortfolios(source);
+    const portfolio = portfolios.find(candidate => candidate.id === id);
+    if (!portfolio) {
+      throw new Error(`Portfolio not found: ${id} (expected one of ${[...portfolios.map(p => p.id), HOUSEHOLD_PORTFOLIO_ID].join(', ')})`);
+    }
+    return portfolio;
+  }
+
+  /**
+   * Reads and validates the portfolios file once
+   * @returns {Promise<Array>} Raw portfolio entries
+   * @private
+   */
+  async _readConfig() {
+    if (this.configEntries) return this.configEntries;
+
+    let data;
+    try {
+      data = JSON.parse(await fs.promises.readFile(path.resolve(this.configPath), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Portfolios file not found: ${this.configPath}`);
+      }
+      throw new Error(`Failed to parse Portfolios file: ${error.message}`);
+    }
+
+    const entries = Array.isArray(data) ? data : data?.portfolios;
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new Error('Failed to parse Portfolios file: expected a non-empty array of portfolios');
+    }
+
+    const ids = new Set();
+    entries.forEach(entry => {
+      // Validate with a placeholder file; entries without one read the source workbook
+      const portfolio = createPortfolio({ ...entry, filePath: entry?.file || this.configPath });
+      const validation = validatePortfolio(portfolio);
+      if (!validation.isValid) {
+        throw new Error(`Invalid portfolio ${portfolio.id || '(no id)'} in Portfolios file: ${validation.errors.join(', ')}`);
+      }
+      if (ids.has(portfolio.id)) {
+        throw new Error(`Invalid portfolio ${portfolio.id} in Portfolios file: duplicate id`);
+      }
+      ids.add(portfolio.id);
+    });
+
+    this.configEntries = entries;
+    return entries;
+  }
+
+  /**
+   * Sheets of a workbook that hold a portfolio, cached until the file changes
+   * Sheets found before stay while they exist, so a sheet saved with a mistake is still listed
+   * and falls back to its last good load; an unreadable workbook keeps the previous list
+   * @param {string} filePath - Workbook path
+   * @param {string} profileId - Mapping profile id, or omitted/'auto' to try every profile
+   * @returns {Promise<Array<string>>} Sheet names
+   * @private
+   */
+  async _discoverSheets(filePath, profileId) {
+    const resolvedPath = path.resolve(filePath);
+    const previous = this.discovered?.filePath === resolvedPath ? this.discovered.sheets : [];
+
+    let stats;
+    try {
+      stats = await fs.promises.stat(resolvedPath);
+    } catch (error) {
+      // Leave the error to the loader, which reports it as an Excel file error
+      return previous;
+    }
+
+    const key = `${stats.mtimeMs}:${profileId || 'auto'}`;
+    if (this.discovered?.filePath !== resolvedPath || this.discovered.key !== key) {
+      let sheets = previous;
+      try {
+        sheets = this.portfolioService.findPortfolioSheets(await fs.promises.readFile(resolvedPath), profileId, { include: previous });
+      } catch (error) {
+        console.error(`Could not list the sheets of ${filePath}:`, error.message);
+      }
+      this.discovered = { filePath: resolvedPath, key, sheets };
+    }
+    return this.discovered.sheets;
+  }
+}
+
+export default PortfolioRegistryService;
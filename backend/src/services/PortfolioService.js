@@ -3,174 +3,594 @@
  */
 
 import xlsx from 'xlsx';
-import { createHolding } from '../models/Holding.js';
+import { calculateDayChange, createHolding, parseInstrumentType } from '../models/Holding.js';
+import { createApiError } from '../models/ApiError.js';
+import { createSymbolAlias, validateSymbolAlias } from '../models/SymbolAlias.js';
+import { createTransaction, validateTransaction, sortTransactions } from '../models/Transaction.js';
+import {
+  createCorporateAction,
+  validateCorporateAction,
+  sortCorporateActions
+} from '../models/CorporateAction.js';
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
+import { parseSchemeCode, toSchemeSymbol } from '../utils/amfi.js';
 import { getNseFromBse } from '../utils/bseToNseMapping.js';
+import { buildAliasIndex, resolveSymbolAlias, findAliasIsin } from '../utils/symbolAliases.js';
+import { buildLots, valueLots } from '../utils/lotCalculations.js';
+import { applyCorporateActionToLots } from '../utils/corporateActions.js';
+import { todayIsoDate } from '../utils/dateUtils.js';
+import { calculateReturns } from '../utils/returnCalculations.js';
+import { calculateDayChangeTotals, calculateDividendTotals } from '../utils/portfolioCalculations.js';
+import { summarizeDividends } from '../utils/dividendCalculations.js';
+import { parseBrokerFile } from '../importers/index.js';
+import { validateExcelRows } from '../models/ExcelRow.js';
+import { createMappingProfile, validateMappingProfile } from '../models/MappingProfile.js';
+import {
+  detectColumnMapping,
+  findAsOfDate,
+  findHeaderRow,
+  parseSheetNumber,
+  scoreMappingProfile,
+  validateColumnMapping,
+  getMissingColumns,
+  readPortfolioRows
+} from '../utils/portfolioSheet.js';
+
+// Number formats of the exported workbook
+const AMOUNT_FORMAT = '#,##0.00';
+const PERCENT_FORMAT = '0.00%';
+
+// Holdings sheet columns of the exported workbook, in the layout the standard profile reads back
+const EXPORT_HOLDING_COLUMNS = [
+  { header: 'No', width: 5 },
+  { header: 'Particulars', width: 28 },
+  { header: 'Purchase Price', width: 14, format: AMOUNT_FORMAT },
+  { header: 'Qty', width: 8 },
+  { header: 'Investment', width: 14, format: AMOUNT_FORMAT },
+  { header: 'Portfolio (%)', width: 12, format: PERCENT_FORMAT },
+  { header: 'NSE/BSE', width: 16 },
+  { header: 'CMP', width: 12, format: AMOUNT_FORMAT },
+  { header: 'Present value', width: 14, format: AMOUNT_FORMAT },
+  { header: 'Gain/Loss', width: 14, format: AMOUNT_FORMAT },
+  { header: 'Gain/Loss (%)', width: 12, format: PERCENT_FORMAT },
+  { header: 'P/E (TTM)', width: 10, format: AMOUNT_FORMAT },
+  { header: 'Latest Earnings', width: 16 },
+  { header: 'Type', width: 12 }
+];
+
+// Instrument types as the exported workbook writes them
+const INSTRUMENT_TYPE_LABELS = {
+  equity: 'Equity',
+  mutual_fund: 'Mutual Fund',
+  etf: 'ETF',
+  bond: 'Bond',
+  gold: 'Gold'
+};
+
+// Summary sheet columns of the exported workbook, one row per SectorSummary
+const EXPORT_SUMMARY_COLUMNS = [
+  { header: 'Sector', width: 24 },
+  { header: 'Holdings', width: 10 },
+  { header: 'Investment', width: 14, format: AMOUNT_FORMAT },
+  { header: 'Present Value', width: 14, format: AMOUNT_FORMAT },
+  { header: 'Gain/Loss', width: 14, format: AMOUNT_FORMAT },
+  { header: 'Gain/Loss (%)', width: 12, format: PERCENT_FORMAT },
+  { header: 'Day Change', width: 14, format: AMOUNT_FORMAT },
+  { header: 'Dividends', width: 14, format: AMOUNT_FORMAT },
+  { header: 'XIRR (%)', width: 10, format: PERCENT_FORMAT }
+];
+
+// Profiles for the sheet layouts known out of the box; see src/config/mappingProfiles.json
+const BUILT_IN_MAPPING_PROFILES = JSON.parse(
+  readFileSync(new URL('../config/mappingProfiles.json', import.meta.url), 'utf8')
+).map(createMappingProfile);
+
+// Ticker changes known out of the box; see src/config/symbolAliases.json
+const BUILT_IN_SYMBOL_ALIASES = JSON.parse(
+  readFileSync(new URL('../config/symbolAliases.json', import.meta.url), 'utf8')
+).map(createSymbolAlias);
+
+// Equity ISINs, which a sheet may give instead of an NSE symbol or BSE code
+const EQUITY_ISIN_PATTERN = /^INE[A-Z0-9]{8}\d$/;
+
+/**
+ * Reads a workbook sheet as rows of cells
+ * @param {Object} workbook - Parsed xlsx workbook
+ * @param {number|string} sheet - Sheet index or case-insensitive name
+ * @returns {Array<Array>|null} Rows, or null when the workbook has no such sheet
+ */
+function readWorkbookSheet(workbook, sheet) {
+  const name = typeof sheet === 'number'
+    ? workbook.SheetNames[sheet]
+    : workbook.SheetNames.find(candidate => candidate.trim().toLowerCase() === String(sheet).trim().toLowerCase());
+  return name
+    ? xlsx.utils.sheet_to_json(workbook.Sheets[name], { header: 1, defval: null, blankrows: true })
+    : null;
+}
+
+/**
+ * Builds a sheet from rows of cells, applying each column's number format and width
+ * @param {Array<Array>} rows - Rows of cells, the header row first
+ * @param {Array} columns - Column definitions ({ header, width, format })
+ * @returns {Object} xlsx worksheet
+ */
+function buildWorksheet(rows, columns) {
+  const worksheet = xlsx.utils.aoa_to_sheet(rows);
+
+  rows.forEach((cells, r) => {
+    if (r === 0) return;
+    columns.forEach(({ format }, c) => {
+      const cell = worksheet[xlsx.utils.encode_cell({ r, c })];
+      if (format && cell && cell.t === 'n') cell.z = format;
+    });
+  });
+  worksheet['!cols'] = columns.map(({ width }) => ({ wch: width }));
+
+  return worksheet;
+}
+
+/**
+ * Stock code as the portfolio sheet writes it: the NSE symbol, the numeric BSE code, both as NSE/BSE,
+ * or MF:schemeCode for a mutual fund
+ * @param {Object} holding - Holding with nseCode and/or bseCode, or schemeCode
+ * @returns {string|number|null}
+ */
+function toStockCode(holding) {
+  if (holding.schemeCode) return `MF:${holding.schemeCode}`;
+  if (holding.nseCode && holding.bseCode) return `${holding.nseCode}/${holding.bseCode}`;
+  if (holding.nseCode) return holding.nseCode;
+  if (holding.bseCode) return /^\d+$/.test(holding.bseCode) ? Number(holding.bseCode) : holding.bseCode;
+  if (holding.isin) return holding.isin;
+  return null;
+}
+
+/**
+ * Numbers the ids of holdings that share one, e.g. a security listed under two sectors,
+ * so ids stay unique and keep their order across reloads
+ * @param {Array} holdings - Holdings, changed in place
+ * @returns {Array} The holdings
+ */
+function numberDuplicateIds(holdings) {
+  const counts = new Map();
+  holdings.forEach(holding => {
+    const count = (counts.get(holding.id) || 0) + 1;
+    counts.set(holding.id, count);
+    if (count > 1) {
+      holding.id = `${holding.id}#${count}`;
+    }
+  });
+  return holdings;
+}
 
 class PortfolioService {
+  /**
+   * @param {Object} options - Service options
+   * @param {Array} options.mappingProfiles - Sheet mapping profiles, tried in order (defaults to the built-in ones)
+   * @param {SecurityMasterService} options.securityMaster - Loaded security master for resolving BSE codes,
+   *   ISINs and default sectors; without one, BSE codes are quoted on BSE
+   * @param {Array} options.symbolAliases - Symbol aliases (defaults to the built-in ones)
+   */
+  constructor(options = {}) {
+    this.mappingProfiles = options.mappingProfiles || BUILT_IN_MAPPING_PROFILES;
+    this.securityMaster = options.securityMaster || null;
+    this.symbolAliases = options.symbolAliases || BUILT_IN_SYMBOL_ALIASES;
+    this.aliasIndex = buildAliasIndex(this.symbolAliases);
+  }
+
+  /**
+   * Loads mapping profiles from a JSON file (an array of profiles, or { profiles: [...] })
+   * Loaded profiles are tried before the built-in ones and replace built-ins with the same id
+   * @param {string} filePath - Path to the profiles file
+   * @returns {Promise<number>} Number of profiles loaded
+   * @throws {Error} If the file cannot be read or a profile is invalid
+   */
+  async loadMappingProfiles(filePath) {
+    let data;
+    try {
+      data = JSON.parse(readFileSync(resolve(filePath), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Mapping profiles file not found: ${filePath}`);
+      }
+      throw new Error(`Failed to parse Mapping profiles file: ${error.message}`);
+    }
+
+    const list = Array.isArray(data) ? data : data?.profiles;
+    if (!Array.isArray(list)) {
+      throw new Error('Failed to parse Mapping profiles file: expected an array of profiles');
+    }
+
+    const profiles = list.map(entry => {
+      const profile = createMappingProfile(entry || {});
+      const validation = validateMappingProfile(profile);
+      if (!validation.isValid) {
+        throw new Error(`Invalid mapping profile ${profile.id || '(no id)'}: ${validation.errors.join(', ')}`);
+      }
+      return profile;
+    });
+
+    const ids = new Set(profiles.map(profile => profile.id));
+    this.mappingProfiles = [...profiles, ...BUILT_IN_MAPPING_PROFILES.filter(profile => !ids.has(profile.id))];
+    return profiles.length;
+  }
+
+  /**
+   * Loads symbol aliases from a JSON file (an array of aliases, or { aliases: [...] })
+   * Loaded aliases are added to the built-in ones and replace built-ins for the same code
+   * @param {string} filePath - Path to the aliases file
+   * @returns {Promise<number>} Number of aliases loaded
+   * @throws {Error} If the file cannot be read or an alias is invalid
+   */
+  async loadSymbolAliases(filePath) {
+    let data;
+    try {
+      data = JSON.parse(readFileSync(resolve(filePath), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Symbol aliases file not found: ${filePath}`);
+      }
+      throw new Error(`Failed to parse Symbol aliases file: ${error.message}`);
+    }
+
+    const list = Array.isArray(data) ? data : data?.aliases;
+    if (!Array.isArray(list)) {
+      throw new Error('Failed to parse Symbol aliases file: expected an array of aliases');
+    }
+
+    const aliases = list.map(entry => {
+      const alias = createSymbolAlias(entry || {});
+      const validation = validateSymbolAlias(alias);
+      if (!validation.isValid) {
+        throw new Error(`Invalid symbol alias ${alias.from || '(no from code)'}: ${validation.errors.join(', ')}`);
+      }
+      return alias;
+    });
+
+    const codes = new Set(aliases.map(alias => alias.from));
+    this.symbolAliases = [...BUILT_IN_SYMBOL_ALIASES.filter(alias => !codes.has(alias.from)), ...aliases];
+    this.aliasIndex = buildAliasIndex(this.symbolAliases);
+    return aliases.length;
+  }
+
+  /**
+   * Looks up a mapping profile by id
+   * @param {string} id - Profile id
+   * @returns {Object} The profile
+   * @throws {Error} If no profile has the id
+   */
+  getMappingProfile(id) {
+    const profile = this.mappingProfiles.find(candidate => candidate.id === id);
+    if (!profile) {
+      throw new Error(`Invalid mapping profile: ${id} (expected one of ${this.mappingProfiles.map(p => p.id).join(', ')})`);
+    }
+    return profile;
+  }
+
   /**
    * Loads portfolio data from an Excel file
    * @param {string} filePath - Path to the Excel file
+   * @param {Object} options - Load options
+   * @param {Object} options.mapping - Column mapping overriding the one detected from the header row
+   * @param {string} options.profile - Mapping profile id, or omitted/'auto' to pick the best fit
+   * @param {number|string} options.sheet - Sheet index or name overriding the profile's sheet
    * @returns {Promise<Object>} Object containing holdings array and any errors
    * @throws {Error} If file cannot be read or parsed
    */
-  async loadPortfolioFromExcel(filePath) {
+  async loadPortfolioFromExcel(filePath, options = {}) {
     try {
       // Resolve the file path
       const resolvedPath = resolve(filePath);
       
       // Read the Excel file
       const fileBuffer = readFileSync(resolvedPath);
-      
-      // Parse the workbook
-      const workbook = xlsx.read(fileBuffer, { type: 'buffer' });
-      
-      // Get the first sheet
-      if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
-        throw new Error('Excel file contains no sheets');
-      }
-      
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      
-      // Convert sheet to JSON (raw format)
-      const rawRows = xlsx.utils.sheet_to_json(worksheet);
-      
-      if (!rawRows || rawRows.length === 0) {
-        throw new Error('Excel file contains no data rows');
-      }
-      
-      // Parse the Excel structure
-      // Row 0: Headers (in __EMPTY_X format with values as header names)
-      // Row 1+: Either sector headers or stock data
-      const headerRow = rawRows[0];
-      
-      // Build column mapping from headerRow
-      // Find the best mapping for each required column
-      const findKey = (possibleNames) => {
-        return Object.keys(headerRow).find(key => {
-          const val = headerRow[key];
-          return val && typeof val === 'string' && possibleNames.some(name => 
-            val.toLowerCase().includes(name.toLowerCase())
-          );
-        });
-      };
+      const result = this.parsePortfolioFile(fileBuffer, options);
 
-      const keys = {
-        number: findKey(['No', 'S.No']),
-        particulars: findKey(['Particulars', 'Name']),
-        purchasePrice: findKey(['Purchase Price', 'Buy Price']),
-        quantity: findKey(['Qty', 'Quantity']),
-        stockCode: findKey(['NSE/BSE', 'Code', 'Symbol']),
-        pe: findKey(['P/E', 'PE Ratio']),
-        earnings: findKey(['Latest Earnings', 'Earnings']),
-        sector: findKey(['Sector', 'Category'])
-      };
-
-      console.log('Detected Excel Column Mapping:', keys);
-      
-      const errors = [];
-      const holdings = [];
-      let currentSector = 'Uncategorized';
-      
-      // Process rows starting from index 1 (skip header row)
-      for (let i = 1; i < rawRows.length; i++) {
-        const row = rawRows[i];
-        
-        // Particulars is required for both sector and stock rows
-        const particularsValue = row[keys.particulars];
-        if (!particularsValue || typeof particularsValue !== 'string') continue;
-
-        // Check if this is a sector header row
-        const hasStockNumber = row[keys.number] !== undefined && typeof row[keys.number] === 'number';
-        const stockCode = row[keys.stockCode];
-        const hasStockCode = stockCode !== undefined && stockCode !== null && stockCode !== '';
-        
-        // Sector rows typically have only the name and includes "Sector" or no stock number/code
-        if (!hasStockNumber && !hasStockCode && (particularsValue.includes('Sector') || particularsValue.includes('Total'))) {
-          currentSector = particularsValue.replace(/\s*Sector\s*/i, '').replace(/Total/i, '').trim();
-          continue; 
-        }
-        
-        // This is a stock row - parse it
-        try {
-          const purchasePriceValue = row[keys.purchasePrice];
-          const quantityValue = row[keys.quantity];
-          
-          // Validate required fields
-          if (purchasePriceValue === undefined || quantityValue === undefined || !hasStockCode) {
-            continue;
-          }
-          
-          // Parse NSE/BSE codes
-          const [nse, bse] = this._parseNseBseCodes(stockCode);
-          
-          // Extract P/E ratio and Latest Earnings
-          const peRatioValue = row[keys.pe];
-          const latestEarningsValue = row[keys.earnings];
-          
-          // Parse P/E ratio (can be number, string like "#N/A", or empty)
-          let peRatio = null;
-          if (peRatioValue !== undefined && peRatioValue !== null && peRatioValue !== '') {
-            const parsed = Number(peRatioValue);
-            if (!isNaN(parsed) && parsed > 0) {
-              peRatio = parsed;
-            } else {
-              // Might be string like "#N/A" or "-"
-              // console.debug(`Non-numeric PE for ${particularsValue}: ${peRatioValue}`);
-            }
-          }
-          
-          let latestEarnings = null;
-          if (latestEarningsValue !== undefined && latestEarningsValue !== null && latestEarningsValue !== '' && latestEarningsValue !== '#N/A') {
-            latestEarnings = String(latestEarningsValue).trim();
-          }
-          
-          // Create holding
-          const holding = createHolding({
-            particulars: particularsValue.trim(),
-            purchasePrice: Number(purchasePriceValue) || 0,
-            quantity: Number(quantityValue) || 0,
-            nseCode: nse,
-            bseCode: bse,
-            sector: currentSector,
-            cmp: 0,
-            peRatio: peRatio,
-            latestEarnings: latestEarnings
-          });
-          
-          holdings.push(holding);
-          
-        } catch (error) {
-          errors.push({
-            row: i + 1,
-            error: `Failed to create holding for ${particularsValue}: ${error.message}`
-          });
-        }
+      if (result.missingColumns.length > 0) {
+        throw new Error(`Excel file is missing columns: ${result.missingColumns.join(', ')} (mapping profile ${result.profile.id})`);
       }
-      
-      console.log(`Successfully loaded ${holdings.length} holdings in ${new Set(holdings.map(h => h.sector)).size} sectors`);
+
+      console.log(`Successfully loaded ${result.holdings.length} holdings in ${new Set(result.holdings.map(h => h.sector)).size} sectors (mapping profile ${result.profile.id})`);
       return {
-        holdings,
-        errors,
-        totalRows: rawRows.length - 1, // Exclude header row
-        validRows: holdings.length,
-        invalidRows: errors.length
+        holdings: result.holdings,
+        errors: result.errors,
+        mapping: result.mapping,
+        profile: result.profile,
+        asOfDate: result.asOfDate,
+        totalRows: result.totalRows,
+        validRows: result.holdings.length,
+        invalidRows: result.errors.length
       };
       
     } catch (error) {
       // Handle file reading and parsing errors
       if (error.code === 'ENOENT') {
         throw new Error(`Excel file not found: ${filePath}`);
-      } else if (error.message.includes('Excel file')) {
+      } else if (error.message.includes('Excel file') || error.message.startsWith('Invalid mapping profile')) {
         throw error;
       } else {
         throw new Error(`Failed to parse Excel file: ${error.message}`);
       }
     }
   }
-  
+
+  /**
+   * Parses a portfolio workbook (xlsx or csv)
+   * The mapping profile decides the sheet, header aliases, sector rows and number format;
+   * without one the profile that detects the most columns is used. The column mapping
+   * is detected from the header row unless one is given; stock rows are checked with
+   * validateExcelRows and the valid ones become holdings
+   * @param {Buffer} buffer - File contents
+   * @param {Object} options - Parse options
+   * @param {Object} options.mapping - Field to column index overrides (see PORTFOLIO_COLUMNS)
+   * @param {string} options.profile - Mapping profile id, or omitted/'auto'
+   * @param {number|string} options.sheet - Sheet index or name overriding the profile's sheet
+   * @returns {Object} holdings, row errors, the profile used ({ id, name, selection }), headers,
+   *   header row number, detected and applied mappings, required columns left unmapped,
+   *   parsed rows, the number of data rows and the sheet's "As of" date (or null)
+   * @throws {Error} If the workbook is empty, or the profile or mapping is invalid
+   */
+  parsePortfolioFile(buffer, options = {}) {
+    // CSV cells are read as written so the "As of" date reaches toIsoDate day first
+    const workbook = xlsx.read(buffer, { type: 'buffer', raw: true });
+
+    if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+      throw new Error('Excel file contains no sheets');
+    }
+
+    const { profile, rawRows, selection } = this._selectMappingProfile(workbook, options.profile, options.sheet);
+    const headerIndex = findHeaderRow(rawRows, profile);
+
+    if (headerIndex === -1) {
+      throw new Error('Excel file contains no data rows');
+    }
+
+    const headers = (rawRows[headerIndex] || []).map(header => (header === null ? '' : String(header).trim()));
+    const detectedMapping = detectColumnMapping(rawRows[headerIndex], profile);
+    if (options.mapping) {
+      validateColumnMapping(options.mapping, headers.length);
+    }
+    const appliedMapping = { ...detectedMapping, ...options.mapping };
+    const missingColumns = getMissingColumns(appliedMapping);
+
+    const rows = missingColumns.length > 0 ? [] : readPortfolioRows(rawRows, headerIndex, appliedMapping, profile);
+    const validation = validateExcelRows(rows.map(entry => entry.values));
+    const invalid = new Set();
+    const errors = validation.errors.map(({ row, errors: problems }) => {
+      const entry = rows[row - 1];
+      invalid.add(entry);
+      return {
+        row: entry.row,
+        symbol: entry.values['NSE/BSE'] || undefined,
+        error: `Invalid row for ${entry.values.Particulars}: ${problems.join(', ')}`
+      };
+    });
+
+    const holdings = rows
+      .filter(entry => !invalid.has(entry))
+      .map(({ values, peRatio, latestEarnings }) => {
+        const parsed = this._parseHoldingCodes(values['NSE/BSE'], values.Type);
+        const codes = parsed.schemeCode ? parsed : { ...parsed, ...this._identify(parsed) };
+        // Rows outside a sector take the security master's industry; funds keep none, so their
+        // scheme category can take its place
+        let sector = values.Sector;
+        if (sector === profile.sectorRows.defaultSector) {
+          sector = codes.schemeCode ? '' : (this._findSecurity(codes)?.industry || sector);
+        }
+        return createHolding({
+          particulars: values.Particulars,
+          purchasePrice: values['Purchase Price'],
+          quantity: values.Qty,
+          ...codes,
+          sector,
+          cmp: 0,
+          peRatio,
+          latestEarnings
+        });
+      });
+    numberDuplicateIds(holdings);
+
+    return {
+      holdings,
+      errors,
+      profile: { id: profile.id, name: profile.name, selection },
+      headers,
+      headerRow: headerIndex + 1,
+      detectedMapping,
+      mapping: appliedMapping,
+      missingColumns,
+      rows,
+      asOfDate: findAsOfDate(rawRows, headerIndex),
+      totalRows: rawRows.slice(headerIndex + 1)
+        .filter(cells => cells.some(cell => cell !== null && String(cell).trim() !== '')).length
+    };
+  }
+
+  /**
+   * Names of the sheets in a workbook that hold a portfolio, in workbook order
+   * A sheet counts when the mapping profile, or without one any profile, detects every required column on it
+   * @param {Buffer} buffer - File contents
+   * @param {string} profileId - Mapping profile id, or omitted/'auto'
+   * @param {Object} options - Discovery options
+   * @param {Array<string>} options.include - Sheets that count while they exist, even if they no longer parse
+   * @returns {Array<string>} Sheet names
+   */
+  findPortfolioSheets(buffer, profileId, options = {}) {
+    const workbook = xlsx.read(buffer, { type: 'buffer' });
+    const profiles = profileId && profileId !== 'auto' ? [this.getMappingProfile(profileId)] : this.mappingProfiles;
+    const include = new Set(options.include || []);
+
+    return (workbook.SheetNames || []).filter(name => {
+      if (include.has(name)) return true;
+      const rawRows = readWorkbookSheet(workbook, name);
+      return profiles.some(profile => scoreMappingProfile(rawRows, profile).complete);
+    });
+  }
+
+  /**
+   * Writes enriched holdings back to a workbook in the layout loadPortfolioFromExcel reads
+   * The holdings sheet has a "<Sector> Sector" header row with the sector's totals above each
+   * sector's stocks and a closing Portfolio Total row, both skipped when read back; a Summary
+   * sheet lists each SectorSummary and the portfolio totals. Prices that could not be fetched
+   * (CMP 0) leave CMP, present value and gains blank
+   * @param {Array} sectors - Sectors of { sector, holdings, summary }
+   * @param {Object} totals - Portfolio totals (calculatePortfolioTotals)
+   * @param {Object} options - Export options
+   * @param {string} options.sheetName - Name of the holdings sheet (defaults to Portfolio)
+   * @returns {Buffer} xlsx file contents
+   */
+  writePortfolioWorkbook(sectors, totals, options = {}) {
+    const fraction = percentage => (percentage === null || percentage === undefined ? null : percentage / 100);
+    const weight = holdings => fraction(holdings.reduce((sum, h) => sum + (h.portfolioPercentage || 0), 0));
+
+    const holdingRows = [EXPORT_HOLDING_COLUMNS.map(column => column.header)];
+    let number = 0;
+    sectors.forEach(({ sector, holdings, summary }) => {
+      holdingRows.push([
+        null, `${sector} Sector`, null, null, summary.totalInvestment, weight(holdings),
+        null, null, summary.totalPresentValue, summary.totalGainLoss, fraction(summary.gainLossPercentage)
+      ]);
+      holdings.forEach(holding => {
+        const priced = holding.cmp > 0;
+        // Earnings are read back as text; numeric ones are written as numbers
+        const earnings = holding.latestEarnings ? String(holding.latestEarnings).trim() : '';
+        number += 1;
+        holdingRows.push([
+          number,
+          holding.particulars,
+          holding.purchasePrice,
+          holding.quantity,
+          holding.investment,
+          fraction(holding.portfolioPercentage),
+          toStockCode(holding),
+          priced ? holding.cmp : null,
+          priced ? holding.presentValue : null,
+          priced ? holding.gainLoss : null,
+          priced ? fraction(holding.gainLossPercentage) : null,
+          holding.peRatio ?? null,
+          earnings === '' ? null : (Number.isFinite(Number(earnings)) ? Number(earnings) : earnings),
+          INSTRUMENT_TYPE_LABELS[holding.instrumentType] || null
+        ]);
+      });
+    });
+    holdingRows.push([
+      null, 'Portfolio Total', null, null, totals.totalInvestment,
+      weight(sectors.flatMap(({ holdings }) => holdings)),
+      null, null, totals.totalPresentValue, totals.totalGainLoss, fraction(totals.totalGainLossPercentage)
+    ]);
+
+    const summaryRows = [
+      EXPORT_SUMMARY_COLUMNS.map(column => column.header),
+      ...sectors.map(({ summary }) => [
+        summary.sector,
+        summary.holdingsCount,
+        summary.totalInvestment,
+        summary.totalPresentValue,
+        summary.totalGainLoss,
+        fraction(summary.gainLossPercentage),
+        summary.dayChange,
+        summary.dividendsReceived,
+        fraction(summary.xirr)
+      ]),
+      [
+        'Total',
+        totals.holdingsCount,
+        totals.totalInvestment,
+        totals.totalPresentValue,
+        totals.totalGainLoss,
+        fraction(totals.totalGainLossPercentage),
+        totals.totalDayChange,
+        totals.totalDividends,
+        fraction(totals.xirr)
+      ]
+    ];
+
+    // Sheet names are limited to 31 characters without []:*?/\ and must differ from Summary
+    let sheetName = String(options.sheetName || '').replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Portfolio';
+    if (sheetName.toLowerCase() === 'summary') sheetName = 'Holdings';
+
+    const workbook = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(workbook, buildWorksheet(holdingRows, EXPORT_HOLDING_COLUMNS), sheetName);
+    xlsx.utils.book_append_sheet(workbook, buildWorksheet(summaryRows, EXPORT_SUMMARY_COLUMNS), 'Summary');
+
+    return xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+
+  /**
+   * Picks the mapping profile for a workbook and reads the profile's sheet
+   * Automatic selection prefers profiles that detect every required column, then the
+   * most columns, then the most headers equal to an alias; earlier profiles win ties
+   * @param {Object} workbook - Parsed xlsx workbook
+   * @param {string} profileId - Profile id, or omitted/'auto'
+   * @param {number|string} sheet - Sheet to read instead of the profile's sheet
+   * @returns {Object} profile, rawRows of its sheet and selection ('explicit' or 'auto')
+   * @private
+   */
+  _selectMappingProfile(workbook, profileId, sheet) {
+    const hasSheetOverride = sheet !== undefined && sheet !== null;
+    const readSheet = profile => readWorkbookSheet(workbook, hasSheetOverride ? sheet : profile.sheet);
+
+    if (hasSheetOverride && !readSheet()) {
+      throw new Error(`Excel file has no sheet ${sheet}`);
+    }
+
+    if (profileId && profileId !== 'auto') {
+      const profile = this.getMappingProfile(profileId);
+      const rawRows = readSheet(profile);
+      if (!rawRows) {
+        throw new Error(`Excel file has no sheet ${profile.sheet} (mapping profile ${profile.id})`);
+      }
+      return { profile, rawRows, selection: 'explicit' };
+    }
+
+    let best = null;
+    this.mappingProfiles.forEach(profile => {
+      const rawRows = readSheet(profile);
+      if (!rawRows) return;
+
+      const score = scoreMappingProfile(rawRows, profile);
+      const isBetter = !best ||
+        (score.complete !== best.score.complete ? score.complete
+          : score.matched !== best.score.matched ? score.matched > best.score.matched
+            : score.exact > best.score.exact);
+      if (isBetter) {
+        best = { profile, rawRows, score };
+      }
+    });
+
+    if (!best) {
+      throw new Error('Excel file has none of the sheets named by the mapping profiles');
+    }
+    return { profile: best.profile, rawRows: best.rawRows, selection: 'auto' };
+  }
+
+  /**
+   * Reads a holding's instrument type and codes from its stock code and optional Type cell
+   * An equity ISIN given instead of a code is returned as isin; _identify looks up its codes
+   * Funds are written as MF:120465, or as the bare scheme code with a Mutual Fund type
+   * @param {string|number} stockCode - The NSE/BSE cell
+   * @param {string} typeLabel - The Type cell, if the sheet has one
+   * @returns {Object} instrumentType, nseCode, bseCode and schemeCode
+   * @private
+   */
+  _parseHoldingCodes(stockCode, typeLabel) {
+    const labelledType = parseInstrumentType(typeLabel);
+    const schemeCode = parseSchemeCode(stockCode) ||
+      (labelledType === 'mutual_fund' && /^\d+$/.test(String(stockCode ?? '').trim()) ? String(stockCode).trim() : null);
+
+    if (schemeCode) {
+      return { instrumentType: 'mutual_fund', nseCode: '', bseCode: null, schemeCode };
+    }
+
+    const code = String(stockCode ?? '').trim().toUpperCase();
+    if (EQUITY_ISIN_PATTERN.test(code)) {
+      return { instrumentType: labelledType || 'equity', nseCode: '', bseCode: null, isin: code, schemeCode: null };
+    }
+
+    const [nseCode, bseCode] = this._parseNseBseCodes(stockCode);
+    return { instrumentType: labelledType || 'equity', nseCode, bseCode, schemeCode: null };
+  }
+
   /**
    * Parses NSE/BSE codes from a string or number
    * @param {string|number} stockCode - The NSE/BSE code (can be string NSE code or numeric BSE code)
@@ -205,13 +625,615 @@ class PortfolioService {
     return [codeStr, null];
   }
 
+  /**
+   * Loads a transaction ledger (buys and sells) from an Excel or CSV file
+   * Expects one header row followed by one row per transaction
+   * @param {string} filePath - Path to the ledger file
+   * @returns {Promise<Object>} Object containing transactions array and any errors
+   * @throws {Error} If file cannot be read or parsed
+   */
+  async loadTransactionsFromFile(filePath) {
+    try {
+      const resolvedPath = resolve(filePath);
+      const fileBuffer = readFileSync(resolvedPath);
+      // Cells are read as written so DD/MM/YYYY dates reach toIsoDate instead of SheetJS's month-first parsing
+      const workbook = xlsx.read(fileBuffer, { type: 'buffer', raw: true });
+
+      if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+        throw new Error('Transactions file contains no sheets');
+      }
+
+      // Prefer a sheet named like "Transactions" or "Ledger", otherwise the first sheet
+      const sheetName = workbook.SheetNames.find(name => /transaction|ledger|trade/i.test(name))
+        || workbook.SheetNames[0];
+      const rawRows = xlsx.utils.sheet_to_json(workbook.Sheets[sheetName], { defval: null });
+
+      if (!rawRows || rawRows.length === 0) {
+        return { transactions: [], errors: [], totalRows: 0, validRows: 0, invalidRows: 0 };
+      }
+
+      const headers = Object.keys(rawRows[0]);
+      const findKey = (possibleNames) => headers.find(header =>
+        possibleNames.some(name => header.toLowerCase().includes(name.toLowerCase()))
+      );
+
+      const keys = {
+        date: findKey(['Date']),
+        type: findKey(['Type', 'Side', 'Action']),
+        particulars: findKey(['Particulars', 'Name', 'Company']),
+        stockCode: findKey(['NSE/BSE', 'Code', 'Symbol']),
+        price: findKey(['Price', 'Rate']),
+        quantity: findKey(['Qty', 'Quantity']),
+        charges: findKey(['Charges', 'Brokerage', 'Fees']),
+        sector: findKey(['Sector', 'Category'])
+      };
+
+      const errors = [];
+      const transactions = [];
+
+      rawRows.forEach((row, index) => {
+        const [nse, bse] = this._parseNseBseCodes(row[keys.stockCode]);
+        const transaction = createTransaction({
+          particulars: row[keys.particulars] ? String(row[keys.particulars]).trim() : nse || bse || '',
+          nseCode: nse,
+          bseCode: bse,
+          sector: row[keys.sector] ? String(row[keys.sector]).trim() : '',
+          type: row[keys.type],
+          date: row[keys.date],
+          price: parseSheetNumber(row[keys.price]),
+          quantity: parseSheetNumber(row[keys.quantity]),
+          charges: parseSheetNumber(row[keys.charges])
+        });
+
+        const validation = validateTransaction(transaction);
+        if (validation.isValid) {
+          transactions.push(transaction);
+        } else {
+          errors.push({
+            row: index + 2, // Account for the header row
+            error: `Invalid transaction: ${validation.errors.join(', ')}`
+          });
+        }
+      });
+
+      console.log(`Loaded ${transactions.length} transactions from ${sheetName}`);
+      return {
+        transactions: sortTransactions(transactions),
+        errors,
+        totalRows: rawRows.length,
+        validRows: transactions.length,
+        invalidRows: errors.length
+      };
+
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Transactions file not found: ${filePath}`);
+      } else if (error.message.includes('Transactions file')) {
+        throw error;
+      } else {
+        throw new Error(`Failed to parse Transactions file: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Loads a broker tradebook or holdings export through the importer registry
+   * Holdings of a tradebook are derived from its transactions (FIFO), including
+   * fully sold positions with their realized gain
+   * @param {string} filePath - Path to the broker export (csv or xlsx)
+   * @param {string} importerId - Importer id (e.g. 'zerodha-tradebook'), or 'auto' to detect
+   * @returns {Promise<Object>} importer id, holdings, transactions and row errors (ApiError shape)
+   */
+  async loadBrokerFile(filePath, importerId = 'auto') {
+    try {
+      const fileBuffer = readFileSync(resolve(filePath));
+      const parsed = parseBrokerFile(fileBuffer, importerId);
+      // Oversold positions are reported when the transactions are applied to the portfolio
+      const holdings = parsed.kind === 'tradebook'
+        ? this.applyTransactions([], parsed.transactions).holdings
+        : parsed.holdings;
+
+      console.log(`Loaded ${parsed.transactions.length} transactions and ${holdings.length} holdings with ${parsed.importer}`);
+      return {
+        importer: parsed.importer,
+        holdings,
+        transactions: parsed.transactions,
+        errors: parsed.errors,
+        skipped: parsed.skipped
+      };
+
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Broker file not found: ${filePath}`);
+      } else if (error.message.includes('Broker file') || error.message.includes('Invalid')) {
+        throw error;
+      } else {
+        throw new Error(`Failed to parse Broker file: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Loads corporate actions (splits, bonuses, rights, demergers) from an Excel or CSV file
+   * Expects one header row with Ex-Date, Type, NSE/BSE and Ratio columns, plus Price
+   * for rights issues and New NSE/BSE, New Name and Cost % for demergers
+   * @param {string} filePath - Path to the corporate actions file
+   * @returns {Promise<Object>} Object containing actions sorted by ex-date and any errors
+   * @throws {Error} If file cannot be read or parsed
+   */
+  async loadCorporateActionsFromFile(filePath) {
+    try {
+      const resolvedPath = resolve(filePath);
+      const fileBuffer = readFileSync(resolvedPath);
+      // Cells are read as written so DD/MM/YYYY dates reach toIsoDate instead of SheetJS's month-first parsing
+      const workbook = xlsx.read(fileBuffer, { type: 'buffer', raw: true });
+
+      if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+        throw new Error('Corporate actions file contains no sheets');
+      }
+
+      const sheetName = workbook.SheetNames.find(name => /action/i.test(name)) || workbook.SheetNames[0];
+      const rawRows = xlsx.utils.sheet_to_json(workbook.Sheets[sheetName], { defval: null });
+
+      if (!rawRows || rawRows.length === 0) {
+        return { actions: [], errors: [], totalRows: 0, validRows: 0, invalidRows: 0 };
+      }
+
+      // Columns of the demerged company are matched first so "New NSE/BSE" isn't taken for "NSE/BSE"
+      const headers = Object.keys(rawRows[0]);
+      const newHeaders = headers.filter(header => /^new\b/i.test(header.trim()));
+      const findKey = (possibleNames, candidates = headers.filter(h => !newHeaders.includes(h))) =>
+        candidates.find(header =>
+          possibleNames.some(name => header.toLowerCase().includes(name.toLowerCase()))
+        );
+
+      const keys = {
+        exDate: findKey(['Ex-Date', 'Ex Date', 'Date']),
+        type: findKey(['Type', 'Action']),
+        particulars: findKey(['Particulars', 'Name', 'Company']),
+        stockCode: findKey(['NSE/BSE', 'Code', 'Symbol']),
+        ratio: findKey(['Ratio']),
+        price: findKey(['Price']),
+        costAllocation: findKey(['Cost %', 'Allocation', 'Cost']),
+        newParticulars: findKey(['Name', 'Company', 'Particulars'], newHeaders),
+        newStockCode: findKey(['NSE/BSE', 'Code', 'Symbol'], newHeaders)
+      };
+
+      const errors = [];
+      const actions = [];
+
+      rawRows.forEach((row, index) => {
+        const [nse, bse] = this._parseNseBseCodes(row[keys.stockCode]);
+        const [newNse, newBse] = this._parseNseBseCodes(row[keys.newStockCode]);
+        const action = createCorporateAction({
+          particulars: row[keys.particulars] ? String(row[keys.particulars]).trim() : nse || bse || '',
+          nseCode: nse,
+          bseCode: bse,
+          type: row[keys.type],
+          exDate: row[keys.exDate],
+          ratio: row[keys.ratio],
+          price: parseSheetNumber(row[keys.price]),
+          costAllocation: this._parsePercentage(row[keys.costAllocation]),
+          newParticulars: row[keys.newParticulars] ? String(row[keys.newParticulars]).trim() : '',
+          newNseCode: newNse,
+          newBseCode: newBse
+        });
+
+        const validation = validateCorporateAction(action);
+        if (validation.isValid) {
+          actions.push(action);
+        } else {
+          errors.push({
+            row: index + 2, // Account for the header row
+            error: `Invalid corporate action: ${validation.errors.join(', ')}`
+          });
+        }
+      });
+
+      console.log(`Loaded ${actions.length} corporate actions from ${sheetName}`);
+      return {
+        actions: sortCorporateActions(actions),
+        errors,
+        totalRows: rawRows.length,
+        validRows: actions.length,
+        invalidRows: errors.length
+      };
+
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Corporate actions file not found: ${filePath}`);
+      } else if (error.message.includes('Corporate actions file')) {
+        throw error;
+      } else {
+        throw new Error(`Failed to parse Corporate actions file: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Derives holding quantity, investment, purchase price, open lots and realized
+   * gain from a transaction ledger using FIFO matching
+   * Corporate actions adjust the open lots from their ex-date; shares received in a
+   * demerger enter the new company's ledger as buys dated like the parent's lots
+   * Holdings without ledger entries are left untouched; ledger positions missing
+   * from the sheet are added as new holdings
+   * @param {Array} holdings - Holdings loaded from the portfolio sheet
+   * @param {Array} transactions - Chronologically sorted transactions
+   * @param {Array} actions - Corporate actions sorted by ex-date
+   * @returns {Object} Object containing updated holdings and any errors
+   */
+  applyTransactions(holdings, transactions, actions = []) {
+    const errors = [];
+    const ledgerMap = this._groupByHoldingKey(transactions);
+    const actionMap = this._groupByHoldingKey(actions);
+    const receivedAdjustments = new Map();
+    const positions = new Map();
+
+    // Replays a symbol's ledger into FIFO lots
+    const buildPosition = (key, entries) => {
+      const {
+        openLots, realized, quantity, investment, realizedGain, oversold, adjustments, spunOff
+      } = buildLots(entries, actionMap.get(key) || []);
+
+      const code = this._getCodeLabel(entries[0], key);
+      oversold.forEach(sell => {
+        errors.push({
+          symbol: code,
+          error: `Sell of ${sell.quantity} ${code} on ${sell.date} exceeds held quantity of ${sell.available}`
+        });
+      });
+
+      spunOff.forEach(({ action, lots }) => {
+        const child = { nseCode: action.newNseCode, bseCode: action.newBseCode };
+        const childKey = this._getHoldingKey(child);
+        const parent = holdings.find(holding => this._getHoldingKey(holding) === key);
+        const received = lots.map(lot => createTransaction({
+          id: lot.transactionId,
+          particulars: action.newParticulars || this._getCodeLabel(child, childKey),
+          nseCode: action.newNseCode,
+          bseCode: action.newBseCode,
+          sector: parent?.sector || entries.map(t => t.sector).find(Boolean) || '',
+          type: 'buy',
+          date: lot.date,
+          price: lot.price,
+          quantity: lot.quantity
+        }));
+
+        ledgerMap.set(childKey, sortTransactions([...(ledgerMap.get(childKey) || []), ...received]));
+        receivedAdjustments.set(childKey, [...(receivedAdjustments.get(childKey) || []), {
+          actionId: action.id,
+          type: action.type,
+          exDate: action.exDate,
+          description: `Received in demerger of ${code} (${action.costAllocation}% of cost)`,
+          quantityBefore: 0,
+          quantityAfter: lots.reduce((sum, lot) => sum + lot.quantity, 0),
+          investmentBefore: 0,
+          investmentAfter: lots.reduce((sum, lot) => sum + lot.investment, 0)
+        }]);
+      });
+
+      return {
+        quantity,
+        investment,
+        purchasePrice: quantity !== 0 ? investment / quantity : 0,
+        realizedGain,
+        lots: openLots,
+        realizedLots: realized,
+        adjustments
+      };
+    };
+
+    // Demerged companies need their parent's lots, so parents are replayed first
+    const keys = Array.from(ledgerMap.keys());
+    const isDemergerParent = key => (actionMap.get(key) || []).some(action => action.type === 'demerger');
+    [...keys.filter(isDemergerParent), ...keys.filter(key => !isDemergerParent(key))].forEach(key => {
+      positions.set(key, buildPosition(key, ledgerMap.get(key)));
+    });
+    // Companies that only exist through a demerger
+    Array.from(ledgerMap.keys())
+      .filter(key => !positions.has(key))
+      .forEach(key => positions.set(key, buildPosition(key, ledgerMap.get(key))));
+
+    positions.forEach((position, key) => {
+      const received = receivedAdjustments.get(key);
+      if (received) {
+        position.adjustments = [...received, ...position.adjustments]
+          .sort((a, b) => (a.exDate < b.exDate ? -1 : a.exDate > b.exDate ? 1 : 0));
+      }
+    });
+
+    const updatedHoldings = holdings.map(holding => {
+      const key = this._getHoldingKey(holding);
+      const position = positions.get(key);
+      if (!position) {
+        return holding;
+      }
+
+      positions.delete(key);
+      return {
+        ...holding,
+        ...position
+      };
+    });
+
+    // Positions that only exist in the ledger
+    for (const [key, position] of positions) {
+      const entries = ledgerMap.get(key);
+      const first = entries[0];
+      const holding = createHolding({
+        particulars: first.particulars || this._getCodeLabel(first, key),
+        purchasePrice: position.purchasePrice,
+        quantity: position.quantity,
+        ...this._identify(first),
+        sector: entries.map(t => t.sector).find(Boolean) || 'Uncategorized',
+        cmp: 0,
+        realizedGain: position.realizedGain,
+        lots: position.lots,
+        realizedLots: position.realizedLots,
+        adjustments: position.adjustments
+      });
+
+      updatedHoldings.push({ ...holding, investment: position.investment });
+    }
+
+    return {
+      holdings: updatedHoldings,
+      errors
+    };
+  }
+
+  /**
+   * Applies corporate actions to holdings taken from the portfolio sheet
+   * The sheet's quantity and purchase price are current as of the sheet's "As of"
+   * date, so only actions with a later ex-date (up to today) apply; without that date
+   * sheet holdings are left as written. Holdings derived from the ledger are skipped;
+   * applyTransactions adjusts them
+   * @param {Array} holdings - Holdings after any ledger has been applied
+   * @param {Array} actions - Corporate actions sorted by ex-date
+   * @param {string|null} since - Date (YYYY-MM-DD) the sheet's quantities are current as of
+   * @param {string} asOf - Latest ex-date to apply (defaults to today)
+   * @returns {Array} Updated holdings, plus any holdings created by demergers
+   */
+  applyCorporateActions(holdings, actions, since, asOf = todayIsoDate()) {
+    const actionMap = this._groupByHoldingKey(
+      actions.filter(action => since && action.exDate > since && action.exDate <= asOf)
+    );
+    const updatedHoldings = holdings.map(holding => ({ ...holding }));
+    const findHolding = key => updatedHoldings.find(holding => this._getHoldingKey(holding) === key);
+
+    holdings.forEach((original, index) => {
+      const key = this._getHoldingKey(original);
+      const isFromLedger = (original.lots && original.lots.length > 0) ||
+        (original.realizedLots && original.realizedLots.length > 0);
+      if (isFromLedger || !actionMap.has(key)) {
+        return;
+      }
+
+      const holding = updatedHoldings[index];
+      let lots = [{
+        transactionId: holding.id,
+        date: since,
+        quantity: holding.quantity,
+        price: holding.purchasePrice,
+        investment: holding.purchasePrice * holding.quantity
+      }];
+      const adjustments = [...(holding.adjustments || [])];
+
+      actionMap.get(key).forEach(action => {
+        const result = applyCorporateActionToLots(lots, action);
+        lots = result.lots;
+        if (!result.adjustment) return;
+        adjustments.push(result.adjustment);
+
+        // Shares of the demerged company join an existing holding or become a new one
+        result.spunOffLots.forEach(lot => {
+          const childCodes = { nseCode: action.newNseCode, bseCode: action.newBseCode };
+          const childKey = this._getHoldingKey(childCodes);
+          const received = {
+            actionId: action.id,
+            type: action.type,
+            exDate: action.exDate,
+            description: `Received in demerger of ${this._getCodeLabel(original, key)} (${action.costAllocation}% of cost)`,
+            quantityBefore: 0,
+            quantityAfter: lot.quantity,
+            investmentBefore: 0,
+            investmentAfter: lot.investment
+          };
+          const child = findHolding(childKey);
+
+          if (child) {
+            const investmentBefore = child.purchasePrice * child.quantity;
+            const quantity = child.quantity + lot.quantity;
+            const investment = investmentBefore + lot.investment;
+            child.adjustments = [...(child.adjustments || []), {
+              ...received,
+              quantityBefore: child.quantity,
+              quantityAfter: quantity,
+              investmentBefore,
+              investmentAfter: investment
+            }];
+            Object.assign(child, { quantity, investment, purchasePrice: investment / quantity });
+          } else {
+            const created = createHolding({
+              particulars: action.newParticulars || this._getCodeLabel(childCodes, childKey),
+              purchasePrice: lot.price,
+              quantity: lot.quantity,
+              ...this._identify(childCodes),
+              sector: holding.sector,
+              cmp: 0,
+              adjustments: [received]
+            });
+            updatedHoldings.push(created);
+          }
+        });
+      });
+
+      const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      const investment = lots.reduce((sum, lot) => sum + lot.investment, 0);
+      Object.assign(holding, {
+        quantity,
+        investment,
+        purchasePrice: quantity !== 0 ? investment / quantity : 0,
+        adjustments
+      });
+    });
+
+    return updatedHoldings;
+  }
+
+  /**
+   * Attaches paid dividends to their holdings with dividendsReceived and
+   * dividendYieldOnCost; dividends for symbols not held are ignored
+   * @param {Array} holdings - Holdings after transactions and corporate actions
+   * @param {Array} dividends - Dividends sorted by payment date
+   * @param {string} asOf - Dividends paid after this date are left out (defaults to today)
+   * @returns {Array} Updated holdings
+   */
+  applyDividends(holdings, dividends, asOf = todayIsoDate()) {
+    const dividendMap = this._groupByHoldingKey(dividends.filter(dividend => dividend.paymentDate <= asOf));
+
+    return holdings.map(holding => {
+      const paid = dividendMap.get(this._getHoldingKey(holding)) || [];
+
+      return {
+        ...holding,
+        dividends: paid,
+        ...summarizeDividends(paid, holding.investment || holding.purchasePrice * holding.quantity, asOf)
+      };
+    });
+  }
+
+  /**
+   * Parses a percentage cell ("4.7%", "4.7" or a %-formatted cell read as 0.047)
+   * @param {string|number} value - Cell value
+   * @returns {number} Percentage, or 0 if missing
+   * @private
+   */
+  _parsePercentage(value) {
+    const number = Number(String(value ?? '').replace('%', '').trim()) || 0;
+    // Spreadsheet percent cells hold fractions; allocations below 1% don't occur in practice
+    return number > 0 && number < 1 ? number * 100 : number;
+  }
+
+  /**
+   * Groups ledger entries or corporate actions by holding key, keeping their order
+   * @param {Array} records - Transactions or corporate actions
+   * @returns {Map} Map of holding key to records
+   * @private
+   */
+  _groupByHoldingKey(records) {
+    const map = new Map();
+    records.forEach(record => {
+      const key = this._getHoldingKey(record);
+      if (!map.has(key)) {
+        map.set(key, []);
+      }
+      map.get(key).push(record);
+    });
+    return map;
+  }
+
+  /**
+   * Security master entry of a holding or transaction
+   * @param {Object} record - Record with isin, nseCode and/or bseCode
+   * @returns {Object|null} The security, or null without a master or a match
+   * @private
+   */
+  _findSecurity(record) {
+    return this.securityMaster ? this.securityMaster.resolve(record) : null;
+  }
+
+  /**
+   * NSE symbol of a BSE scrip code from the security master, falling back to the built-in
+   * map for codes the master doesn't have or when no lists are loaded
+   * @param {string} bseCode - BSE scrip code
+   * @returns {string|null}
+   * @private
+   */
+  _getNseFromBse(bseCode) {
+    if (!bseCode) return null;
+    return (this.securityMaster && this.securityMaster.getNseFromBse(bseCode)) || getNseFromBse(bseCode);
+  }
+
+  /**
+   * Current codes and ISIN of a holding, ledger entry or corporate action
+   * Old codes move to the code the security trades under now through the symbol alias table;
+   * the ISIN comes from the record, the security master or the alias table, in that order
+   * @param {Object} record - Record with nseCode, bseCode and/or isin
+   * @returns {Object} nseCode, bseCode, isin and previousCodes
+   * @private
+   */
+  _identify(record) {
+    const codes = { nseCode: record.nseCode || '', bseCode: record.bseCode || null };
+    const previousCodes = [...(record.previousCodes || [])];
+    let aliasIsin = null;
+
+    ['nseCode', 'bseCode'].forEach(field => {
+      const alias = resolveSymbolAlias(codes[field], this.aliasIndex);
+      if (!alias) return;
+      previousCodes.push(...alias.previousCodes.filter(code => !previousCodes.includes(code)));
+      aliasIsin = aliasIsin || alias.isin;
+      // A migration can move a BSE scrip code to an NSE symbol
+      codes[/^\d+$/.test(alias.code) ? 'bseCode' : 'nseCode'] = alias.code;
+    });
+    aliasIsin = aliasIsin || findAliasIsin(codes.nseCode, this.aliasIndex) || findAliasIsin(codes.bseCode, this.aliasIndex);
+
+    const security = this._findSecurity({ isin: record.isin || aliasIsin, ...codes });
+    if (security && !codes.nseCode && !codes.bseCode) {
+      codes.nseCode = security.nseSymbol || '';
+      codes.bseCode = security.bseCode || null;
+    }
+
+    return { ...codes, isin: record.isin || security?.isin || aliasIsin || null, previousCodes };
+  }
+
+  /**
+   * Returns the key used to match ledger entries to holdings
+   * Records are keyed by ISIN when it is known, so entries under an old ticker or the other
+   * exchange's code find their holding; otherwise BSE codes the security master maps to an
+   * NSE symbol are keyed by the NSE symbol
+   * @param {Object} record - A holding or transaction
+   * @returns {string} Matching key
+   * @private
+   */
+  _getHoldingKey(record) {
+    if (record.schemeCode) {
+      return `MF:${record.schemeCode}`;
+    }
+    const { nseCode, bseCode, isin } = this._identify(record);
+    if (isin) {
+      return isin;
+    }
+    if (nseCode) {
+      return nseCode.toUpperCase();
+    }
+    return this._getNseFromBse(bseCode) || String(bseCode || '');
+  }
+
+  /**
+   * Code naming a ledger key in messages and as a fallback name: the record's current
+   * NSE symbol or BSE code rather than an ISIN
+   * @param {Object} record - A holding, transaction or { nseCode, bseCode }
+   * @param {string} key - The record's holding key
+   * @returns {string}
+   * @private
+   */
+  _getCodeLabel(record, key) {
+    if (!record || record.schemeCode) {
+      return key;
+    }
+    const { nseCode, bseCode } = this._identify(record);
+    return nseCode ? nseCode.toUpperCase() : (bseCode || key);
+  }
+
   /**
    * Calculates all metrics for a holding based on current market price
    * @param {Object} holding - The holding object
    * @param {number} cmp - Current market price
+   * @param {number|null} previousClose - Previous session's close (keeps the holding's value if omitted)
    * @returns {Object} Updated holding with calculated metrics
    */
-  calculateMetrics(holding, cmp) {
+  calculateMetrics(holding, cmp, previousClose) {
     // Calculate Investment (Purchase Price × Quantity)
     const investment = holding.purchasePrice * holding.quantity;
     
@@ -227,15 +1249,28 @@ class PortfolioService {
       : 0;
     
     // Return updated holding with all calculated fields
-    return {
+    // gainLoss is unrealized; realized gain comes from the ledger and is unaffected by CMP
+    const lastClose = previousClose ?? holding.previousClose ?? null;
+    const updated = {
       ...holding,
       cmp,
+      previousClose: lastClose,
+      ...calculateDayChange(cmp, lastClose, holding.quantity),
       investment,
       presentValue,
       gainLoss,
       gainLossPercentage,
+      unrealizedGain: gainLoss,
+      realizedGain: holding.realizedGain || 0,
+      ...(holding.lots && { lots: valueLots(holding.lots, cmp) }),
       lastUpdated: new Date()
     };
+
+    // XIRR and time-weighted return need dated lots, so they stay null without a ledger
+    return {
+      ...updated,
+      ...calculateReturns([updated])
+    };
   }
 
   /**
@@ -295,21 +1330,78 @@ class PortfolioService {
       totalPresentValue,
       totalGainLoss,
       gainLossPercentage,
+      ...calculateDayChangeTotals(holdings),
+      ...calculateDividendTotals(holdings),
+      ...calculateReturns(holdings),
       holdingsCount: holdings.length
     };
   }
 
   /**
-   * Enriches portfolio holdings with live data from Yahoo Finance and Google Finance
-   * Orchestrates parallel fetching of CMP and financial metrics
+   * Resolves the market data symbol for a holding
+   * @param {Object} holding - Holding with nseCode and/or bseCode, or a mutual fund's schemeCode
+   * @returns {string|null} Yahoo symbol (e.g., 'RELIANCE.NS'), scheme symbol for funds (e.g., '120465.MF'),
+   *   or null without codes
+   */
+  getYahooSymbol(holding) {
+    if (holding.schemeCode) {
+      return toSchemeSymbol(holding.schemeCode);
+    }
+
+    if (holding.nseCode) {
+      // NSE code available - use .NS suffix
+      return `${holding.nseCode}.NS`;
+    }
+
+    if (holding.bseCode) {
+      // Yahoo has more NSE quotes, so use the NSE symbol when the security master knows it
+      const nseSymbol = this._getNseFromBse(holding.bseCode);
+      return nseSymbol ? `${nseSymbol}.NS` : `${holding.bseCode}.BO`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Reports NSE symbols and BSE codes missing from the security master
+   * An exchange is only checked once its list is loaded, so a master with just the BSE list
+   * doesn't flag every NSE symbol; BSE codes the built-in map quotes on NSE aren't flagged
+   * @param {Array} holdings - Holdings
+   * @param {Map} symbolMap - Holding id to the symbol it is quoted under
+   * @returns {Array} ApiErrors (source 'system') naming the code and the symbol tried instead
+   */
+  findUnresolvedCodes(holdings, symbolMap = new Map()) {
+    if (!this.securityMaster) return [];
+
+    return holdings
+      .filter(holding => !holding.schemeCode && (holding.nseCode || holding.bseCode))
+      .filter(holding => !this._findSecurity(holding))
+      .map(holding => {
+        const [exchange, code] = holding.nseCode ? ['NSE', holding.nseCode] : ['BSE', holding.bseCode];
+        return { holding, exchange, code };
+      })
+      .filter(({ exchange, code }) => this.securityMaster.hasExchange(exchange) &&
+        !(exchange === 'BSE' && getNseFromBse(code)))
+      .map(({ holding, exchange, code }) => createApiError({
+        source: 'system',
+        symbol: code,
+        message: `Unresolved ${exchange} code ${code} for ${holding.particulars}: not in the security master` +
+          (symbolMap.has(holding.id) ? `, quoting ${symbolMap.get(holding.id)}` : '')
+      }));
+  }
+
+  /**
+   * Enriches portfolio holdings with live prices and financial metrics
+   * Quotes and fundamentals are fetched in parallel through the market data provider chain;
+   * each holding records the provider that priced it in priceProvider. Mutual funds are priced
+   * at their NAV and take their scheme category as sector when they have none
    * Handles partial failures gracefully and returns available data
    * 
    * @param {Array} holdings - Array of holding objects to enrich
-   * @param {Object} yahooFinanceService - Yahoo Finance service instance
-   * @param {Object} googleFinanceService - Google Finance service instance
+   * @param {MarketDataService} marketDataService - Provider chain for quotes and fundamentals
    * @returns {Promise<Object>} Object containing enriched holdings and any errors
    */
-  async enrichWithLiveData(holdings, yahooFinanceService, googleFinanceService) {
+  async enrichWithLiveData(holdings, marketDataService) {
     if (!holdings || holdings.length === 0) {
       return {
         holdings: [],
@@ -317,97 +1409,58 @@ class PortfolioService {
       };
     }
 
-    const errors = [];
-    
     // Extract symbols for batch fetching
     // Convert NSE codes to Yahoo Finance format (e.g., RELIANCE -> RELIANCE.NS)
-    // For BSE codes, try to map to NSE symbol first
+    // For BSE codes, try the security master's NSE symbol first
     const symbolMap = new Map();
     holdings.forEach(holding => {
-      if (holding.nseCode) {
-        // NSE code available - use .NS suffix
-        const yahooSymbol = `${holding.nseCode}.NS`;
+      const yahooSymbol = this.getYahooSymbol(holding);
+      if (yahooSymbol) {
         symbolMap.set(holding.id, yahooSymbol);
-      } else if (holding.bseCode) {
-        // Try to get NSE symbol from BSE code mapping
-        const nseSymbol = getNseFromBse(holding.bseCode);
-        if (nseSymbol) {
-          const yahooSymbol = `${nseSymbol}.NS`;
-          symbolMap.set(holding.id, yahooSymbol);
-        } else {
-          // Fallback to BSE code with .BO suffix (may not work for all stocks)
-          const yahooSymbol = `${holding.bseCode}.BO`;
-          symbolMap.set(holding.id, yahooSymbol);
-        }
       }
     });
 
     const symbols = Array.from(symbolMap.values());
+    // P/E and earnings only apply to company shares
+    const equitySymbols = holdings
+      .filter(holding => (holding.instrumentType || 'equity') === 'equity' && symbolMap.has(holding.id))
+      .map(holding => symbolMap.get(holding.id));
 
-    // Fetch CMP data from Yahoo Finance (skip Google Finance for faster loading)
-    // P/E ratio and earnings data is already in the Excel file
-    let cmpMap = new Map();
-    
-    try {
-      cmpMap = await yahooFinanceService.getBatchPrices(symbols);
-    } catch (error) {
-      errors.push({
-        source: 'yahoo',
-        message: `Failed to fetch CMP data: ${error.message}`,
-        timestamp: new Date()
-      });
-    }
-
-    // Fetch financial metrics from Google Finance (P/E ratio, earnings)
-    let financialMap = new Map();
-    try {
-      if (googleFinanceService) {
-        // Add a 5-second total timeout for Google Finance enrichment 
-        // to prevent slow scrapes from blocking the entire response
-        const enrichmentTimeout = 5000;
-        const timeoutPromise = new Promise((_, reject) => 
-          setTimeout(() => reject(new Error(`Timeout after ${enrichmentTimeout}ms`)), enrichmentTimeout)
-        );
-        
-        financialMap = await Promise.race([
-          googleFinanceService.getBatchFinancials(symbols),
-          timeoutPromise
-        ]);
-      }
-    } catch (error) {
-      errors.push({
-        source: 'google',
-        message: `Financial metrics fetch ${error.message.includes('Timeout') ? 'timed out' : 'failed'}. Using Excel data.`,
-        timestamp: new Date()
-      });
-    }
+    // Each provider gets a time budget, so a slow source falls through to the next instead of blocking
+    const [{ quotes, errors: quoteErrors }, { fundamentals, errors: fundamentalsErrors }] = await Promise.all([
+      marketDataService.getBatchQuotes(symbols),
+      marketDataService.getBatchFundamentals(equitySymbols)
+    ]);
+    const errors = [...quoteErrors, ...fundamentalsErrors, ...this.findUnresolvedCodes(holdings, symbolMap)];
 
     // Enrich each holding with live data
     const enrichedHoldings = holdings.map(holding => {
       const yahooSymbol = symbolMap.get(holding.id);
-      
-      // Get CMP from Yahoo Finance
-      const cmp = cmpMap.get(yahooSymbol);
-      
-      // Get financial metrics from Google Finance (if available)
-      // Otherwise, preserve the values already read from Excel
-      const financialData = financialMap.get(yahooSymbol);
+      const quote = quotes.get(yahooSymbol);
+
+      // Keep the values read from Excel when no provider has financial metrics
+      const financialData = fundamentals.get(yahooSymbol);
       const peRatio = (financialData && financialData.peRatio) ? financialData.peRatio : (holding.peRatio || null);
       const latestEarnings = (financialData && financialData.latestEarnings) ? financialData.latestEarnings : (holding.latestEarnings || null);
 
       // If CMP is available, calculate all metrics
-      if (cmp !== undefined && cmp !== null) {
-        const enrichedHolding = this.calculateMetrics(holding, cmp);
-        
-        // Add financial metrics (preserve Excel values if Google Finance not available)
+      if (quote) {
+        const enrichedHolding = this.calculateMetrics(holding, quote.price, quote.previousClose);
+
         enrichedHolding.peRatio = peRatio;
         enrichedHolding.latestEarnings = latestEarnings;
-        
+        enrichedHolding.priceProvider = quote.provider;
+        // A fund's scheme category groups it when the sheet gives no sector
+        if (quote.category) {
+          enrichedHolding.schemeCategory = quote.category;
+          enrichedHolding.sector = holding.sector || quote.category;
+        }
+
         return enrichedHolding;
       } else {
-        // CMP not available - skip calculation but report error
+        // No provider priced it - skip calculation but report error
         errors.push({
-          source: 'yahoo',
+          source: marketDataService.primaryProviderId,
           symbol: yahooSymbol,
           message: `Missing CMP for ${holding.particulars}`,
           timestamp: new Date()
@@ -417,6 +1470,7 @@ class PortfolioService {
           ...holding,
           peRatio,
           latestEarnings,
+          priceProvider: null,
           lastUpdated: new Date()
         };
       }
@@ -0,0 +1,218 @@
+import fs from 'fs';
+import path from 'path';
+import xlsx from 'xlsx';
+import { parseSecurityListRows, mergeSecurities } from '../utils/securityMaster.js';
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+const normalizeName = name => String(name || '').toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+
+/**
+ * SecurityMasterService - ISIN, NSE symbol, BSE scrip code, name and industry of listed equities
+ *
+ * Features:
+ * - Reads NSE EQUITY_L.csv and BSE scrip list CSVs dropped into a directory, re-reading only new or changed files
+ * - Joins the exchanges' listings of a security by ISIN, so a BSE code resolves to its NSE symbol
+ * - Searches securities by name, symbol or code
+ * - Lookups are synchronous once load() has run, so parsing and symbol resolution can use them
+ */
+class SecurityMasterService {
+  /**
+   * @param {Object} options - Service options
+   * @param {string} options.directory - Directory holding the exchange security list CSVs
+   * @param {number} options.refreshInterval - Milliseconds between directory scans
+   */
+  constructor(options = {}) {
+    this.directory = options.directory || './data/securities';
+    this.refreshInterval = options.refreshInterval ?? 60000;
+    this.files = new Map(); // file name -> { mtimeMs, exchange, securities }
+    this.securities = [];
+    this.byIsin = new Map();
+    this.byNse = new Map();
+    this.byBse = new Map(); // scrip code and scrip id -> security
+    this.exchanges = new Set();
+    this.lastScanTime = 0;
+  }
+
+  /**
+   * Reads new and changed security lists; runs at most once per refresh interval
+   * Files that cannot be parsed are logged and skipped until they change
+   * @param {boolean} force - Scan even if the directory was scanned recently
+   * @returns {Promise<void>}
+   */
+  async load(force = false) {
+    if (!force && this.lastScanTime && Date.now() - this.lastScanTime < this.refreshInterval) {
+      return;
+    }
+    this.lastScanTime = Date.now();
+
+    let names;
+    try {
+      names = (await fs.promises.readdir(this.directory)).filter(name => /\.csv$/i.test(name));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+      names = [];
+    }
+
+    let changed = false;
+    for (const name of names) {
+      const filePath = path.join(this.directory, name);
+      const { mtimeMs } = await fs.promises.stat(filePath);
+      if (this.files.get(name)?.mtimeMs === mtimeMs) continue;
+
+      let list = { exchange: null, securities: [] };
+      try {
+        // Read every cell as text so scrip codes and ISINs keep their digits
+        const workbook = xlsx.read(await fs.promises.readFile(filePath), { type: 'buffer', raw: true });
+        const rows = xlsx.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { header: 1, raw: true, defval: null });
+        list = parseSecurityListRows(rows, name);
+      } catch (error) {
+        console.warn(`Skipping security list ${name}: ${error.message}`);
+      }
+
+      this.files.set(name, { mtimeMs, ...list });
+      changed = true;
+    }
+
+    for (const name of this.files.keys()) {
+      if (!names.includes(name)) {
+        this.files.delete(name);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this._buildIndex();
+    }
+  }
+
+  /**
+   * Whether a security list of an exchange is loaded, i.e. whether a miss on it means the code is unknown
+   * @param {string} exchange - 'NSE' or 'BSE'
+   * @returns {boolean}
+   */
+  hasExchange(exchange) {
+    return this.exchanges.has(exchange);
+  }
+
+  /**
+   * Finds a security by ISIN
+   * @param {string} isin - ISIN, e.g. INE002A01018
+   * @returns {Object|null} { isin, nseSymbol, bseCode, bseSymbol, name, industry }
+   */
+  findByIsin(isin) {
+    return this.byIsin.get(String(isin || '').trim().toUpperCase()) || null;
+  }
+
+  /**
+   * Finds a security by NSE symbol
+   * @param {string} symbol - NSE symbol, e.g. RELIANCE
+   * @returns {Object|null}
+   */
+  findByNseSymbol(symbol) {
+    return this.byNse.get(String(symbol || '').trim().toUpperCase()) || null;
+  }
+
+  /**
+   * Finds a security by BSE scrip code or scrip id
+   * @param {string} code - Scrip code (500325) or id (RELIANCE)
+   * @returns {Object|null}
+   */
+  findByBseCode(code) {
+    return this.byBse.get(String(code || '').trim().toUpperCase()) || null;
+  }
+
+  /**
+   * Finds the security of a holding, transaction or other record, trying ISIN, NSE symbol, then BSE code
+   * @param {Object} record - Record with isin, nseCode and/or bseCode
+   * @returns {Object|null}
+   */
+  resolve(record) {
+    return (record.isin && this.findByIsin(record.isin)) ||
+      (record.nseCode && this.findByNseSymbol(record.nseCode)) ||
+      (record.bseCode && this.findByBseCode(record.bseCode)) ||
+      null;
+  }
+
+  /**
+   * NSE symbol of a BSE scrip code
+   * @param {string} bseCode - BSE scrip code
+   * @returns {string|null} The NSE symbol, or null if the security isn't known or isn't listed on NSE
+   */
+  getNseFromBse(bseCode) {
+    return this.findByBseCode(bseCode)?.nseSymbol || null;
+  }
+
+  /**
+   * Searches securities by name, NSE symbol, BSE code or ISIN
+   * Exact symbol or code matches rank first, then names starting with the query, then names containing every word
+   * @param {string} query - Search text, e.g. "tata con" or "500325"
+   * @param {number} limit - Maximum results (default 10)
+   * @returns {Array} Matching securities, best first
+   */
+  search(query, limit = DEFAULT_SEARCH_LIMIT) {
+    const normalized = normalizeName(query);
+    if (!normalized) return [];
+    const words = normalized.split(' ');
+
+    const scored = [];
+    this.securities.forEach(security => {
+      const name = normalizeName(security.name);
+      let score = 0;
+      if ([security.nseSymbol, security.bseCode, security.bseSymbol, security.isin].includes(normalized.replace(/ /g, ''))) {
+        score = 3;
+      } else if (name.startsWith(normalized)) {
+        score = 2;
+      } else if (words.every(word => name.includes(word) || (security.nseSymbol || '').includes(word))) {
+        score = 1;
+      }
+      if (score > 0) scored.push({ security, score });
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score || String(a.security.name).localeCompare(String(b.security.name)))
+      .slice(0, limit)
+      .map(({ security }) => security);
+  }
+
+  /**
+   * Makes the next load rescan the directory
+   */
+  clearCache() {
+    this.lastScanTime = 0;
+  }
+
+  /**
+   * Size of the loaded master
+   * @returns {Object} files, securities and the exchanges with a list loaded
+   */
+  getStats() {
+    return {
+      files: this.files.size,
+      securities: this.securities.length,
+      exchanges: Array.from(this.exchanges).sort()
+    };
+  }
+
+  /**
+   * Rebuilds the merged securities and lookup maps from the parsed files
+   * @private
+   */
+  _buildIndex() {
+    const lists = Array.from(this.files.values());
+    this.securities = mergeSecurities(lists.flatMap(list => list.securities));
+    this.exchanges = new Set(lists.filter(list => list.securities.length > 0).map(list => list.exchange));
+    this.byIsin = new Map();
+    this.byNse = new Map();
+    this.byBse = new Map();
+
+    this.securities.forEach(security => {
+      if (security.isin) this.byIsin.set(security.isin, security);
+      if (security.nseSymbol) this.byNse.set(security.nseSymbol, security);
+      if (security.bseCode) this.byBse.set(security.bseCode, security);
+      if (security.bseSymbol && !this.byBse.has(security.bseSymbol)) this.byBse.set(security.bseSymbol, security);
+    });
+  }
+}
+
+export default SecurityMasterService;
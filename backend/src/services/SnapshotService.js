@@ -0,0 +1,265 @@
+import fs from 'fs';
+import path from 'path';
+import { createApiError } from '../models/ApiError.js';
+import { parseIsoDate, todayIsoDate } from '../utils/dateUtils.js';
+
+const GRANULARITIES = ['day', 'week', 'month'];
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * SnapshotService - Persists daily portfolio snapshots to a JSON-lines file
+ *
+ * Features:
+ * - Appends one line per snapshot; the latest snapshot of a date wins on read
+ * - Throttles writes to one per interval so frequent refreshes don't bloat the file
+ * - Skips weekends, when the exchanges are closed
+ * - Carries forward the last recorded price of holdings a refresh couldn't price
+ * - Serves portfolio and per-sector value series at day, week or month granularity
+ */
+class SnapshotService {
+  /**
+   * @param {Object} options - Service options
+   * @param {string} options.filePath - Path to the JSON-lines snapshot file
+   * @param {number} options.minIntervalMinutes - Minimum minutes between snapshots of the same day
+   */
+  constructor(options = {}) {
+    this.filePath = options.filePath || './data/snapshots.jsonl';
+    this.minIntervalMs = (options.minIntervalMinutes ?? 60) * 60 * 1000;
+    this.lastSnapshotTime = null;
+    this.lastSnapshotDate = null;
+  }
+
+  /**
+   * Whether a date is a weekday (exchange holidays are not tracked)
+   * @param {string} isoDate - Date as YYYY-MM-DD
+   * @returns {boolean} True for Monday to Friday
+   */
+  isTradingDay(isoDate) {
+    const day = parseIsoDate(isoDate).getUTCDay();
+    return day !== 0 && day !== 6;
+  }
+
+  /**
+   * Builds a snapshot record from enriched holdings
+   * Holdings without a CMP take their price from the previous snapshot, and are left out
+   * when it has none, so a failed price fetch doesn't read as a crash
+   * @param {Array} holdings - Enriched holdings
+   * @param {Date} now - Snapshot time
+   * @param {Object|null} previous - Latest snapshot recorded before this one
+   * @returns {Object} Snapshot with date, timestamp and per-holding values
+   */
+  createSnapshot(holdings, now = new Date(), previous = null) {
+    const previousCmp = new Map((previous?.holdings || []).filter(h => h.id).map(h => [h.id, h.cmp]));
+    const priced = holdings
+      .map(h => {
+        if (h.cmp > 0 || !h.id || !(previousCmp.get(h.id) > 0)) return h;
+        const cmp = previousCmp.get(h.id);
+        const presentValue = cmp * h.quantity;
+        return { ...h, cmp, presentValue, gainLoss: presentValue - h.investment };
+      })
+      .filter(h => h.cmp > 0);
+
+    return {
+      date: now.toISOString().substring(0, 10),
+      timestamp: now.toISOString(),
+      holdings: priced.map(h => ({
+        id: h.id,
+        isin: h.isin || null,
+        nseCode: h.nseCode,
+        bseCode: h.bseCode || null,
+        instrumentType: h.instrumentType || 'equity',
+        schemeCode: h.schemeCode || null,
+        particulars: h.particulars,
+        sector: h.sector,
+        quantity: h.quantity,
+        cmp: h.cmp,
+        investment: h.investment,
+        presentValue: h.presentValue,
+        gainLoss: h.gainLoss
+      }))
+    };
+  }
+
+  /**
+   * Records a snapshot unless one was taken recently or it is not a trading day
+   * Holdings with no price now or in the previous snapshot (a delisted scrip, an unresolved
+   * code) are left out and reported, so one of them doesn't stop snapshots altogether
+   * @param {Array} holdings - Enriched holdings
+   * @param {Date} now - Snapshot time (defaults to now)
+   * @returns {Promise<Object|null>} The recorded snapshot with an ApiError in errors for each
+   *   held holding left out, or null if skipped
+   */
+  async recordSnapshot(holdings, now = new Date()) {
+    const date = now.toISOString().substring(0, 10);
+
+    if (!this.isTradingDay(date) || !holdings.some(h => h.cmp > 0)) {
+      return null;
+    }
+
+    const isPartial = holdings.some(h => !(h.cmp > 0));
+    let latest = null;
+    if (this.lastSnapshotTime === null || isPartial) {
+      latest = (await this.readSnapshots()).pop() || null;
+      if (latest && this.lastSnapshotTime === null) {
+        this.lastSnapshotDate = latest.date;
+        this.lastSnapshotTime = new Date(latest.timestamp).getTime();
+      }
+    }
+
+    if (this.lastSnapshotDate === date && now.getTime() - this.lastSnapshotTime < this.minIntervalMs) {
+      return null;
+    }
+
+    const snapshot = this.createSnapshot(holdings, now, latest);
+    const recorded = new Set(snapshot.holdings.map(h => h.id));
+    const errors = holdings
+      .filter(h => h.quantity > 0 && !recorded.has(h.id))
+      .map(h => createApiError({
+        source: 'system',
+        symbol: h.nseCode || h.bseCode || h.schemeCode || undefined,
+        message: `Snapshot for ${date} leaves out ${h.particulars}: no price now or in an earlier snapshot`
+      }));
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(snapshot)}\n`, 'utf8');
+
+    this.lastSnapshotDate = date;
+    this.lastSnapshotTime = now.getTime();
+
+    return { ...snapshot, errors };
+  }
+
+  /**
+   * Reads all snapshots in file order
+   * Unparseable lines (e.g. a write cut short) are skipped
+   * @returns {Promise<Array>} Snapshot records
+   */
+  async readSnapshots() {
+    let content;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          return null;
+        }
+      })
+      .filter(snapshot => snapshot && snapshot.date && Array.isArray(snapshot.holdings));
+  }
+
+  /**
+   * Returns the latest snapshot taken on or before a date
+   * @param {string} date - Date as YYYY-MM-DD
+   * @returns {Promise<Object|null>} The snapshot, or null if none was taken by then
+   */
+  async getSnapshot(date) {
+    if (!ISO_DATE_PATTERN.test(date || '')) {
+      throw new Error(`Invalid date: ${date} (expected YYYY-MM-DD)`);
+    }
+
+    // Later lines of a date replace earlier ones, as in getHistory
+    return (await this.readSnapshots())
+      .filter(snapshot => snapshot.date <= date)
+      .reduce((latest, snapshot) => (!latest || snapshot.date >= latest.date ? snapshot : latest), null);
+  }
+
+  /**
+   * Returns the portfolio and per-sector value series between two dates
+   * @param {Object} params - Query parameters
+   * @param {string} params.from - Start date (YYYY-MM-DD), defaults to the first snapshot
+   * @param {string} params.to - End date (YYYY-MM-DD), defaults to today
+   * @param {string} params.granularity - day, week or month (default day)
+   * @returns {Promise<Object>} Series of { date, investment, presentValue, gainLoss }
+   */
+  async getHistory({ from, to, granularity = 'day' } = {}) {
+    if (from && !ISO_DATE_PATTERN.test(from)) {
+      throw new Error(`Invalid from date: ${from} (expected YYYY-MM-DD)`);
+    }
+    if (to && !ISO_DATE_PATTERN.test(to)) {
+      throw new Error(`Invalid to date: ${to} (expected YYYY-MM-DD)`);
+    }
+    if (!GRANULARITIES.includes(granularity)) {
+      throw new Error(`Invalid granularity: ${granularity} (expected one of ${GRANULARITIES.join(', ')})`);
+    }
+
+    const end = to || todayIsoDate();
+    const snapshots = (await this.readSnapshots())
+      .filter(snapshot => (!from || snapshot.date >= from) && snapshot.date <= end);
+
+    // Keep the last snapshot of each period
+    const byPeriod = new Map();
+    snapshots.forEach(snapshot => {
+      byPeriod.set(this._getPeriodKey(snapshot.date, granularity), snapshot);
+    });
+    const points = Array.from(byPeriod.values()).sort((a, b) => (a.date < b.date ? -1 : 1));
+
+    const sectorSeries = new Map();
+    const portfolio = points.map(snapshot => {
+      const bySector = new Map();
+      snapshot.holdings.forEach(holding => {
+        const sector = holding.sector || 'Other';
+        bySector.set(sector, [...(bySector.get(sector) || []), holding]);
+      });
+
+      bySector.forEach((sectorHoldings, sector) => {
+        if (!sectorSeries.has(sector)) sectorSeries.set(sector, []);
+        sectorSeries.get(sector).push({ date: snapshot.date, ...this._sumValues(sectorHoldings) });
+      });
+
+      return { date: snapshot.date, ...this._sumValues(snapshot.holdings) };
+    });
+
+    return {
+      from: from || (points[0] ? points[0].date : null),
+      to: end,
+      granularity,
+      portfolio,
+      sectors: Array.from(sectorSeries.entries())
+        .map(([sector, series]) => ({ sector, series }))
+        .sort((a, b) => a.sector.localeCompare(b.sector))
+    };
+  }
+
+  /**
+   * Totals investment, present value and gain/loss of snapshot holdings
+   * @private
+   */
+  _sumValues(holdings) {
+    const investment = holdings.reduce((sum, h) => sum + h.investment, 0);
+    const presentValue = holdings.reduce((sum, h) => sum + h.presentValue, 0);
+
+    return {
+      investment,
+      presentValue,
+      gainLoss: presentValue - investment
+    };
+  }
+
+  /**
+   * Groups a date into its day, ISO week (keyed by Monday) or month
+   * @private
+   */
+  _getPeriodKey(isoDate, granularity) {
+    if (granularity === 'month') {
+      return isoDate.substring(0, 7);
+    }
+    if (granularity === 'week') {
+      const date = parseIsoDate(isoDate);
+      const offset = (date.getUTCDay() + 6) % 7;
+      date.setUTCDate(date.getUTCDate() - offset);
+      return date.toISOString().substring(0, 10);
+    }
+    return isoDate;
+  }
+}
+
+export default SnapshotService;
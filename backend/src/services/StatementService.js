@@ -0,0 +1,396 @@
+import PDFDocument from 'pdfkit';
+
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 16;
+const CHART_HEIGHT = 170;
+const COLORS = {
+  text: '#18181b',
+  muted: '#71717a',
+  border: '#e4e4e7',
+  fill: '#f4f4f5',
+  gain: '#059669',
+  loss: '#dc2626',
+  value: '#6366f1',
+  investment: '#a1a1aa'
+};
+
+// The built-in PDF fonts have no ₹ glyph
+const formatAmount = value => `${value < 0 ? '-' : ''}Rs ${Math.abs(value).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+const formatSignedAmount = value => `${value > 0 ? '+' : ''}${formatAmount(value)}`;
+const formatPercent = value => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+const formatDate = isoDate => new Date(`${isoDate}T00:00:00Z`)
+  .toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+const gainLossColor = value => (value > 0 ? COLORS.gain : value < 0 ? COLORS.loss : COLORS.text);
+
+/**
+ * StatementService - Renders a portfolio statement as a PDF
+ *
+ * Features:
+ * - Header totals, a per-sector table, top gainers and losers, and every holding by sector
+ * - A chart of the portfolio's recorded value against the amount invested
+ * - Drawn with pdfkit's built-in fonts, so statements are generated offline without a browser
+ */
+class StatementService {
+  /**
+   * Best and worst holdings by gain/loss %, as the dashboard's Top Gainers & Losers card picks them:
+   * the first `count` gainers, and the last `count` holdings that are down. Holdings without a
+   * price are left out so a failed fetch doesn't read as a -100% loss
+   * @param {Array} holdings - Enriched holdings
+   * @param {number} count - Holdings per list
+   * @returns {Object} gainers and losers, each holdings sorted best or worst first
+   */
+  getTopMovers(holdings, count = 3) {
+    const sorted = holdings
+      .filter(h => h.cmp > 0)
+      .sort((a, b) => b.gainLossPercentage - a.gainLossPercentage);
+
+    return {
+      gainers: sorted.slice(0, count),
+      losers: sorted.slice(-count).reverse().filter(h => h.gainLossPercentage < 0)
+    };
+  }
+
+  /**
+   * Renders a statement
+   * @param {Object} statement - Statement contents
+   * @param {string} statement.portfolioName - Portfolio shown in the title
+   * @param {string} statement.asOf - Statement date (YYYY-MM-DD)
+   * @param {Array} statement.holdings - Enriched holdings
+   * @param {Array} statement.sectors - Sectors of { sector, holdings, summary }
+   * @param {Object} statement.totals - Portfolio totals (calculatePortfolioTotals)
+   * @param {Array} statement.history - Value series of { date, investment, presentValue }, oldest first
+   * @param {Date} statement.generatedAt - Generation time (defaults to now)
+   * @returns {Promise<Buffer>} PDF file contents
+   */
+  generateStatement({ portfolioName, asOf, holdings, sectors, totals, history = [], generatedAt = new Date() }) {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: `${portfolioName} statement as of ${asOf}`, Author: 'Portfolio Dashboard' }
+    });
+
+    const chunks = [];
+    const done = new Promise((resolve, reject) => {
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    this._drawTitle(doc, portfolioName, asOf, generatedAt);
+    this._drawTotals(doc, totals);
+    this._drawSectionTitle(doc, 'Portfolio Value', CHART_HEIGHT);
+    this._drawChart(doc, history);
+    this._drawSectionTitle(doc, 'Sectors', ROW_HEIGHT * 3);
+    this._drawSectorTable(doc, sectors, totals);
+    this._drawSectionTitle(doc, 'Top Gainers & Losers', ROW_HEIGHT * 4);
+    this._drawTopMovers(doc, this.getTopMovers(holdings));
+    this._drawSectionTitle(doc, 'Holdings', ROW_HEIGHT * 3);
+    this._drawHoldingsTable(doc, sectors);
+    this._drawPageFooters(doc, portfolioName, asOf);
+
+    doc.end();
+    return done;
+  }
+
+  /**
+   * @private
+   */
+  _drawTitle(doc, portfolioName, asOf, generatedAt) {
+    doc.fillColor(COLORS.text).font('Helvetica-Bold').fontSize(20).text('Portfolio Statement', PAGE_MARGIN, PAGE_MARGIN);
+    doc.font('Helvetica').fontSize(11).fillColor(COLORS.muted)
+      .text(`${portfolioName} · as of ${formatDate(asOf)}`)
+      .fontSize(8)
+      .text(`Generated ${generatedAt.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}`);
+    doc.moveDown(1);
+  }
+
+  /**
+   * Header tiles with the portfolio totals
+   * @private
+   */
+  _drawTotals(doc, totals) {
+    const tiles = [
+      { label: 'Invested', value: formatAmount(totals.totalInvestment) },
+      { label: 'Present Value', value: formatAmount(totals.totalPresentValue) },
+      {
+        label: 'Gain/Loss',
+        value: `${formatSignedAmount(totals.totalGainLoss)} (${formatPercent(totals.totalGainLossPercentage)})`,
+        color: gainLossColor(totals.totalGainLoss)
+      },
+      {
+        label: "Today's Change",
+        value: `${formatSignedAmount(totals.totalDayChange)} (${formatPercent(totals.totalDayChangePercent)})`,
+        color: gainLossColor(totals.totalDayChange)
+      },
+      { label: 'Dividends Received', value: formatAmount(totals.totalDividends || 0) },
+      {
+        label: 'XIRR',
+        value: typeof totals.xirr === 'number' ? formatPercent(totals.xirr) : '—',
+        color: typeof totals.xirr === 'number' ? gainLossColor(totals.xirr) : COLORS.text
+      }
+    ];
+
+    const gap = 10;
+    const width = (this._contentWidth(doc) - gap * 2) / 3;
+    const height = 42;
+    const top = doc.y;
+
+    tiles.forEach((tile, i) => {
+      const x = PAGE_MARGIN + (i % 3) * (width + gap);
+      const y = top + Math.floor(i / 3) * (height + gap);
+      doc.roundedRect(x, y, width, height, 4).fillAndStroke(COLORS.fill, COLORS.border);
+      doc.fillColor(COLORS.muted).font('Helvetica').fontSize(8).text(tile.label.toUpperCase(), x + 8, y + 8, { width: width - 16, lineBreak: false });
+      doc.fillColor(tile.color || COLORS.text).font('Helvetica-Bold').fontSize(11)
+        .text(this._fit(doc, tile.value, width - 16), x + 8, y + 22, { width: width - 16, lineBreak: false });
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = top + 2 * height + gap + 16;
+  }
+
+  /**
+   * Starts a section, on a new page when fewer than minHeight points are left below its title
+   * @private
+   */
+  _drawSectionTitle(doc, title, minHeight) {
+    if (doc.y + 24 + minHeight > this._bottom(doc)) doc.addPage();
+    doc.x = PAGE_MARGIN;
+    doc.fillColor(COLORS.text).font('Helvetica-Bold').fontSize(13).text(title, PAGE_MARGIN, doc.y);
+    doc.moveDown(0.4);
+  }
+
+  /**
+   * Line chart of present value against investment
+   * @private
+   */
+  _drawChart(doc, history) {
+    const top = doc.y;
+    const left = PAGE_MARGIN + 64;
+    const width = this._contentWidth(doc) - 64;
+    const height = CHART_HEIGHT - 30;
+
+    if (history.length < 2) {
+      doc.fillColor(COLORS.muted).font('Helvetica').fontSize(9)
+        .text('The value chart appears once daily snapshots have been recorded on two or more days.', PAGE_MARGIN, top + 4);
+      doc.moveDown(1.5);
+      return;
+    }
+
+    const values = history.flatMap(point => [point.presentValue, point.investment]);
+    const padding = (Math.max(...values) - Math.min(...values)) * 0.05 || Math.max(...values) * 0.05 || 1;
+    const min = Math.min(...values) - padding;
+    const max = Math.max(...values) + padding;
+    const x = i => left + (i / (history.length - 1)) * width;
+    const y = value => top + height - ((value - min) / (max - min)) * height;
+
+    // Grid lines with their values
+    doc.font('Helvetica').fontSize(7);
+    for (let i = 0; i <= 4; i++) {
+      const value = min + ((max - min) * i) / 4;
+      doc.moveTo(left, y(value)).lineTo(left + width, y(value)).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+      doc.fillColor(COLORS.muted).text(formatAmount(Math.round(value)), PAGE_MARGIN, y(value) - 3, { width: 60, align: 'right', lineBreak: false });
+    }
+
+    // Dates at the start, middle and end
+    [0, Math.floor((history.length - 1) / 2), history.length - 1].forEach((index, i) => {
+      const align = ['left', 'center', 'right'][i];
+      const offset = { left: 0, center: 40, right: 80 }[align];
+      doc.fillColor(COLORS.muted).text(formatDate(history[index].date), x(index) - offset, top + height + 6, { width: 80, align, lineBreak: false });
+    });
+
+    const drawLine = (key, color, dash) => {
+      history.forEach((point, i) => (i === 0 ? doc.moveTo(x(i), y(point[key])) : doc.lineTo(x(i), y(point[key]))));
+      if (dash) doc.dash(3, { space: 3 });
+      doc.lineWidth(1.5).strokeColor(color).stroke();
+      doc.undash();
+    };
+    drawLine('investment', COLORS.investment, true);
+    drawLine('presentValue', COLORS.value, false);
+
+    // Legend
+    [['Present value', COLORS.value], ['Invested', COLORS.investment]].forEach(([label, color], i) => {
+      const legendX = left + width - 150 + i * 80;
+      doc.rect(legendX, top - 14, 8, 8).fill(color);
+      doc.fillColor(COLORS.muted).text(label, legendX + 12, top - 13, { lineBreak: false });
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = top + CHART_HEIGHT - 10;
+  }
+
+  /**
+   * One row per SectorSummary plus the portfolio total
+   * @private
+   */
+  _drawSectorTable(doc, sectors, totals) {
+    const weight = summary => (totals.totalInvestment ? (summary.totalInvestment / totals.totalInvestment) * 100 : 0);
+    const columns = [
+      { header: 'Sector', width: 130, value: row => row.sector },
+      { header: 'Holdings', width: 50, align: 'right', value: row => String(row.holdingsCount) },
+      { header: 'Invested', width: 80, align: 'right', value: row => formatAmount(row.totalInvestment) },
+      { header: 'Present Value', width: 80, align: 'right', value: row => formatAmount(row.totalPresentValue) },
+      { header: 'Gain/Loss', width: 75, align: 'right', value: row => formatSignedAmount(row.totalGainLoss), color: row => gainLossColor(row.totalGainLoss) },
+      { header: 'Gain %', width: 50, align: 'right', value: row => formatPercent(row.gainLossPercentage), color: row => gainLossColor(row.gainLossPercentage) },
+      { header: 'Weight', width: 50, align: 'right', value: row => `${weight(row).toFixed(2)}%` }
+    ];
+
+    this._drawTable(doc, columns, [
+      ...sectors.map(({ summary }) => summary),
+      {
+        sector: 'Total',
+        holdingsCount: totals.holdingsCount,
+        totalInvestment: totals.totalInvestment,
+        totalPresentValue: totals.totalPresentValue,
+        totalGainLoss: totals.totalGainLoss,
+        gainLossPercentage: totals.totalGainLossPercentage,
+        bold: true
+      }
+    ]);
+  }
+
+  /**
+   * Gainers and losers side by side
+   * @private
+   */
+  _drawTopMovers(doc, { gainers, losers }) {
+    const top = doc.y;
+    const width = (this._contentWidth(doc) - 20) / 2;
+
+    [['Top Gainers', gainers, COLORS.gain], ['Top Losers', losers, COLORS.loss]].forEach(([title, holdings, color], column) => {
+      const left = PAGE_MARGIN + column * (width + 20);
+      doc.fillColor(color).font('Helvetica-Bold').fontSize(9).text(title.toUpperCase(), left, top, { lineBreak: false });
+
+      if (holdings.length === 0) {
+        doc.fillColor(COLORS.muted).font('Helvetica').fontSize(9).text('None', left, top + ROW_HEIGHT, { lineBreak: false });
+      }
+      holdings.forEach((holding, i) => {
+        const y = top + (i + 1) * ROW_HEIGHT;
+        doc.fillColor(COLORS.text).font('Helvetica').fontSize(9)
+          .text(this._fit(doc, `${i + 1}. ${holding.particulars || holding.nseCode}`, width - 130), left, y, { lineBreak: false });
+        doc.fillColor(color).font('Helvetica-Bold')
+          .text(`${formatPercent(holding.gainLossPercentage)}  ${formatSignedAmount(holding.gainLoss)}`, left + width - 130, y, { width: 130, align: 'right', lineBreak: false });
+      });
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = top + (Math.max(gainers.length, losers.length, 1) + 1) * ROW_HEIGHT + 12;
+  }
+
+  /**
+   * Every holding under a row naming its sector
+   * @private
+   */
+  _drawHoldingsTable(doc, sectors) {
+    const columns = [
+      { header: 'Particulars', width: 110, value: row => row.particulars },
+      { header: 'Code', width: 55, value: row => row.nseCode || row.bseCode || row.schemeCode || '' },
+      { header: 'Qty', width: 35, align: 'right', value: row => row.quantity.toLocaleString('en-IN') },
+      { header: 'Avg Price', width: 50, align: 'right', value: row => formatAmount(row.purchasePrice) },
+      { header: 'CMP', width: 50, align: 'right', value: row => (row.cmp > 0 ? formatAmount(row.cmp) : '—') },
+      { header: 'Invested', width: 60, align: 'right', value: row => formatAmount(row.investment) },
+      { header: 'Present Value', width: 60, align: 'right', value: row => (row.cmp > 0 ? formatAmount(row.presentValue) : '—') },
+      { header: 'Gain/Loss', width: 58, align: 'right', value: row => (row.cmp > 0 ? formatSignedAmount(row.gainLoss) : '—'), color: row => gainLossColor(row.gainLoss) },
+      { header: 'Gain %', width: 37, align: 'right', value: row => (row.cmp > 0 ? formatPercent(row.gainLossPercentage) : '—'), color: row => gainLossColor(row.gainLossPercentage) }
+    ];
+
+    this._drawTable(doc, columns, sectors.flatMap(({ sector, holdings }) => [{ heading: sector }, ...holdings]));
+  }
+
+  /**
+   * Draws a table, repeating the header row on each new page
+   * Rows with `heading` span the table; rows with `bold` are drawn in bold
+   * @private
+   */
+  _drawTable(doc, columns, rows) {
+    const width = columns.reduce((sum, column) => sum + column.width, 0);
+
+    const drawHeader = () => {
+      const y = doc.y;
+      doc.rect(PAGE_MARGIN, y, width, ROW_HEIGHT).fill(COLORS.fill);
+      doc.font('Helvetica-Bold').fontSize(7.5).fillColor(COLORS.muted);
+      let x = PAGE_MARGIN;
+      columns.forEach(column => {
+        doc.text(column.header.toUpperCase(), x + 3, y + 5, { width: column.width - 6, align: column.align || 'left', lineBreak: false });
+        x += column.width;
+      });
+      doc.y = y + ROW_HEIGHT;
+    };
+
+    drawHeader();
+    rows.forEach(row => {
+      if (doc.y + ROW_HEIGHT > this._bottom(doc)) {
+        doc.addPage();
+        drawHeader();
+      }
+      const y = doc.y;
+
+      if (row.heading) {
+        doc.font('Helvetica-Bold').fontSize(8).fillColor(COLORS.text).text(row.heading, PAGE_MARGIN + 3, y + 5, { width: width - 6, lineBreak: false });
+      } else {
+        let x = PAGE_MARGIN;
+        columns.forEach(column => {
+          doc.font(row.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8).fillColor(column.color ? column.color(row) : COLORS.text)
+            .text(this._fit(doc, column.value(row), column.width - 6), x + 3, y + 5, { width: column.width - 6, align: column.align || 'left', lineBreak: false });
+          x += column.width;
+        });
+      }
+
+      doc.moveTo(PAGE_MARGIN, y + ROW_HEIGHT).lineTo(PAGE_MARGIN + width, y + ROW_HEIGHT).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+      doc.y = y + ROW_HEIGHT;
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y += 14;
+  }
+
+  /**
+   * Page numbers on every page
+   * @private
+   */
+  _drawPageFooters(doc, portfolioName, asOf) {
+    const { start, count } = doc.bufferedPageRange();
+    for (let i = start; i < start + count; i++) {
+      doc.switchToPage(i);
+      // Writing below the bottom margin would otherwise start a new page
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc.font('Helvetica').fontSize(7).fillColor(COLORS.muted).text(
+        `${portfolioName} · statement as of ${formatDate(asOf)} · page ${i + 1} of ${count}`,
+        PAGE_MARGIN,
+        doc.page.height - PAGE_MARGIN + 12,
+        { width: this._contentWidth(doc), align: 'center', lineBreak: false }
+      );
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+
+  /**
+   * Shortens text with an ellipsis to fit a width in the current font
+   * @private
+   */
+  _fit(doc, text, width) {
+    if (doc.widthOfString(text) <= width) return text;
+    let fitted = text;
+    while (fitted.length > 1 && doc.widthOfString(`${fitted}…`) > width) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}…`;
+  }
+
+  /**
+   * @private
+   */
+  _contentWidth(doc) {
+    return doc.page.width - PAGE_MARGIN * 2;
+  }
+
+  /**
+   * @private
+   */
+  _bottom(doc) {
+    return doc.page.height - doc.page.margins.bottom;
+  }
+}
+
+export default StatementService;
@@ -0,0 +1,371 @@
+import xlsx from 'xlsx';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { addMonths, daysBetween, todayIsoDate } from '../utils/dateUtils.js';
+
+// Listed equity held for more than 12 months is long-term
+const LONG_TERM_MONTHS = 12;
+
+// Long-term gains on listed equity were exempt (Section 10(38)) for transfers before FY 2018-19
+const LTCG_TAXABLE_FROM = '2018-04-01';
+
+// Section 112A grandfathering: cost of shares acquired on or before this date is stepped up to FMV
+const GRANDFATHERING_DATE = '2018-01-31';
+
+// Finance (No. 2) Act 2024 changed equity rates for transfers on or after this date
+const RATE_CHANGE_DATE = '2024-07-23';
+
+const TAX_RATES = {
+  short: { before: 15, after: 20 },
+  long: { before: 10, after: 12.5 }
+};
+
+// Annual LTCG exemption; raised from FY 2024-25
+const LTCG_EXEMPTION = { before: 100000, after: 125000 };
+const LTCG_EXEMPTION_CHANGE_FY_START = 2024;
+
+/**
+ * TaxService - Indian capital gains (STCG/LTCG) report for listed equity
+ *
+ * Features:
+ * - Classifies FIFO sale matches as short-term or long-term by holding period
+ * - Hypothetical "sell today" classification of open lots for the current financial year
+ * - Section 112A grandfathering of 31-Jan-2018 fair market values
+ * - Loss set-off, annual LTCG exemption and an estimated tax figure
+ *   (before surcharge and 4% health and education cess)
+ * - Mutual funds, ETFs, bonds and gold are left out and listed, since their holding
+ *   periods and rates depend on what the fund holds
+ */
+class TaxService {
+  /**
+   * @param {Object} options - Configuration options
+   * @param {Map<string, number>} options.grandfatheredPrices - Symbol to FMV on 31-Jan-2018
+   */
+  constructor(options = {}) {
+    this.grandfatheredPrices = options.grandfatheredPrices || new Map();
+  }
+
+  /**
+   * Loads 31-Jan-2018 fair market values from an Excel or CSV file
+   * Expects a symbol column (NSE/BSE code) and a price column (FMV, Price or Close)
+   * @param {string} filePath - Path to the prices file
+   * @returns {Promise<number>} Number of prices loaded
+   * @throws {Error} If the file cannot be read or parsed
+   */
+  async loadGrandfatheredPrices(filePath) {
+    try {
+      const workbook = xlsx.read(readFileSync(resolve(filePath)), { type: 'buffer' });
+      const rows = xlsx.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { defval: null });
+
+      if (rows.length === 0) {
+        return 0;
+      }
+
+      const headers = Object.keys(rows[0]);
+      const findKey = (possibleNames) => headers.find(header =>
+        possibleNames.some(name => header.toLowerCase().includes(name.toLowerCase()))
+      );
+      const symbolKey = findKey(['Symbol', 'NSE/BSE', 'Code']);
+      const priceKey = findKey(['FMV', 'Price', 'Close']);
+
+      const prices = new Map();
+      rows.forEach(row => {
+        const symbol = row[symbolKey] !== null ? String(row[symbolKey]).trim().toUpperCase() : '';
+        const price = Number(row[priceKey]);
+        if (symbol && price > 0) {
+          prices.set(symbol, price);
+        }
+      });
+
+      this.grandfatheredPrices = prices;
+      return prices.size;
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Grandfathering prices file not found: ${filePath}`);
+      }
+      throw new Error(`Failed to parse grandfathering prices file: ${error.message}`);
+    }
+  }
+
+  /**
+   * Parses a financial year label such as "2025-26"
+   * @param {string} financialYear - Financial year label
+   * @returns {{from: string, to: string, startYear: number}} First and last day of the year
+   * @throws {Error} If the label is malformed
+   */
+  parseFinancialYear(financialYear) {
+    const match = /^(\d{4})-(\d{2})$/.exec(String(financialYear || ''));
+    const startYear = match ? Number(match[1]) : NaN;
+
+    if (!match || (startYear + 1) % 100 !== Number(match[2])) {
+      throw new Error(`Invalid financial year: ${financialYear}. Expected format YYYY-YY, e.g. 2025-26`);
+    }
+
+    return {
+      from: `${startYear}-04-01`,
+      to: `${startYear + 1}-03-31`,
+      startYear
+    };
+  }
+
+  /**
+   * Returns the financial year label that contains a date
+   * @param {string} isoDate - Date as YYYY-MM-DD
+   * @returns {string} Financial year label, e.g. "2025-26"
+   */
+  getFinancialYear(isoDate) {
+    const year = Number(isoDate.substring(0, 4));
+    const month = Number(isoDate.substring(5, 7));
+    const startYear = month >= 4 ? year : year - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  /**
+   * Classifies a single sale of a lot and computes its taxable gain
+   * @param {Object} holding - The holding the lot belongs to
+   * @param {Object} sale - buyDate, sellDate, quantity, costBasis, proceeds and the shareFactor
+   *   of splits and bonuses since the buy
+   * @param {boolean} hypothetical - Whether this is a "sell today" projection
+   * @returns {Object} Classified tax entry
+   */
+  classifySale(holding, sale, hypothetical = false) {
+    const isLongTerm = sale.sellDate > addMonths(sale.buyDate, LONG_TERM_MONTHS);
+    const term = isLongTerm ? 'long' : 'short';
+    const ratePeriod = sale.sellDate >= RATE_CHANGE_DATE ? 'after' : 'before';
+
+    let rate = TAX_RATES[term][ratePeriod];
+    let costOfAcquisition = sale.costBasis;
+    let grandfathered = false;
+    let grandfatheringMissing = false;
+
+    if (isLongTerm && sale.sellDate < LTCG_TAXABLE_FROM) {
+      rate = 0;
+    } else if (isLongTerm && sale.buyDate <= GRANDFATHERING_DATE) {
+      const fmv = this._getGrandfatheredPrice(holding);
+      if (fmv === null) {
+        grandfatheringMissing = true;
+      } else {
+        // Cost is the higher of actual cost and the lower of FMV and sale value; the FMV is per
+        // share before any later split or bonus
+        const fmvValue = (fmv / (sale.shareFactor || 1)) * sale.quantity;
+        const steppedUpCost = Math.max(sale.costBasis, Math.min(fmvValue, sale.proceeds));
+        grandfathered = steppedUpCost !== sale.costBasis;
+        costOfAcquisition = steppedUpCost;
+      }
+    }
+
+    return {
+      holdingId: holding.id,
+      particulars: holding.particulars,
+      nseCode: holding.nseCode,
+      bseCode: holding.bseCode || null,
+      buyDate: sale.buyDate,
+      sellDate: sale.sellDate,
+      quantity: sale.quantity,
+      costBasis: sale.costBasis,
+      costOfAcquisition,
+      proceeds: sale.proceeds,
+      gain: sale.proceeds - costOfAcquisition,
+      holdingDays: daysBetween(sale.buyDate, sale.sellDate),
+      term,
+      rate,
+      grandfathered,
+      grandfatheringMissing,
+      hypothetical
+    };
+  }
+
+  /**
+   * Builds the capital gains report for a financial year
+   * Realized entries come from each holding's FIFO sale matches; hypothetical
+   * entries value open lots at CMP as if sold on asOf (current year only).
+   * Only listed equity is classified; other instruments that would have entries
+   * are returned in excluded instead
+   * @param {Array} holdings - Enriched holdings with lots and realizedLots
+   * @param {string} financialYear - Financial year label, e.g. "2025-26"
+   * @param {string} asOf - Valuation date for hypothetical sales (defaults to today)
+   * @returns {Object} Tax report with entries, summaries and excluded holdings
+   */
+  generateReport(holdings, financialYear, asOf = todayIsoDate()) {
+    const { from, to, startYear } = this.parseFinancialYear(financialYear);
+    const includeHypothetical = asOf >= from && asOf <= to;
+    const realized = [];
+    const hypothetical = [];
+    const excluded = [];
+
+    holdings.forEach(holding => {
+      const sales = (holding.realizedLots || [])
+        .filter(match => match.buyDate && match.sellDate >= from && match.sellDate <= to);
+      const openLots = includeHypothetical && holding.cmp > 0
+        ? (holding.lots || []).filter(lot => lot.date)
+        : [];
+
+      const instrumentType = holding.instrumentType || 'equity';
+      if (instrumentType !== 'equity') {
+        if (sales.length > 0 || openLots.length > 0) {
+          excluded.push({
+            holdingId: holding.id,
+            particulars: holding.particulars,
+            nseCode: holding.nseCode,
+            bseCode: holding.bseCode || null,
+            instrumentType
+          });
+        }
+        return;
+      }
+
+      sales.forEach(match => {
+        realized.push(this.classifySale(holding, match));
+      });
+
+      openLots.forEach(lot => {
+        hypothetical.push(this.classifySale(holding, {
+          buyDate: lot.date,
+          sellDate: asOf,
+          quantity: lot.quantity,
+          costBasis: lot.investment,
+          proceeds: holding.cmp * lot.quantity,
+          shareFactor: lot.shareFactor
+        }, true));
+      });
+    });
+
+    return {
+      financialYear,
+      from,
+      to,
+      asOf,
+      realized,
+      hypothetical,
+      excluded,
+      summary: this._summarize(realized, startYear),
+      projectedSummary: includeHypothetical
+        ? this._summarize([...realized, ...hypothetical], startYear)
+        : null
+    };
+  }
+
+  /**
+   * Nets gains and losses, applies set-off rules and the LTCG exemption
+   * Short-term losses may be set off against any gain; long-term losses only
+   * against long-term gains. Losses and the exemption are applied to the
+   * highest-rate gains first.
+   * @private
+   * @param {Array} entries - Classified tax entries
+   * @param {number} startYear - First calendar year of the financial year
+   * @returns {Object} Summary totals
+   */
+  _summarize(entries, startYear) {
+    const shortBuckets = new Map();
+    const longBuckets = new Map();
+    const totals = {
+      short: { gains: 0, losses: 0 },
+      long: { gains: 0, losses: 0 }
+    };
+
+    entries.forEach(entry => {
+      const buckets = entry.term === 'short' ? shortBuckets : longBuckets;
+      buckets.set(entry.rate, (buckets.get(entry.rate) || 0) + entry.gain);
+      if (entry.gain >= 0) {
+        totals[entry.term].gains += entry.gain;
+      } else {
+        totals[entry.term].losses -= entry.gain;
+      }
+    });
+
+    let shortTermLoss = this._offsetWithinBuckets(shortBuckets);
+    const longTermLoss = this._offsetWithinBuckets(longBuckets);
+    shortTermLoss = this._reduceBuckets(longBuckets, shortTermLoss);
+
+    const exemptionLimit = startYear >= LTCG_EXEMPTION_CHANGE_FY_START
+      ? LTCG_EXEMPTION.after
+      : LTCG_EXEMPTION.before;
+    const ltcgExemption = exemptionLimit - this._reduceBuckets(longBuckets, exemptionLimit);
+
+    const sumBuckets = (buckets) => Array.from(buckets.values()).reduce((sum, amount) => sum + amount, 0);
+    const taxFor = (buckets) => Array.from(buckets.entries())
+      .reduce((sum, [rate, amount]) => sum + (amount * rate) / 100, 0);
+
+    return {
+      shortTerm: {
+        gains: totals.short.gains,
+        losses: totals.short.losses,
+        net: totals.short.gains - totals.short.losses
+      },
+      longTerm: {
+        gains: totals.long.gains,
+        losses: totals.long.losses,
+        net: totals.long.gains - totals.long.losses
+      },
+      ltcgExemption,
+      taxableShortTerm: sumBuckets(shortBuckets),
+      taxableLongTerm: sumBuckets(longBuckets),
+      estimatedTax: taxFor(shortBuckets) + taxFor(longBuckets),
+      lossCarryForward: {
+        shortTerm: shortTermLoss,
+        longTerm: longTermLoss
+      }
+    };
+  }
+
+  /**
+   * Moves negative buckets into a loss and sets it off against positive buckets
+   * @private
+   * @param {Map<number, number>} buckets - Rate to net gain
+   * @returns {number} Loss left after set-off
+   */
+  _offsetWithinBuckets(buckets) {
+    let loss = 0;
+    for (const [rate, amount] of buckets) {
+      if (amount < 0) {
+        loss -= amount;
+        buckets.set(rate, 0);
+      }
+    }
+    return this._reduceBuckets(buckets, loss);
+  }
+
+  /**
+   * Reduces positive buckets by an amount, highest rate first
+   * @private
+   * @param {Map<number, number>} buckets - Rate to net gain
+   * @param {number} amount - Amount to absorb
+   * @returns {number} Amount left unabsorbed
+   */
+  _reduceBuckets(buckets, amount) {
+    let remaining = amount;
+    const rates = Array.from(buckets.keys()).sort((a, b) => b - a);
+
+    for (const rate of rates) {
+      if (remaining <= 0) break;
+      const absorbed = Math.min(buckets.get(rate), remaining);
+      if (absorbed > 0) {
+        buckets.set(rate, buckets.get(rate) - absorbed);
+        remaining -= absorbed;
+      }
+    }
+
+    return remaining;
+  }
+
+  /**
+   * Looks up the 31-Jan-2018 FMV for a holding by NSE then BSE code
+   * @private
+   * @param {Object} holding - The holding
+   * @returns {number|null} FMV per share or null if unknown
+   */
+  _getGrandfatheredPrice(holding) {
+    const keys = [holding.nseCode, holding.bseCode]
+      .filter(Boolean)
+      .map(code => String(code).toUpperCase());
+
+    for (const key of keys) {
+      if (this.grandfatheredPrices.has(key)) {
+        return this.grandfatheredPrices.get(key);
+      }
+    }
+    return null;
+  }
+}
+
+export default TaxService;
@@ -1,5 +1,38 @@
 import axios from 'axios';
 import { createYahooError } from '../models/ApiError.js';
+import { isSchemeSymbol } from '../utils/amfi.js';
+
+// Chart ranges with their default candle interval and cache TTL (seconds)
+// Longer ranges change slowly, so they are cached for longer
+export const HISTORY_RANGES = {
+  '1d': { interval: '5m', ttl: 60 },
+  '5d': { interval: '30m', ttl: 300 },
+  '1mo': { interval: '1d', ttl: 3600 },
+  '3mo': { interval: '1d', ttl: 3600 },
+  '6mo': { interval: '1d', ttl: 21600 },
+  'ytd': { interval: '1d', ttl: 21600 },
+  '1y': { interval: '1d', ttl: 21600 },
+  '2y': { interval: '1wk', ttl: 86400 },
+  '5y': { interval: '1wk', ttl: 86400 },
+  '10y': { interval: '1mo', ttl: 86400 },
+  'max': { interval: '1mo', ttl: 86400 }
+};
+
+export const HISTORY_INTERVALS = ['1m', '2m', '5m', '15m', '30m', '60m', '90m', '1h', '1d', '5d', '1wk', '1mo', '3mo'];
+
+// Yahoo only serves intraday candles for recent ranges
+const INTRADAY_RANGES = ['1d', '5d', '1mo'];
+
+// Ranges offered for sparklines and benchmark comparisons
+export const SERIES_RANGES = {
+  '1d': HISTORY_RANGES['1d'],
+  '5d': HISTORY_RANGES['5d'],
+  '1mo': HISTORY_RANGES['1mo'],
+  '3mo': HISTORY_RANGES['3mo'],
+  '6mo': HISTORY_RANGES['6mo'],
+  'ytd': HISTORY_RANGES['ytd'],
+  '1y': HISTORY_RANGES['1y']
+};
 
 /**
  * YahooFinanceService - Fetches real-time stock prices from Yahoo Finance
@@ -7,6 +40,9 @@ import { createYahooError } from '../models/ApiError.js';
  * Features:
  * - Fetch current market price (CMP) for individual stocks
  * - Batch fetch prices for multiple stocks
+ * - Fetch historical OHLCV candles for any chart range
+ * - Fetch intraday or N-day closing price series for sparklines
+ * - Implements the market data provider contract (see MarketDataService) as 'yahoo'
  * - Retry logic with exponential backoff
  * - Integration with CacheService
  * - Rate limiting and error handling
@@ -18,6 +54,7 @@ class YahooFinanceService {
    * @param {Object} options - Configuration options
    */
   constructor(cacheService, options = {}) {
+    this.id = 'yahoo';
     this.cacheService = cacheService;
     this.cacheTTL = options.cacheTTL || 120;
     this.maxRetries = options.maxRetries || 2;
@@ -159,6 +196,176 @@ class YahooFinanceService {
     return priceMap;
   }
 
+  /**
+   * Get previous closes for symbols whose price was fetched recently
+   * Previous closes are cached alongside prices, so this never makes a request
+   * @param {string[]} symbols - Array of stock symbols
+   * @returns {Map<string, number>} Map of symbol to previous close
+   */
+  getBatchPreviousCloses(symbols) {
+    const previousCloseMap = new Map();
+
+    (symbols || []).forEach(symbol => {
+      const previousClose = this.cacheService.get(`yahoo:previousClose:${symbol}`);
+      if (previousClose !== undefined) {
+        previousCloseMap.set(symbol, previousClose);
+      }
+    });
+
+    return previousCloseMap;
+  }
+
+  /**
+   * Whether Yahoo can quote a symbol; mutual fund scheme codes are left to the amfi provider
+   * @param {string} symbol - Market data symbol
+   * @returns {boolean}
+   */
+  supportsSymbol(symbol) {
+    return !isSchemeSymbol(symbol);
+  }
+
+  /**
+   * Get the price and previous close of a symbol
+   * @param {string} symbol - Stock symbol (e.g., 'RELIANCE.NS')
+   * @returns {Promise<Object|null>} { price, previousClose }, or null while rate limited
+   * @throws {Error} If the price cannot be fetched
+   */
+  async getQuote(symbol) {
+    const price = await this.getCurrentPrice(symbol);
+    if (price === null) {
+      return null;
+    }
+
+    return { price, previousClose: this.getBatchPreviousCloses([symbol]).get(symbol) ?? null };
+  }
+
+  /**
+   * Get prices and previous closes for multiple symbols; symbols that fail are left out
+   * @param {string[]} symbols - Array of stock symbols
+   * @returns {Promise<Map<string, Object>>} Map of symbol to { price, previousClose }
+   */
+  async getBatchQuotes(symbols) {
+    const priceMap = await this.getBatchPrices(symbols);
+    const previousCloseMap = this.getBatchPreviousCloses(Array.from(priceMap.keys()));
+
+    return new Map(Array.from(priceMap, ([symbol, price]) => [
+      symbol,
+      { price, previousClose: previousCloseMap.get(symbol) ?? null }
+    ]));
+  }
+
+  /**
+   * The chart API carries no P/E ratio or earnings, so the next provider is asked
+   * @returns {Promise<null>}
+   */
+  async getFundamentals() {
+    return null;
+  }
+
+  /**
+   * Get historical OHLCV candles (provider contract name for getHistoricalPrices)
+   * @param {string} symbol - Stock or index symbol
+   * @param {string} range - One of the HISTORY_RANGES keys (default '1mo')
+   * @param {string} interval - Candle interval (defaults to the range's interval)
+   * @returns {Promise<Array>} Candles, oldest first
+   */
+  async getHistory(symbol, range = '1mo', interval) {
+    return this.getHistoricalPrices(symbol, range, interval);
+  }
+
+  /**
+   * Get historical OHLCV candles for a symbol
+   * @param {string} symbol - Stock or index symbol (e.g., 'RELIANCE.NS', '^NSEI')
+   * @param {string} range - One of the HISTORY_RANGES keys (default '1mo')
+   * @param {string} interval - Candle interval (defaults to the range's interval)
+   * @returns {Promise<Array>} Candles with timestamp, date, open, high, low, close and volume, oldest first
+   * @throws {Error} If the symbol, range or interval is invalid or the candles cannot be fetched
+   */
+  async getHistoricalPrices(symbol, range = '1mo', interval) {
+    if (!symbol || typeof symbol !== 'string') {
+      throw new Error('Invalid symbol: must be a non-empty string');
+    }
+    const rangeConfig = HISTORY_RANGES[range];
+    if (!rangeConfig) {
+      throw new Error(`Invalid range: ${range} (expected one of ${Object.keys(HISTORY_RANGES).join(', ')})`);
+    }
+    const candleInterval = interval || rangeConfig.interval;
+    if (!HISTORY_INTERVALS.includes(candleInterval)) {
+      throw new Error(`Invalid interval: ${candleInterval} (expected one of ${HISTORY_INTERVALS.join(', ')})`);
+    }
+    if (/m$|h$/.test(candleInterval) && !INTRADAY_RANGES.includes(range)) {
+      throw new Error(`Invalid interval: ${candleInterval} candles are only available for ranges up to 1mo`);
+    }
+
+    const cacheKey = `yahoo:history:${symbol}:${range}:${candleInterval}`;
+    const cachedCandles = this.cacheService.get(cacheKey);
+
+    if (cachedCandles !== undefined) {
+      return cachedCandles;
+    }
+
+    if (this.isRateLimited()) {
+      console.log(`Rate limited, skipping history fetch for ${symbol}`);
+      return [];
+    }
+
+    const candles = await this._fetchHistoryFromYahoo(symbol, range, candleInterval);
+    this.cacheService.set(cacheKey, candles, rangeConfig.ttl);
+
+    return candles;
+  }
+
+  /**
+   * Get the closing price series of a symbol over a range
+   * @param {string} symbol - Stock symbol (e.g., 'RELIANCE.NS')
+   * @param {string} range - One of the SERIES_RANGES keys (default '5d')
+   * @returns {Promise<Array<{timestamp: string, close: number}>>} Price points, oldest first
+   * @throws {Error} If the symbol or range is invalid or the series cannot be fetched
+   */
+  async getPriceSeries(symbol, range = '5d') {
+    if (!SERIES_RANGES[range]) {
+      throw new Error(`Invalid range: ${range} (expected one of ${Object.keys(SERIES_RANGES).join(', ')})`);
+    }
+
+    const candles = await this.getHistoricalPrices(symbol, range);
+    return candles.map(candle => ({ timestamp: candle.timestamp, close: candle.close }));
+  }
+
+  /**
+   * Get price series for multiple symbols; symbols that fail are left out
+   * @param {string[]} symbols - Array of stock symbols
+   * @param {string} range - One of the SERIES_RANGES keys (default '5d')
+   * @returns {Promise<Map<string, Array>>} Map of symbol to price points
+   */
+  async getBatchPriceSeries(symbols, range = '5d') {
+    if (!SERIES_RANGES[range]) {
+      throw new Error(`Invalid range: ${range} (expected one of ${Object.keys(SERIES_RANGES).join(', ')})`);
+    }
+
+    const seriesMap = new Map();
+    const validSymbols = (symbols || []).filter(s => s && typeof s === 'string');
+    const concurrency = 10;
+
+    for (let i = 0; i < validSymbols.length; i += concurrency) {
+      const batch = validSymbols.slice(i, i + concurrency);
+
+      await Promise.all(batch.map(async (symbol) => {
+        try {
+          const series = await this.getPriceSeries(symbol, range);
+          if (series.length > 0) {
+            seriesMap.set(symbol, series);
+          }
+        } catch (err) {
+          if (err.message?.includes('429') || err.message?.includes('Rate limited')) {
+            this.lastRateLimitTime = Date.now();
+          }
+        }
+      }));
+    }
+
+    return seriesMap;
+  }
+
   /**
    * Fetch price with exponential backoff retry logic
    * @private
@@ -223,6 +430,12 @@ class YahooFinanceService {
         throw createYahooError(`Unable to get price for symbol: ${symbol}`, symbol);
       }
 
+      // Keep the previous close with the same TTL as the price it belongs to
+      const previousClose = result.meta.regularMarketPreviousClose ?? result.meta.chartPreviousClose;
+      if (typeof previousClose === 'number' && !isNaN(previousClose)) {
+        this.cacheService.set(`yahoo:previousClose:${symbol}`, previousClose, this.cacheTTL);
+      }
+
       return price;
     } catch (error) {
       if (error.source === 'yahoo') {
@@ -246,6 +459,66 @@ class YahooFinanceService {
     }
   }
   
+  /**
+   * Fetch OHLCV candles from the Yahoo Finance chart API
+   * @private
+   * @param {string} symbol - Stock symbol
+   * @param {string} range - Chart range (e.g., '5d')
+   * @param {string} interval - Candle interval (e.g., '30m')
+   * @returns {Promise<Array>} Candles, oldest first
+   */
+  async _fetchHistoryFromYahoo(symbol, range, interval) {
+    try {
+      const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?interval=${interval}&range=${range}`;
+
+      const response = await this.httpClient.get(url);
+      const result = response.data?.chart?.result?.[0];
+
+      if (!result) {
+        throw createYahooError(`No data returned for symbol: ${symbol}`, symbol);
+      }
+
+      const timestamps = result.timestamp || [];
+      const quote = result.indicators?.quote?.[0] || {};
+      const adjClose = result.indicators?.adjclose?.[0]?.adjclose;
+
+      // Yahoo pads missing candles with nulls
+      return timestamps
+        .map((time, index) => {
+          const timestamp = new Date(time * 1000).toISOString();
+          return {
+            timestamp,
+            date: timestamp.substring(0, 10),
+            open: quote.open?.[index] ?? null,
+            high: quote.high?.[index] ?? null,
+            low: quote.low?.[index] ?? null,
+            close: quote.close?.[index] ?? null,
+            ...(adjClose && { adjClose: adjClose[index] ?? null }),
+            volume: quote.volume?.[index] ?? null
+          };
+        })
+        .filter(candle => candle.close !== null && !isNaN(candle.close));
+    } catch (error) {
+      if (error.source === 'yahoo') {
+        throw error;
+      }
+
+      if (error.response) {
+        if (error.response.status === 429) {
+          throw createYahooError(`Rate limited for ${symbol}`, symbol);
+        }
+        if (error.response.status === 404) {
+          throw createYahooError(`Symbol not found: ${symbol}`, symbol);
+        }
+      }
+
+      throw createYahooError(
+        `Failed to fetch price history for ${symbol}: ${error.message}`,
+        symbol
+      );
+    }
+  }
+
   /**
    * Fetch prices for multiple symbols using chart API (more reliable than quote API)
    * The v7/quote API now requires authentication, so we use v8/chart instead
@@ -319,12 +592,12 @@ class YahooFinanceService {
   }
 
   /**
-   * Clear all cached prices
+   * Clear all cached prices and previous closes
    */
   clearCache() {
     const keys = this.cacheService.keys();
     keys.forEach(key => {
-      if (key.startsWith('yahoo:price:')) {
+      if (key.startsWith('yahoo:price:') || key.startsWith('yahoo:previousClose:')) {
         this.cacheService.delete(key);
       }
     });
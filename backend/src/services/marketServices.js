@@ -0,0 +1,79 @@
+/**
+ * Market data service instances shared by the portfolio and market routers
+ *
+ * One instance of each service means price lists and security lists are read once,
+ * Yahoo's rate limit backoff applies to every request, and clearing the caches clears
+ * them for every route.
+ */
+
+import YahooFinanceService from './YahooFinanceService.js';
+import GoogleFinanceService from './GoogleFinanceService.js';
+import CacheService from './CacheService.js';
+import BhavcopyService from './BhavcopyService.js';
+import AmfiNavService from './AmfiNavService.js';
+import SecurityMasterService from './SecurityMasterService.js';
+
+export const cacheService = new CacheService();
+export const yahooFinanceService = new YahooFinanceService(cacheService, {
+  cacheTTL: parseInt(process.env.CACHE_TTL_CMP) || 120, // 120 seconds default - reduced API calls
+  maxRetries: 2,
+  initialRetryDelay: 1000
+});
+export const googleFinanceService = new GoogleFinanceService(cacheService, {
+  cacheTTL: parseInt(process.env.CACHE_TTL_FINANCIALS) || 3600
+});
+
+let bhavcopyService = null;
+let amfiNavService = null;
+let securityMaster = null;
+
+/**
+ * Returns the bhavcopy price service, created on first use so .env values are loaded
+ * @returns {BhavcopyService}
+ */
+export function getBhavcopyService() {
+  if (!bhavcopyService) {
+    bhavcopyService = new BhavcopyService({
+      directory: process.env.BHAVCOPY_DIR || './data/bhavcopy'
+    });
+  }
+  return bhavcopyService;
+}
+
+/**
+ * Returns the AMFI mutual fund NAV service, created on first use so .env values are loaded
+ * @returns {AmfiNavService}
+ */
+export function getAmfiNavService() {
+  if (!amfiNavService) {
+    amfiNavService = new AmfiNavService({
+      filePath: process.env.AMFI_NAV_FILE || './data/NAVAll.txt'
+    });
+  }
+  return amfiNavService;
+}
+
+/**
+ * Returns the security master, created on first use so .env values are loaded
+ * @returns {SecurityMasterService}
+ */
+export function getSecurityMaster() {
+  if (!securityMaster) {
+    securityMaster = new SecurityMasterService({
+      directory: process.env.SECURITY_MASTER_DIR || './data/securities'
+    });
+  }
+  return securityMaster;
+}
+
+/**
+ * Clears every market data cache and resets the Yahoo rate limit
+ */
+export function clearMarketCaches() {
+  yahooFinanceService.clearCache();
+  yahooFinanceService.lastRateLimitTime = 0;
+  googleFinanceService.clearCache();
+  bhavcopyService?.clearCache();
+  amfiNavService?.clearCache();
+  securityMaster?.clearCache();
+}
@@ -0,0 +1,115 @@
+/**
+ * AMFI NAV file parsing
+ *
+ * AMFI publishes the latest NAV of every mutual fund scheme in NAVAll.txt, a
+ * semicolon-separated file grouped under scheme category and fund house lines:
+ *
+ *   Scheme Code;ISIN Div Payout/ ISIN Growth;ISIN Div Reinvestment;Scheme Name;Net Asset Value;Date
+ *   Open Ended Schemes(Equity Scheme - Large Cap Fund)
+ *   Axis Mutual Fund
+ *   120465;INF846K01DP8;-;Axis Large Cap Fund - Direct Plan - Growth;58.4;17-Oct-2026
+ */
+
+import { toIsoDate } from './dateUtils.js';
+
+// Market data symbols of mutual funds are the AMFI scheme code with this suffix (120465.MF)
+const SCHEME_SYMBOL_SUFFIX = '.MF';
+
+const CATEGORY_LINE = /^(Open Ended|Close Ended|Interval Fund)[^(]*\((.+)\)\s*$/i;
+
+const toIsin = value => (/^[A-Z]{2}[A-Z0-9]{9}\d$/.test(String(value || '').trim()) ? String(value).trim() : null);
+
+/**
+ * Market data symbol of a mutual fund scheme
+ * @param {string|number} schemeCode - AMFI scheme code
+ * @returns {string} Symbol such as 120465.MF
+ */
+export function toSchemeSymbol(schemeCode) {
+  return `${String(schemeCode).trim()}${SCHEME_SYMBOL_SUFFIX}`;
+}
+
+/**
+ * Whether a market data symbol names a mutual fund scheme
+ * @param {string} symbol - Symbol such as 120465.MF or RELIANCE.NS
+ * @returns {boolean}
+ */
+export function isSchemeSymbol(symbol) {
+  return /^\d+\.MF$/i.test(String(symbol || '').trim());
+}
+
+/**
+ * AMFI scheme code of a mutual fund symbol
+ * @param {string} symbol - Symbol such as 120465.MF
+ * @returns {string|null} The scheme code, or null for other symbols
+ */
+export function getSchemeCode(symbol) {
+  return isSchemeSymbol(symbol) ? String(symbol).trim().slice(0, -SCHEME_SYMBOL_SUFFIX.length) : null;
+}
+
+/**
+ * Scheme code from a portfolio stock code written as MF:120465 or AMFI:120465
+ * @param {string|number} stockCode - Stock code cell
+ * @returns {string|null} The scheme code, or null for other codes
+ */
+export function parseSchemeCode(stockCode) {
+  const match = String(stockCode ?? '').trim().match(/^(?:MF|AMFI)\s*:\s*(\d+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Parses NAVAll.txt into scheme records
+ * Schemes without a NAV (N.A.) are skipped; category and fund house come from the
+ * heading lines above each scheme
+ * @param {string} text - File contents
+ * @returns {Array} Records of { schemeCode, schemeName, isin, isinReinvestment, nav, date, category, fundHouse }
+ * @throws {Error} If the text has no scheme rows
+ */
+export function parseNavAll(text) {
+  const schemes = [];
+  let category = null;
+  let fundHouse = null;
+  let sawHeader = false;
+
+  String(text || '').split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (!line.includes(';')) {
+      const heading = line.match(CATEGORY_LINE);
+      if (heading) {
+        category = heading[2].trim();
+        fundHouse = null;
+      } else {
+        fundHouse = line;
+      }
+      return;
+    }
+
+    const cells = line.split(';').map(cell => cell.trim());
+    if (/^scheme code$/i.test(cells[0])) {
+      sawHeader = true;
+      return;
+    }
+    if (!/^\d+$/.test(cells[0]) || cells.length < 6) return;
+
+    const nav = parseFloat(cells[4]);
+    if (isNaN(nav) || nav <= 0) return;
+
+    schemes.push({
+      schemeCode: cells[0],
+      schemeName: cells[3],
+      isin: toIsin(cells[1]),
+      isinReinvestment: toIsin(cells[2]),
+      nav,
+      date: toIsoDate(cells[5]),
+      category,
+      fundHouse
+    });
+  });
+
+  if (!sawHeader && schemes.length === 0) {
+    throw new Error('Invalid AMFI NAV file: no Scheme Code header or scheme rows');
+  }
+
+  return schemes;
+}
@@ -0,0 +1,101 @@
+/**
+ * Benchmark indices and the sector to index mapping
+ * Symbols are Yahoo Finance index symbols
+ */
+
+export const BENCHMARK_NAMES = {
+  '^NSEI': 'NIFTY 50',
+  '^BSESN': 'SENSEX',
+  '^NSEBANK': 'NIFTY Bank',
+  '^CNXIT': 'NIFTY IT',
+  '^CNXFMCG': 'NIFTY FMCG',
+  '^CNXENERGY': 'NIFTY Energy',
+  '^CNXINFRA': 'NIFTY Infrastructure',
+  '^CNXPHARMA': 'NIFTY Pharma',
+  '^CNXAUTO': 'NIFTY Auto',
+  '^CNXMETAL': 'NIFTY Metal',
+  '^CNXREALTY': 'NIFTY Realty',
+  '^CNXMEDIA': 'NIFTY Media'
+};
+
+export const DEFAULT_BENCHMARKS = ['^NSEI', '^BSESN', '^CNXIT'];
+
+// Index used for sectors that match no rule
+export const DEFAULT_SECTOR_BENCHMARK = '^NSEI';
+
+// Sector names are free text in the Excel file, so they are matched by keyword
+const SECTOR_INDEX_RULES = [
+  { pattern: /bank|financ|insur/i, symbol: '^NSEBANK' },
+  { pattern: /tech|\bit\b|software/i, symbol: '^CNXIT' },
+  { pattern: /consumer|fmcg|retail/i, symbol: '^CNXFMCG' },
+  { pattern: /power|energy|oil|gas/i, symbol: '^CNXENERGY' },
+  { pattern: /pipe|infra|industrial|cement|construction/i, symbol: '^CNXINFRA' },
+  { pattern: /pharma|health/i, symbol: '^CNXPHARMA' },
+  { pattern: /auto/i, symbol: '^CNXAUTO' },
+  { pattern: /metal|steel|mining/i, symbol: '^CNXMETAL' },
+  { pattern: /realty|real estate/i, symbol: '^CNXREALTY' },
+  { pattern: /media|entertainment/i, symbol: '^CNXMEDIA' }
+];
+
+/**
+ * Display name of a benchmark index
+ * @param {string} symbol - Yahoo Finance index symbol
+ * @returns {string} Known index name, else the symbol itself
+ */
+export function getBenchmarkName(symbol) {
+  return BENCHMARK_NAMES[symbol] || symbol;
+}
+
+/**
+ * Parses a comma-separated list of benchmark symbols (e.g. "^NSEI,^BSESN")
+ * @param {string} value - Configured list
+ * @returns {string[]} Upper-cased symbols, or the defaults when empty
+ */
+export function parseBenchmarkList(value) {
+  const symbols = (value || '')
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(Boolean);
+
+  return symbols.length > 0 ? Array.from(new Set(symbols)) : [...DEFAULT_BENCHMARKS];
+}
+
+/**
+ * Parses sector overrides given as "Sector:^SYMBOL" pairs separated by commas
+ * (e.g. "Pipe Sector:^CNXINFRA,Others:^NSEI")
+ * @param {string} value - Configured overrides
+ * @returns {Object} Map of sector name to index symbol
+ */
+export function parseSectorBenchmarks(value) {
+  const overrides = {};
+
+  (value || '').split(',').forEach(pair => {
+    const separator = pair.lastIndexOf(':');
+    if (separator <= 0) return;
+
+    const sector = pair.substring(0, separator).trim();
+    const symbol = pair.substring(separator + 1).trim().toUpperCase();
+    if (sector && symbol) {
+      overrides[sector] = symbol;
+    }
+  });
+
+  return overrides;
+}
+
+/**
+ * Resolves the index a sector is compared against
+ * Explicit overrides win, then keyword rules, then the broad market index
+ * @param {string} sector - Sector name
+ * @param {Object} overrides - Map of sector name to index symbol
+ * @returns {string} Yahoo Finance index symbol
+ */
+export function getSectorBenchmark(sector, overrides = {}) {
+  const name = (sector || '').trim();
+  if (overrides[name]) {
+    return overrides[name];
+  }
+
+  const rule = SECTOR_INDEX_RULES.find(({ pattern }) => pattern.test(name));
+  return rule ? rule.symbol : DEFAULT_SECTOR_BENCHMARK;
+}
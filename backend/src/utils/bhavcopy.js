@@ -0,0 +1,151 @@
+/**
+ * Bhavcopy parsing
+ *
+ * A bhavcopy is an exchange's end-of-day price file, one row per traded security.
+ * Supported layouts:
+ * - NSE CM bhavcopy (cmDDMONYYYYbhav.csv): SYMBOL, SERIES, OPEN, ..., CLOSE, PREVCLOSE, TIMESTAMP
+ * - BSE equity bhavcopy (EQDDMMYY.CSV, EQ_ISINCODE_DDMMYY.CSV): SC_CODE, SC_NAME, OPEN, ..., CLOSE, PREVCLOSE
+ * - UDiFF common bhavcopy used by both exchanges since July 2024
+ *   (BhavCopy_NSE_CM_0_0_0_YYYYMMDD_F_0000.csv): TradDt, Src, FinInstrmId, TckrSymb, SctySrs, ClsPric, ...
+ */
+
+import { toIsoDate } from './dateUtils.js';
+
+// NSE series that trade as equity shares (EQ, plus trade-for-trade and SME segments)
+const NSE_EQUITY_SERIES = ['EQ', 'BE', 'BZ', 'SM', 'ST'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const normalizeHeader = header => String(header ?? '').trim().toUpperCase();
+
+const toNumber = value => {
+  const parsed = parseFloat(String(value ?? '').replace(/,/g, ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Parses a bhavcopy date: 2024-07-08, 08-JUL-2024, 08-Jul-24 or 08/07/2024
+ * @param {string} value - Date cell
+ * @returns {string|null} Date as YYYY-MM-DD, or null if it cannot be parsed
+ */
+export function parseBhavcopyDate(value) {
+  const str = String(value ?? '').trim();
+  const shortYear = str.match(/^(\d{1,2})-([A-Za-z]{3})-(\d{2})$/);
+
+  if (shortYear && MONTHS.includes(shortYear[2].toLowerCase())) {
+    return toIsoDate(`${shortYear[1]}-${shortYear[2]}-20${shortYear[3]}`);
+  }
+  return str ? toIsoDate(str) : null;
+}
+
+/**
+ * Reads the exchange and trading date from a bhavcopy file name
+ * @param {string} fileName - File name, e.g. cm08JUL2024bhav.csv or EQ080724.CSV
+ * @returns {Object} exchange ('NSE', 'BSE' or null) and date (YYYY-MM-DD or null)
+ */
+export function parseBhavcopyFileName(fileName) {
+  const name = String(fileName || '');
+  const udiff = name.match(/BhavCopy_(NSE|BSE)_CM_.*?_(\d{4})(\d{2})(\d{2})_/i);
+  const nse = name.match(/^cm(\d{2})([A-Za-z]{3})(\d{4})bhav/i);
+  const bse = name.match(/^EQ(?:_ISINCODE_)?(\d{2})(\d{2})(\d{2})\b/i);
+
+  if (udiff) {
+    return { exchange: udiff[1].toUpperCase(), date: `${udiff[2]}-${udiff[3]}-${udiff[4]}` };
+  }
+  if (nse) {
+    return { exchange: 'NSE', date: parseBhavcopyDate(`${nse[1]}-${nse[2]}-${nse[3]}`) };
+  }
+  if (bse) {
+    return { exchange: 'BSE', date: `20${bse[3]}-${bse[2]}-${bse[1]}` };
+  }
+  return { exchange: null, date: null };
+}
+
+/**
+ * Parses bhavcopy rows into price records
+ * Only equity rows are kept: NSE rows outside the equity series and UDiFF rows for
+ * derivatives are skipped. Dates come from the rows, or the file name when rows carry none
+ * @param {Array} rows - Rows as arrays of cells, header row first
+ * @param {string} fileName - File name, used for the exchange and date when the rows lack them
+ * @returns {Object} exchange, date and records of { exchange, code, symbol, series, isin, date,
+ *   open, high, low, close, previousClose, volume }; code is the NSE symbol or BSE scrip code
+ * @throws {Error} If the header matches no bhavcopy layout
+ */
+export function parseBhavcopyRows(rows, fileName) {
+  const headers = (rows[0] || []).map(normalizeHeader);
+  const fromName = parseBhavcopyFileName(fileName);
+  const column = name => headers.indexOf(name);
+  const has = (...names) => names.every(name => headers.includes(name));
+
+  let layout;
+  if (has('TRADDT', 'TCKRSYMB', 'CLSPRIC')) {
+    layout = {
+      exchange: cells => String(cells[column('SRC')] ?? '').trim().toUpperCase() || fromName.exchange,
+      code: (cells, exchange) => String(cells[column(exchange === 'BSE' ? 'FININSTRMID' : 'TCKRSYMB')] ?? '').trim(),
+      symbol: cells => cells[column('TCKRSYMB')],
+      series: cells => cells[column('SCTYSRS')],
+      isin: cells => cells[column('ISIN')],
+      date: cells => cells[column('TRADDT')],
+      open: 'OPNPRIC', high: 'HGHPRIC', low: 'LWPRIC', close: 'CLSPRIC', previousClose: 'PRVSCLSGPRIC', volume: 'TTLTRADGVOL',
+      // Equity rows are 'STK'; futures and options carry an expiry
+      keep: cells => !headers.includes('FININSTRMTP') || String(cells[column('FININSTRMTP')] ?? '').trim().toUpperCase() === 'STK'
+    };
+  } else if (has('SYMBOL', 'SERIES', 'CLOSE')) {
+    layout = {
+      exchange: () => 'NSE',
+      code: cells => String(cells[column('SYMBOL')] ?? '').trim(),
+      symbol: cells => cells[column('SYMBOL')],
+      series: cells => cells[column('SERIES')],
+      isin: cells => cells[column('ISIN')],
+      date: cells => cells[column('TIMESTAMP')],
+      open: 'OPEN', high: 'HIGH', low: 'LOW', close: 'CLOSE', previousClose: 'PREVCLOSE', volume: 'TOTTRDQTY',
+      keep: () => true
+    };
+  } else if (has('SC_CODE', 'CLOSE')) {
+    layout = {
+      exchange: () => 'BSE',
+      code: cells => String(cells[column('SC_CODE')] ?? '').trim(),
+      symbol: cells => cells[column('SC_NAME')],
+      series: cells => cells[column('SC_GROUP')],
+      isin: cells => cells[column('ISIN_CODE')],
+      date: cells => cells[column('TRADING_DATE')],
+      open: 'OPEN', high: 'HIGH', low: 'LOW', close: 'CLOSE', previousClose: 'PREVCLOSE', volume: 'NO_OF_SHRS',
+      keep: () => true
+    };
+  } else {
+    throw new Error(`Invalid bhavcopy file: ${fileName} does not have NSE, BSE or UDiFF bhavcopy columns`);
+  }
+
+  const records = [];
+  rows.slice(1).forEach(cells => {
+    if (!cells || !layout.keep(cells)) return;
+
+    const exchange = layout.exchange(cells);
+    const code = layout.code(cells, exchange);
+    const series = String(layout.series(cells) ?? '').trim().toUpperCase();
+    const close = toNumber(cells[column(layout.close)]);
+    if (!code || close === null) return;
+    if (exchange === 'NSE' && series && !NSE_EQUITY_SERIES.includes(series)) return;
+
+    records.push({
+      exchange,
+      code,
+      symbol: String(layout.symbol(cells) ?? '').trim(),
+      series: series || null,
+      isin: String(layout.isin(cells) ?? '').trim() || null,
+      date: parseBhavcopyDate(layout.date(cells)) || fromName.date,
+      open: toNumber(cells[column(layout.open)]),
+      high: toNumber(cells[column(layout.high)]),
+      low: toNumber(cells[column(layout.low)]),
+      close,
+      previousClose: toNumber(cells[column(layout.previousClose)]),
+      volume: toNumber(cells[column(layout.volume)])
+    });
+  });
+
+  return {
+    exchange: records[0]?.exchange || fromName.exchange,
+    date: records[0]?.date || fromName.date,
+    records
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Corporate action adjustment utilities
+ * Restates open lots in post-action units so cost basis stays comparable with CMP
+ */
+
+/**
+ * Human-readable summary of a corporate action
+ * @param {Object} action - Corporate action
+ * @returns {string} e.g. "Split 5:1" or "Demerger 1:1 into NEWCO (20% of cost)"
+ */
+export function describeCorporateAction(action) {
+  const ratio = `${action.ratioNew}:${action.ratioHeld}`;
+
+  switch (action.type) {
+    case 'split':
+      return `Split ${ratio}`;
+    case 'bonus':
+      return `Bonus ${ratio}`;
+    case 'rights':
+      return `Rights ${ratio} at ₹${action.price}`;
+    case 'demerger':
+      return `Demerger ${ratio} into ${action.newNseCode || action.newBseCode} (${action.costAllocation}% of cost)`;
+    default:
+      return action.type;
+  }
+}
+
+const sumQuantity = lots => lots.reduce((sum, lot) => sum + lot.quantity, 0);
+const sumInvestment = lots => lots.reduce((sum, lot) => sum + lot.investment, 0);
+
+/**
+ * Applies a corporate action to the lots held on its ex-date
+ * - Split and bonus: quantity scales up and price down; total cost is unchanged,
+ *   each lot keeps its purchase date and shareFactor records shares held per share bought
+ * - Rights: the full entitlement is taken up as a new lot on the ex-date
+ * - Demerger: the cost allocation moves out of each lot into a lot of the new
+ *   company with the same purchase date
+ * @param {Array} lots - Open lots of { transactionId, date, quantity, price, investment }
+ * @param {Object} action - Corporate action
+ * @returns {Object} Adjusted lots, lots of a demerged company and the audit entry (null if nothing was held)
+ */
+export function applyCorporateActionToLots(lots, action) {
+  const quantityBefore = sumQuantity(lots);
+  if (quantityBefore <= 0) {
+    return { lots, spunOffLots: [], adjustment: null };
+  }
+
+  let adjusted = lots;
+  let spunOffLots = [];
+
+  if (action.type === 'split' || action.type === 'bonus') {
+    const factor = action.type === 'split'
+      ? action.ratioNew / action.ratioHeld
+      : (action.ratioHeld + action.ratioNew) / action.ratioHeld;
+
+    adjusted = lots.map(lot => ({
+      ...lot,
+      quantity: lot.quantity * factor,
+      price: lot.price / factor,
+      shareFactor: (lot.shareFactor || 1) * factor
+    }));
+  } else if (action.type === 'rights') {
+    // Entitlements are whole shares
+    const quantity = Math.floor(quantityBefore * action.ratioNew / action.ratioHeld);
+    if (quantity > 0) {
+      adjusted = [...lots, {
+        transactionId: action.id,
+        date: action.exDate,
+        quantity,
+        price: action.price,
+        investment: quantity * action.price
+      }];
+    }
+  } else if (action.type === 'demerger') {
+    const allocation = action.costAllocation / 100;
+    const ratio = action.ratioNew / action.ratioHeld;
+
+    adjusted = lots.map(lot => ({
+      ...lot,
+      price: lot.price * (1 - allocation),
+      investment: lot.investment * (1 - allocation)
+    }));
+    spunOffLots = lots.map(lot => ({
+      transactionId: `${action.id}_${lot.transactionId}`,
+      date: lot.date,
+      quantity: lot.quantity * ratio,
+      price: (lot.investment * allocation) / (lot.quantity * ratio),
+      investment: lot.investment * allocation
+    }));
+  }
+
+  return {
+    lots: adjusted,
+    spunOffLots,
+    adjustment: {
+      actionId: action.id,
+      type: action.type,
+      exDate: action.exDate,
+      description: describeCorporateAction(action),
+      quantityBefore,
+      quantityAfter: sumQuantity(adjusted),
+      investmentBefore: sumInvestment(lots),
+      investmentAfter: sumInvestment(adjusted)
+    }
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Date utilities for ledger and return calculations
+ * Dates are carried around as ISO calendar strings (YYYY-MM-DD) in UTC
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_OFFSET = 25569;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Converts a Date, Excel serial number or date string to an ISO date string
+ * @param {Date|number|string} value - The date value to normalize
+ * @returns {string|null} Date as YYYY-MM-DD, or null if it cannot be parsed
+ */
+export function toIsoDate(value) {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  let date;
+
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'number') {
+    date = new Date(Math.round((value - EXCEL_EPOCH_OFFSET) * MS_PER_DAY));
+  } else {
+    const str = String(value).trim();
+
+    // DD-MM-YYYY or DD/MM/YYYY (broker and Indian spreadsheet convention)
+    const dmy = str.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+    // DD-Mon-YYYY (e.g. 15-Jan-2024)
+    const dMonY = str.match(/^(\d{1,2})[-/ ]([A-Za-z]{3})[a-z]*[-/ ,]+(\d{4})$/);
+    if (dmy) {
+      date = new Date(Date.UTC(Number(dmy[3]), Number(dmy[2]) - 1, Number(dmy[1])));
+    } else if (dMonY && MONTHS.includes(dMonY[2].toLowerCase())) {
+      date = new Date(Date.UTC(Number(dMonY[3]), MONTHS.indexOf(dMonY[2].toLowerCase()), Number(dMonY[1])));
+    } else if (/^\d{4}-\d{2}-\d{2}/.test(str)) {
+      date = new Date(`${str.substring(0, 10)}T00:00:00Z`);
+    } else {
+      date = new Date(str);
+    }
+  }
+
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Parses an ISO date string into a UTC Date
+ * @param {string} isoDate - Date as YYYY-MM-DD
+ * @returns {Date} The UTC midnight Date
+ */
+export function parseIsoDate(isoDate) {
+  return new Date(`${isoDate}T00:00:00Z`);
+}
+
+/**
+ * Number of whole days between two ISO dates
+ * @param {string} from - Start date (YYYY-MM-DD)
+ * @param {string} to - End date (YYYY-MM-DD)
+ * @returns {number} Days from start to end (negative if end is earlier)
+ */
+export function daysBetween(from, to) {
+  return Math.round((parseIsoDate(to) - parseIsoDate(from)) / MS_PER_DAY);
+}
+
+/**
+ * Today's date as an ISO date string
+ * @returns {string} Today as YYYY-MM-DD
+ */
+export function todayIsoDate() {
+  return new Date().toISOString().substring(0, 10);
+}
+
+/**
+ * Adds calendar months to an ISO date, clamping to the end of shorter months
+ * @param {string} isoDate - Date as YYYY-MM-DD
+ * @param {number} months - Number of months to add
+ * @returns {string} Resulting date as YYYY-MM-DD
+ */
+export function addMonths(isoDate, months) {
+  const date = parseIsoDate(isoDate);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, daysInMonth));
+  return date.toISOString().substring(0, 10);
+}
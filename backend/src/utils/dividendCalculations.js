@@ -0,0 +1,48 @@
+/**
+ * Dividend income utilities
+ * Amounts are gross (before TDS), matching how yield on cost is usually quoted
+ */
+
+import { addMonths, todayIsoDate } from './dateUtils.js';
+
+/**
+ * Totals the dividends paid on a position and its trailing 12-month yield on cost
+ * @param {Array} dividends - Dividends of one holding
+ * @param {number} investment - Cost of the position
+ * @param {string} asOf - Dividends paid after this date are not counted (defaults to today)
+ * @returns {Object} dividendsReceived and dividendYieldOnCost (%)
+ */
+export function summarizeDividends(dividends, investment, asOf = todayIsoDate()) {
+  const yearAgo = addMonths(asOf, -12);
+  const paid = dividends.filter(dividend => dividend.paymentDate <= asOf);
+  const trailing = paid
+    .filter(dividend => dividend.paymentDate > yearAgo)
+    .reduce((sum, dividend) => sum + dividend.amount, 0);
+
+  return {
+    dividendsReceived: paid.reduce((sum, dividend) => sum + dividend.amount, 0),
+    dividendYieldOnCost: investment > 0 ? (trailing / investment) * 100 : 0
+  };
+}
+
+/**
+ * Groups dividends by payment month for an income chart or calendar
+ * @param {Array} dividends - Dividends sorted by payment date
+ * @returns {Array} Months of { month (YYYY-MM), amount, netAmount, dividends }, oldest first
+ */
+export function groupDividendsByMonth(dividends) {
+  const months = new Map();
+
+  dividends.forEach(dividend => {
+    const month = dividend.paymentDate.substring(0, 7);
+    if (!months.has(month)) {
+      months.set(month, { month, amount: 0, netAmount: 0, dividends: [] });
+    }
+    const entry = months.get(month);
+    entry.amount += dividend.amount;
+    entry.netAmount += dividend.netAmount;
+    entry.dividends.push(dividend);
+  });
+
+  return Array.from(months.values()).sort((a, b) => (a.month < b.month ? -1 : 1));
+}
@@ -0,0 +1,89 @@
+/**
+ * Holding diff utilities
+ * Compares two sets of holdings by ISIN or stock code, e.g. the current portfolio and an upload
+ */
+
+const FIELDS = ['quantity', 'purchasePrice', 'sector'];
+
+const holdingKey = holding => String(holding.isin || holding.nseCode || holding.bseCode || (holding.schemeCode && `MF:${holding.schemeCode}`) || holding.particulars).toUpperCase();
+
+/**
+ * Combines holdings of the same stock (listed under several sectors, say) into one
+ * position with the quantity-weighted purchase price
+ * @param {Array} holdings - Holdings
+ * @returns {Map} Key to { key, particulars, nseCode, bseCode, quantity, purchasePrice, sector }
+ */
+function combineByKey(holdings) {
+  const positions = new Map();
+
+  holdings.forEach(holding => {
+    const key = holdingKey(holding);
+    const existing = positions.get(key);
+    if (!existing) {
+      positions.set(key, {
+        key,
+        particulars: holding.particulars,
+        nseCode: holding.nseCode,
+        bseCode: holding.bseCode,
+        quantity: holding.quantity,
+        purchasePrice: holding.purchasePrice,
+        sector: holding.sector
+      });
+      return;
+    }
+
+    const quantity = existing.quantity + holding.quantity;
+    existing.purchasePrice = quantity > 0
+      ? (existing.purchasePrice * existing.quantity + holding.purchasePrice * holding.quantity) / quantity
+      : existing.purchasePrice;
+    existing.quantity = quantity;
+  });
+
+  return positions;
+}
+
+/**
+ * Diffs holdings by ISIN (NSE code, BSE code or name when there is none)
+ * @param {Array} current - Holdings before the change
+ * @param {Array} incoming - Holdings after the change
+ * @returns {Object} added and removed positions, changed positions with before and after
+ *   values of the fields that differ, and the number unchanged
+ */
+export function diffHoldings(current, incoming) {
+  const before = combineByKey(current);
+  const after = combineByKey(incoming);
+  const added = [];
+  const removed = [];
+  const changed = [];
+  let unchanged = 0;
+
+  after.forEach((position, key) => {
+    const previous = before.get(key);
+    if (!previous) {
+      added.push(position);
+      return;
+    }
+
+    const changes = {};
+    FIELDS.forEach(field => {
+      const differs = typeof position[field] === 'number'
+        ? Math.abs(position[field] - previous[field]) > 1e-6
+        : position[field] !== previous[field];
+      if (differs) {
+        changes[field] = { before: previous[field], after: position[field] };
+      }
+    });
+
+    if (Object.keys(changes).length > 0) {
+      changed.push({ ...position, changes });
+    } else {
+      unchanged++;
+    }
+  });
+
+  before.forEach((position, key) => {
+    if (!after.has(key)) removed.push(position);
+  });
+
+  return { added, removed, changed, unchanged };
+}
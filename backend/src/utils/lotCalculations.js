@@ -0,0 +1,136 @@
+/**
+ * FIFO lot tracking utilities
+ * Replays a symbol's ledger into open lots and realized sale matches
+ */
+
+import { applyCorporateActionToLots } from './corporateActions.js';
+import { todayIsoDate } from './dateUtils.js';
+
+// Quantities below this are treated as fully consumed (floating point residue)
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * Replays chronologically sorted transactions for one instrument using FIFO matching
+ * Buy charges are included in lot cost; sell charges reduce sale proceeds
+ * Corporate actions adjust the lots held on their ex-date, before that day's trades
+ * @param {Array} transactions - Transactions for a single instrument, sorted by date
+ * @param {Array} actions - Corporate actions for the instrument, sorted by ex-date
+ * @param {string} asOf - Actions with a later ex-date are not applied (defaults to today)
+ * @returns {Object} Open lots, realized matches, totals, oversold sells, corporate action
+ * adjustments and lots of demerged companies
+ */
+export function buildLots(transactions, actions = [], asOf = todayIsoDate()) {
+  let openLots = [];
+  const realized = [];
+  const oversold = [];
+  const adjustments = [];
+  const spunOff = [];
+
+  const pendingActions = actions.filter(action => action.exDate <= asOf);
+  const applyActionsUntil = (date) => {
+    while (pendingActions.length > 0 && (date === null || pendingActions[0].exDate <= date)) {
+      const action = pendingActions.shift();
+      const result = applyCorporateActionToLots(openLots, action);
+      openLots = result.lots;
+      if (result.adjustment) adjustments.push(result.adjustment);
+      if (result.spunOffLots.length > 0) spunOff.push({ action, lots: result.spunOffLots });
+    }
+  };
+
+  transactions.forEach(transaction => {
+    applyActionsUntil(transaction.date);
+
+    if (transaction.type === 'buy') {
+      openLots.push({
+        transactionId: transaction.id,
+        date: transaction.date,
+        quantity: transaction.quantity,
+        price: transaction.price,
+        investment: transaction.netAmount
+      });
+      return;
+    }
+
+    const available = openLots.reduce((sum, lot) => sum + lot.quantity, 0);
+    let remaining = transaction.quantity;
+
+    if (remaining > available + QUANTITY_EPSILON) {
+      oversold.push({
+        date: transaction.date,
+        quantity: transaction.quantity,
+        available
+      });
+      remaining = available;
+    }
+
+    const proceedsPerUnit = transaction.quantity !== 0
+      ? transaction.netAmount / transaction.quantity
+      : 0;
+
+    while (remaining > QUANTITY_EPSILON && openLots.length > 0) {
+      const lot = openLots[0];
+      const matched = Math.min(remaining, lot.quantity);
+      const costBasis = lot.investment * (matched / lot.quantity);
+      const proceeds = proceedsPerUnit * matched;
+
+      realized.push({
+        buyDate: lot.date,
+        sellDate: transaction.date,
+        quantity: matched,
+        buyPrice: lot.price,
+        sellPrice: transaction.price,
+        costBasis,
+        proceeds,
+        gain: proceeds - costBasis,
+        shareFactor: lot.shareFactor || 1 // Shares sold per share bought, after splits and bonuses
+      });
+
+      lot.quantity -= matched;
+      lot.investment -= costBasis;
+      remaining -= matched;
+
+      if (lot.quantity <= QUANTITY_EPSILON) {
+        openLots.shift();
+      }
+    }
+  });
+
+  applyActionsUntil(null);
+
+  const quantity = openLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const investment = openLots.reduce((sum, lot) => sum + lot.investment, 0);
+  const realizedGain = realized.reduce((sum, match) => sum + match.gain, 0);
+
+  return {
+    openLots,
+    realized,
+    quantity,
+    investment,
+    realizedGain,
+    oversold,
+    adjustments,
+    spunOff
+  };
+}
+
+/**
+ * Values open lots at the current market price
+ * @param {Array} lots - Open lots
+ * @param {number} cmp - Current market price
+ * @returns {Array} Lots with presentValue, gainLoss and gainLossPercentage
+ */
+export function valueLots(lots, cmp) {
+  return lots.map(lot => {
+    const presentValue = cmp * lot.quantity;
+    const gainLoss = presentValue - lot.investment;
+
+    return {
+      ...lot,
+      presentValue,
+      gainLoss,
+      gainLossPercentage: lot.investment !== 0
+        ? (gainLoss / lot.investment) * 100
+        : 0
+    };
+  });
+}
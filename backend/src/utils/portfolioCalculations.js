@@ -2,6 +2,8 @@
  * Portfolio calculation utilities
  */
 
+import { calculateReturns } from './returnCalculations.js';
+
 /**
  * Calculates portfolio percentages for all holdings
  * @param {Array} holdings - Array of holdings
@@ -32,8 +34,49 @@ export function validatePortfolioPercentages(holdings) {
   return Math.abs(sum - 100) <= tolerance || (holdings.length === 0 && sum === 0);
 }
 
+/**
+ * Rolls up today's change across holdings
+ * The percentage is relative to the previous-close value of the holdings that have one
+ * @param {Array} holdings - Array of holdings with dayChange and previousClose
+ * @returns {Object} dayChange (amount) and dayChangePercent
+ */
+export function calculateDayChangeTotals(holdings) {
+  const dayChange = holdings.reduce((sum, h) => sum + (h.dayChange || 0), 0);
+  const previousValue = holdings.reduce(
+    (sum, h) => sum + (h.previousClose ? h.previousClose * h.quantity : 0),
+    0
+  );
+
+  return {
+    dayChange,
+    dayChangePercent: previousValue !== 0 ? (dayChange / previousValue) * 100 : 0
+  };
+}
+
+/**
+ * Rolls up dividends across holdings
+ * Yield on cost is the investment-weighted average of the holdings' yields
+ * @param {Array} holdings - Array of holdings with dividendsReceived and dividendYieldOnCost
+ * @returns {Object} dividendsReceived (amount) and dividendYieldOnCost (%)
+ */
+export function calculateDividendTotals(holdings) {
+  const dividendsReceived = holdings.reduce((sum, h) => sum + (h.dividendsReceived || 0), 0);
+  const investment = holdings.reduce((sum, h) => sum + (h.investment || 0), 0);
+  const trailingDividends = holdings.reduce(
+    (sum, h) => sum + ((h.dividendYieldOnCost || 0) * (h.investment || 0)) / 100,
+    0
+  );
+
+  return {
+    dividendsReceived,
+    dividendYieldOnCost: investment !== 0 ? (trailingDividends / investment) * 100 : 0
+  };
+}
+
 /**
  * Calculates total portfolio value
+ * totalGainLoss is the unrealized gain on open positions; realized gain from
+ * FIFO-matched sells and dividends are reported separately and added up in totalReturn
  * @param {Array} holdings - Array of holdings
  * @returns {Object} Portfolio totals
  */
@@ -44,12 +87,25 @@ export function calculatePortfolioTotals(holdings) {
   const totalGainLossPercentage = totalInvestment !== 0 
     ? (totalGainLoss / totalInvestment) * 100 
     : 0;
+  const totalRealizedGain = holdings.reduce((sum, h) => sum + (h.realizedGain || 0), 0);
+  const { dayChange, dayChangePercent } = calculateDayChangeTotals(holdings);
+  const { dividendsReceived, dividendYieldOnCost } = calculateDividendTotals(holdings);
+  const totalReturn = totalGainLoss + totalRealizedGain + dividendsReceived;
 
   return {
     totalInvestment,
     totalPresentValue,
     totalGainLoss,
     totalGainLossPercentage,
+    totalUnrealizedGain: totalGainLoss,
+    totalRealizedGain,
+    totalDayChange: dayChange,
+    totalDayChangePercent: dayChangePercent,
+    totalDividends: dividendsReceived,
+    dividendYieldOnCost,
+    totalReturn,
+    totalReturnPercentage: totalInvestment !== 0 ? (totalReturn / totalInvestment) * 100 : 0,
+    ...calculateReturns(holdings),
     holdingsCount: holdings.length
   };
 }
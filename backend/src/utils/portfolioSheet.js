@@ -0,0 +1,272 @@
+/**
+ * Portfolio sheet parsing
+ *
+ * A portfolio sheet has a header row (possibly below a title row) followed by stock
+ * rows, optionally grouped under sector header rows ("Financial Sector"). How headers,
+ * sector rows and numbers are read comes from a mapping profile (see MappingProfile).
+ * A column mapping ties each field to a column index so that the mapping detected
+ * from the header names can be shown to the user and overridden.
+ * An "As of" cell above the header row records the date the quantities are current as of.
+ */
+
+import { toIsoDate } from './dateUtils.js';
+
+// Fields read from a portfolio sheet
+export const PORTFOLIO_COLUMNS = [
+  { field: 'number', label: 'No', required: false },
+  { field: 'particulars', label: 'Particulars', required: true },
+  { field: 'purchasePrice', label: 'Purchase Price', required: true },
+  { field: 'quantity', label: 'Qty', required: true },
+  { field: 'stockCode', label: 'NSE/BSE', required: true },
+  { field: 'pe', label: 'P/E', required: false },
+  { field: 'earnings', label: 'Latest Earnings', required: false },
+  { field: 'sector', label: 'Sector', required: false },
+  { field: 'instrumentType', label: 'Type', required: false }
+];
+
+// Indian number format ("1,23,456.50", "₹1,250"), also used for the ledger and data files
+export const DEFAULT_NUMBER_FORMAT = {
+  decimalSeparator: '.',
+  thousandsSeparator: ',',
+  currencySymbols: ['₹', 'Rs.', 'INR']
+};
+
+// Title rows may sit above the header row; it is searched for
+const HEADER_SEARCH_ROWS = 10;
+
+// "As of 30/06/2024" in one cell, or "As of" / "Quantities as of" with the date in the next cell
+const AS_OF_LABEL = /^(?:quantities\s+)?as\s+of\b[\s:]*(.*)$/i;
+
+const isBlank = value => value === undefined || value === null || String(value).trim() === '';
+const escapeRegExp = text => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Parses a number cell written in the profile's number format
+ * Non-numeric cells are kept as written so validation reports them
+ * @param {*} value - Cell value
+ * @param {Object} numberFormat - decimalSeparator, thousandsSeparator and currencySymbols (defaults to DEFAULT_NUMBER_FORMAT)
+ * @returns {number|string|null} The number, the original value if it isn't one, or null when blank
+ */
+export function parseSheetNumber(value, numberFormat = DEFAULT_NUMBER_FORMAT) {
+  if (isBlank(value)) return null;
+  if (typeof value === 'number') return value;
+
+  let text = String(value).trim();
+  numberFormat.currencySymbols.forEach(symbol => {
+    text = text.split(symbol).join('');
+  });
+  text = text.replace(/\s/g, '');
+  if (numberFormat.thousandsSeparator) {
+    text = text.split(numberFormat.thousandsSeparator).join('');
+  }
+  text = text.replace(numberFormat.decimalSeparator, '.');
+
+  const number = Number(text);
+  return text !== '' && Number.isFinite(number) ? number : value;
+}
+
+/**
+ * Detects the column of each field from header names using the profile's aliases
+ * A header matches a field when it contains one of the aliases (case-insensitive)
+ * @param {Array} headers - Header row cells
+ * @param {Object} profile - Mapping profile
+ * @returns {Object} Field to column index, or null when no header matches
+ */
+export function detectColumnMapping(headers, profile) {
+  const mapping = {};
+
+  PORTFOLIO_COLUMNS.forEach(({ field }) => {
+    const aliases = profile.columns[field] || [];
+    const index = headers.findIndex(header =>
+      typeof header === 'string' &&
+      aliases.some(alias => header.toLowerCase().includes(alias.toLowerCase()))
+    );
+    mapping[field] = index === -1 ? null : index;
+  });
+
+  return mapping;
+}
+
+/**
+ * Finds the header row: the first row in which every required field is detected
+ * Falls back to the first non-empty row so a mapping can still be supplied by hand
+ * @param {Array} rows - Rows as arrays of cells (xlsx header: 1 layout)
+ * @param {Object} profile - Mapping profile
+ * @returns {number} Row index, or -1 if the sheet is empty
+ */
+export function findHeaderRow(rows, profile) {
+  const required = PORTFOLIO_COLUMNS.filter(column => column.required);
+
+  for (let i = 0; i < Math.min(rows.length, HEADER_SEARCH_ROWS); i++) {
+    const mapping = detectColumnMapping(rows[i] || [], profile);
+    if (required.every(({ field }) => mapping[field] !== null)) {
+      return i;
+    }
+  }
+
+  return rows.findIndex(cells => cells && cells.some(cell => !isBlank(cell)));
+}
+
+/**
+ * Finds the date the sheet's quantities are current as of in the rows above the header
+ * @param {Array<Array>} rows - Sheet rows
+ * @param {number} headerIndex - Index of the header row
+ * @returns {string|null} The date (YYYY-MM-DD), or null when the sheet has no "As of" cell
+ */
+export function findAsOfDate(rows, headerIndex) {
+  for (let i = 0; i < headerIndex; i++) {
+    const cells = rows[i] || [];
+    for (let j = 0; j < cells.length; j++) {
+      const label = typeof cells[j] === 'string' ? cells[j].trim().match(AS_OF_LABEL) : null;
+      if (!label) continue;
+
+      const value = label[1] || cells.slice(j + 1).find(cell => !isBlank(cell));
+      const date = toIsoDate(value);
+      if (date) return date;
+    }
+  }
+  return null;
+}
+
+/**
+ * Rates how well a profile fits a sheet, for picking a profile automatically
+ * @param {Array} rows - Rows of the profile's sheet
+ * @param {Object} profile - Mapping profile
+ * @returns {Object} matched (fields detected), exact (headers equal to an alias) and
+ *   whether every required field was detected
+ */
+export function scoreMappingProfile(rows, profile) {
+  const headerIndex = findHeaderRow(rows, profile);
+  const headers = headerIndex === -1 ? [] : rows[headerIndex];
+  const mapping = detectColumnMapping(headers, profile);
+  const mapped = PORTFOLIO_COLUMNS.filter(({ field }) => mapping[field] !== null);
+
+  return {
+    complete: getMissingColumns(mapping).length === 0,
+    matched: mapped.length,
+    exact: mapped.filter(({ field }) => {
+      const header = String(headers[mapping[field]]).trim().toLowerCase();
+      return profile.columns[field].some(alias => alias.toLowerCase() === header);
+    }).length
+  };
+}
+
+/**
+ * Checks that a column mapping names known fields and columns within the header row
+ * @param {Object} mapping - Field to column index (null for unmapped)
+ * @param {number} columnCount - Number of columns in the header row
+ * @throws {Error} If a field is unknown or a column is out of range
+ */
+export function validateColumnMapping(mapping, columnCount) {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    throw new Error('Invalid column mapping: must be an object of field to column index');
+  }
+
+  const fields = PORTFOLIO_COLUMNS.map(column => column.field);
+  const errors = [];
+
+  Object.entries(mapping).forEach(([field, index]) => {
+    if (!fields.includes(field)) {
+      errors.push(`unknown field ${field}`);
+    } else if (index !== null && (!Number.isInteger(index) || index < 0 || index >= columnCount)) {
+      errors.push(`${field} column ${index} is out of range`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid column mapping: ${errors.join(', ')}`);
+  }
+}
+
+/**
+ * Lists the required fields a mapping leaves unmapped
+ * @param {Object} mapping - Field to column index
+ * @returns {Array} Labels of the unmapped required fields
+ */
+export function getMissingColumns(mapping) {
+  return PORTFOLIO_COLUMNS
+    .filter(column => column.required && (mapping[column.field] === null || mapping[column.field] === undefined))
+    .map(column => column.label);
+}
+
+/**
+ * Sector name from a sector header row, without the profile's strip words
+ * ("Financial Sector" → "Financial")
+ * @private
+ */
+function toSectorName(text, strip) {
+  return strip
+    .reduce((name, word) => name.replace(new RegExp(`\\s*${escapeRegExp(word)}\\s*`, 'i'), ' '), text)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Reads the stock rows below the header row in the ExcelRow shape
+ * Sector header rows, recognized by the profile's sectorRows rule, set the sector of
+ * the rows below them; a mapped Sector column takes precedence. Rows with none of
+ * price, quantity and code (notes, blank lines) are skipped
+ * @param {Array} rows - Rows as arrays of cells (xlsx header: 1 layout)
+ * @param {number} headerIndex - Index of the header row
+ * @param {Object} mapping - Field to column index
+ * @param {Object} profile - Mapping profile
+ * @returns {Array} Rows of { row (1-based sheet row), values (ExcelRow fields, with Type when the row has one),
+ *   peRatio, latestEarnings }
+ */
+export function readPortfolioRows(rows, headerIndex, mapping, profile) {
+  const cell = (cells, field) => (mapping[field] === null || mapping[field] === undefined
+    ? undefined
+    : cells[mapping[field]]);
+  const { sectorRows, numberFormat } = profile;
+  const entries = [];
+  let currentSector = sectorRows.defaultSector;
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const cells = rows[i] || [];
+
+    // Particulars is required for both sector and stock rows
+    const particulars = cell(cells, 'particulars');
+    if (!particulars || typeof particulars !== 'string') continue;
+
+    const hasStockNumber = typeof cell(cells, 'number') === 'number';
+    const stockCode = cell(cells, 'stockCode');
+    const hasStockCode = !isBlank(stockCode);
+    const purchasePrice = cell(cells, 'purchasePrice');
+    const quantity = cell(cells, 'quantity');
+
+    // Sector rows have only the name
+    const isNameOnly = !hasStockNumber && !hasStockCode;
+    const isSectorRow = sectorRows.mode === 'keywords'
+      ? isNameOnly && sectorRows.keywords.some(keyword => particulars.includes(keyword))
+      : sectorRows.mode === 'nameOnly' && isNameOnly && isBlank(purchasePrice) && isBlank(quantity);
+    if (isSectorRow) {
+      currentSector = toSectorName(particulars, sectorRows.strip);
+      continue;
+    }
+
+    if (isBlank(purchasePrice) && isBlank(quantity) && !hasStockCode) continue;
+
+    const sector = cell(cells, 'sector');
+    const type = cell(cells, 'instrumentType');
+
+    // P/E can be a number, a string like "#N/A" or empty
+    const pe = parseSheetNumber(cell(cells, 'pe'), numberFormat);
+    const earnings = cell(cells, 'earnings');
+
+    entries.push({
+      row: i + 1,
+      values: {
+        Particulars: particulars.trim(),
+        'Purchase Price': parseSheetNumber(purchasePrice, numberFormat),
+        Qty: parseSheetNumber(quantity, numberFormat),
+        'NSE/BSE': hasStockCode ? String(stockCode).trim() : null,
+        Sector: isBlank(sector) ? currentSector : String(sector).trim(),
+        ...(!isBlank(type) && { Type: String(type).trim() })
+      },
+      peRatio: typeof pe === 'number' && pe > 0 ? pe : null,
+      latestEarnings: isBlank(earnings) || earnings === '#N/A' ? null : String(earnings).trim()
+    });
+  }
+
+  return entries;
+}
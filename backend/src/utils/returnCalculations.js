@@ -0,0 +1,216 @@
+/**
+ * Return calculation utilities
+ * Money-weighted (XIRR) and time-weighted returns from dated ledger cash flows
+ */
+
+import { daysBetween, todayIsoDate } from './dateUtils.js';
+
+const DAYS_PER_YEAR = 365;
+const XIRR_TOLERANCE = 1e-7;
+const XIRR_MAX_ITERATIONS = 100;
+
+/**
+ * Net present value of dated cash flows at an annual rate
+ * @param {Array} cashFlows - Cash flows with date (YYYY-MM-DD) and amount
+ * @param {number} rate - Annual rate as a decimal
+ * @returns {number} Net present value as of the first cash flow
+ */
+function presentValueAt(cashFlows, rate) {
+  const start = cashFlows[0].date;
+  return cashFlows.reduce(
+    (sum, flow) => sum + flow.amount / Math.pow(1 + rate, daysBetween(start, flow.date) / DAYS_PER_YEAR),
+    0
+  );
+}
+
+/**
+ * Calculates the annualized internal rate of return of irregular cash flows
+ * Investments are negative amounts, withdrawals and terminal value positive
+ * Uses Newton's method and falls back to bisection when it does not converge
+ * @param {Array} cashFlows - Cash flows with date (YYYY-MM-DD) and amount
+ * @returns {number|null} Annual rate as a decimal, or null if undefined
+ */
+export function calculateXirr(cashFlows) {
+  const flows = cashFlows
+    .filter(flow => flow.amount !== 0)
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+
+  const hasOutflow = flows.some(flow => flow.amount < 0);
+  const hasInflow = flows.some(flow => flow.amount > 0);
+  if (!hasOutflow || !hasInflow || daysBetween(flows[0].date, flows[flows.length - 1].date) <= 0) {
+    return null;
+  }
+
+  // Newton's method
+  let rate = 0.1;
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = presentValueAt(flows, rate);
+    const delta = 1e-6;
+    const derivative = (presentValueAt(flows, rate + delta) - value) / delta;
+
+    if (!isFinite(derivative) || derivative === 0) break;
+
+    const next = rate - value / derivative;
+    if (!isFinite(next) || next <= -1) break;
+
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) {
+      return next;
+    }
+    rate = next;
+  }
+
+  // Bisection fallback; widen the upper bound until the sign changes
+  let low = -0.9999;
+  let high = 1;
+  while (presentValueAt(flows, low) * presentValueAt(flows, high) > 0) {
+    high *= 2;
+    if (high > 1e6) return null;
+  }
+
+  for (let i = 0; i < 1000; i++) {
+    const mid = (low + high) / 2;
+    const value = presentValueAt(flows, mid);
+    if (Math.abs(value) < XIRR_TOLERANCE || (high - low) / 2 < XIRR_TOLERANCE) {
+      return mid;
+    }
+    if (value * presentValueAt(flows, low) > 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Reconstructs dated cash flows for a holding from its open and realized lots
+ * Buys (including charges) are negative, sells (net of charges) and dividends positive
+ * @param {Object} holding - Holding with lots, realizedLots and optional dividends
+ * @returns {Array} Cash flows with date and amount
+ */
+export function buildCashFlows(holding) {
+  const flows = [];
+
+  (holding.lots || []).forEach(lot => {
+    flows.push({ date: lot.date, amount: -lot.investment });
+  });
+
+  (holding.realizedLots || []).forEach(match => {
+    flows.push({ date: match.buyDate, amount: -match.costBasis });
+    flows.push({ date: match.sellDate, amount: match.proceeds });
+  });
+
+  (holding.dividends || []).forEach(dividend => {
+    flows.push({ date: dividend.paymentDate, amount: dividend.amount });
+  });
+
+  return flows;
+}
+
+/**
+ * Reconstructs dated trades for a holding from its open and realized lots
+ * @param {Object} holding - Holding with lots and realizedLots
+ * @returns {Array} Trades with date, signed quantity and price
+ */
+export function buildTrades(holding) {
+  const trades = [];
+
+  (holding.lots || []).forEach(lot => {
+    trades.push({ date: lot.date, quantity: lot.quantity, price: lot.price });
+  });
+
+  (holding.realizedLots || []).forEach(match => {
+    trades.push({ date: match.buyDate, quantity: match.quantity, price: match.buyPrice });
+    trades.push({ date: match.sellDate, quantity: -match.quantity, price: match.sellPrice });
+  });
+
+  // Buys before sells on the same day so a position is never valued short
+  return trades.sort((a, b) => {
+    if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+    return b.quantity - a.quantity;
+  });
+}
+
+/**
+ * Calculates the time-weighted return of a set of holdings
+ * A sub-period ends at every trade; instruments not traded at that point are
+ * valued at their last traded price, and all positions at CMP at the end
+ * Charges are excluded so the figure reflects price performance only
+ * @param {Array} holdings - Holdings with lots, realizedLots and cmp
+ * @returns {number|null} Cumulative return as a decimal, or null if undefined
+ */
+export function calculateTimeWeightedReturn(holdings) {
+  const trades = holdings
+    .flatMap((holding, index) => buildTrades(holding).map(trade => ({ ...trade, key: index })))
+    .sort((a, b) => {
+      if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+      return b.quantity - a.quantity;
+    });
+
+  if (trades.length === 0) {
+    return null;
+  }
+
+  const quantities = new Map();
+  const prices = new Map();
+  const portfolioValue = () => Array.from(quantities.entries())
+    .reduce((sum, [key, quantity]) => sum + quantity * prices.get(key), 0);
+
+  let growth = 1;
+  let valueAfterLastTrade = 0;
+
+  trades.forEach(trade => {
+    prices.set(trade.key, trade.price);
+    const valueBeforeTrade = portfolioValue();
+
+    if (valueAfterLastTrade > 0) {
+      growth *= valueBeforeTrade / valueAfterLastTrade;
+    }
+
+    quantities.set(trade.key, (quantities.get(trade.key) || 0) + trade.quantity);
+    valueAfterLastTrade = portfolioValue();
+  });
+
+  holdings.forEach((holding, index) => {
+    if (prices.has(index)) prices.set(index, holding.cmp);
+  });
+
+  if (valueAfterLastTrade > 0) {
+    growth *= portfolioValue() / valueAfterLastTrade;
+  }
+
+  return growth - 1;
+}
+
+/**
+ * Calculates XIRR and time-weighted return for one or more holdings
+ * Holdings without a CMP or without dated lots are left out
+ * @param {Array} holdings - Holdings with lots, realizedLots, cmp and presentValue
+ * @param {string} asOf - Valuation date for open positions (defaults to today)
+ * @returns {Object} xirr and twr as percentages, null when they cannot be computed
+ */
+export function calculateReturns(holdings, asOf = todayIsoDate()) {
+  const valued = holdings.filter(holding =>
+    holding.cmp > 0 &&
+    ((holding.lots && holding.lots.length > 0) || (holding.realizedLots && holding.realizedLots.length > 0))
+  );
+
+  if (valued.length === 0) {
+    return { xirr: null, twr: null };
+  }
+
+  const cashFlows = valued.flatMap(buildCashFlows);
+  const terminalValue = valued.reduce((sum, holding) => sum + (holding.presentValue || 0), 0);
+  if (terminalValue > 0) {
+    cashFlows.push({ date: asOf, amount: terminalValue });
+  }
+
+  const xirr = calculateXirr(cashFlows);
+  const twr = calculateTimeWeightedReturn(valued);
+
+  return {
+    xirr: xirr === null ? null : xirr * 100,
+    twr: twr === null ? null : twr * 100
+  };
+}
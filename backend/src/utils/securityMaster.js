@@ -0,0 +1,107 @@
+/**
+ * Security list parsing
+ *
+ * The exchanges publish their listed equities as CSVs:
+ * - NSE EQUITY_L.csv (and SME_EQUITY_L.csv): SYMBOL, NAME OF COMPANY, SERIES, DATE OF LISTING, ..., ISIN NUMBER
+ * - BSE list of scrips (Equity.csv): Security Code, Issuer Name, Security Id, Security Name, Status,
+ *   Group, Face Value, ISIN No, Industry, Instrument, and in newer files Sector Name and Industry New Name
+ * A security listed on both exchanges appears in both lists under the same ISIN.
+ */
+
+const normalizeHeader = header => String(header ?? '').trim().toUpperCase();
+const text = value => String(value ?? '').trim();
+const toIsin = value => (/^IN[A-Z0-9]{9}\d$/.test(text(value).toUpperCase()) ? text(value).toUpperCase() : null);
+
+/**
+ * Parses an exchange security list into securities
+ * BSE rows for delisted scrips and instruments other than equity are skipped
+ * @param {Array} rows - Rows as arrays of cells, header row first
+ * @param {string} fileName - File name, for error messages
+ * @returns {Object} exchange ('NSE' or 'BSE') and securities of
+ *   { isin, nseSymbol, bseCode, bseSymbol, name, industry }
+ * @throws {Error} If the header matches neither list
+ */
+export function parseSecurityListRows(rows, fileName) {
+  const headers = (rows[0] || []).map(normalizeHeader);
+  const column = (...names) => headers.findIndex(header => names.includes(header));
+  const cell = (cells, index) => (index === -1 ? '' : text(cells[index]));
+
+  if (headers.includes('SYMBOL') && headers.includes('NAME OF COMPANY')) {
+    const symbol = column('SYMBOL');
+    const name = column('NAME OF COMPANY');
+    const isin = column('ISIN NUMBER', 'ISIN');
+
+    return {
+      exchange: 'NSE',
+      securities: rows.slice(1)
+        .filter(cells => cells && cell(cells, symbol))
+        .map(cells => ({
+          isin: toIsin(cell(cells, isin)),
+          nseSymbol: cell(cells, symbol).toUpperCase(),
+          bseCode: null,
+          bseSymbol: null,
+          name: cell(cells, name),
+          industry: null
+        }))
+    };
+  }
+
+  if (headers.includes('SECURITY CODE') && (headers.includes('ISSUER NAME') || headers.includes('SECURITY NAME'))) {
+    const code = column('SECURITY CODE');
+    const id = column('SECURITY ID');
+    const issuer = column('ISSUER NAME');
+    const securityName = column('SECURITY NAME');
+    const status = column('STATUS');
+    const isin = column('ISIN NO', 'ISIN');
+    const industry = column('INDUSTRY NEW NAME');
+    const oldIndustry = column('INDUSTRY');
+    const instrument = column('INSTRUMENT');
+
+    return {
+      exchange: 'BSE',
+      securities: rows.slice(1)
+        .filter(cells => cells && /^\d+$/.test(cell(cells, code)))
+        .filter(cells => cell(cells, status).toLowerCase() !== 'delisted')
+        .filter(cells => instrument === -1 || !cell(cells, instrument) || cell(cells, instrument).toLowerCase() === 'equity')
+        .map(cells => ({
+          isin: toIsin(cell(cells, isin)),
+          nseSymbol: null,
+          bseCode: cell(cells, code),
+          bseSymbol: cell(cells, id).toUpperCase() || null,
+          name: cell(cells, issuer) || cell(cells, securityName),
+          industry: cell(cells, industry) || cell(cells, oldIndustry) || null
+        }))
+    };
+  }
+
+  throw new Error(`Invalid security list: ${fileName} has neither NSE EQUITY_L nor BSE scrip list columns`);
+}
+
+/**
+ * Combines securities from several lists, joining NSE and BSE listings of the same ISIN
+ * Fields a list leaves empty are filled from the others; securities without an ISIN stay separate
+ * @param {Array} securities - Securities from parseSecurityListRows
+ * @returns {Array} Merged securities
+ */
+export function mergeSecurities(securities) {
+  const byIsin = new Map();
+  const merged = [];
+
+  securities.forEach(security => {
+    const existing = security.isin ? byIsin.get(security.isin) : null;
+    if (!existing) {
+      const copy = { ...security };
+      merged.push(copy);
+      if (copy.isin) byIsin.set(copy.isin, copy);
+      return;
+    }
+
+    Object.keys(security).forEach(key => {
+      if (!existing[key] && security[key]) {
+        existing[key] = security[key];
+      }
+    });
+  });
+
+  return merged;
+}
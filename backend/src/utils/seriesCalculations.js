@@ -0,0 +1,66 @@
+/**
+ * Price series utilities for sparklines
+ */
+
+/**
+ * Summarizes a series with its high, low and change over the period
+ * @param {Array} points - Points with timestamp and value, oldest first
+ * @returns {Object|null} Points plus high, low, open, close, change and changePercent
+ */
+export function summarizeSeries(points) {
+  if (!points || points.length === 0) {
+    return null;
+  }
+
+  const values = points.map(point => point.value);
+  const open = values[0];
+  const close = values[values.length - 1];
+  const change = close - open;
+
+  return {
+    points,
+    high: Math.max(...values),
+    low: Math.min(...values),
+    open,
+    close,
+    change,
+    changePercent: open !== 0 ? (change / open) * 100 : 0
+  };
+}
+
+/**
+ * Combines price series into one value series (sum of weight × close)
+ * Starts once every series has a price and carries each last close forward
+ * across timestamps where that series has no candle
+ * @param {Array} weightedSeries - Entries of { weight, points: [{ timestamp, close }] }
+ * @returns {Array} Points with timestamp and value, oldest first
+ */
+export function combineSeries(weightedSeries) {
+  const series = weightedSeries.filter(entry => entry.points && entry.points.length > 0);
+  if (series.length === 0) {
+    return [];
+  }
+
+  const start = series
+    .map(entry => entry.points[0].timestamp)
+    .reduce((latest, timestamp) => (timestamp > latest ? timestamp : latest));
+
+  const timestamps = Array.from(new Set(series.flatMap(entry => entry.points.map(p => p.timestamp))))
+    .filter(timestamp => timestamp >= start)
+    .sort();
+
+  const cursors = series.map(() => 0);
+  const lastCloses = series.map(() => null);
+
+  return timestamps.map(timestamp => {
+    const value = series.reduce((sum, entry, index) => {
+      while (cursors[index] < entry.points.length && entry.points[cursors[index]].timestamp <= timestamp) {
+        lastCloses[index] = entry.points[cursors[index]].close;
+        cursors[index]++;
+      }
+      return sum + entry.weight * lastCloses[index];
+    }, 0);
+
+    return { timestamp, value };
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * Symbol alias resolution
+ *
+ * Follows old NSE symbols and BSE scrip codes through the symbol alias table to the code
+ * the security trades under today, so sheets, ledgers and snapshots written before a
+ * rename, merger or exchange migration still find their holding.
+ */
+
+/**
+ * Indexes aliases by the code they replace
+ * A later alias for the same code replaces an earlier one, so user aliases can be
+ * listed after the built-in ones to override them
+ * @param {Array} aliases - SymbolAlias objects
+ * @returns {Map} Map of old code to alias
+ */
+export function buildAliasIndex(aliases) {
+  return new Map((aliases || []).map(alias => [alias.from, alias]));
+}
+
+/**
+ * Resolves a code through the alias table, following chains of renames
+ * @param {string} code - NSE symbol or BSE scrip code
+ * @param {Map} index - Alias index from buildAliasIndex
+ * @returns {Object|null} { code, isin, previousCodes } with the current code, the ISIN named by
+ *   the most recent alias that gives one and the codes passed through, or null if the code has no alias
+ */
+export function resolveSymbolAlias(code, index) {
+  let current = String(code ?? '').trim().toUpperCase();
+  if (!current || !index.has(current)) {
+    return null;
+  }
+
+  const previousCodes = [];
+  let isin = null;
+  // A cycle in the table stops at the code seen twice
+  while (index.has(current) && !previousCodes.includes(current)) {
+    const alias = index.get(current);
+    previousCodes.push(current);
+    isin = alias.isin || isin;
+    current = alias.to;
+  }
+
+  return { code: current, isin, previousCodes };
+}
+
+/**
+ * ISIN the alias table gives for a current code, so records already under the new code share
+ * an identity with those still under the old one
+ * @param {string} code - NSE symbol or BSE scrip code
+ * @param {Map} index - Alias index from buildAliasIndex
+ * @returns {string|null} The ISIN, or null if no alias to the code names one
+ */
+export function findAliasIsin(code, index) {
+  const target = String(code ?? '').trim().toUpperCase();
+  if (!target) return null;
+
+  for (const alias of index.values()) {
+    if (alias.to === target && alias.isin) {
+      return alias.isin;
+    }
+  }
+  return null;
+}
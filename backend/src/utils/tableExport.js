@@ -0,0 +1,121 @@
+/**
+ * Table export utilities
+ * Writes holdings or sector summaries as CSV or JSON, formatted the way the dashboard
+ * shows them (₹1,23,456.78, 12.34%) or as raw numbers. Column keys match the
+ * dashboard's export menu so scripts can ask for the same columns
+ */
+
+// Holding columns: key, label and how the value is formatted
+export const HOLDING_EXPORT_COLUMNS = [
+  { key: 'particulars', label: 'Particulars', format: 'text' },
+  { key: 'nseCode', label: 'NSE Code', format: 'text' },
+  { key: 'bseCode', label: 'BSE Code', format: 'text' },
+  { key: 'isin', label: 'ISIN', format: 'text' },
+  { key: 'schemeCode', label: 'Scheme Code', format: 'text' },
+  { key: 'instrumentType', label: 'Type', format: 'text' },
+  { key: 'sector', label: 'Sector', format: 'text' },
+  { key: 'purchasePrice', label: 'Purchase Price', format: 'currency' },
+  { key: 'quantity', label: 'Quantity', format: 'number' },
+  { key: 'investment', label: 'Investment', format: 'currency' },
+  { key: 'portfolioPercentage', label: 'Portfolio %', format: 'percent' },
+  { key: 'cmp', label: 'CMP', format: 'currency' },
+  { key: 'presentValue', label: 'Present Value', format: 'currency' },
+  { key: 'gainLoss', label: 'Gain/Loss', format: 'currency' },
+  { key: 'gainLossPercentage', label: 'Gain/Loss %', format: 'percent' },
+  { key: 'dayChange', label: 'Day Change', format: 'currency' },
+  { key: 'peRatio', label: 'P/E Ratio', format: 'ratio' },
+  { key: 'latestEarnings', label: 'Latest Earnings', format: 'text' },
+  { key: 'dividendsReceived', label: 'Dividends', format: 'currency' },
+  { key: 'xirr', label: 'XIRR %', format: 'percent' }
+];
+
+// Sector summary columns
+export const SECTOR_EXPORT_COLUMNS = [
+  { key: 'sector', label: 'Sector', format: 'text' },
+  { key: 'holdingsCount', label: 'Holdings', format: 'number' },
+  { key: 'totalInvestment', label: 'Investment', format: 'currency' },
+  { key: 'totalPresentValue', label: 'Present Value', format: 'currency' },
+  { key: 'totalGainLoss', label: 'Gain/Loss', format: 'currency' },
+  { key: 'gainLossPercentage', label: 'Gain/Loss %', format: 'percent' },
+  { key: 'dayChange', label: 'Day Change', format: 'currency' },
+  { key: 'dividendsReceived', label: 'Dividends', format: 'currency' },
+  { key: 'xirr', label: 'XIRR %', format: 'percent' }
+];
+
+/**
+ * Formats a value for display, as the dashboard does
+ * @param {*} value - Cell value
+ * @param {string} format - text, currency, percent, number or ratio
+ * @returns {string} Formatted value, empty for null
+ */
+export function formatExportValue(value, format) {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value !== 'number') return String(value);
+
+  switch (format) {
+    case 'currency':
+      return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+    case 'percent':
+      return `${value.toFixed(2)}%`;
+    case 'ratio':
+      return value.toFixed(2);
+    case 'number':
+      return value.toLocaleString('en-IN');
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Picks export columns by key, in the order given
+ * @param {Array} columns - Available columns
+ * @param {Array<string>|string} keys - Column keys (an array or comma-separated), all columns when empty
+ * @returns {Array} Selected columns
+ * @throws {Error} If a key names no column
+ */
+export function selectExportColumns(columns, keys) {
+  const list = (Array.isArray(keys) ? keys : String(keys || '').split(','))
+    .map(key => key.trim())
+    .filter(Boolean);
+  if (list.length === 0) return columns;
+
+  const unknown = list.filter(key => !columns.some(column => column.key === key));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid export columns: ${unknown.join(', ')} (expected some of ${columns.map(column => column.key).join(', ')})`);
+  }
+  return list.map(key => columns.find(column => column.key === key));
+}
+
+/**
+ * Builds export records: one object per row keyed by column key
+ * @param {Array} rows - Holdings or sector summaries
+ * @param {Array} columns - Columns to export
+ * @param {Object} options - Export options
+ * @param {boolean} options.raw - Keep numbers as numbers instead of formatting them
+ * @returns {Array<Object>} Records
+ */
+export function buildExportRecords(rows, columns, options = {}) {
+  return rows.map(row => Object.fromEntries(columns.map(({ key, format }) => {
+    const value = row[key] ?? null;
+    return [key, options.raw ? value : formatExportValue(value, format)];
+  })));
+}
+
+/**
+ * Writes export records as CSV with a header row of column labels
+ * Fields holding commas (₹1,23,456), quotes or line breaks are quoted
+ * @param {Array<Object>} records - Records from buildExportRecords
+ * @param {Array} columns - Columns exported
+ * @returns {string} CSV text
+ */
+export function toCsv(records, columns) {
+  const escape = value => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    columns.map(column => escape(column.label)).join(','),
+    ...records.map(record => columns.map(column => escape(record[column.key])).join(','))
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,180 @@
+/**
+ * Tests for the broker importer registry, using broker export fixtures
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import {
+  parseBrokerFile,
+  parseBrokerRows,
+  detectImporter,
+  getImporter,
+  listImporters,
+  registerImporter
+} from '../../src/importers/index.js';
+import PortfolioService from '../../src/services/PortfolioService.js';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), '../fixtures/brokers');
+const fixture = name => readFileSync(join(fixturesDir, name));
+
+describe('importer registry', () => {
+  test('should list the built-in broker importers', () => {
+    expect(listImporters().map(importer => importer.id)).toEqual([
+      'zerodha-tradebook',
+      'zerodha-holdings',
+      'groww-orders',
+      'upstox-tradebook',
+      'icici-direct-trades'
+    ]);
+  });
+
+  test('should detect importers from header names regardless of case', () => {
+    expect(detectImporter(['Symbol', 'Trade_Date', 'Trade_Type', 'Quantity', 'Price']).id).toBe('zerodha-tradebook');
+    expect(detectImporter(['Instrument', 'Qty.', 'Avg. cost']).id).toBe('zerodha-holdings');
+    expect(detectImporter(['Date', 'Particulars', 'NSE/BSE'])).toBeNull();
+  });
+
+  test('should reject unknown ids and duplicate registrations', () => {
+    expect(() => getImporter('sharekhan')).toThrow('Invalid importer');
+    expect(() => registerImporter(getImporter('groww-orders'))).toThrow('already registered');
+    expect(() => registerImporter({ id: 'broken' })).toThrow('Invalid importer');
+  });
+
+  test('should let custom importers be registered', () => {
+    registerImporter({
+      id: 'test-ledger',
+      broker: 'Test',
+      label: 'Test ledger',
+      kind: 'tradebook',
+      headers: ['scrip', 'bs', 'qty', 'rate', 'dt'],
+      toRecord: get => ({ nseCode: get('scrip'), type: get('bs'), quantity: get('qty'), price: get('rate'), date: get('dt') })
+    });
+
+    const result = parseBrokerRows([['Scrip', 'BS', 'Qty', 'Rate', 'Dt'], ['INFY', 'buy', 1, 1500, '2024-01-02']]);
+
+    expect(result.importer).toBe('test-ledger');
+    expect(result.transactions).toHaveLength(1);
+  });
+
+  test('should reject files no importer recognizes', () => {
+    expect(() => parseBrokerRows([['Date', 'Particulars'], ['2024-01-01', 'INFY']]))
+      .toThrow('Invalid broker file');
+    expect(() => parseBrokerFile(fixture('upstox-tradebook.csv'), 'zerodha-tradebook'))
+      .toThrow('expected Zerodha tradebook columns');
+  });
+});
+
+describe('Zerodha', () => {
+  test('should parse the tradebook, skipping F&O and reporting invalid rows', () => {
+    const { importer, transactions, errors, skipped } = parseBrokerFile(fixture('zerodha-tradebook.csv'));
+
+    expect(importer).toBe('zerodha-tradebook');
+    expect(skipped).toBe(1);
+    expect(transactions).toHaveLength(3);
+    expect(transactions[0]).toMatchObject({ nseCode: 'INFY', type: 'buy', date: '2023-04-12', quantity: 20, price: 1390.5 });
+    expect(transactions[1]).toMatchObject({ nseCode: 'INFY', type: 'sell', date: '2024-01-08', quantity: 5 });
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ source: 'excel', row: 6, symbol: 'TCS' });
+    expect(errors[0].message).toContain('Invalid type');
+  });
+
+  test('should parse Console holdings, reporting empty positions', () => {
+    const { importer, holdings, errors } = parseBrokerFile(fixture('zerodha-holdings.csv'));
+
+    expect(importer).toBe('zerodha-holdings');
+    expect(holdings).toHaveLength(2);
+    // Long-term quantity is held in addition to the available quantity
+    expect(holdings[1]).toMatchObject({ nseCode: 'ITC', quantity: 100, purchasePrice: 402.15, sector: 'FMCG' });
+    expect(errors).toEqual([expect.objectContaining({ source: 'excel', row: 4, symbol: 'TATASTEEL' })]);
+  });
+
+  test('should parse Kite holdings', () => {
+    const { importer, holdings, errors } = parseBrokerFile(fixture('kite-holdings.csv'));
+
+    expect(importer).toBe('zerodha-holdings');
+    expect(holdings.map(h => [h.nseCode, h.quantity, h.purchasePrice])).toEqual([
+      ['INFY', 15, 1390.5],
+      ['ITC', 100, 402.15]
+    ]);
+    expect(holdings[0].sector).toBe('Uncategorized');
+    expect(errors).toEqual([]);
+  });
+});
+
+describe('Groww', () => {
+  test('should find the header below the account details and import executed orders', () => {
+    const { importer, transactions, errors, skipped } = parseBrokerFile(fixture('groww-orders.csv'));
+
+    expect(importer).toBe('groww-orders');
+    expect(skipped).toBe(1); // Cancelled order
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0]).toMatchObject({
+      nseCode: 'TATAMOTORS',
+      particulars: 'Tata Motors Ltd',
+      type: 'buy',
+      date: '2023-05-15',
+      quantity: 10
+    });
+    expect(transactions[0].price).toBeCloseTo(625.1);
+    expect(transactions[1]).toMatchObject({ type: 'sell', date: '2024-02-02', quantity: 4 });
+    expect(errors).toEqual([expect.objectContaining({ source: 'excel', row: 9, symbol: 'WIPRO' })]);
+  });
+});
+
+describe('Upstox', () => {
+  test('should parse NSE and BSE equity trades', () => {
+    const { importer, transactions, errors, skipped } = parseBrokerFile(fixture('upstox-tradebook.csv'));
+
+    expect(importer).toBe('upstox-tradebook');
+    expect(skipped).toBe(1);
+    expect(transactions.map(t => [t.nseCode || t.bseCode, t.type, t.date])).toEqual([
+      ['RELIANCE', 'buy', '2023-07-12'],
+      ['500209', 'buy', '2023-08-14'],
+      ['RELIANCE', 'sell', '2023-09-21']
+    ]);
+    expect(transactions[1].nseCode).toBe('');
+    expect(errors).toEqual([expect.objectContaining({ source: 'excel', row: 6 })]);
+    expect(errors[0].message).toContain('Invalid quantity');
+  });
+});
+
+describe('ICICI Direct', () => {
+  test('should parse trades with charges and DD-Mon-YYYY dates', () => {
+    const { importer, transactions, errors } = parseBrokerFile(fixture('icici-direct-trades.csv'));
+
+    expect(importer).toBe('icici-direct-trades');
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0]).toMatchObject({ nseCode: 'INFTEC', particulars: 'INFOSYS LTD', date: '2024-01-15', quantity: 10 });
+    expect(transactions[0].charges).toBeCloseTo(9.93);
+    expect(transactions[1]).toMatchObject({ type: 'sell', date: '2024-03-20' });
+    expect(errors).toEqual([expect.objectContaining({ source: 'excel', row: 4, symbol: 'HDFBAN' })]);
+    expect(errors[0].message).toContain('Invalid or missing date');
+  });
+});
+
+describe('PortfolioService.loadBrokerFile', () => {
+  const service = new PortfolioService();
+
+  test('should derive holdings from a tradebook', async () => {
+    const result = await service.loadBrokerFile(join(fixturesDir, 'zerodha-tradebook.csv'), 'zerodha-tradebook');
+
+    const infy = result.holdings.find(h => h.nseCode === 'INFY');
+    expect(result.importer).toBe('zerodha-tradebook');
+    expect(infy.quantity).toBe(15);
+    expect(infy.investment).toBeCloseTo(15 * 1390.5);
+    expect(infy.realizedGain).toBeCloseTo(5 * (1610 - 1390.5));
+    expect(result.transactions).toHaveLength(3);
+  });
+
+  test('should return holdings exports as they are', async () => {
+    const result = await service.loadBrokerFile(join(fixturesDir, 'kite-holdings.csv'));
+
+    expect(result.transactions).toEqual([]);
+    expect(result.holdings).toHaveLength(2);
+  });
+
+  test('should throw for a missing file', async () => {
+    await expect(service.loadBrokerFile(join(fixturesDir, 'missing.csv'))).rejects.toThrow('Broker file not found');
+  });
+});
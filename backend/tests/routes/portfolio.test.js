@@ -12,6 +12,12 @@ describe('Portfolio API Endpoints', () => {
     expect(typeof portfolioRoutes.default).toBe('function');
   });
 
+  test('Market routes module exports a router', async () => {
+    const marketRoutes = await import('../../src/routes/market.js');
+    expect(marketRoutes.default).toBeDefined();
+    expect(typeof marketRoutes.default).toBe('function');
+  });
+
   test('Health routes module exports a router', async () => {
     const healthRoutes = await import('../../src/routes/health.js');
     expect(healthRoutes.default).toBeDefined();
@@ -0,0 +1,64 @@
+/**
+ * Tests for AmfiNavService, using an AMFI NAV fixture
+ */
+
+import { mkdtempSync, rmSync, copyFileSync, readFileSync, writeFileSync, utimesSync } from 'fs';
+import { join, dirname } from 'path';
+import { tmpdir } from 'os';
+import { fileURLToPath } from 'url';
+import AmfiNavService from '../../src/services/AmfiNavService.js';
+
+const fixture = join(dirname(fileURLToPath(import.meta.url)), '../fixtures/amfi/NAVAll.txt');
+
+describe('AmfiNavService', () => {
+  let tempDir;
+  let filePath;
+  let service;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'amfi-'));
+    filePath = join(tempDir, 'NAVAll.txt');
+    copyFileSync(fixture, filePath);
+    service = new AmfiNavService({ filePath, refreshInterval: 0 });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should quote NAVs by scheme symbol with the scheme category', async () => {
+    const quotes = await service.getBatchQuotes(['120465.MF', '122639.MF', '120466.MF', 'INFY.NS']);
+
+    expect(quotes.get('120465.MF')).toEqual({
+      price: 58.4,
+      previousClose: null,
+      date: '2026-10-17',
+      category: 'Equity Scheme - Large Cap Fund'
+    });
+    expect(quotes.get('122639.MF').price).toBe(92.1534);
+    expect(quotes.has('120466.MF')).toBe(false);
+    expect(quotes.has('INFY.NS')).toBe(false);
+  });
+
+  test('should only take scheme symbols', () => {
+    expect(service.supportsSymbol('120465.MF')).toBe(true);
+    expect(service.supportsSymbol('RELIANCE.NS')).toBe(false);
+  });
+
+  test('should keep the replaced NAV as the previous close when a newer file arrives', async () => {
+    await service.getQuote('120465.MF');
+    writeFileSync(filePath, readFileSync(filePath, 'utf8')
+      .replace('58.4;17-Oct-2026', '59.1;18-Oct-2026'));
+    const later = new Date(Date.now() + 5000);
+    utimesSync(filePath, later, later);
+
+    expect(await service.getQuote('120465.MF')).toEqual(expect.objectContaining({ price: 59.1, previousClose: 58.4 }));
+    expect((await service.getScheme('119551')).previousNav).toBeNull();
+  });
+
+  test('should return nothing without a NAV file', async () => {
+    const missing = new AmfiNavService({ filePath: join(tempDir, 'missing.txt') });
+
+    expect((await missing.getBatchPrices(['120465.MF'])).size).toBe(0);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for BenchmarkService
+ */
+
+import { jest } from '@jest/globals';
+import BenchmarkService from '../../src/services/BenchmarkService.js';
+
+const series = (...closes) => closes.map((close, index) => ({ timestamp: `2025-06-0${index + 1}`, close }));
+
+describe('BenchmarkService', () => {
+  let yahooFinanceService;
+  let service;
+
+  beforeEach(() => {
+    yahooFinanceService = {
+      getBatchPriceSeries: jest.fn().mockResolvedValue(new Map([
+        ['^NSEI', series(100, 110)],
+        ['^BSESN', series(200, 210)],
+        ['^CNXIT', series(100, 90)],
+        ['^NSEBANK', series(100, 105)],
+        ['INFY.NS', series(100, 120)],
+        ['TCS.NS', series(50, 45)],
+        ['HDFCBANK.NS', series(100, 100)]
+      ]))
+    };
+    service = new BenchmarkService(yahooFinanceService, {
+      benchmarks: ['^NSEI', '^BSESN'],
+      sectorBenchmarks: { 'Tech Sector': '^CNXIT' }
+    });
+  });
+
+  const positions = [
+    { key: 'INFY', sector: 'Tech Sector', quantity: 10, symbol: 'INFY.NS' },
+    { key: 'TCS', sector: 'Tech Sector', quantity: 20, symbol: 'TCS.NS' },
+    { key: 'HDFCBANK', sector: 'Financial Sector', quantity: 5, symbol: 'HDFCBANK.NS' }
+  ];
+
+  test('should list configured benchmarks with names', () => {
+    expect(service.getBenchmarks()).toEqual([
+      { symbol: '^NSEI', name: 'NIFTY 50' },
+      { symbol: '^BSESN', name: 'SENSEX' }
+    ]);
+  });
+
+  test('should fetch benchmark, sector index and position series for the same range', async () => {
+    await service.compare(positions, '3mo');
+
+    const [symbols, range] = yahooFinanceService.getBatchPriceSeries.mock.calls[0];
+    expect(range).toBe('3mo');
+    expect(symbols).toEqual(expect.arrayContaining(['^NSEI', '^BSESN', '^CNXIT', '^NSEBANK', 'INFY.NS']));
+  });
+
+  test('should compare holdings with their sector index', async () => {
+    const result = await service.compare(positions);
+
+    expect(result.holdings.INFY.benchmark).toBe('^CNXIT');
+    expect(result.holdings.INFY.return).toBeCloseTo(20, 10);
+    expect(result.holdings.INFY.benchmarkReturn).toBeCloseTo(-10, 10);
+    expect(result.holdings.INFY.alpha).toBeCloseTo(30, 10);
+  });
+
+  test('should compare sectors as quantity-weighted baskets', async () => {
+    const result = await service.compare(positions);
+
+    // Tech basket: 10 × 100 + 20 × 50 = 2000 -> 10 × 120 + 20 × 45 = 2100
+    expect(result.sectors['Tech Sector'].return).toBeCloseTo(5, 10);
+    expect(result.sectors['Tech Sector'].alpha).toBeCloseTo(15, 10);
+    expect(result.sectors['Financial Sector']).toMatchObject({
+      benchmark: '^NSEBANK',
+      benchmarkName: 'NIFTY Bank',
+      return: 0
+    });
+    expect(result.sectors['Financial Sector'].alpha).toBeCloseTo(-5, 10);
+  });
+
+  test('should compare the portfolio with each benchmark', async () => {
+    const result = await service.compare(positions);
+
+    // 2000 + 500 = 2500 -> 2100 + 500 = 2600
+    expect(result.portfolio.return).toBeCloseTo(4, 10);
+    expect(result.benchmarks[0]).toMatchObject({ symbol: '^NSEI', name: 'NIFTY 50' });
+    expect(result.benchmarks[0].excessReturn).toBeCloseTo(-6, 10);
+    expect(result.benchmarks[1].return).toBeCloseTo(5, 10);
+  });
+
+  test('should report missing series and leave their returns null', async () => {
+    yahooFinanceService.getBatchPriceSeries.mockResolvedValue(new Map([['INFY.NS', series(100, 120)]]));
+
+    const result = await service.compare(positions);
+
+    expect(result.missing).toEqual(expect.arrayContaining(['TCS.NS', 'HDFCBANK.NS', '^NSEI', '^CNXIT']));
+    expect(result.holdings.INFY.alpha).toBeNull();
+    expect(result.benchmarks[0].return).toBeNull();
+  });
+
+  test('should reject unsupported ranges', async () => {
+    await expect(service.compare(positions, '10y')).rejects.toThrow('Invalid range');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for BhavcopyService, using bhavcopy fixtures
+ */
+
+import { mkdtempSync, rmSync, cpSync, writeFileSync, unlinkSync } from 'fs';
+import { join, dirname } from 'path';
+import { tmpdir } from 'os';
+import { fileURLToPath } from 'url';
+import BhavcopyService from '../../src/services/BhavcopyService.js';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), '../fixtures/bhavcopy');
+
+describe('BhavcopyService', () => {
+  let tempDir;
+  let service;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'bhavcopy-'));
+    cpSync(fixturesDir, tempDir, { recursive: true });
+    service = new BhavcopyService({ directory: tempDir, refreshInterval: 0 });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('quotes', () => {
+    test('should quote NSE symbols and BSE scrip codes from the latest file that has them', async () => {
+      const quotes = await service.getBatchQuotes(['RELIANCE.NS', 'INFY.NS', '500325.BO', '511577.BO', 'UNKNOWN.NS']);
+
+      expect(quotes.get('RELIANCE.NS')).toEqual({ price: 3232.1, previousClose: 3205.4, date: '2024-07-09' });
+      expect(quotes.get('INFY.NS').price).toBe(1668.8);
+      expect(quotes.get('500325.BO')).toEqual({ price: 3198.75, previousClose: 3231.5, date: '2024-07-10' });
+      expect(quotes.get('511577.BO').date).toBe('2024-07-09');
+      expect(quotes.has('UNKNOWN.NS')).toBe(false);
+    });
+
+    test('should resolve BSE tickers from UDiFF files', async () => {
+      expect((await service.getQuote('RELIANCE.BO')).price).toBe(3198.75);
+    });
+
+    test('should answer getBatchPrices with closes', async () => {
+      const prices = await service.getBatchPrices(['INFY.NS', '500325.BO']);
+
+      expect(Array.from(prices)).toEqual([['INFY.NS', 1668.8], ['500325.BO', 3198.75]]);
+    });
+
+    test('should return the last close on or before a date', async () => {
+      expect(await service.getPriceOn('RELIANCE.NS', '2024-07-08')).toBe(3205.4);
+      expect(await service.getPriceOn('RELIANCE.NS', '2024-07-31')).toBe(3232.1);
+      expect(await service.getPriceOn('RELIANCE.NS', '2024-07-01')).toBeNull();
+    });
+
+    test('should pick up added and removed files', async () => {
+      await service.getQuote('INFY.NS');
+      writeFileSync(join(tempDir, 'cm10JUL2024bhav.csv'), [
+        'SYMBOL,SERIES,OPEN,HIGH,LOW,CLOSE,LAST,PREVCLOSE,TOTTRDQTY,TOTTRDVAL,TIMESTAMP',
+        'INFY,EQ,1669,1690,1660,1685,1685,1668.8,100,100,10-JUL-2024'
+      ].join('\n'));
+      unlinkSync(join(tempDir, 'BhavCopy_NSE_CM_0_0_0_20240709_F_0000.csv'));
+
+      expect((await service.getQuote('INFY.NS')).price).toBe(1685);
+      expect(await service.getPriceOn('INFY.NS', '2024-07-09')).toBe(1655.25);
+    });
+
+    test('should return nothing when the directory does not exist', async () => {
+      const missing = new BhavcopyService({ directory: join(tempDir, 'missing') });
+
+      expect((await missing.getBatchQuotes(['INFY.NS'])).size).toBe(0);
+      expect(await missing.getHistory('INFY.NS')).toEqual([]);
+    });
+  });
+
+  describe('getHistory', () => {
+    test('should return daily candles counted back from the newest file', async () => {
+      const candles = await service.getHistory('RELIANCE.NS', '1mo');
+
+      expect(candles.map(c => [c.date, c.close])).toEqual([['2024-07-08', 3205.4], ['2024-07-09', 3232.1]]);
+      expect(candles[0]).toEqual(expect.objectContaining({ open: 3190, high: 3215.5, low: 3180, volume: 5123456 }));
+    });
+
+    test('should go back to the oldest file for the max range', async () => {
+      const candles = await service.getHistory('500325.BO', 'max');
+
+      expect(candles.map(c => c.date)).toEqual(['2024-07-09', '2024-07-10']);
+    });
+
+    test('should combine days into weekly candles', async () => {
+      const [week] = await service.getHistory('RELIANCE.NS', '1mo', '1wk');
+
+      expect(week).toEqual(expect.objectContaining({ date: '2024-07-09', open: 3190, high: 3240, low: 3180, close: 3232.1 }));
+    });
+
+    test('should reject intraday intervals', async () => {
+      await expect(service.getHistory('RELIANCE.NS', '1d', '5m')).rejects.toThrow('Invalid interval');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for DividendService
+ */
+
+import { mkdtempSync, rmSync, appendFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import DividendService from '../../src/services/DividendService.js';
+
+describe('DividendService', () => {
+  let tempDir;
+  let service;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'dividends-'));
+    service = new DividendService({ filePath: join(tempDir, 'nested', 'dividends.jsonl') });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('addDividend', () => {
+    test('should store a manual dividend', async () => {
+      const added = await service.addDividend({ nseCode: 'ITC', paymentDate: '2025-06-12', amount: 785 });
+
+      expect(added.source).toBe('manual');
+      expect(await service.readDividends()).toEqual([added]);
+    });
+
+    test('should reject invalid dividends', async () => {
+      await expect(service.addDividend({ nseCode: 'ITC' })).rejects.toThrow('Invalid dividend');
+    });
+  });
+
+  describe('readDividends', () => {
+    test('should return an empty ledger when the file does not exist', async () => {
+      expect(await service.readDividends()).toEqual([]);
+    });
+
+    test('should skip unparseable lines', async () => {
+      await service.addDividend({ nseCode: 'ITC', paymentDate: '2025-06-12', amount: 785 });
+      appendFileSync(service.filePath, '{"id":\n');
+
+      expect(await service.readDividends()).toHaveLength(1);
+    });
+  });
+
+  describe('importCsv', () => {
+    const csv = [
+      'Ex-Date,Payment Date,NSE/BSE,Particulars,Per Share,Qty,TDS',
+      '2025-05-28,2025-06-12,ITC,ITC Ltd,7.85,100,78.5',
+      '2025-07-04,2025-07-25,500209,Infosys,"22",10,0',
+      '2025-08-01,,HDFCBANK,HDFC Bank,20,5,0'
+    ].join('\n');
+
+    test('should import rows and report invalid ones with their row number', async () => {
+      const { imported, skipped, errors } = await service.importCsv(csv);
+
+      expect(imported).toHaveLength(2);
+      expect(imported[0]).toMatchObject({ nseCode: 'ITC', exDate: '2025-05-28', paymentDate: '2025-06-12', source: 'import' });
+      expect(imported[0].amount).toBeCloseTo(785);
+      expect(imported[1]).toMatchObject({ nseCode: '', bseCode: '500209', amount: 220 });
+      expect(skipped).toBe(0);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].row).toBe(4);
+    });
+
+    test('should skip dividends already in the ledger', async () => {
+      await service.importCsv(csv);
+      const { imported, skipped } = await service.importCsv(csv);
+
+      expect(imported).toHaveLength(0);
+      expect(skipped).toBe(2);
+      expect(await service.readDividends()).toHaveLength(2);
+    });
+
+    test('should read amounts and TDS with thousands separators', async () => {
+      const { imported, errors } = await service.importCsv(
+        'Payment Date,NSE/BSE,Amount,TDS\n2024-07-05,ITC,"1,250.00","1,020"'
+      );
+
+      expect(errors).toEqual([]);
+      expect(imported[0]).toMatchObject({ amount: 1250, tds: 1020, netAmount: 230 });
+    });
+
+    test('should read DD/MM/YYYY dates day first outside UTC', async () => {
+      const timeZone = process.env.TZ;
+      process.env.TZ = 'Asia/Kolkata';
+
+      try {
+        const { imported } = await service.importCsv('Ex-Date,Payment Date,NSE/BSE,Amount\n20/06/2024,05/07/2024,ITC,785');
+
+        expect(imported[0]).toMatchObject({ exDate: '2024-06-20', paymentDate: '2024-07-05' });
+      } finally {
+        if (timeZone === undefined) delete process.env.TZ;
+        else process.env.TZ = timeZone;
+      }
+    });
+
+    test('should reject empty content', async () => {
+      await expect(service.importCsv('  ')).rejects.toThrow('Invalid dividend import');
+    });
+  });
+
+  describe('deleteDividend', () => {
+    test('should remove a dividend by id', async () => {
+      const first = await service.addDividend({ nseCode: 'ITC', paymentDate: '2025-06-12', amount: 785 });
+      await service.addDividend({ nseCode: 'INFY', paymentDate: '2025-07-25', amount: 220 });
+
+      await service.deleteDividend(first.id);
+
+      const remaining = await service.readDividends();
+      expect(remaining.map(d => d.nseCode)).toEqual(['INFY']);
+    });
+
+    test('should throw for an unknown id', async () => {
+      await expect(service.deleteDividend('div_missing')).rejects.toThrow('Dividend not found');
+    });
+  });
+});
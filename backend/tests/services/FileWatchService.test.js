@@ -0,0 +1,99 @@
+/**
+ * Tests for FileWatchService
+ */
+
+import { jest } from '@jest/globals';
+import xlsx from 'xlsx';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import FileWatchService from '../../src/services/FileWatchService.js';
+
+const wait = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Polls until the condition holds or the timeout passes
+ */
+async function waitFor(condition, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await wait(20);
+  }
+}
+
+describe('FileWatchService', () => {
+  let tempDir;
+  let service;
+  let workbook;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'watch-'));
+    service = new FileWatchService({ debounceMs: 50, settleMs: 20 });
+
+    const book = xlsx.utils.book_new();
+    xlsx.utils.book_append_sheet(book, xlsx.utils.aoa_to_sheet([['Name', 'Qty'], ['Infosys', 10]]), 'Sheet1');
+    workbook = xlsx.write(book, { type: 'buffer', bookType: 'xlsx' });
+  });
+
+  afterEach(() => {
+    service.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should report a burst of writes once', async () => {
+    const filePath = join(tempDir, 'ledger.csv');
+    writeFileSync(filePath, 'a');
+    const onChange = jest.fn();
+    service.watch([filePath], onChange);
+
+    writeFileSync(filePath, 'a,b');
+    writeFileSync(filePath, 'a,b,c');
+    await waitFor(() => onChange.mock.calls.length > 0);
+    await wait(150);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith([filePath]);
+  });
+
+  test('should ignore other files in the directory such as lock files', async () => {
+    const filePath = join(tempDir, 'portfolio.xlsx');
+    writeFileSync(filePath, workbook);
+    const onChange = jest.fn();
+    service.watch([filePath], onChange);
+
+    writeFileSync(join(tempDir, '~$portfolio.xlsx'), 'lock');
+    await wait(200);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('should wait until an xlsx caught mid-save is complete', async () => {
+    const filePath = join(tempDir, 'portfolio.xlsx');
+    writeFileSync(filePath, workbook);
+    const onChange = jest.fn();
+    service.watch([filePath], onChange);
+
+    writeFileSync(filePath, workbook.subarray(0, workbook.length - 30));
+    await wait(250);
+    expect(onChange).not.toHaveBeenCalled();
+
+    writeFileSync(filePath, workbook);
+    await waitFor(() => onChange.mock.calls.length > 0);
+    expect(onChange).toHaveBeenCalledWith([filePath]);
+  });
+
+  test('should report a save that never completes as an error', async () => {
+    service = new FileWatchService({ debounceMs: 30, settleMs: 10, maxAttempts: 2 });
+    const filePath = join(tempDir, 'portfolio.xlsx');
+    writeFileSync(filePath, workbook);
+    const onChange = jest.fn();
+    const onError = jest.fn();
+    service.watch([filePath], onChange, onError);
+
+    writeFileSync(filePath, Buffer.alloc(0));
+    await waitFor(() => onError.mock.calls.length > 0);
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onError.mock.calls[0][0].message).toContain('incomplete save of portfolio.xlsx');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for ImportService
+ */
+
+import { mkdtempSync, rmSync, existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import ImportService from '../../src/services/ImportService.js';
+
+describe('ImportService', () => {
+  let tempDir;
+  let service;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'imports-'));
+    service = new ImportService({ directory: join(tempDir, 'imports') });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should stage uploads until they are committed', () => {
+    const upload = service.stage(Buffer.from('a,b'), 'holdings.csv');
+
+    expect(service.getPending(upload.id)).toBe(upload);
+    expect(() => service.getPending('import_missing')).toThrow('Import not found');
+  });
+
+  test('should reject empty files and other file types', () => {
+    expect(() => service.stage(Buffer.alloc(0), 'holdings.csv')).toThrow('Invalid import');
+    expect(() => service.stage(Buffer.from('{}'), 'holdings.json')).toThrow('Invalid import');
+  });
+
+  test('should write the committed upload with its profile and mapping', async () => {
+    const upload = service.stage(Buffer.from('a,b'), 'holdings.csv');
+    const active = await service.commit(upload.id, { profile: 'standard', mapping: { particulars: 0 } });
+
+    expect(readFileSync(active.filePath, 'utf8')).toBe('a,b');
+    expect(await service.getActive()).toEqual(active);
+    expect(() => service.getPending(upload.id)).toThrow('Import not found');
+  });
+
+  test('should go back to the configured file when cleared', async () => {
+    expect(await service.getActive()).toBeNull();
+    expect(await service.clearActive()).toBe(false);
+
+    const upload = service.stage(Buffer.from('a,b'), 'holdings.csv');
+    const active = await service.commit(upload.id);
+
+    expect(await service.clearActive()).toBe(true);
+    expect(await service.getActive()).toBeNull();
+    expect(existsSync(active.filePath)).toBe(false);
+  });
+});
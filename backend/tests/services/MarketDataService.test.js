@@ -0,0 +1,133 @@
+/**
+ * Tests for MarketDataService
+ */
+
+import MarketDataService, { selectMarketDataProviders, validateMarketDataProvider } from '../../src/services/MarketDataService.js';
+
+describe('MarketDataService', () => {
+  const provider = (id, overrides = {}) => ({
+    id,
+    getQuote: async () => null,
+    getBatchQuotes: async () => new Map(),
+    getFundamentals: async () => null,
+    getHistory: async () => [],
+    ...overrides
+  });
+
+  const quote = price => ({ price, previousClose: price - 1 });
+
+  describe('getBatchQuotes', () => {
+    test('should ask each provider only for the symbols still missing', async () => {
+      const asked = {};
+      const first = provider('first', {
+        getBatchQuotes: async symbols => {
+          asked.first = symbols;
+          return new Map([['A.NS', quote(10)]]);
+        }
+      });
+      const second = provider('second', {
+        getBatchQuotes: async symbols => {
+          asked.second = symbols;
+          return new Map([['B.NS', quote(20)], ['A.NS', quote(99)]]);
+        }
+      });
+
+      const { quotes, errors } = await new MarketDataService([first, second]).getBatchQuotes(['A.NS', 'B.NS', 'C.NS']);
+
+      expect(asked).toEqual({ first: ['A.NS', 'B.NS', 'C.NS'], second: ['B.NS', 'C.NS'] });
+      expect(quotes.get('A.NS')).toEqual({ price: 10, previousClose: 9, provider: 'first' });
+      expect(quotes.get('B.NS')).toEqual({ price: 20, previousClose: 19, provider: 'second' });
+      expect(quotes.has('C.NS')).toBe(false);
+      expect(errors).toHaveLength(0);
+    });
+
+    test('should fall through when a provider throws or times out', async () => {
+      const failing = provider('failing', {
+        getBatchQuotes: async () => {
+          throw new Error('outage');
+        }
+      });
+      const slow = provider('slow', {
+        getBatchQuotes: () => new Promise(resolve => setTimeout(() => resolve(new Map([['A.NS', quote(1)]])), 200))
+      });
+      const backup = provider('backup', { getBatchQuotes: async () => new Map([['A.NS', quote(10)]]) });
+
+      const service = new MarketDataService([failing, slow, backup], { quoteTimeout: 20 });
+      const { quotes, errors } = await service.getBatchQuotes(['A.NS']);
+
+      expect(quotes.get('A.NS').provider).toBe('backup');
+      expect(errors.map(e => e.source)).toEqual(['failing', 'slow']);
+      expect(errors[0].message).toContain('outage');
+      expect(errors[1].message).toContain('timed out');
+    });
+  });
+
+  describe('supportsSymbol', () => {
+    test('should only ask providers for symbols they support and keep fund categories', async () => {
+      const asked = {};
+      const equities = provider('equities', {
+        getBatchQuotes: async symbols => {
+          asked.equities = symbols;
+          return new Map([['A.NS', quote(10)]]);
+        },
+        supportsSymbol: symbol => !symbol.endsWith('.MF')
+      });
+      const funds = provider('funds', {
+        getBatchQuotes: async symbols => {
+          asked.funds = symbols;
+          return new Map([['120465.MF', { price: 58.4, previousClose: null, category: 'Equity Scheme - Large Cap Fund' }]]);
+        },
+        supportsSymbol: symbol => symbol.endsWith('.MF')
+      });
+
+      const { quotes, errors } = await new MarketDataService([equities, funds]).getBatchQuotes(['120465.MF', 'A.NS', 'B.NS']);
+
+      expect(asked).toEqual({ equities: ['A.NS', 'B.NS'], funds: ['120465.MF'] });
+      expect(quotes.get('120465.MF')).toEqual({
+        price: 58.4,
+        previousClose: null,
+        provider: 'funds',
+        category: 'Equity Scheme - Large Cap Fund'
+      });
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('getBatchFundamentals', () => {
+    test('should skip providers without metrics and keep answers given in time', async () => {
+      const none = provider('none');
+      const partial = provider('partial', {
+        getFundamentals: symbol => (symbol === 'A.NS'
+          ? Promise.resolve({ peRatio: 20, latestEarnings: null })
+          : new Promise(resolve => setTimeout(() => resolve({ peRatio: 1, latestEarnings: null }), 200)))
+      });
+      const backup = provider('backup', { getFundamentals: async () => ({ peRatio: 30, latestEarnings: 'Q1' }) });
+
+      const service = new MarketDataService([none, partial, backup], { fundamentalsTimeout: 20 });
+      const { fundamentals, errors } = await service.getBatchFundamentals(['A.NS', 'B.NS']);
+
+      expect(fundamentals.get('A.NS')).toEqual({ peRatio: 20, latestEarnings: null, provider: 'partial' });
+      expect(fundamentals.get('B.NS')).toEqual({ peRatio: 30, latestEarnings: 'Q1', provider: 'backup' });
+      expect(errors.map(e => e.source)).toEqual(['partial']);
+
+      // The late answer from the timed-out provider is dropped
+      await new Promise(resolve => setTimeout(resolve, 250));
+      expect(fundamentals.get('B.NS').provider).toBe('backup');
+    });
+  });
+
+  describe('providers', () => {
+    test('should reject objects missing part of the contract', () => {
+      expect(() => validateMarketDataProvider({ id: 'x', getQuote: async () => null })).toThrow('Invalid market data provider');
+      expect(() => new MarketDataService([])).toThrow('at least one provider');
+    });
+
+    test('should select providers in the configured order', () => {
+      const available = { yahoo: provider('yahoo'), google: provider('google') };
+
+      expect(selectMarketDataProviders('google, Yahoo', available).map(p => p.id)).toEqual(['google', 'yahoo']);
+      expect(() => selectMarketDataProviders('yahoo,bloomberg', available)).toThrow('Invalid market data provider: bloomberg');
+      expect(() => selectMarketDataProviders(' , ', available)).toThrow('at least one provider');
+    });
+  });
+});
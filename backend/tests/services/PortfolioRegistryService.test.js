@@ -0,0 +1,100 @@
+/**
+ * Tests for PortfolioRegistryService
+ */
+
+import xlsx from 'xlsx';
+import { mkdtempSync, rmSync, writeFileSync, utimesSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import PortfolioService from '../../src/services/PortfolioService.js';
+import PortfolioRegistryService from '../../src/services/PortfolioRegistryService.js';
+
+describe('PortfolioRegistryService', () => {
+  let tempDir;
+  let workbookPath;
+  let registry;
+
+  const writeWorkbook = (filePath, sheetNames) => {
+    const workbook = xlsx.utils.book_new();
+    sheetNames.forEach(name => {
+      xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet([
+        ['Name', 'Buy Price', 'Qty', 'Symbol'],
+        ['HDFC Bank', 1490, 50, 'HDFCBANK']
+      ]), name);
+    });
+    xlsx.writeFile(workbook, filePath);
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'portfolios-'));
+    workbookPath = join(tempDir, 'portfolio.xlsx');
+    registry = new PortfolioRegistryService(new PortfolioService());
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should list one portfolio per sheet named after the sheet', async () => {
+    writeWorkbook(workbookPath, ['Family', 'Family HUF', 'Household']);
+
+    const portfolios = await registry.listPortfolios({ filePath: workbookPath });
+
+    expect(portfolios.map(p => [p.id, p.name, p.sheet])).toEqual([
+      ['family', 'Family', 'Family'],
+      ['family-huf', 'Family HUF', 'Family HUF'],
+      ['household-2', 'Household', 'Household']
+    ]);
+  });
+
+  test('should keep listing a sheet that no longer parses while it exists', async () => {
+    writeWorkbook(workbookPath, ['Family', 'HUF']);
+    await registry.listPortfolios({ filePath: workbookPath });
+
+    const workbook = xlsx.readFile(workbookPath);
+    workbook.Sheets.HUF = xlsx.utils.aoa_to_sheet([['Notes']]);
+    xlsx.writeFile(workbook, workbookPath);
+    utimesSync(workbookPath, new Date(), new Date(Date.now() + 5000));
+
+    expect((await registry.listPortfolios({ filePath: workbookPath })).map(p => p.id)).toEqual(['family', 'huf']);
+  });
+
+  test('should list a single portfolio for a committed upload', async () => {
+    writeWorkbook(workbookPath, ['Family', 'HUF']);
+
+    const portfolios = await registry.listPortfolios({ filePath: workbookPath, profile: 'standard', mapping: { particulars: 0 } });
+
+    expect(portfolios).toEqual([expect.objectContaining({ id: 'portfolio', sheet: null, mapping: { particulars: 0 } })]);
+  });
+
+  test('should read portfolios from the portfolios file, one per sheet or file', async () => {
+    writeWorkbook(workbookPath, ['Family', 'HUF']);
+    writeWorkbook(join(tempDir, 'parents.xlsx'), ['Sheet1']);
+    const configPath = join(tempDir, 'portfolios.json');
+    writeFileSync(configPath, JSON.stringify({
+      portfolios: [
+        { id: 'huf', name: 'HUF', sheet: 'HUF' },
+        { id: 'parents', name: 'Parents', file: 'parents.xlsx', profile: 'holdings-list' }
+      ]
+    }));
+    registry = new PortfolioRegistryService(new PortfolioService(), { configPath });
+
+    const portfolios = await registry.listPortfolios({ filePath: workbookPath });
+
+    expect(portfolios).toEqual([
+      expect.objectContaining({ id: 'huf', filePath: workbookPath, sheet: 'HUF', profile: 'auto' }),
+      expect.objectContaining({ id: 'parents', filePath: join(tempDir, 'parents.xlsx'), sheet: null, profile: 'holdings-list' })
+    ]);
+    await expect(registry.getPortfolio({ filePath: workbookPath }, 'self')).rejects.toThrow('Portfolio not found: self');
+  });
+
+  test('should reject invalid portfolios files', async () => {
+    const configPath = join(tempDir, 'portfolios.json');
+    writeFileSync(configPath, JSON.stringify([{ id: 'household', name: 'Everyone' }]));
+
+    await expect(new PortfolioRegistryService(new PortfolioService(), { configPath }).listPortfolios({ filePath: workbookPath }))
+      .rejects.toThrow('Invalid portfolio household in Portfolios file');
+    await expect(new PortfolioRegistryService(new PortfolioService(), { configPath: join(tempDir, 'missing.json') }).listPortfolios({ filePath: workbookPath }))
+      .rejects.toThrow('Portfolios file not found');
+  });
+});
@@ -2,13 +2,30 @@
  * Tests for PortfolioService
  */
 
+import xlsx from 'xlsx';
 import PortfolioService from '../../src/services/PortfolioService.js';
+import MarketDataService from '../../src/services/MarketDataService.js';
+import SecurityMasterService from '../../src/services/SecurityMasterService.js';
 import { fileURLToPath } from 'url';
-import { dirname, resolve } from 'path';
+import { dirname, resolve, join } from 'path';
+import { writeFileSync, mkdtempSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { createTransaction } from '../../src/models/Transaction.js';
+import { createCorporateAction } from '../../src/models/CorporateAction.js';
+import { createDividend } from '../../src/models/Dividend.js';
+import { createHolding } from '../../src/models/Holding.js';
+import { calculatePortfolioTotals } from '../../src/utils/portfolioCalculations.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Security master loaded from the NSE and BSE list fixtures
+const loadSecurityMaster = async () => {
+  const master = new SecurityMasterService({ directory: resolve(__dirname, '../fixtures/securities') });
+  await master.load();
+  return master;
+};
+
 describe('PortfolioService', () => {
   let service;
 
@@ -72,6 +89,829 @@ describe('PortfolioService', () => {
     });
   });
 
+  describe('parsePortfolioFile', () => {
+    const csv = [
+      'Holdings export',
+      'No,Name,Buy Price,Quantity,Symbol,Category',
+      '1,HDFC Bank,1490,50,HDFCBANK,Banks',
+      '2,Infosys,1400,,INFY,Tech',
+      '3,ICICI Bank,780,84,532174,Banks'
+    ].join('\n');
+
+    test('should detect the header row and column mapping', () => {
+      const result = service.parsePortfolioFile(Buffer.from(csv));
+
+      expect(result.headerRow).toBe(2);
+      expect(result.mapping).toMatchObject({ particulars: 1, purchasePrice: 2, quantity: 3, stockCode: 4, sector: 5 });
+      expect(result.missingColumns).toEqual([]);
+      expect(result.holdings.map(h => [h.nseCode || h.bseCode, h.sector])).toEqual([
+        ['HDFCBANK', 'Banks'],
+        ['532174', 'Banks']
+      ]);
+    });
+
+    test('should report rows that fail validation with their sheet row', () => {
+      const result = service.parsePortfolioFile(Buffer.from(csv));
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({ row: 4, symbol: 'INFY', error: expect.stringContaining('Invalid Qty') })
+      ]);
+    });
+
+    test('should apply mapping overrides', () => {
+      const result = service.parsePortfolioFile(Buffer.from(csv), { mapping: { sector: null } });
+
+      expect(result.detectedMapping.sector).toBe(5);
+      expect(result.holdings.every(h => h.sector === 'Uncategorized')).toBe(true);
+    });
+
+    test('should list unmapped required columns instead of parsing rows', () => {
+      const result = service.parsePortfolioFile(Buffer.from(csv), { mapping: { stockCode: null } });
+
+      expect(result.missingColumns).toEqual(['NSE/BSE']);
+      expect(result.holdings).toEqual([]);
+    });
+
+    test('should read mutual funds from MF: codes or a Type column', () => {
+      const funds = [
+        'No,Name,Buy Price,Quantity,Symbol,Category,Type',
+        '1,Axis Large Cap,50,200.5,MF:120465,,',
+        '2,Parag Parikh Flexi Cap,70,100,122639,Equity,Mutual Fund',
+        '3,Nippon Gold BeES,55,40,GOLDBEES,Gold,ETF',
+        '4,HDFC Bank,1490,50,HDFCBANK,Banks,'
+      ].join('\n');
+      const result = service.parsePortfolioFile(Buffer.from(funds));
+
+      expect(result.errors).toEqual([]);
+      expect(result.holdings.map(h => [h.instrumentType, h.schemeCode, h.nseCode, h.sector])).toEqual([
+        ['mutual_fund', '120465', '', ''],
+        ['mutual_fund', '122639', '', 'Equity'],
+        ['etf', null, 'GOLDBEES', 'Gold'],
+        ['equity', null, 'HDFCBANK', 'Banks']
+      ]);
+      expect(service.getYahooSymbol(result.holdings[0])).toBe('120465.MF');
+    });
+
+    test('should report unknown instrument types', () => {
+      const result = service.parsePortfolioFile(Buffer.from('Name,Buy Price,Quantity,Symbol,Type\nCrypto,1,1,BTC,Coin'));
+
+      expect(result.errors[0].error).toContain('Invalid Type');
+    });
+
+    test('should read the "As of" date above the header row', () => {
+      const inline = service.parsePortfolioFile(Buffer.from(`As of 05/07/2024\n${csv}`));
+      const nextCell = service.parsePortfolioFile(Buffer.from(`Quantities as of,06/07/2024\n${csv}`));
+
+      expect(inline.asOfDate).toBe('2024-07-05');
+      expect(nextCell.asOfDate).toBe('2024-07-06');
+      expect(inline.headerRow).toBe(3);
+      expect(service.parsePortfolioFile(Buffer.from(csv)).asOfDate).toBeNull();
+    });
+
+    test('should reject mappings to columns outside the header row', () => {
+      expect(() => service.parsePortfolioFile(Buffer.from(csv), { mapping: { quantity: 12 } }))
+        .toThrow('Invalid column mapping');
+    });
+  });
+
+  describe('mapping profiles', () => {
+    let tempDir;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'profiles-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should pick the profile that detects the most columns and report it', () => {
+      const csv = 'Company,Ticker,Avg. Cost,Shares,Industry\nInfosys,INFY,1400,10,IT\n';
+      const result = service.parsePortfolioFile(Buffer.from(csv));
+
+      expect(result.profile).toEqual(expect.objectContaining({ id: 'holdings-list', selection: 'auto' }));
+      expect(result.holdings[0]).toEqual(expect.objectContaining({ nseCode: 'INFY', purchasePrice: 1400, sector: 'IT' }));
+    });
+
+    test('should use the standard profile for the portfolio workbook', async () => {
+      const result = await service.loadPortfolioFromExcel(resolve(__dirname, '../../../E555815F_58D029050B.xlsx'));
+
+      expect(result.profile.id).toBe('standard');
+    });
+
+    test('should use an explicit profile and reject unknown ones', () => {
+      const csv = 'Name,Buy Price,Qty,Symbol\nInfosys,1400,10,INFY\n';
+
+      expect(service.parsePortfolioFile(Buffer.from(csv), { profile: 'holdings-list' }).profile)
+        .toEqual(expect.objectContaining({ id: 'holdings-list', selection: 'explicit' }));
+      expect(() => service.parsePortfolioFile(Buffer.from(csv), { profile: 'missing' }))
+        .toThrow('Invalid mapping profile: missing');
+    });
+
+    test('should load profiles with their own sheet, sector rows and number format', async () => {
+      const profilesPath = join(tempDir, 'profiles.json');
+      writeFileSync(profilesPath, JSON.stringify([{
+        id: 'huf',
+        name: 'HUF sheet',
+        sheet: 'HUF',
+        columns: {
+          particulars: ['Aktie'],
+          purchasePrice: ['Kaufkurs'],
+          quantity: ['Stück'],
+          stockCode: ['Kürzel']
+        },
+        sectorRows: { mode: 'nameOnly', strip: [] },
+        numberFormat: { decimalSeparator: ',', thousandsSeparator: '.', currencySymbols: ['€'] }
+      }]));
+
+      expect(await service.loadMappingProfiles(profilesPath)).toBe(1);
+      expect(service.mappingProfiles.map(profile => profile.id)).toEqual(['huf', 'standard', 'holdings-list']);
+
+      const workbook = xlsx.utils.book_new();
+      xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet([['Notes']]), 'Self');
+      xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet([
+        ['Aktie', 'Kaufkurs', 'Stück', 'Kürzel'],
+        ['Banks'],
+        ['HDFC Bank', '1.490,50 €', '50', 'HDFCBANK']
+      ]), 'HUF');
+      const result = service.parsePortfolioFile(xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+
+      expect(result.profile.id).toBe('huf');
+      expect(result.holdings[0]).toEqual(expect.objectContaining({ purchasePrice: 1490.5, quantity: 50, sector: 'Banks' }));
+    });
+
+    test('should reject invalid profiles', async () => {
+      const profilesPath = join(tempDir, 'profiles.json');
+      writeFileSync(profilesPath, JSON.stringify({ profiles: [{ id: 'bad', columns: { particulars: ['Name'] } }] }));
+
+      await expect(service.loadMappingProfiles(profilesPath)).rejects.toThrow('Invalid mapping profile bad: Missing aliases for purchasePrice');
+      await expect(service.loadMappingProfiles(join(tempDir, 'missing.json'))).rejects.toThrow('Mapping profiles file not found');
+    });
+  });
+
+  describe('security master', () => {
+    beforeEach(async () => {
+      service = new PortfolioService({ securityMaster: await loadSecurityMaster() });
+    });
+
+    test('should quote BSE codes under their NSE symbol when listed there', () => {
+      expect(service.getYahooSymbol({ bseCode: '532174' })).toBe('ICICIBANK.NS');
+      expect(service.getYahooSymbol({ bseCode: '511577' })).toBe('511577.BO');
+    });
+
+    test('should fall back to the built-in map for BSE codes the lists lack', () => {
+      const holding = createHolding({ id: '1', particulars: 'KPIT Tech', purchasePrice: 1, quantity: 1, bseCode: '542651' });
+
+      expect(new PortfolioService().getYahooSymbol({ bseCode: '532174' })).toBe('ICICIBANK.NS');
+      expect(new PortfolioService().getYahooSymbol({ bseCode: '544252' })).toBe('BAJAJHFL.NS');
+      expect(service.getYahooSymbol(holding)).toBe('KPITTECH.NS');
+      expect(service.findUnresolvedCodes([holding])).toEqual([]);
+    });
+
+    test('should default the sector of unsectored rows to the industry', () => {
+      const result = service.parsePortfolioFile(Buffer.from([
+        'Name,Buy Price,Quantity,Symbol,Category',
+        'Reliance,2400,10,RELIANCE,',
+        'Savani,20,100,511577,',
+        'Infosys,1400,5,INFY,Tech',
+        'Unknown,10,1,NOTLISTED,'
+      ].join('\n')));
+
+      expect(result.holdings.map(h => h.sector)).toEqual(['Petroleum Products', 'Finance', 'Tech', 'Uncategorized']);
+    });
+
+    test('should report codes missing from the loaded exchange lists', () => {
+      const holdings = [
+        createHolding({ id: '1', particulars: 'Reliance', purchasePrice: 1, quantity: 1, nseCode: 'RELIANCE' }),
+        createHolding({ id: '2', particulars: 'Typo Ltd', purchasePrice: 1, quantity: 1, nseCode: 'RELIANC' }),
+        createHolding({ id: '3', particulars: 'Old Scrip', purchasePrice: 1, quantity: 1, bseCode: '599999' }),
+        createHolding({ id: '4', particulars: 'Axis Large Cap', purchasePrice: 1, quantity: 1, instrumentType: 'mutual_fund', schemeCode: '120465' })
+      ];
+      const symbolMap = new Map([['2', 'RELIANC.NS'], ['3', '599999.BO']]);
+
+      const errors = service.findUnresolvedCodes(holdings, symbolMap);
+
+      expect(errors).toEqual([
+        expect.objectContaining({
+          source: 'system',
+          symbol: 'RELIANC',
+          message: 'Unresolved NSE code RELIANC for Typo Ltd: not in the security master, quoting RELIANC.NS'
+        }),
+        expect.objectContaining({ source: 'system', symbol: '599999', message: expect.stringContaining('Unresolved BSE code 599999') })
+      ]);
+      expect(new PortfolioService().findUnresolvedCodes(holdings, symbolMap)).toEqual([]);
+    });
+  });
+
+  describe('holding identity', () => {
+    const sheet = rows => Buffer.from(['Name,Buy Price,Quantity,Symbol,Category', ...rows].join('\n'));
+
+    test('should key holdings by ISIN and keep their ids across reloads', async () => {
+      service = new PortfolioService({ securityMaster: await loadSecurityMaster() });
+      const rows = ['Reliance,2400,10,RELIANCE,Energy', 'Reliance BSE,2450,5,500325,Energy', 'Savani,20,100,511577,Finance', 'Local,10,1,NOTLISTED,Other'];
+
+      const first = service.parsePortfolioFile(sheet(rows)).holdings;
+      const second = service.parsePortfolioFile(sheet(rows)).holdings;
+
+      expect(first.map(h => [h.id, h.isin])).toEqual([
+        ['INE002A01018', 'INE002A01018'],
+        ['INE002A01018#2', 'INE002A01018'],
+        ['INE304E01018', 'INE304E01018'],
+        ['NSE:NOTLISTED', null]
+      ]);
+      expect(second.map(h => h.id)).toEqual(first.map(h => h.id));
+    });
+
+    test('should fall back to exchange codes without a security master', () => {
+      const { holdings } = service.parsePortfolioFile(sheet(['Infosys,1400,5,INFY,Tech', 'ICICI,780,84,532174,Banks', 'Axis,50,10,MF:120465,']));
+
+      expect(holdings.map(h => h.id)).toEqual(['NSE:INFY', 'BSE:532174', 'MF:120465']);
+    });
+
+    test('should read an ISIN in place of the code', async () => {
+      service = new PortfolioService({ securityMaster: await loadSecurityMaster() });
+      const [holding] = service.parsePortfolioFile(sheet(['Infosys,1400,5,INE009A01021,Tech'])).holdings;
+
+      expect(holding).toMatchObject({ id: 'INE009A01021', nseCode: 'INFY', bseCode: '500209', isin: 'INE009A01021' });
+      expect(service.getYahooSymbol(holding)).toBe('INFY.NS');
+    });
+
+    test('should move renamed tickers to their current symbol', () => {
+      const [holding] = service.parsePortfolioFile(sheet(['Zomato,150,100,ZOMATO,Consumer'])).holdings;
+
+      expect(holding).toMatchObject({ id: 'INE758T01015', nseCode: 'ETERNAL', isin: 'INE758T01015', previousCodes: ['ZOMATO'] });
+      expect(service.getYahooSymbol(holding)).toBe('ETERNAL.NS');
+    });
+
+    test('should apply ledger entries under an old ticker to the renamed holding', () => {
+      const holdings = [createHolding({ particulars: 'Eternal', purchasePrice: 1, quantity: 1, nseCode: 'ETERNAL', sector: 'Consumer' })];
+      const transactions = [
+        createTransaction({ nseCode: 'ZOMATO', type: 'buy', date: '2024-01-10', price: 120, quantity: 100 }),
+        createTransaction({ nseCode: 'ETERNAL', type: 'sell', date: '2025-06-10', price: 250, quantity: 40 })
+      ];
+
+      const result = service.applyTransactions(holdings, transactions);
+
+      expect(result.errors).toEqual([]);
+      expect(result.holdings).toHaveLength(1);
+      expect(result.holdings[0]).toMatchObject({ quantity: 60, realizedGain: 40 * 130 });
+    });
+
+    test('should name ledger-only holdings by their current code', () => {
+      const result = service.applyTransactions([], [
+        createTransaction({ nseCode: 'ADANITRANS', type: 'buy', date: '2023-01-10', price: 2000, quantity: 5 })
+      ]);
+
+      expect(result.holdings[0]).toMatchObject({
+        id: 'INE931S01010',
+        particulars: 'ADANIENSOL',
+        nseCode: 'ADANIENSOL',
+        previousCodes: ['ADANITRANS']
+      });
+    });
+
+    describe('loadSymbolAliases', () => {
+      let tempDir;
+
+      beforeEach(() => {
+        tempDir = mkdtempSync(join(tmpdir(), 'aliases-'));
+      });
+
+      afterEach(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      test('should add aliases to the built-in ones, replacing those for the same code', async () => {
+        const aliasesPath = join(tempDir, 'aliases.json');
+        writeFileSync(aliasesPath, JSON.stringify({ aliases: [
+          { from: '511577', to: 'SAVFI', type: 'migration', date: '2025-02-01' },
+          { from: 'ZOMATO', to: 'ZOMATOLTD' }
+        ] }));
+
+        expect(await service.loadSymbolAliases(aliasesPath)).toBe(2);
+        const { holdings } = service.parsePortfolioFile(sheet(['Savani,20,100,511577,Finance', 'Zomato,150,100,ZOMATO,Consumer', 'LTI,5000,2,LTI,Tech']));
+
+        expect(holdings.map(h => [h.nseCode, h.bseCode])).toEqual([['SAVFI', '511577'], ['ZOMATOLTD', null], ['LTIM', null]]);
+      });
+
+      test('should reject invalid aliases', async () => {
+        const aliasesPath = join(tempDir, 'aliases.json');
+        writeFileSync(aliasesPath, JSON.stringify([{ from: 'ABC', to: 'XYZ', type: 'delisting' }]));
+
+        await expect(service.loadSymbolAliases(aliasesPath)).rejects.toThrow('Invalid symbol alias ABC: Invalid type');
+        await expect(service.loadSymbolAliases(join(tempDir, 'missing.json'))).rejects.toThrow('Symbol aliases file not found');
+      });
+    });
+  });
+
+  describe('portfolio sheets', () => {
+    const buildWorkbook = () => {
+      const workbook = xlsx.utils.book_new();
+      xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet([['Notes']]), 'Cover');
+      xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet([
+        ['Name', 'Buy Price', 'Qty', 'Symbol'],
+        ['HDFC Bank', 1490, 50, 'HDFCBANK']
+      ]), 'Family');
+      xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet([
+        ['Name', 'Buy Price', 'Qty', 'Symbol'],
+        ['Infosys', 1400, 10, 'INFY']
+      ]), 'HUF');
+      return xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+    };
+
+    test('should find the sheets that hold a portfolio', () => {
+      expect(service.findPortfolioSheets(buildWorkbook())).toEqual(['Family', 'HUF']);
+    });
+
+    test('should read the given sheet instead of the profile sheet', () => {
+      const result = service.parsePortfolioFile(buildWorkbook(), { sheet: 'huf' });
+
+      expect(result.holdings.map(h => h.nseCode)).toEqual(['INFY']);
+      expect(() => service.parsePortfolioFile(buildWorkbook(), { sheet: 'Self' })).toThrow('Excel file has no sheet Self');
+    });
+  });
+
+  describe('writePortfolioWorkbook', () => {
+    const buildExport = () => {
+      const holdings = service.calculatePortfolioPercentages([
+        createHolding({ particulars: 'HDFC Bank', purchasePrice: 1490, quantity: 50, nseCode: 'HDFCBANK', sector: 'Financial', cmp: 1700, peRatio: 18.7, latestEarnings: '91.02' }),
+        createHolding({ particulars: 'ICICI Bank', purchasePrice: 780, quantity: 84, nseCode: 'ICICIBANK', bseCode: '532174', sector: 'Financial', cmp: 1215.5 }),
+        createHolding({ particulars: 'Savani Financials', purchasePrice: 24, quantity: 1080, bseCode: '511577', sector: 'Tech', cmp: 0 })
+      ]);
+      const sectors = [...service.groupBySector(holdings)].map(([sector, sectorHoldings]) => ({
+        sector,
+        holdings: sectorHoldings,
+        summary: service.calculateSectorSummary(sectorHoldings, sector)
+      }));
+      return service.writePortfolioWorkbook(sectors, calculatePortfolioTotals(holdings), { sheetName: 'Family' });
+    };
+
+    test('should write a holdings sheet that loads back as the same portfolio', () => {
+      const buffer = buildExport();
+      const result = service.parsePortfolioFile(buffer, { profile: 'standard' });
+
+      expect(service.findPortfolioSheets(buffer)).toEqual(['Family']);
+      expect(result.errors).toEqual([]);
+      expect(result.holdings.map(h => [h.particulars, h.quantity, h.purchasePrice, h.nseCode, h.bseCode, h.sector])).toEqual([
+        ['HDFC Bank', 50, 1490, 'HDFCBANK', null, 'Financial'],
+        ['ICICI Bank', 84, 780, 'ICICIBANK', '532174', 'Financial'],
+        ['Savani Financials', 1080, 24, '', '511577', 'Tech']
+      ]);
+      expect(result.holdings[0].peRatio).toBe(18.7);
+      expect(result.holdings[0].latestEarnings).toBe('91.02');
+    });
+
+    test('should write instrument types and scheme codes that load back', () => {
+      const holdings = [
+        createHolding({ particulars: 'Axis Large Cap', purchasePrice: 50, quantity: 200, instrumentType: 'mutual_fund', schemeCode: '120465', sector: 'Funds', cmp: 58.4 }),
+        createHolding({ particulars: 'Gold BeES', purchasePrice: 55, quantity: 40, instrumentType: 'etf', nseCode: 'GOLDBEES', sector: 'Funds', cmp: 61 })
+      ];
+      const sectors = [{ sector: 'Funds', holdings, summary: service.calculateSectorSummary(holdings, 'Funds') }];
+      const buffer = service.writePortfolioWorkbook(sectors, calculatePortfolioTotals(holdings));
+      const result = service.parsePortfolioFile(buffer, { profile: 'standard' });
+
+      expect(result.holdings.map(h => [h.instrumentType, h.schemeCode, h.nseCode, h.sector])).toEqual([
+        ['mutual_fund', '120465', '', 'Funds'],
+        ['etf', null, 'GOLDBEES', 'Funds']
+      ]);
+    });
+
+    test('should write live values and a summary of sector totals', () => {
+      const workbook = xlsx.read(buildExport(), { type: 'buffer' });
+      const rows = xlsx.utils.sheet_to_json(workbook.Sheets.Family, { header: 1, defval: null });
+      const summary = xlsx.utils.sheet_to_json(workbook.Sheets.Summary, { defval: null });
+
+      expect(rows[1].slice(1, 2)).toEqual(['Financial Sector']);
+      expect(rows[2].slice(7, 10)).toEqual([1700, 85000, 10500]);
+      // No price fetched: live columns stay blank
+      expect(rows[5].slice(7, 10)).toEqual([null, null, null]);
+      expect(rows[6][1]).toBe('Portfolio Total');
+      expect(summary.map(row => [row.Sector, row.Holdings, row.Investment])).toEqual([
+        ['Financial', 2, 140020],
+        ['Tech', 1, 25920],
+        ['Total', 3, 165940]
+      ]);
+    });
+  });
+
+  describe('loadTransactionsFromFile', () => {
+    let tempDir;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'ledger-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should parse a CSV ledger sorted by date', async () => {
+      const ledgerPath = join(tempDir, 'transactions.csv');
+      writeFileSync(ledgerPath, [
+        'Date,Type,NSE/BSE,Particulars,Price,Qty,Charges',
+        '2024-01-08,Sell,INFY,Infosys,1610,5,18.1',
+        '2023-04-12,Buy,INFY,Infosys,1390.5,20,35.4'
+      ].join('\n'));
+
+      const result = await service.loadTransactionsFromFile(ledgerPath);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.transactions).toHaveLength(2);
+      expect(result.transactions[0].date).toBe('2023-04-12');
+      expect(result.transactions[0].type).toBe('buy');
+      expect(result.transactions[0].netAmount).toBeCloseTo(1390.5 * 20 + 35.4);
+      expect(result.transactions[1].type).toBe('sell');
+      expect(result.transactions[1].netAmount).toBeCloseTo(1610 * 5 - 18.1);
+    });
+
+    test('should read DD/MM/YYYY dates day first outside UTC', async () => {
+      const timeZone = process.env.TZ;
+      process.env.TZ = 'Asia/Kolkata';
+      const ledgerPath = join(tempDir, 'transactions.csv');
+      writeFileSync(ledgerPath, [
+        'Date,Type,NSE/BSE,Price,Qty',
+        '05/07/2024,Buy,INFY,1390.5,20',
+        '06-07-2024,Buy,INFY,1400,5'
+      ].join('\n'));
+
+      try {
+        const result = await service.loadTransactionsFromFile(ledgerPath);
+
+        expect(result.transactions.map(t => t.date)).toEqual(['2024-07-05', '2024-07-06']);
+      } finally {
+        if (timeZone === undefined) delete process.env.TZ;
+        else process.env.TZ = timeZone;
+      }
+    });
+
+    test('should read prices and charges with thousands separators', async () => {
+      const ledgerPath = join(tempDir, 'transactions.csv');
+      writeFileSync(ledgerPath, [
+        'Date,Type,NSE/BSE,Price,Qty,Charges',
+        '2024-07-05,Buy,INFY,"1,390.50","1,000","1,020"'
+      ].join('\n'));
+
+      const result = await service.loadTransactionsFromFile(ledgerPath);
+
+      expect(result.transactions[0]).toMatchObject({ price: 1390.5, quantity: 1000, charges: 1020 });
+    });
+
+    test('should report invalid rows with their row number', async () => {
+      const ledgerPath = join(tempDir, 'transactions.csv');
+      writeFileSync(ledgerPath, [
+        'Date,Type,NSE/BSE,Price,Qty',
+        '2023-04-12,Buy,INFY,1390.5,20',
+        '2023-04-13,Transfer,INFY,1400,5'
+      ].join('\n'));
+
+      const result = await service.loadTransactionsFromFile(ledgerPath);
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].row).toBe(3);
+      expect(result.errors[0].error).toContain('Invalid type');
+    });
+
+    test('should throw error for non-existent file', async () => {
+      await expect(
+        service.loadTransactionsFromFile('/path/to/nonexistent/ledger.csv')
+      ).rejects.toThrow('Transactions file not found');
+    });
+  });
+
+  describe('applyTransactions', () => {
+    const buy = (nseCode, date, price, quantity, charges = 0) =>
+      createTransaction({ nseCode, type: 'buy', date, price, quantity, charges });
+    const sell = (nseCode, date, price, quantity, charges = 0) =>
+      createTransaction({ nseCode, type: 'sell', date, price, quantity, charges });
+
+    test('should derive quantity and investment from buys', () => {
+      const holdings = [
+        { id: '1', particulars: 'Infosys', nseCode: 'INFY', purchasePrice: 1, quantity: 1, investment: 1, sector: 'Tech' }
+      ];
+      const transactions = [
+        buy('INFY', '2023-01-01', 100, 10, 10),
+        buy('INFY', '2023-06-01', 130, 10, 10)
+      ];
+
+      const result = service.applyTransactions(holdings, transactions);
+
+      expect(result.holdings).toHaveLength(1);
+      expect(result.holdings[0].quantity).toBe(20);
+      expect(result.holdings[0].investment).toBe(2320);
+      expect(result.holdings[0].purchasePrice).toBe(116);
+      expect(result.holdings[0].sector).toBe('Tech');
+    });
+
+    test('should reduce cost proportionally on sells', () => {
+      const holdings = [
+        { id: '1', particulars: 'Infosys', nseCode: 'INFY', purchasePrice: 1, quantity: 1, investment: 1, sector: 'Tech' }
+      ];
+      const transactions = [
+        buy('INFY', '2023-01-01', 100, 10),
+        sell('INFY', '2023-06-01', 150, 4)
+      ];
+
+      const result = service.applyTransactions(holdings, transactions);
+
+      expect(result.holdings[0].quantity).toBe(6);
+      expect(result.holdings[0].investment).toBeCloseTo(600);
+      expect(result.holdings[0].purchasePrice).toBeCloseTo(100);
+    });
+
+    test('should track FIFO lots and realized gain', () => {
+      const transactions = [
+        buy('INFY', '2022-01-01', 100, 10),
+        buy('INFY', '2023-01-01', 200, 10),
+        sell('INFY', '2024-01-01', 250, 15)
+      ];
+
+      const result = service.applyTransactions([], transactions);
+      const holding = result.holdings[0];
+
+      expect(holding.quantity).toBe(5);
+      expect(holding.investment).toBe(1000);
+      expect(holding.realizedGain).toBe(1750);
+      expect(holding.lots).toHaveLength(1);
+      expect(holding.lots[0].date).toBe('2023-01-01');
+    });
+
+    test('should report sells that exceed the held quantity', () => {
+      const result = service.applyTransactions([], [
+        buy('INFY', '2023-01-01', 100, 5),
+        sell('INFY', '2023-06-01', 150, 8)
+      ]);
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].symbol).toBe('INFY');
+      expect(result.holdings[0].quantity).toBe(0);
+    });
+
+    test('should add holdings that only exist in the ledger', () => {
+      const holdings = [
+        { id: '1', particulars: 'Infosys', nseCode: 'INFY', purchasePrice: 100, quantity: 10, investment: 1000, sector: 'Tech' }
+      ];
+
+      const result = service.applyTransactions(holdings, [buy('TCS', '2023-01-01', 3000, 2)]);
+
+      expect(result.holdings).toHaveLength(2);
+      expect(result.holdings[0]).toBe(holdings[0]);
+      expect(result.holdings[1].nseCode).toBe('TCS');
+      expect(result.holdings[1].investment).toBe(6000);
+      expect(result.holdings[1].sector).toBe('Uncategorized');
+    });
+
+    test('should match BSE ledger entries to NSE holdings', async () => {
+      service = new PortfolioService({ securityMaster: await loadSecurityMaster() });
+      const holdings = [
+        { id: '1', particulars: 'ICICI Bank', nseCode: 'ICICIBANK', purchasePrice: 1, quantity: 1, investment: 1, sector: 'Financial' }
+      ];
+      const transactions = [
+        createTransaction({ bseCode: '532174', type: 'buy', date: '2023-01-01', price: 900, quantity: 10 })
+      ];
+
+      const result = service.applyTransactions(holdings, transactions);
+
+      expect(result.holdings).toHaveLength(1);
+      expect(result.holdings[0].quantity).toBe(10);
+      expect(result.holdings[0].investment).toBe(9000);
+    });
+  });
+
+  describe('loadCorporateActionsFromFile', () => {
+    let tempDir;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'actions-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should parse actions sorted by ex-date with demerger columns', async () => {
+      const actionsPath = join(tempDir, 'corporate-actions.csv');
+      writeFileSync(actionsPath, [
+        'Ex-Date,Type,NSE/BSE,Ratio,Price,Cost %,New NSE/BSE,New Name',
+        '2024-09-02,Demerger,RELIANCE,1:1,,4.7%,JIOFIN,Jio Financial',
+        '2023-05-15,Split,INFY,5:1,,,,',
+        '2023-08-01,Rights,HDFCBANK,1:5,abc,,,'
+      ].join('\n'));
+
+      const result = await service.loadCorporateActionsFromFile(actionsPath);
+
+      expect(result.actions.map(a => a.type)).toEqual(['split', 'demerger']);
+      expect(result.actions[0]).toMatchObject({ nseCode: 'INFY', ratioNew: 5, ratioHeld: 1 });
+      expect(result.actions[1]).toMatchObject({
+        nseCode: 'RELIANCE',
+        newNseCode: 'JIOFIN',
+        newParticulars: 'Jio Financial',
+        costAllocation: 4.7
+      });
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].row).toBe(4);
+      expect(result.errors[0].error).toContain('Invalid price');
+    });
+
+    test('should read rights prices with thousands separators', async () => {
+      const actionsPath = join(tempDir, 'corporate-actions.csv');
+      writeFileSync(actionsPath, 'Ex-Date,Type,NSE/BSE,Ratio,Price\n2024-03-01,Rights,TCS,1:4,"1,250"');
+
+      const result = await service.loadCorporateActionsFromFile(actionsPath);
+
+      expect(result.actions[0].price).toBe(1250);
+    });
+
+    test('should read DD/MM/YYYY ex-dates day first outside UTC', async () => {
+      const timeZone = process.env.TZ;
+      process.env.TZ = 'Asia/Kolkata';
+      const actionsPath = join(tempDir, 'corporate-actions.csv');
+      writeFileSync(actionsPath, 'Ex-Date,Type,NSE/BSE,Ratio\n02/09/2024,Split,INFY,5:1');
+
+      try {
+        const result = await service.loadCorporateActionsFromFile(actionsPath);
+
+        expect(result.actions[0].exDate).toBe('2024-09-02');
+      } finally {
+        if (timeZone === undefined) delete process.env.TZ;
+        else process.env.TZ = timeZone;
+      }
+    });
+
+    test('should apply actions after the sheet\'s "As of" date when the sheet is saved later', async () => {
+      const sheetPath = join(tempDir, 'portfolio.csv');
+      const actionsPath = join(tempDir, 'corporate-actions.csv');
+      writeFileSync(sheetPath, [
+        'As of,30/06/2024',
+        'No,Particulars,Purchase Price,Qty,NSE/BSE',
+        '1,Infosys,1500,10,INFY'
+      ].join('\n'));
+      writeFileSync(actionsPath, 'Ex-Date,Type,NSE/BSE,Ratio\n2024-09-02,Split,INFY,5:1');
+      // Saved again after the ex-date without touching the quantities
+      utimesSync(sheetPath, new Date('2024-10-01'), new Date('2024-10-01'));
+
+      const sheet = await service.loadPortfolioFromExcel(sheetPath);
+      const { actions } = await service.loadCorporateActionsFromFile(actionsPath);
+      const [result] = service.applyCorporateActions(sheet.holdings, actions, sheet.asOfDate, '2025-01-01');
+
+      expect(sheet.asOfDate).toBe('2024-06-30');
+      expect(result.quantity).toBe(50);
+      expect(result.purchasePrice).toBe(300);
+    });
+
+    test('should throw error for non-existent file', async () => {
+      await expect(
+        service.loadCorporateActionsFromFile('/path/to/nonexistent/actions.csv')
+      ).rejects.toThrow('Corporate actions file not found');
+    });
+  });
+
+  describe('applyTransactions with corporate actions', () => {
+    const buy = (nseCode, date, price, quantity) =>
+      createTransaction({ nseCode, type: 'buy', date, price, quantity });
+    const sell = (nseCode, date, price, quantity) =>
+      createTransaction({ nseCode, type: 'sell', date, price, quantity });
+
+    test('should restate lots after a split and match later sells in new units', () => {
+      const split = createCorporateAction({ type: 'split', nseCode: 'INFY', exDate: '2023-06-01', ratio: '2:1' });
+      const result = service.applyTransactions([], [
+        buy('INFY', '2023-01-01', 1000, 10),
+        sell('INFY', '2023-07-01', 600, 5)
+      ], [split]);
+
+      const [holding] = result.holdings;
+      expect(holding.quantity).toBe(15);
+      expect(holding.investment).toBe(7500);
+      expect(holding.purchasePrice).toBe(500);
+      expect(holding.realizedGain).toBe(500);
+      expect(holding.adjustments).toHaveLength(1);
+      expect(holding.adjustments[0]).toMatchObject({ description: 'Split 2:1', quantityBefore: 10, quantityAfter: 20 });
+    });
+
+    test('should move the allocated cost of a demerger into the new company', () => {
+      const demerger = createCorporateAction({
+        type: 'demerger',
+        nseCode: 'RELIANCE',
+        exDate: '2023-07-20',
+        ratio: '1:1',
+        costAllocation: 5,
+        newNseCode: 'JIOFIN',
+        newParticulars: 'Jio Financial'
+      });
+      const holdings = [
+        { id: '1', particulars: 'Reliance', nseCode: 'RELIANCE', purchasePrice: 1, quantity: 1, investment: 1, sector: 'Energy' }
+      ];
+
+      const result = service.applyTransactions(holdings, [buy('RELIANCE', '2022-01-01', 2000, 10)], [demerger]);
+
+      expect(result.holdings).toHaveLength(2);
+      expect(result.holdings[0].investment).toBeCloseTo(19000);
+      const jio = result.holdings[1];
+      expect(jio).toMatchObject({ nseCode: 'JIOFIN', particulars: 'Jio Financial', sector: 'Energy', quantity: 10 });
+      expect(jio.investment).toBeCloseTo(1000);
+      expect(jio.lots[0].date).toBe('2022-01-01');
+      expect(jio.adjustments[0].description).toContain('Received in demerger of RELIANCE');
+    });
+  });
+
+  describe('applyCorporateActions', () => {
+    const holding = (nseCode, purchasePrice, quantity) => ({
+      id: nseCode,
+      particulars: nseCode,
+      nseCode,
+      purchasePrice,
+      quantity,
+      sector: 'Tech',
+      lots: [],
+      realizedLots: []
+    });
+
+    test('should adjust sheet holdings for actions after the sheet\'s "As of" date', () => {
+      const actions = [
+        createCorporateAction({ type: 'bonus', nseCode: 'TCS', exDate: '2024-03-01', ratio: '1:1' }),
+        createCorporateAction({ type: 'split', nseCode: 'TCS', exDate: '2023-01-01', ratio: '10:1' })
+      ];
+
+      const [result] = service.applyCorporateActions([holding('TCS', 3000, 10)], actions, '2023-06-30', '2025-01-01');
+
+      // Only the bonus falls after the sheet date
+      expect(result.quantity).toBe(20);
+      expect(result.purchasePrice).toBe(1500);
+      expect(result.adjustments).toHaveLength(1);
+      expect(result.adjustments[0]).toMatchObject({ type: 'bonus', investmentBefore: 30000, investmentAfter: 30000 });
+    });
+
+    test('should leave sheet holdings as written without an "As of" date', () => {
+      const actions = [createCorporateAction({ type: 'split', nseCode: 'TCS', exDate: '2024-03-01', ratio: '2:1' })];
+
+      const [result] = service.applyCorporateActions([holding('TCS', 3000, 10)], actions, null, '2025-01-01');
+
+      expect(result.quantity).toBe(10);
+      expect(result.adjustments || []).toHaveLength(0);
+    });
+
+    test('should ignore actions with a future ex-date', () => {
+      const actions = [createCorporateAction({ type: 'split', nseCode: 'TCS', exDate: '2026-01-01', ratio: '2:1' })];
+
+      const [result] = service.applyCorporateActions([holding('TCS', 3000, 10)], actions, '2024-01-01', '2025-01-01');
+
+      expect(result.quantity).toBe(10);
+      expect(result.adjustments || []).toHaveLength(0);
+    });
+
+    test('should add a subscribed rights entitlement to the cost', () => {
+      const actions = [createCorporateAction({ type: 'rights', nseCode: 'TCS', exDate: '2024-03-01', ratio: '1:4', price: 1000 })];
+
+      const [result] = service.applyCorporateActions([holding('TCS', 2000, 10)], actions, '2024-01-01', '2025-01-01');
+
+      // 10 held -> 2 whole rights shares at 1000
+      expect(result.quantity).toBe(12);
+      expect(result.investment).toBe(22000);
+    });
+
+    test('should leave ledger-derived holdings to applyTransactions', () => {
+      const ledgerHolding = {
+        ...holding('TCS', 3000, 10),
+        lots: [{ transactionId: 't1', date: '2023-01-01', quantity: 10, price: 3000, investment: 30000 }]
+      };
+      const actions = [createCorporateAction({ type: 'split', nseCode: 'TCS', exDate: '2024-03-01', ratio: '2:1' })];
+
+      const [result] = service.applyCorporateActions([ledgerHolding], actions, '2023-06-30', '2025-01-01');
+
+      expect(result.quantity).toBe(10);
+    });
+  });
+
+  describe('applyDividends', () => {
+    test('should attach paid dividends by NSE or BSE code', () => {
+      const holdings = [
+        { nseCode: 'ITC', bseCode: null, purchasePrice: 400, quantity: 100, investment: 40000 },
+        { nseCode: '', bseCode: '500209', purchasePrice: 1500, quantity: 10, investment: 15000 }
+      ];
+      const dividends = [
+        createDividend({ nseCode: 'ITC', paymentDate: '2025-06-12', amount: 785 }),
+        createDividend({ bseCode: '500209', paymentDate: '2025-07-25', amount: 220 }),
+        createDividend({ nseCode: 'ITC', paymentDate: '2025-12-01', amount: 600 })
+      ];
+
+      const [itc, infy] = service.applyDividends(holdings, dividends, '2025-08-01');
+
+      // The December dividend is not paid yet
+      expect(itc.dividends).toHaveLength(1);
+      expect(itc.dividendsReceived).toBe(785);
+      expect(itc.dividendYieldOnCost).toBeCloseTo(1.9625);
+      expect(infy.dividendsReceived).toBe(220);
+    });
+
+    test('should leave holdings without dividends at zero', () => {
+      const [result] = service.applyDividends([{ nseCode: 'TCS', purchasePrice: 3000, quantity: 10 }], [], '2025-08-01');
+
+      expect(result.dividends).toEqual([]);
+      expect(result.dividendsReceived).toBe(0);
+      expect(result.dividendYieldOnCost).toBe(0);
+    });
+  });
+
   describe('calculateMetrics', () => {
     test('should calculate Investment correctly (Purchase Price × Quantity)', () => {
       const holding = {
@@ -187,6 +1027,45 @@ describe('PortfolioService', () => {
     });
   });
 
+  describe('calculateMetrics with lots', () => {
+    test('should split unrealized gain and value open lots', () => {
+      const holding = {
+        purchasePrice: 100,
+        quantity: 10,
+        realizedGain: 250,
+        lots: [
+          { date: '2022-01-01', quantity: 4, price: 90, investment: 360 },
+          { date: '2023-01-01', quantity: 6, price: 110, investment: 640 }
+        ]
+      };
+
+      const result = service.calculateMetrics(holding, 120);
+
+      expect(result.unrealizedGain).toBe(200);
+      expect(result.realizedGain).toBe(250);
+      expect(result.lots[0].gainLoss).toBe(120);
+      expect(result.lots[1].gainLoss).toBe(80);
+    });
+  });
+
+  describe('calculateMetrics with previous close', () => {
+    test('should calculate today\'s change from the previous close', () => {
+      const result = service.calculateMetrics({ purchasePrice: 100, quantity: 10 }, 110, 105);
+
+      expect(result.previousClose).toBe(105);
+      expect(result.dayChange).toBe(50);
+      expect(result.dayChangePercent).toBeCloseTo((5 / 105) * 100, 10);
+    });
+
+    test('should report no change without a previous close', () => {
+      const result = service.calculateMetrics({ purchasePrice: 100, quantity: 10 }, 110);
+
+      expect(result.previousClose).toBeNull();
+      expect(result.dayChange).toBe(0);
+      expect(result.dayChangePercent).toBe(0);
+    });
+  });
+
   describe('calculatePortfolioPercentages', () => {
     test('should calculate correct portfolio percentages', () => {
       const holdings = [
@@ -265,15 +1144,24 @@ describe('PortfolioService', () => {
     let mockYahooService;
     let mockGoogleService;
 
-    beforeEach(() => {
-      // Create mock services with simple mock functions
-      mockYahooService = {
-        getBatchPrices: async () => new Map()
-      };
+    // Quotes without a previous close, keyed by symbol
+    const quotes = entries => new Map(entries.map(([symbol, price]) => [symbol, { price, previousClose: null }]));
+    // getFundamentals answering from a symbol map
+    const fundamentalsFrom = entries => async symbol => new Map(entries).get(symbol) ?? null;
+    const chain = () => new MarketDataService([mockYahooService, mockGoogleService]);
 
-      mockGoogleService = {
-        getBatchFinancials: async () => new Map()
-      };
+    beforeEach(() => {
+      // Create mock providers with simple mock functions
+      const provider = id => ({
+        id,
+        getQuote: async () => null,
+        getBatchQuotes: async () => new Map(),
+        getFundamentals: async () => null,
+        getHistory: async () => []
+      });
+
+      mockYahooService = provider('yahoo');
+      mockGoogleService = provider('google');
     });
 
     test('should enrich holdings with CMP and financial data', async () => {
@@ -297,22 +1185,18 @@ describe('PortfolioService', () => {
       ];
 
       // Mock Yahoo Finance responses
-      mockYahooService.getBatchPrices = async () => new Map([
+      mockYahooService.getBatchQuotes = async () => quotes([
         ['RELIANCE.NS', 2500],
         ['TCS.NS', 3500]
       ]);
 
       // Mock Google Finance responses
-      mockGoogleService.getBatchFinancials = async () => new Map([
+      mockGoogleService.getFundamentals = fundamentalsFrom([
         ['RELIANCE.NS', { peRatio: 25.5, latestEarnings: 'Q4 2024' }],
         ['TCS.NS', { peRatio: 30.2, latestEarnings: 'Q3 2024' }]
       ]);
 
-      const result = await service.enrichWithLiveData(
-        holdings,
-        mockYahooService,
-        mockGoogleService
-      );
+      const result = await service.enrichWithLiveData(holdings, chain());
 
       expect(result.holdings).toHaveLength(2);
       expect(result.errors).toHaveLength(0);
@@ -356,18 +1240,12 @@ describe('PortfolioService', () => {
         }
       ];
 
-      mockYahooService.getBatchPrices = async () => new Map([
+      mockYahooService.getBatchQuotes = async () => quotes([
         ['STOCKA.NS', 150],
         ['STOCKB.NS', 250]
       ]);
 
-      mockGoogleService.getBatchFinancials = async () => new Map();
-
-      const result = await service.enrichWithLiveData(
-        holdings,
-        mockYahooService,
-        mockGoogleService
-      );
+      const result = await service.enrichWithLiveData(holdings, chain());
 
       // Total investment: 1000 + 2000 = 3000
       // Stock A: 1000/3000 = 33.33%
@@ -397,18 +1275,12 @@ describe('PortfolioService', () => {
       ];
 
       // Only one stock has CMP data
-      mockYahooService.getBatchPrices = async () => new Map([
+      mockYahooService.getBatchQuotes = async () => quotes([
         ['STOCKA.NS', 150]
         // STOCKB.NS is missing
       ]);
 
-      mockGoogleService.getBatchFinancials = async () => new Map();
-
-      const result = await service.enrichWithLiveData(
-        holdings,
-        mockYahooService,
-        mockGoogleService
-      );
+      const result = await service.enrichWithLiveData(holdings, chain());
 
       expect(result.holdings).toHaveLength(2);
       expect(result.errors.length).toBeGreaterThan(0);
@@ -434,19 +1306,15 @@ describe('PortfolioService', () => {
       ];
 
       // Yahoo Finance fails
-      mockYahooService.getBatchPrices = async () => {
+      mockYahooService.getBatchQuotes = async () => {
         throw new Error('Yahoo Finance API error');
       };
 
-      mockGoogleService.getBatchFinancials = async () => new Map([
+      mockGoogleService.getFundamentals = fundamentalsFrom([
         ['STOCKA.NS', { peRatio: 25.0, latestEarnings: 'Q4 2024' }]
       ]);
 
-      const result = await service.enrichWithLiveData(
-        holdings,
-        mockYahooService,
-        mockGoogleService
-      );
+      const result = await service.enrichWithLiveData(holdings, chain());
 
       expect(result.holdings).toHaveLength(1);
       expect(result.errors.length).toBeGreaterThan(0);
@@ -469,20 +1337,16 @@ describe('PortfolioService', () => {
         }
       ];
 
-      mockYahooService.getBatchPrices = async () => new Map([
+      mockYahooService.getBatchQuotes = async () => quotes([
         ['STOCKA.NS', 150]
       ]);
 
       // Google Finance fails
-      mockGoogleService.getBatchFinancials = async () => {
+      mockGoogleService.getFundamentals = async () => {
         throw new Error('Google Finance API error');
       };
 
-      const result = await service.enrichWithLiveData(
-        holdings,
-        mockYahooService,
-        mockGoogleService
-      );
+      const result = await service.enrichWithLiveData(holdings, chain());
 
       expect(result.holdings).toHaveLength(1);
       expect(result.errors.length).toBeGreaterThan(0);
@@ -505,19 +1369,15 @@ describe('PortfolioService', () => {
         }
       ];
 
-      mockYahooService.getBatchPrices = async () => {
+      mockYahooService.getBatchQuotes = async () => {
         throw new Error('Yahoo Finance API error');
       };
 
-      mockGoogleService.getBatchFinancials = async () => {
+      mockGoogleService.getFundamentals = async () => {
         throw new Error('Google Finance API error');
       };
 
-      const result = await service.enrichWithLiveData(
-        holdings,
-        mockYahooService,
-        mockGoogleService
-      );
+      const result = await service.enrichWithLiveData(holdings, chain());
 
       expect(result.holdings).toHaveLength(1);
       expect(result.errors.length).toBeGreaterThanOrEqual(2);
@@ -526,11 +1386,7 @@ describe('PortfolioService', () => {
     });
 
     test('should handle empty holdings array', async () => {
-      const result = await service.enrichWithLiveData(
-        [],
-        mockYahooService,
-        mockGoogleService
-      );
+      const result = await service.enrichWithLiveData([], chain());
 
       expect(result.holdings).toHaveLength(0);
       expect(result.errors).toHaveLength(0);
@@ -551,23 +1407,19 @@ describe('PortfolioService', () => {
       let yahooCallTime;
       let googleCallTime;
 
-      mockYahooService.getBatchPrices = async () => {
+      mockYahooService.getBatchQuotes = async () => {
         yahooCallTime = Date.now();
         await new Promise(resolve => setTimeout(resolve, 50));
-        return new Map([['STOCKA.NS', 150]]);
+        return quotes([['STOCKA.NS', 150]]);
       };
 
-      mockGoogleService.getBatchFinancials = async () => {
+      mockGoogleService.getFundamentals = async () => {
         googleCallTime = Date.now();
         await new Promise(resolve => setTimeout(resolve, 50));
-        return new Map([['STOCKA.NS', { peRatio: 25.0, latestEarnings: 'Q4 2024' }]]);
+        return { peRatio: 25.0, latestEarnings: 'Q4 2024' };
       };
 
-      await service.enrichWithLiveData(
-        holdings,
-        mockYahooService,
-        mockGoogleService
-      );
+      await service.enrichWithLiveData(holdings, chain());
 
       // Both services should be called at approximately the same time (parallel)
       expect(Math.abs(yahooCallTime - googleCallTime)).toBeLessThan(100);
@@ -585,24 +1437,75 @@ describe('PortfolioService', () => {
         }
       ];
 
-      mockYahooService.getBatchPrices = async () => new Map([
+      mockYahooService.getBatchQuotes = async () => quotes([
         ['STOCKA.NS', 150]
       ]);
 
       // Google Finance returns data with null values
-      mockGoogleService.getBatchFinancials = async () => new Map([
+      mockGoogleService.getFundamentals = fundamentalsFrom([
         ['STOCKA.NS', { peRatio: null, latestEarnings: null }]
       ]);
 
-      const result = await service.enrichWithLiveData(
-        holdings,
-        mockYahooService,
-        mockGoogleService
-      );
+      const result = await service.enrichWithLiveData(holdings, chain());
 
       expect(result.holdings[0].peRatio).toBeNull();
       expect(result.holdings[0].latestEarnings).toBeNull();
       expect(result.holdings[0].cmp).toBe(150);
     });
+
+    test('should price symbols the first provider misses from the next and record the provider', async () => {
+      const holdings = [
+        { id: '1', particulars: 'Stock A', purchasePrice: 100, quantity: 10, nseCode: 'STOCKA', sector: 'Technology' },
+        { id: '2', particulars: 'Stock B', purchasePrice: 200, quantity: 10, nseCode: 'STOCKB', sector: 'Finance' }
+      ];
+      const requested = [];
+
+      mockYahooService.getBatchQuotes = async () => quotes([['STOCKA.NS', 150]]);
+      mockGoogleService.getBatchQuotes = async symbols => {
+        requested.push(...symbols);
+        return quotes([['STOCKB.NS', 250]]);
+      };
+
+      const result = await service.enrichWithLiveData(holdings, chain());
+
+      expect(requested).toEqual(['STOCKB.NS']);
+      expect(result.holdings.map(h => [h.cmp, h.priceProvider])).toEqual([[150, 'yahoo'], [250, 'google']]);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    test('should price funds at NAV and group them by scheme category', async () => {
+      const holdings = [
+        createHolding({ id: '1', particulars: 'Axis Large Cap', purchasePrice: 50, quantity: 200.5, instrumentType: 'mutual_fund', schemeCode: '120465' }),
+        createHolding({ id: '2', particulars: 'Reliance', purchasePrice: 2000, quantity: 10, nseCode: 'RELIANCE', sector: 'Energy' })
+      ];
+      const fundamentalsAsked = [];
+      const amfi = {
+        id: 'amfi',
+        getQuote: async () => null,
+        getBatchQuotes: async () => new Map([['120465.MF', { price: 58.4, previousClose: 58, category: 'Equity Scheme - Large Cap Fund' }]]),
+        getFundamentals: async () => null,
+        getHistory: async () => [],
+        supportsSymbol: symbol => symbol.endsWith('.MF')
+      };
+      mockYahooService.getBatchQuotes = async () => quotes([['RELIANCE.NS', 2500]]);
+      mockGoogleService.getFundamentals = async symbol => {
+        fundamentalsAsked.push(symbol);
+        return null;
+      };
+
+      const result = await service.enrichWithLiveData(holdings, new MarketDataService([mockYahooService, mockGoogleService, amfi]));
+      const [fund] = result.holdings;
+
+      expect(fund).toEqual(expect.objectContaining({
+        cmp: 58.4,
+        presentValue: 58.4 * 200.5,
+        priceProvider: 'amfi',
+        schemeCategory: 'Equity Scheme - Large Cap Fund',
+        sector: 'Equity Scheme - Large Cap Fund'
+      }));
+      expect(fund.gainLoss).toBeCloseTo(1684.2);
+      expect(fundamentalsAsked).toEqual(['RELIANCE.NS']);
+      expect([...service.groupBySector(result.holdings).keys()]).toEqual(['Equity Scheme - Large Cap Fund', 'Energy']);
+    });
   });
 });
@@ -0,0 +1,95 @@
+/**
+ * Tests for SecurityMasterService, using NSE and BSE security list fixtures
+ */
+
+import { mkdtempSync, rmSync, copyFileSync, writeFileSync, utimesSync } from 'fs';
+import { join, dirname } from 'path';
+import { tmpdir } from 'os';
+import { fileURLToPath } from 'url';
+import SecurityMasterService from '../../src/services/SecurityMasterService.js';
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), '../fixtures/securities');
+
+describe('SecurityMasterService', () => {
+  let tempDir;
+  let service;
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'securities-'));
+    copyFileSync(join(fixtures, 'EQUITY_L.csv'), join(tempDir, 'EQUITY_L.csv'));
+    copyFileSync(join(fixtures, 'Equity.csv'), join(tempDir, 'Equity.csv'));
+    service = new SecurityMasterService({ directory: tempDir, refreshInterval: 0 });
+    await service.load();
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should resolve BSE scrip codes and ids to NSE symbols', () => {
+    expect(service.getNseFromBse('532174')).toBe('ICICIBANK');
+    expect(service.getNseFromBse('RELIANCE')).toBe('RELIANCE');
+    expect(service.getNseFromBse('511577')).toBeNull();
+    expect(service.getNseFromBse('999999')).toBeNull();
+  });
+
+  test('should find a security by ISIN, NSE symbol or BSE code', () => {
+    const reliance = service.findByIsin('ine002a01018');
+
+    expect(reliance).toEqual({
+      isin: 'INE002A01018',
+      nseSymbol: 'RELIANCE',
+      bseCode: '500325',
+      bseSymbol: 'RELIANCE',
+      name: 'Reliance Industries Limited',
+      industry: 'Petroleum Products'
+    });
+    expect(service.resolve({ nseCode: 'reliance' })).toBe(reliance);
+    expect(service.resolve({ bseCode: '500325' })).toBe(reliance);
+    expect(service.resolve({ nseCode: 'UNKNOWN' })).toBeNull();
+  });
+
+  test('should skip delisted scrips and debt instruments', () => {
+    expect(service.findByBseCode('500001')).toBeNull();
+    expect(service.findByBseCode('800100')).toBeNull();
+    expect(service.getStats()).toEqual({ files: 2, securities: 6, exchanges: ['BSE', 'NSE'] });
+  });
+
+  test('should search by name, symbol and code', () => {
+    expect(service.search('tata').map(s => s.nseSymbol)).toEqual(['TATACONSUM', 'TATAPOWER']);
+    expect(service.search('tata power')[0].nseSymbol).toBe('TATAPOWER');
+    expect(service.search('500325')[0].nseSymbol).toBe('RELIANCE');
+    expect(service.search('INFY')[0].name).toBe('Infosys Limited');
+    expect(service.search('tata', 1)).toHaveLength(1);
+    expect(service.search('  ')).toEqual([]);
+  });
+
+  test('should only report an exchange once its list is loaded', async () => {
+    rmSync(join(tempDir, 'Equity.csv'));
+    await service.load();
+
+    expect(service.hasExchange('NSE')).toBe(true);
+    expect(service.hasExchange('BSE')).toBe(false);
+    expect(service.getNseFromBse('532174')).toBeNull();
+  });
+
+  test('should skip unreadable files and pick up changed ones', async () => {
+    const listPath = join(tempDir, 'EQUITY_L.csv');
+    writeFileSync(listPath, 'Date,Close\n2026-10-17,100\n');
+    const later = new Date(Date.now() + 5000);
+    utimesSync(listPath, later, later);
+    await service.load();
+
+    expect(service.hasExchange('NSE')).toBe(false);
+    expect(service.findByNseSymbol('INFY')).toBeNull();
+    expect(service.findByBseCode('500209').nseSymbol).toBeNull();
+  });
+
+  test('should load nothing from a missing directory', async () => {
+    const missing = new SecurityMasterService({ directory: join(tempDir, 'missing') });
+    await missing.load();
+
+    expect(missing.getStats()).toEqual({ files: 0, securities: 0, exchanges: [] });
+    expect(missing.search('reliance')).toEqual([]);
+  });
+});
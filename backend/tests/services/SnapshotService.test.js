@@ -0,0 +1,178 @@
+/**
+ * Tests for SnapshotService
+ */
+
+import { mkdtempSync, rmSync, readFileSync, appendFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import SnapshotService from '../../src/services/SnapshotService.js';
+
+describe('SnapshotService', () => {
+  let tempDir;
+  let service;
+
+  const holding = (nseCode, sector, investment, presentValue) => ({
+    id: `NSE:${nseCode}`,
+    nseCode,
+    bseCode: null,
+    particulars: nseCode,
+    sector,
+    quantity: 10,
+    cmp: presentValue / 10,
+    investment,
+    presentValue,
+    gainLoss: presentValue - investment
+  });
+
+  const holdings = [
+    holding('INFY', 'Technology', 1000, 1200),
+    holding('HDFCBANK', 'Financials', 2000, 1900)
+  ];
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'snapshots-'));
+    service = new SnapshotService({ filePath: join(tempDir, 'nested', 'snapshots.jsonl') });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('recordSnapshot', () => {
+    test('should append a JSON line and create the directory', async () => {
+      const snapshot = await service.recordSnapshot(holdings, new Date('2025-06-02T06:00:00Z'));
+
+      expect(snapshot.date).toBe('2025-06-02');
+      const lines = readFileSync(service.filePath, 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]).holdings).toHaveLength(2);
+    });
+
+    test('should throttle snapshots within the interval on the same day', async () => {
+      await service.recordSnapshot(holdings, new Date('2025-06-02T04:00:00Z'));
+      const skipped = await service.recordSnapshot(holdings, new Date('2025-06-02T04:30:00Z'));
+      const recorded = await service.recordSnapshot(holdings, new Date('2025-06-02T05:30:00Z'));
+
+      expect(skipped).toBeNull();
+      expect(recorded).not.toBeNull();
+    });
+
+    test('should skip weekends and holdings without CMP', async () => {
+      expect(await service.recordSnapshot(holdings, new Date('2025-06-07T06:00:00Z'))).toBeNull();
+      expect(await service.recordSnapshot(
+        [{ ...holdings[0], cmp: 0 }],
+        new Date('2025-06-02T06:00:00Z')
+      )).toBeNull();
+    });
+
+    test('should carry forward the last price of holdings a refresh could not price', async () => {
+      await service.recordSnapshot(holdings, new Date('2025-06-02T06:00:00Z'));
+      const outage = [holdings[0], { ...holdings[1], cmp: 0, presentValue: 0, gainLoss: -2000 }];
+
+      const snapshot = await service.recordSnapshot(outage, new Date('2025-06-03T06:00:00Z'));
+
+      expect(snapshot.holdings[1]).toMatchObject({ id: 'NSE:HDFCBANK', cmp: 190, presentValue: 1900, gainLoss: -100 });
+      const { portfolio } = await service.getHistory({ to: '2025-06-03' });
+      expect(portfolio.map(point => point.presentValue)).toEqual([3100, 3100]);
+    });
+
+    test('should leave out and report holdings that have never been priced', async () => {
+      await service.recordSnapshot([holdings[0]], new Date('2025-06-02T06:00:00Z'));
+
+      const snapshot = await service.recordSnapshot(
+        [holdings[0], { ...holdings[1], cmp: 0 }, { ...holding('SOLD', 'Other', 0, 0), quantity: 0 }],
+        new Date('2025-06-03T06:00:00Z')
+      );
+
+      expect(snapshot.holdings.map(h => h.id)).toEqual(['NSE:INFY']);
+      expect(snapshot.errors).toEqual([
+        expect.objectContaining({
+          source: 'system',
+          symbol: 'HDFCBANK',
+          message: 'Snapshot for 2025-06-03 leaves out HDFCBANK: no price now or in an earlier snapshot'
+        })
+      ]);
+      const lines = readFileSync(service.filePath, 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1]).errors).toBeUndefined();
+    });
+
+    test('should resume throttling from the file after a restart', async () => {
+      await service.recordSnapshot(holdings, new Date('2025-06-02T04:00:00Z'));
+
+      const restarted = new SnapshotService({ filePath: service.filePath });
+      expect(await restarted.recordSnapshot(holdings, new Date('2025-06-02T04:10:00Z'))).toBeNull();
+    });
+  });
+
+  describe('getHistory', () => {
+    beforeEach(async () => {
+      await service.recordSnapshot(holdings, new Date('2025-06-02T06:00:00Z'));
+      await service.recordSnapshot(
+        [holding('INFY', 'Technology', 1000, 1300), holdings[1]],
+        new Date('2025-06-03T06:00:00Z')
+      );
+      await service.recordSnapshot(
+        [holding('INFY', 'Technology', 1000, 1400), holdings[1]],
+        new Date('2025-06-10T06:00:00Z')
+      );
+    });
+
+    test('should return the portfolio series by day', async () => {
+      const history = await service.getHistory({ to: '2025-06-30' });
+
+      expect(history.portfolio).toEqual([
+        { date: '2025-06-02', investment: 3000, presentValue: 3100, gainLoss: 100 },
+        { date: '2025-06-03', investment: 3000, presentValue: 3200, gainLoss: 200 },
+        { date: '2025-06-10', investment: 3000, presentValue: 3300, gainLoss: 300 }
+      ]);
+      expect(history.from).toBe('2025-06-02');
+    });
+
+    test('should return a series per sector', async () => {
+      const history = await service.getHistory({ to: '2025-06-30' });
+
+      expect(history.sectors.map(s => s.sector)).toEqual(['Financials', 'Technology']);
+      expect(history.sectors[1].series.map(p => p.presentValue)).toEqual([1200, 1300, 1400]);
+    });
+
+    test('should keep the last snapshot of each week', async () => {
+      const history = await service.getHistory({ to: '2025-06-30', granularity: 'week' });
+
+      expect(history.portfolio.map(p => p.date)).toEqual(['2025-06-03', '2025-06-10']);
+    });
+
+    test('should filter by date range', async () => {
+      const history = await service.getHistory({ from: '2025-06-03', to: '2025-06-05' });
+
+      expect(history.portfolio.map(p => p.date)).toEqual(['2025-06-03']);
+    });
+
+    test('should skip corrupt lines', async () => {
+      appendFileSync(service.filePath, '{"date":"2025-06-11","hold');
+
+      const history = await service.getHistory({ to: '2025-06-30' });
+      expect(history.portfolio).toHaveLength(3);
+    });
+
+    test('should reject invalid parameters', async () => {
+      await expect(service.getHistory({ from: '06/01/2025' })).rejects.toThrow('Invalid from date');
+      await expect(service.getHistory({ granularity: 'hour' })).rejects.toThrow('Invalid granularity');
+    });
+
+    test('should return the latest snapshot on or before a date', async () => {
+      expect((await service.getSnapshot('2025-06-09')).date).toBe('2025-06-03');
+      expect((await service.getSnapshot('2025-06-10')).holdings[0].presentValue).toBe(1400);
+      expect(await service.getSnapshot('2025-06-01')).toBeNull();
+      await expect(service.getSnapshot('June')).rejects.toThrow('Invalid date');
+    });
+  });
+
+  test('should return empty series when no file exists', async () => {
+    const history = await service.getHistory({ to: '2025-06-30' });
+
+    expect(history.portfolio).toEqual([]);
+    expect(history.sectors).toEqual([]);
+    expect(history.from).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for StatementService
+ */
+
+import StatementService from '../../src/services/StatementService.js';
+import PortfolioService from '../../src/services/PortfolioService.js';
+import { createHolding } from '../../src/models/Holding.js';
+import { calculatePortfolioTotals } from '../../src/utils/portfolioCalculations.js';
+
+describe('StatementService', () => {
+  let service;
+  const portfolioService = new PortfolioService();
+
+  const holding = (nseCode, sector, purchasePrice, cmp) => createHolding({
+    particulars: `${nseCode} Ltd`,
+    nseCode,
+    sector,
+    purchasePrice,
+    quantity: 10,
+    cmp
+  });
+
+  const buildStatement = holdings => {
+    const sectors = Array.from(portfolioService.groupBySector(holdings), ([sector, sectorHoldings]) => ({
+      sector,
+      holdings: sectorHoldings,
+      summary: portfolioService.calculateSectorSummary(sectorHoldings, sector)
+    }));
+
+    return {
+      portfolioName: 'Main',
+      asOf: '2025-06-30',
+      holdings,
+      sectors,
+      totals: calculatePortfolioTotals(holdings),
+      history: [
+        { date: '2025-06-02', investment: 3000, presentValue: 3100 },
+        { date: '2025-06-09', investment: 3000, presentValue: 2900 },
+        { date: '2025-06-16', investment: 3200, presentValue: 3500 }
+      ]
+    };
+  };
+
+  // Each page is an object of /Type /Page; the page tree is /Type /Pages
+  const countPages = buffer => (buffer.toString('latin1').match(/\/Type \/Page\b/g) || []).length;
+
+  beforeEach(() => {
+    service = new StatementService();
+  });
+
+  describe('getTopMovers', () => {
+    const holdings = [
+      holding('INFY', 'Technology', 100, 150),
+      holding('TCS', 'Technology', 100, 120),
+      holding('HDFCBANK', 'Financials', 100, 110),
+      holding('ITC', 'Consumer', 100, 105),
+      holding('SBIN', 'Financials', 100, 90),
+      holding('WIPRO', 'Technology', 100, 70),
+      holding('NEWCO', 'Technology', 100, 0)
+    ];
+
+    test('should list the best gainers and the worst losers first', () => {
+      const { gainers, losers } = service.getTopMovers(holdings);
+
+      expect(gainers.map(h => h.nseCode)).toEqual(['INFY', 'TCS', 'HDFCBANK']);
+      expect(losers.map(h => h.nseCode)).toEqual(['WIPRO', 'SBIN']);
+    });
+
+    test('should leave out holdings without a price', () => {
+      const { losers } = service.getTopMovers(holdings, 10);
+
+      expect(losers.map(h => h.nseCode)).not.toContain('NEWCO');
+    });
+  });
+
+  describe('generateStatement', () => {
+    test('should render a PDF', async () => {
+      const buffer = await service.generateStatement(buildStatement([
+        holding('INFY', 'Technology', 100, 150),
+        holding('SBIN', 'Financials', 100, 90)
+      ]));
+
+      expect(buffer.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(buffer.toString('latin1').trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(countPages(buffer)).toBe(1);
+    });
+
+    test('should continue the holdings table on further pages', async () => {
+      const holdings = Array.from({ length: 120 }, (_, i) => holding(`STOCK${i}`, `Sector ${i % 6}`, 100, 80 + i));
+
+      const buffer = await service.generateStatement(buildStatement(holdings));
+
+      expect(countPages(buffer)).toBeGreaterThan(2);
+    });
+
+    test('should render without history or prices', async () => {
+      const buffer = await service.generateStatement({
+        ...buildStatement([holding('NEWCO', 'Technology', 100, 0)]),
+        history: []
+      });
+
+      expect(buffer.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+  });
+});
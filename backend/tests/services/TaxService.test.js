@@ -0,0 +1,208 @@
+/**
+ * Tests for TaxService
+ */
+
+import TaxService from '../../src/services/TaxService.js';
+
+describe('TaxService', () => {
+  let service;
+
+  const holding = (overrides = {}) => ({
+    id: 'h1',
+    particulars: 'Infosys',
+    nseCode: 'INFY',
+    bseCode: null,
+    cmp: 0,
+    lots: [],
+    realizedLots: [],
+    ...overrides
+  });
+
+  const match = (buyDate, sellDate, costBasis, proceeds, quantity = 10) => ({
+    buyDate,
+    sellDate,
+    quantity,
+    costBasis,
+    proceeds,
+    gain: proceeds - costBasis
+  });
+
+  beforeEach(() => {
+    service = new TaxService();
+  });
+
+  describe('parseFinancialYear', () => {
+    test('should return the April to March range', () => {
+      expect(service.parseFinancialYear('2025-26')).toEqual({
+        from: '2025-04-01',
+        to: '2026-03-31',
+        startYear: 2025
+      });
+    });
+
+    test('should reject malformed years', () => {
+      expect(() => service.parseFinancialYear('2025-27')).toThrow('Invalid financial year');
+      expect(() => service.parseFinancialYear('FY25')).toThrow('Invalid financial year');
+    });
+  });
+
+  describe('getFinancialYear', () => {
+    test('should map dates to their financial year', () => {
+      expect(service.getFinancialYear('2026-03-31')).toBe('2025-26');
+      expect(service.getFinancialYear('2026-04-01')).toBe('2026-27');
+      expect(service.getFinancialYear('2099-12-01')).toBe('2099-00');
+    });
+  });
+
+  describe('classifySale', () => {
+    test('should treat exactly 12 months as short-term', () => {
+      const entry = service.classifySale(holding(), match('2024-09-01', '2025-09-01', 1000, 1500));
+      expect(entry.term).toBe('short');
+      expect(entry.rate).toBe(20);
+    });
+
+    test('should treat more than 12 months as long-term', () => {
+      const entry = service.classifySale(holding(), match('2024-09-01', '2025-09-02', 1000, 1500));
+      expect(entry.term).toBe('long');
+      expect(entry.rate).toBe(12.5);
+    });
+
+    test('should use the old rates for sales before 23-Jul-2024', () => {
+      const entry = service.classifySale(holding(), match('2024-01-01', '2024-07-22', 1000, 1500));
+      expect(entry.rate).toBe(15);
+    });
+
+    test('should step up cost to the 31-Jan-2018 FMV', () => {
+      service = new TaxService({ grandfatheredPrices: new Map([['INFY', 150]]) });
+      const entry = service.classifySale(holding(), match('2016-05-01', '2025-06-01', 1000, 2000));
+
+      expect(entry.grandfathered).toBe(true);
+      expect(entry.costOfAcquisition).toBe(1500);
+      expect(entry.gain).toBe(500);
+    });
+
+    test('should restate the FMV per share for later splits and bonuses', () => {
+      service = new TaxService({ grandfatheredPrices: new Map([['INFY', 150]]) });
+      // 10 shares bought, 50 sold after a 5:1 split
+      const entry = service.classifySale(holding(), { ...match('2016-05-01', '2025-06-01', 1000, 2000, 50), shareFactor: 5 });
+
+      expect(entry.costOfAcquisition).toBe(1500);
+      expect(entry.gain).toBe(500);
+    });
+
+    test('should cap the stepped-up cost at the sale value', () => {
+      service = new TaxService({ grandfatheredPrices: new Map([['INFY', 150]]) });
+      const entry = service.classifySale(holding(), match('2016-05-01', '2025-06-01', 1000, 1200));
+
+      expect(entry.costOfAcquisition).toBe(1200);
+      expect(entry.gain).toBe(0);
+    });
+
+    test('should flag pre-2018 lots without a known FMV', () => {
+      const entry = service.classifySale(holding(), match('2016-05-01', '2025-06-01', 1000, 2000));
+
+      expect(entry.grandfathered).toBe(false);
+      expect(entry.grandfatheringMissing).toBe(true);
+      expect(entry.gain).toBe(1000);
+    });
+  });
+
+  describe('generateReport', () => {
+    test('should only include sales within the financial year', () => {
+      const report = service.generateReport([
+        holding({
+          realizedLots: [
+            match('2024-01-01', '2025-03-31', 1000, 1500),
+            match('2024-01-01', '2025-04-01', 1000, 1500)
+          ]
+        })
+      ], '2025-26', '2026-06-01');
+
+      expect(report.realized).toHaveLength(1);
+      expect(report.realized[0].sellDate).toBe('2025-04-01');
+      expect(report.hypothetical).toHaveLength(0);
+      expect(report.projectedSummary).toBeNull();
+    });
+
+    test('should apply the LTCG exemption', () => {
+      const report = service.generateReport([
+        holding({ realizedLots: [match('2023-01-01', '2025-06-01', 100000, 300000)] })
+      ], '2025-26', '2026-06-01');
+
+      expect(report.summary.longTerm.net).toBe(200000);
+      expect(report.summary.ltcgExemption).toBe(125000);
+      expect(report.summary.taxableLongTerm).toBe(75000);
+      expect(report.summary.estimatedTax).toBe(9375);
+    });
+
+    test('should set off short-term losses against long-term gains', () => {
+      const report = service.generateReport([
+        holding({
+          realizedLots: [
+            match('2023-01-01', '2025-06-01', 100000, 400000),
+            match('2025-05-01', '2025-07-01', 100000, 50000)
+          ]
+        })
+      ], '2025-26', '2026-06-01');
+
+      expect(report.summary.shortTerm.losses).toBe(50000);
+      expect(report.summary.taxableShortTerm).toBe(0);
+      expect(report.summary.taxableLongTerm).toBe(300000 - 50000 - 125000);
+      expect(report.summary.lossCarryForward).toEqual({ shortTerm: 0, longTerm: 0 });
+    });
+
+    test('should carry forward unabsorbed long-term losses', () => {
+      const report = service.generateReport([
+        holding({
+          realizedLots: [
+            match('2023-01-01', '2025-06-01', 100000, 40000),
+            match('2025-05-01', '2025-07-01', 100000, 130000)
+          ]
+        })
+      ], '2025-26', '2026-06-01');
+
+      expect(report.summary.taxableShortTerm).toBe(30000);
+      expect(report.summary.estimatedTax).toBe(6000);
+      expect(report.summary.lossCarryForward.longTerm).toBe(60000);
+    });
+
+    test('should project open lots as if sold on the valuation date', () => {
+      const report = service.generateReport([
+        holding({
+          cmp: 200,
+          lots: [
+            { date: '2024-01-15', quantity: 10, investment: 1000 },
+            { date: '2025-10-01', quantity: 5, investment: 750 }
+          ]
+        })
+      ], '2025-26', '2025-12-01');
+
+      expect(report.hypothetical).toHaveLength(2);
+      expect(report.hypothetical[0]).toMatchObject({ term: 'long', gain: 1000, hypothetical: true });
+      expect(report.hypothetical[1]).toMatchObject({ term: 'short', gain: 250 });
+      expect(report.projectedSummary.taxableShortTerm).toBe(250);
+      expect(report.summary.taxableShortTerm).toBe(0);
+    });
+
+    test('should leave out instruments other than listed equity', () => {
+      const report = service.generateReport([
+        holding({ realizedLots: [match('2025-05-01', '2025-07-01', 1000, 1500)] }),
+        holding({
+          id: 'h2',
+          particulars: 'Liquid Fund',
+          nseCode: '',
+          instrumentType: 'mutual_fund',
+          realizedLots: [match('2025-05-01', '2025-07-01', 1000, 1100)]
+        }),
+        holding({ id: 'h3', particulars: 'Gold ETF', nseCode: 'GOLDBEES', instrumentType: 'etf' })
+      ], '2025-26', '2026-06-01');
+
+      expect(report.realized).toHaveLength(1);
+      expect(report.realized[0].holdingId).toBe('h1');
+      expect(report.summary.taxableShortTerm).toBe(500);
+      expect(report.excluded).toEqual([
+        { holdingId: 'h2', particulars: 'Liquid Fund', nseCode: '', bseCode: null, instrumentType: 'mutual_fund' }
+      ]);
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import { jest } from '@jest/globals';
 import YahooFinanceService from '../../src/services/YahooFinanceService.js';
 import CacheService from '../../src/services/CacheService.js';
 
@@ -204,4 +205,167 @@ describe('YahooFinanceService', () => {
       expect(yahooService.timeout).toBe(5000);
     });
   });
+
+  describe('getBatchPreviousCloses', () => {
+    test('should cache the previous close fetched with the price', async () => {
+      yahooService.httpClient.get = jest.fn().mockResolvedValue({
+        data: {
+          chart: {
+            result: [{ meta: { regularMarketPrice: 1510, chartPreviousClose: 1490 } }]
+          }
+        }
+      });
+
+      await yahooService.getBatchPrices(['INFY.NS']);
+      const previousCloses = yahooService.getBatchPreviousCloses(['INFY.NS', 'TCS.NS']);
+
+      expect(previousCloses.get('INFY.NS')).toBe(1490);
+      expect(previousCloses.has('TCS.NS')).toBe(false);
+    });
+
+    test('should prefer the regular market previous close', async () => {
+      yahooService.httpClient.get = jest.fn().mockResolvedValue({
+        data: {
+          chart: {
+            result: [{ meta: { regularMarketPrice: 1510, regularMarketPreviousClose: 1500, chartPreviousClose: 1490 } }]
+          }
+        }
+      });
+
+      await yahooService.getCurrentPrice('INFY.NS');
+
+      expect(yahooService.getBatchPreviousCloses(['INFY.NS']).get('INFY.NS')).toBe(1500);
+    });
+  });
+
+  describe('market data provider', () => {
+    test('should return quotes with previous closes and leave out failed symbols', async () => {
+      yahooService.httpClient.get = jest.fn().mockImplementation(async url => {
+        if (url.includes('TCS.NS')) throw new Error('Network error');
+        return { data: { chart: { result: [{ meta: { regularMarketPrice: 1510, chartPreviousClose: 1490 } }] } } };
+      });
+
+      const quotes = await yahooService.getBatchQuotes(['INFY.NS', 'TCS.NS']);
+
+      expect(yahooService.id).toBe('yahoo');
+      expect(quotes.get('INFY.NS')).toEqual({ price: 1510, previousClose: 1490 });
+      expect(quotes.has('TCS.NS')).toBe(false);
+      expect(await yahooService.getFundamentals('INFY.NS')).toBeNull();
+    });
+  });
+
+  describe('getHistoricalPrices', () => {
+    const candleResponse = {
+      data: {
+        chart: {
+          result: [{
+            meta: { regularMarketPrice: 105 },
+            timestamp: [1717372800, 1717459200],
+            indicators: {
+              quote: [{
+                open: [100, 103],
+                high: [104, 106],
+                low: [99, 102],
+                close: [103, 105],
+                volume: [1200, 1500]
+              }],
+              adjclose: [{ adjclose: [102.5, 104.5] }]
+            }
+          }]
+        }
+      }
+    };
+
+    test('should return OHLCV candles', async () => {
+      yahooService.httpClient.get = jest.fn().mockResolvedValue(candleResponse);
+
+      const candles = await yahooService.getHistoricalPrices('INFY.NS', '1y', '1d');
+
+      expect(yahooService.httpClient.get.mock.calls[0][0]).toContain('interval=1d&range=1y');
+      expect(candles[0]).toEqual({
+        timestamp: '2024-06-03T00:00:00.000Z',
+        date: '2024-06-03',
+        open: 100,
+        high: 104,
+        low: 99,
+        close: 103,
+        adjClose: 102.5,
+        volume: 1200
+      });
+    });
+
+    test('should default the interval from the range', async () => {
+      yahooService.httpClient.get = jest.fn().mockResolvedValue(candleResponse);
+
+      await yahooService.getHistoricalPrices('INFY.NS', '5y');
+
+      expect(yahooService.httpClient.get.mock.calls[0][0]).toContain('interval=1wk&range=5y');
+    });
+
+    test('should cache candles with the range TTL', async () => {
+      yahooService.httpClient.get = jest.fn().mockResolvedValue(candleResponse);
+      const setSpy = jest.spyOn(cacheService, 'set');
+
+      await yahooService.getHistoricalPrices('INFY.NS', '1y');
+
+      expect(setSpy).toHaveBeenCalledWith('yahoo:history:INFY.NS:1y:1d', expect.any(Array), 21600);
+    });
+
+    test('should reject invalid ranges and intervals', async () => {
+      await expect(yahooService.getHistoricalPrices('INFY.NS', '3d')).rejects.toThrow('Invalid range');
+      await expect(yahooService.getHistoricalPrices('INFY.NS', '1y', '7m')).rejects.toThrow('Invalid interval');
+      await expect(yahooService.getHistoricalPrices('INFY.NS', '1y', '5m')).rejects.toThrow('only available');
+    });
+  });
+
+  describe('getPriceSeries', () => {
+    const chartResponse = {
+      data: {
+        chart: {
+          result: [{
+            meta: { regularMarketPrice: 102 },
+            timestamp: [1717387200, 1717389000, 1717390800],
+            indicators: { quote: [{ close: [100, null, 102] }] }
+          }]
+        }
+      }
+    };
+
+    test('should reject invalid symbols and ranges', async () => {
+      await expect(yahooService.getPriceSeries('')).rejects.toThrow('Invalid symbol');
+      await expect(yahooService.getPriceSeries('INFY.NS', '10y')).rejects.toThrow('Invalid range');
+    });
+
+    test('should request the range interval and drop missing candles', async () => {
+      yahooService.httpClient.get = jest.fn().mockResolvedValue(chartResponse);
+
+      const series = await yahooService.getPriceSeries('INFY.NS', '5d');
+
+      expect(yahooService.httpClient.get.mock.calls[0][0]).toContain('interval=30m&range=5d');
+      expect(series).toEqual([
+        { timestamp: '2024-06-03T04:00:00.000Z', close: 100 },
+        { timestamp: '2024-06-03T05:00:00.000Z', close: 102 }
+      ]);
+    });
+
+    test('should serve repeated requests from cache', async () => {
+      yahooService.httpClient.get = jest.fn().mockResolvedValue(chartResponse);
+
+      await yahooService.getPriceSeries('INFY.NS', '1mo');
+      await yahooService.getPriceSeries('INFY.NS', '1mo');
+
+      expect(yahooService.httpClient.get).toHaveBeenCalledTimes(1);
+      expect(cacheService.get('yahoo:history:INFY.NS:1mo:1d')).toHaveLength(2);
+    });
+
+    test('should leave out failed symbols in batch', async () => {
+      yahooService.httpClient.get = jest.fn()
+        .mockResolvedValueOnce(chartResponse)
+        .mockRejectedValueOnce(new Error('Network Error'));
+
+      const seriesMap = await yahooService.getBatchPriceSeries(['INFY.NS', 'BAD.NS'], '5d');
+
+      expect(Array.from(seriesMap.keys())).toEqual(['INFY.NS']);
+    });
+  });
 });
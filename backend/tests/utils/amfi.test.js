@@ -0,0 +1,50 @@
+/**
+ * Tests for AMFI NAV file parsing
+ */
+
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseNavAll, parseSchemeCode, toSchemeSymbol, isSchemeSymbol, getSchemeCode } from '../../src/utils/amfi.js';
+
+const navAll = readFileSync(join(dirname(fileURLToPath(import.meta.url)), '../fixtures/amfi/NAVAll.txt'), 'utf8');
+
+describe('parseNavAll', () => {
+  test('should read schemes with the category and fund house above them', () => {
+    const schemes = parseNavAll(navAll);
+
+    expect(schemes.map(s => s.schemeCode)).toEqual(['119551', '120465', '122639']);
+    expect(schemes[1]).toEqual({
+      schemeCode: '120465',
+      schemeName: 'Axis Large Cap Fund - Direct Plan - Growth',
+      isin: 'INF846K01DP8',
+      isinReinvestment: null,
+      nav: 58.4,
+      date: '2026-10-17',
+      category: 'Equity Scheme - Large Cap Fund',
+      fundHouse: 'Axis Mutual Fund'
+    });
+    expect(schemes[2].category).toBe('Equity Scheme - Flexi Cap Fund');
+  });
+
+  test('should reject text that is not a NAV file', () => {
+    expect(() => parseNavAll('Date,Price\n2026-10-17,10')).toThrow('Invalid AMFI NAV file');
+  });
+});
+
+describe('scheme symbols', () => {
+  test('should convert between scheme codes and symbols', () => {
+    expect(toSchemeSymbol(120465)).toBe('120465.MF');
+    expect(isSchemeSymbol('120465.MF')).toBe(true);
+    expect(isSchemeSymbol('500325.BO')).toBe(false);
+    expect(getSchemeCode('120465.mf')).toBe('120465');
+    expect(getSchemeCode('INFY.NS')).toBeNull();
+  });
+
+  test('should read scheme codes written in a portfolio sheet', () => {
+    expect(parseSchemeCode('MF:120465')).toBe('120465');
+    expect(parseSchemeCode('amfi: 120465')).toBe('120465');
+    expect(parseSchemeCode('120465')).toBeNull();
+    expect(parseSchemeCode('INFY')).toBeNull();
+  });
+});
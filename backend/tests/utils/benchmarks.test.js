@@ -0,0 +1,53 @@
+/**
+ * Tests for benchmark configuration utilities
+ */
+
+import {
+  DEFAULT_BENCHMARKS,
+  getBenchmarkName,
+  getSectorBenchmark,
+  parseBenchmarkList,
+  parseSectorBenchmarks
+} from '../../src/utils/benchmarks.js';
+
+describe('parseBenchmarkList', () => {
+  test('should parse, normalize and de-duplicate symbols', () => {
+    expect(parseBenchmarkList(' ^nsei, ^BSESN,,^NSEI ')).toEqual(['^NSEI', '^BSESN']);
+  });
+
+  test('should fall back to the defaults when empty', () => {
+    expect(parseBenchmarkList(undefined)).toEqual(DEFAULT_BENCHMARKS);
+    expect(parseBenchmarkList(' , ')).toEqual(DEFAULT_BENCHMARKS);
+  });
+});
+
+describe('parseSectorBenchmarks', () => {
+  test('should parse sector:symbol pairs and skip malformed entries', () => {
+    expect(parseSectorBenchmarks('Pipe Sector:^cnxinfra, Others:^NSEI, broken, :^X')).toEqual({
+      'Pipe Sector': '^CNXINFRA',
+      Others: '^NSEI'
+    });
+  });
+});
+
+describe('getSectorBenchmark', () => {
+  test('should match sector names by keyword', () => {
+    expect(getSectorBenchmark('Financial Sector')).toBe('^NSEBANK');
+    expect(getSectorBenchmark('Tech Sector')).toBe('^CNXIT');
+    expect(getSectorBenchmark('Consumer ')).toBe('^CNXFMCG');
+    expect(getSectorBenchmark('Power')).toBe('^CNXENERGY');
+    expect(getSectorBenchmark('Pipe Sector')).toBe('^CNXINFRA');
+  });
+
+  test('should fall back to NIFTY 50 and honour overrides', () => {
+    expect(getSectorBenchmark('Others')).toBe('^NSEI');
+    expect(getSectorBenchmark('Tech Sector', { 'Tech Sector': '^BSESN' })).toBe('^BSESN');
+  });
+});
+
+describe('getBenchmarkName', () => {
+  test('should name known indices and echo unknown symbols', () => {
+    expect(getBenchmarkName('^NSEI')).toBe('NIFTY 50');
+    expect(getBenchmarkName('^XYZ')).toBe('^XYZ');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for bhavcopy parsing
+ */
+
+import { parseBhavcopyDate, parseBhavcopyFileName, parseBhavcopyRows } from '../../src/utils/bhavcopy.js';
+
+describe('parseBhavcopyDate', () => {
+  test('should read the date formats the exchanges use', () => {
+    expect(parseBhavcopyDate('2024-07-08')).toBe('2024-07-08');
+    expect(parseBhavcopyDate('08-JUL-2024')).toBe('2024-07-08');
+    expect(parseBhavcopyDate('09-Jul-24')).toBe('2024-07-09');
+    expect(parseBhavcopyDate('')).toBeNull();
+  });
+});
+
+describe('parseBhavcopyFileName', () => {
+  test('should read the exchange and date from each naming scheme', () => {
+    expect(parseBhavcopyFileName('cm08JUL2024bhav.csv')).toEqual({ exchange: 'NSE', date: '2024-07-08' });
+    expect(parseBhavcopyFileName('EQ090724.CSV')).toEqual({ exchange: 'BSE', date: '2024-07-09' });
+    expect(parseBhavcopyFileName('EQ_ISINCODE_090724.CSV')).toEqual({ exchange: 'BSE', date: '2024-07-09' });
+    expect(parseBhavcopyFileName('BhavCopy_BSE_CM_0_0_0_20240710_F_0000.CSV')).toEqual({ exchange: 'BSE', date: '2024-07-10' });
+    expect(parseBhavcopyFileName('prices.csv')).toEqual({ exchange: null, date: null });
+  });
+});
+
+describe('parseBhavcopyRows', () => {
+  test('should keep NSE equity series only', () => {
+    const { exchange, date, records } = parseBhavcopyRows([
+      ['SYMBOL', 'SERIES', 'OPEN', 'HIGH', 'LOW', 'CLOSE', 'PREVCLOSE', 'TOTTRDQTY', 'TIMESTAMP'],
+      ['INFY', 'EQ', '1650', '1662', '1641', '1655.25', '1648.9', '4100000', '08-JUL-2024'],
+      ['INFY', 'N1', '100', '100', '100', '100', '100', '10', '08-JUL-2024']
+    ], 'cm08JUL2024bhav.csv');
+
+    expect(exchange).toBe('NSE');
+    expect(date).toBe('2024-07-08');
+    expect(records).toEqual([expect.objectContaining({ code: 'INFY', close: 1655.25, previousClose: 1648.9, volume: 4100000 })]);
+  });
+
+  test('should key UDiFF BSE rows by scrip code and skip derivatives', () => {
+    const headers = ['TradDt', 'Src', 'FinInstrmTp', 'FinInstrmId', 'TckrSymb', 'SctySrs', 'ClsPric', 'PrvsClsgPric'];
+    const { records } = parseBhavcopyRows([
+      headers,
+      ['2024-07-10', 'BSE', 'STK', '500325', 'RELIANCE', 'A', '3198.75', '3231.5'],
+      ['2024-07-10', 'BSE', 'STF', '900001', 'RELIANCE', '', '3200', '3230']
+    ], 'BhavCopy_BSE_CM_0_0_0_20240710_F_0000.CSV');
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toEqual(expect.objectContaining({ exchange: 'BSE', code: '500325', symbol: 'RELIANCE', date: '2024-07-10' }));
+  });
+
+  test('should date rows from the file name when they carry no date', () => {
+    const { records } = parseBhavcopyRows([
+      ['SC_CODE', 'SC_NAME', 'CLOSE'],
+      ['500209', 'INFOSYS LTD', '1660.10']
+    ], 'EQ090724.CSV');
+
+    expect(records[0]).toEqual(expect.objectContaining({ exchange: 'BSE', code: '500209', date: '2024-07-09', previousClose: null }));
+  });
+
+  test('should reject files without bhavcopy columns', () => {
+    expect(() => parseBhavcopyRows([['Date', 'Price']], 'prices.csv')).toThrow('Invalid bhavcopy file');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for corporate action adjustment utilities
+ */
+
+import { applyCorporateActionToLots, describeCorporateAction } from '../../src/utils/corporateActions.js';
+import { buildLots } from '../../src/utils/lotCalculations.js';
+import { createCorporateAction, parseRatio } from '../../src/models/CorporateAction.js';
+import { createTransaction } from '../../src/models/Transaction.js';
+
+const lot = (date, price, quantity) => ({
+  transactionId: `txn_${date}`,
+  date,
+  price,
+  quantity,
+  investment: price * quantity
+});
+
+const action = (data) => createCorporateAction({ nseCode: 'TEST', exDate: '2024-01-01', ...data });
+
+describe('parseRatio', () => {
+  test('should parse colon and slash ratios', () => {
+    expect(parseRatio('5:1')).toEqual([5, 1]);
+    expect(parseRatio(' 1 / 2 ')).toEqual([1, 2]);
+    expect(parseRatio('five')).toBeNull();
+  });
+});
+
+describe('applyCorporateActionToLots', () => {
+  test('should scale quantity and price on a split, keeping cost and dates', () => {
+    const { lots, adjustment } = applyCorporateActionToLots(
+      [lot('2022-01-01', 1000, 10), lot('2023-01-01', 1500, 2)],
+      action({ type: 'split', ratio: '5:1' })
+    );
+
+    expect(lots[0]).toMatchObject({ date: '2022-01-01', quantity: 50, price: 200, investment: 10000 });
+    expect(adjustment).toMatchObject({
+      quantityBefore: 12,
+      quantityAfter: 60,
+      investmentBefore: 13000,
+      investmentAfter: 13000
+    });
+  });
+
+  test('should add bonus shares at zero cost', () => {
+    const { lots } = applyCorporateActionToLots([lot('2022-01-01', 300, 10)], action({ type: 'bonus', ratio: '1:2' }));
+
+    expect(lots[0].quantity).toBe(15);
+    expect(lots[0].price).toBe(200);
+    expect(lots[0].investment).toBe(3000);
+    expect(lots[0].shareFactor).toBe(1.5);
+  });
+
+  test('should take up whole rights shares as a new lot on the ex-date', () => {
+    const { lots } = applyCorporateActionToLots(
+      [lot('2022-01-01', 300, 11)],
+      action({ type: 'rights', ratio: '1:5', price: 250 })
+    );
+
+    expect(lots).toHaveLength(2);
+    expect(lots[1]).toMatchObject({ date: '2024-01-01', quantity: 2, price: 250, investment: 500 });
+  });
+
+  test('should split cost between parent and demerged lots', () => {
+    const { lots, spunOffLots } = applyCorporateActionToLots(
+      [lot('2022-01-01', 1000, 10)],
+      action({ type: 'demerger', ratio: '1:2', costAllocation: 20, newNseCode: 'NEWCO' })
+    );
+
+    expect(lots[0]).toMatchObject({ quantity: 10, price: 800, investment: 8000 });
+    expect(spunOffLots[0]).toMatchObject({ date: '2022-01-01', quantity: 5, price: 400, investment: 2000 });
+  });
+
+  test('should not record an adjustment when nothing is held', () => {
+    expect(applyCorporateActionToLots([], action({ type: 'split', ratio: '2:1' })).adjustment).toBeNull();
+  });
+});
+
+describe('describeCorporateAction', () => {
+  test('should summarize each action type', () => {
+    expect(describeCorporateAction(action({ type: 'split', ratio: '5:1' }))).toBe('Split 5:1');
+    expect(describeCorporateAction(action({ type: 'rights', ratio: '1:5', price: 250 }))).toBe('Rights 1:5 at ₹250');
+    expect(describeCorporateAction(
+      action({ type: 'demerger', ratio: '1:1', costAllocation: 4.7, newNseCode: 'JIOFIN' })
+    )).toBe('Demerger 1:1 into JIOFIN (4.7% of cost)');
+  });
+});
+
+describe('buildLots with corporate actions', () => {
+  const buy = (date, price, quantity) => createTransaction({ nseCode: 'TEST', type: 'buy', date, price, quantity });
+
+  test('should apply actions only to lots bought before the ex-date', () => {
+    const result = buildLots(
+      [buy('2023-01-01', 100, 10), buy('2024-01-01', 60, 10)],
+      [action({ type: 'split', ratio: '2:1' })],
+      '2025-01-01'
+    );
+
+    // The second buy is on the ex-date, so it is already in post-split units
+    expect(result.quantity).toBe(30);
+    expect(result.openLots[0].price).toBe(50);
+    expect(result.openLots[1].price).toBe(60);
+    expect(result.adjustments).toHaveLength(1);
+  });
+
+  test('should record the shares sold per share bought on sales after a split', () => {
+    const sell = createTransaction({ nseCode: 'TEST', type: 'sell', date: '2024-06-01', price: 80, quantity: 20 });
+    const result = buildLots(
+      [buy('2023-01-01', 100, 10), sell],
+      [action({ type: 'split', ratio: '5:1' }), action({ type: 'bonus', ratio: '1:1', exDate: '2024-02-01' })],
+      '2025-01-01'
+    );
+
+    expect(result.realized[0]).toMatchObject({ quantity: 20, shareFactor: 10 });
+  });
+
+  test('should skip actions after the as-of date', () => {
+    const result = buildLots([buy('2023-01-01', 100, 10)], [action({ type: 'split', ratio: '2:1' })], '2023-12-31');
+
+    expect(result.quantity).toBe(10);
+    expect(result.adjustments).toHaveLength(0);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for dividend income utilities
+ */
+
+import { summarizeDividends, groupDividendsByMonth } from '../../src/utils/dividendCalculations.js';
+import { calculatePortfolioTotals } from '../../src/utils/portfolioCalculations.js';
+import { buildCashFlows } from '../../src/utils/returnCalculations.js';
+import { createDividend, validateDividend, sortDividends } from '../../src/models/Dividend.js';
+
+const dividend = (paymentDate, amount, tds = 0) =>
+  createDividend({ nseCode: 'ITC', paymentDate, amount, tds });
+
+describe('createDividend', () => {
+  test('should default the amount to per share × quantity and net off TDS', () => {
+    const created = createDividend({
+      nseCode: 'itc',
+      paymentDate: '2025-06-12',
+      amountPerShare: 7.85,
+      quantity: 100,
+      tds: 78.5
+    });
+
+    expect(created.nseCode).toBe('ITC');
+    expect(created.amount).toBeCloseTo(785);
+    expect(created.netAmount).toBeCloseTo(706.5);
+    expect(validateDividend(created).isValid).toBe(true);
+  });
+
+  test('should reject missing amounts and TDS above the gross amount', () => {
+    const { isValid, errors } = validateDividend(createDividend({ nseCode: 'ITC', paymentDate: '2025-06-12', tds: 10 }));
+
+    expect(isValid).toBe(false);
+    expect(errors).toHaveLength(2);
+  });
+
+  test('should sort by payment date', () => {
+    const sorted = sortDividends([dividend('2025-06-12', 10), dividend('2024-08-01', 20)]);
+    expect(sorted.map(d => d.paymentDate)).toEqual(['2024-08-01', '2025-06-12']);
+  });
+});
+
+describe('summarizeDividends', () => {
+  test('should total paid dividends and yield on cost over the trailing 12 months', () => {
+    const dividends = [
+      dividend('2024-03-01', 500),
+      dividend('2024-08-01', 300),
+      dividend('2025-06-12', 700),
+      dividend('2025-09-01', 400)
+    ];
+
+    const summary = summarizeDividends(dividends, 10000, '2025-07-31');
+
+    expect(summary.dividendsReceived).toBe(1500);
+    expect(summary.dividendYieldOnCost).toBeCloseTo(10);
+  });
+
+  test('should report zero yield without an investment', () => {
+    expect(summarizeDividends([dividend('2025-01-01', 100)], 0, '2025-07-31').dividendYieldOnCost).toBe(0);
+  });
+});
+
+describe('groupDividendsByMonth', () => {
+  test('should group gross and net income by payment month', () => {
+    const months = groupDividendsByMonth([
+      dividend('2025-06-02', 100, 10),
+      dividend('2025-06-20', 50),
+      dividend('2025-08-01', 30)
+    ]);
+
+    expect(months.map(m => m.month)).toEqual(['2025-06', '2025-08']);
+    expect(months[0].amount).toBe(150);
+    expect(months[0].netAmount).toBe(140);
+    expect(months[0].dividends).toHaveLength(2);
+  });
+});
+
+describe('dividend-inclusive returns', () => {
+  const holdings = [
+    { investment: 10000, presentValue: 11000, gainLoss: 1000, realizedGain: 200, dividendsReceived: 300, dividendYieldOnCost: 2 },
+    { investment: 30000, presentValue: 30000, gainLoss: 0, realizedGain: 0, dividendsReceived: 600, dividendYieldOnCost: 1 }
+  ];
+
+  test('should include dividends in portfolio totals', () => {
+    const totals = calculatePortfolioTotals(holdings);
+
+    expect(totals.totalDividends).toBe(900);
+    expect(totals.dividendYieldOnCost).toBeCloseTo(1.25);
+    expect(totals.totalReturn).toBe(2100);
+    expect(totals.totalReturnPercentage).toBeCloseTo(5.25);
+  });
+
+  test('should count dividends as positive cash flows', () => {
+    const flows = buildCashFlows({
+      lots: [{ date: '2024-01-01', investment: 1000 }],
+      realizedLots: [],
+      dividends: [dividend('2024-07-01', 25)]
+    });
+
+    expect(flows).toEqual([
+      { date: '2024-01-01', amount: -1000 },
+      { date: '2024-07-01', amount: 25 }
+    ]);
+  });
+});
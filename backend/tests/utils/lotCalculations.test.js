@@ -0,0 +1,103 @@
+/**
+ * Tests for FIFO lot tracking utilities
+ */
+
+import { buildLots, valueLots } from '../../src/utils/lotCalculations.js';
+import { calculatePortfolioTotals } from '../../src/utils/portfolioCalculations.js';
+import { createTransaction } from '../../src/models/Transaction.js';
+
+const buy = (date, price, quantity, charges = 0) =>
+  createTransaction({ nseCode: 'TEST', type: 'buy', date, price, quantity, charges });
+const sell = (date, price, quantity, charges = 0) =>
+  createTransaction({ nseCode: 'TEST', type: 'sell', date, price, quantity, charges });
+
+describe('buildLots', () => {
+  test('should keep one open lot per buy', () => {
+    const result = buildLots([
+      buy('2022-01-01', 100, 10, 5),
+      buy('2023-01-01', 120, 5)
+    ]);
+
+    expect(result.openLots).toHaveLength(2);
+    expect(result.openLots[0].investment).toBe(1005);
+    expect(result.quantity).toBe(15);
+    expect(result.investment).toBe(1605);
+    expect(result.realizedGain).toBe(0);
+  });
+
+  test('should match sells against the oldest lots first', () => {
+    const result = buildLots([
+      buy('2022-01-01', 100, 10),
+      buy('2023-01-01', 200, 10),
+      sell('2024-01-01', 250, 15)
+    ]);
+
+    // 10 from the first lot (cost 1000) and 5 from the second (cost 1000)
+    expect(result.realized).toHaveLength(2);
+    expect(result.realized[0]).toMatchObject({ buyDate: '2022-01-01', quantity: 10, costBasis: 1000, proceeds: 2500 });
+    expect(result.realized[1]).toMatchObject({ buyDate: '2023-01-01', quantity: 5, costBasis: 1000, proceeds: 1250 });
+    expect(result.realizedGain).toBe(1750);
+
+    expect(result.openLots).toHaveLength(1);
+    expect(result.openLots[0]).toMatchObject({ date: '2023-01-01', quantity: 5, investment: 1000 });
+    expect(result.quantity).toBe(5);
+    expect(result.investment).toBe(1000);
+  });
+
+  test('should deduct sell charges from proceeds', () => {
+    const result = buildLots([
+      buy('2022-01-01', 100, 10, 10),
+      sell('2023-01-01', 150, 10, 20)
+    ]);
+
+    expect(result.realizedGain).toBe(1480 - 1010);
+    expect(result.openLots).toHaveLength(0);
+  });
+
+  test('should report sells beyond the open quantity', () => {
+    const result = buildLots([
+      buy('2022-01-01', 100, 5),
+      sell('2023-01-01', 150, 8)
+    ]);
+
+    expect(result.oversold).toEqual([{ date: '2023-01-01', quantity: 8, available: 5 }]);
+    expect(result.quantity).toBe(0);
+    expect(result.realized).toHaveLength(1);
+    expect(result.realized[0].quantity).toBe(5);
+  });
+});
+
+describe('valueLots', () => {
+  test('should value each lot at the current market price', () => {
+    const lots = valueLots([{ date: '2022-01-01', quantity: 10, price: 100, investment: 1000 }], 80);
+
+    expect(lots[0].presentValue).toBe(800);
+    expect(lots[0].gainLoss).toBe(-200);
+    expect(lots[0].gainLossPercentage).toBe(-20);
+  });
+});
+
+describe('calculatePortfolioTotals', () => {
+  test('should report realized and unrealized gains separately', () => {
+    const totals = calculatePortfolioTotals([
+      { investment: 1000, presentValue: 1200, realizedGain: 300 },
+      { investment: 500, presentValue: 400, realizedGain: -50 },
+      { investment: 0, presentValue: 0 }
+    ]);
+
+    expect(totals.totalUnrealizedGain).toBe(100);
+    expect(totals.totalGainLoss).toBe(100);
+    expect(totals.totalRealizedGain).toBe(250);
+  });
+
+  test('should roll up today\'s change against the previous close value', () => {
+    const totals = calculatePortfolioTotals([
+      { investment: 1000, presentValue: 1100, quantity: 10, previousClose: 100, dayChange: 100 },
+      { investment: 500, presentValue: 450, quantity: 5, previousClose: 100, dayChange: -50 },
+      { investment: 200, presentValue: 220, quantity: 2, previousClose: null, dayChange: 0 }
+    ]);
+
+    expect(totals.totalDayChange).toBe(50);
+    expect(totals.totalDayChangePercent).toBeCloseTo((50 / 1500) * 100, 10);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for portfolio sheet parsing, mapping profiles and holding diffs
+ */
+
+import {
+  parseSheetNumber,
+  detectColumnMapping,
+  findHeaderRow,
+  validateColumnMapping,
+  getMissingColumns,
+  readPortfolioRows
+} from '../../src/utils/portfolioSheet.js';
+import { diffHoldings } from '../../src/utils/holdingDiff.js';
+import { createHolding } from '../../src/models/Holding.js';
+import { createMappingProfile, validateMappingProfile } from '../../src/models/MappingProfile.js';
+import PortfolioService from '../../src/services/PortfolioService.js';
+
+const STANDARD = new PortfolioService().getMappingProfile('standard');
+
+const HEADERS = ['No', 'Particulars', 'Purchase Price', 'Qty', 'Investment', 'NSE/BSE', 'P/E (TTM)', 'Latest Earnings'];
+
+describe('detectColumnMapping', () => {
+  test('should map each field to the first header containing one of its names', () => {
+    expect(detectColumnMapping(HEADERS, STANDARD)).toEqual({
+      number: 0,
+      particulars: 1,
+      purchasePrice: 2,
+      quantity: 3,
+      stockCode: 5,
+      pe: 6,
+      earnings: 7,
+      sector: null,
+      instrumentType: null
+    });
+  });
+});
+
+describe('findHeaderRow', () => {
+  test('should skip title rows above the header', () => {
+    expect(findHeaderRow([[null, 'Core Fundamentals'], HEADERS], STANDARD)).toBe(1);
+  });
+
+  test('should fall back to the first non-empty row', () => {
+    expect(findHeaderRow([[], ['Stock', 'Units']], STANDARD)).toBe(1);
+    expect(findHeaderRow([], STANDARD)).toBe(-1);
+  });
+});
+
+describe('validateColumnMapping', () => {
+  test('should reject unknown fields and out of range columns', () => {
+    expect(() => validateColumnMapping({ ticker: 1 }, 5)).toThrow('unknown field ticker');
+    expect(() => validateColumnMapping({ quantity: 5 }, 5)).toThrow('quantity column 5 is out of range');
+    expect(() => validateColumnMapping({ quantity: 4, sector: null }, 5)).not.toThrow();
+  });
+
+  test('should list unmapped required fields by label', () => {
+    expect(getMissingColumns({ particulars: 0, purchasePrice: 1, quantity: null })).toEqual(['Qty', 'NSE/BSE']);
+  });
+});
+
+describe('readPortfolioRows', () => {
+  const mapping = detectColumnMapping(HEADERS, STANDARD);
+
+  test('should carry sector header rows onto the stock rows below them', () => {
+    const rows = [
+      HEADERS,
+      [null, 'Financial Sector'],
+      [1, 'HDFC Bank', 1490, 50, 74500, 'HDFCBANK', 18.69, 91.02],
+      [2, 'ICICI Bank', 780, 84, 65520, 532174, '#N/A', '#N/A'],
+      [null, 'Tech Sector'],
+      [3, 'Infosys', 1400, 10, 14000, 'INFY', null, null]
+    ];
+
+    expect(readPortfolioRows(rows, 0, mapping, STANDARD)).toEqual([
+      {
+        row: 3,
+        values: { Particulars: 'HDFC Bank', 'Purchase Price': 1490, Qty: 50, 'NSE/BSE': 'HDFCBANK', Sector: 'Financial' },
+        peRatio: 18.69,
+        latestEarnings: '91.02'
+      },
+      {
+        row: 4,
+        values: { Particulars: 'ICICI Bank', 'Purchase Price': 780, Qty: 84, 'NSE/BSE': '532174', Sector: 'Financial' },
+        peRatio: null,
+        latestEarnings: null
+      },
+      {
+        row: 6,
+        values: { Particulars: 'Infosys', 'Purchase Price': 1400, Qty: 10, 'NSE/BSE': 'INFY', Sector: 'Tech' },
+        peRatio: null,
+        latestEarnings: null
+      }
+    ]);
+  });
+
+  test('should skip note rows and keep non-numeric cells for validation', () => {
+    const rows = [
+      HEADERS,
+      [null, 'Prices as of March'],
+      [1, 'HDFC Bank', 'n/a', 50, null, 'HDFCBANK']
+    ];
+
+    const [entry, ...rest] = readPortfolioRows(rows, 0, mapping, STANDARD);
+    expect(rest).toEqual([]);
+    expect(entry.values['Purchase Price']).toBe('n/a');
+  });
+});
+
+describe('mapping profiles', () => {
+  test('should parse numbers in the profile number format', () => {
+    const format = createMappingProfile({ numberFormat: { decimalSeparator: ',', thousandsSeparator: '.' } }).numberFormat;
+
+    expect(parseSheetNumber('₹ 1.490,50', format)).toBe(1490.5);
+    expect(parseSheetNumber(12, format)).toBe(12);
+    expect(parseSheetNumber('', format)).toBeNull();
+    expect(parseSheetNumber('#N/A', format)).toBe('#N/A');
+  });
+
+  test('should treat name-only rows as sectors in nameOnly mode', () => {
+    const profile = createMappingProfile({ ...STANDARD, sectorRows: { mode: 'nameOnly', strip: [] } });
+    const rows = [HEADERS, [null, 'Banks'], [1, 'HDFC Bank', 1490, 50, null, 'HDFCBANK']];
+
+    expect(readPortfolioRows(rows, 0, detectColumnMapping(HEADERS, profile), profile)[0].values.Sector).toBe('Banks');
+  });
+
+  test('should validate profiles', () => {
+    expect(validateMappingProfile(STANDARD).isValid).toBe(true);
+
+    const { isValid, errors } = validateMappingProfile(createMappingProfile({
+      id: 'bad id',
+      columns: { particulars: ['Name'], ticker: ['Symbol'] },
+      sectorRows: { mode: 'bold' },
+      numberFormat: { decimalSeparator: ',', thousandsSeparator: ',' }
+    }));
+    expect(isValid).toBe(false);
+    expect(errors).toEqual(expect.arrayContaining([
+      'Invalid or missing id: use letters, digits and dashes',
+      'Invalid column field: ticker',
+      'Missing aliases for stockCode',
+      'Invalid sector row mode: must be one of keywords, nameOnly, none'
+    ]));
+  });
+});
+
+describe('diffHoldings', () => {
+  const holding = (nseCode, quantity, purchasePrice, sector = 'Financial') =>
+    createHolding({ particulars: nseCode, nseCode, quantity, purchasePrice, sector });
+
+  test('should split holdings into added, removed, changed and unchanged', () => {
+    const diff = diffHoldings(
+      [holding('HDFCBANK', 50, 1490), holding('ITC', 100, 400), holding('INFY', 10, 1400)],
+      [holding('HDFCBANK', 60, 1490), holding('ITC', 100, 400), holding('TCS', 5, 3500)]
+    );
+
+    expect(diff.added.map(p => p.key)).toEqual(['TCS']);
+    expect(diff.removed.map(p => p.key)).toEqual(['INFY']);
+    expect(diff.changed).toEqual([
+      expect.objectContaining({ key: 'HDFCBANK', changes: { quantity: { before: 50, after: 60 } } })
+    ]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  test('should combine repeated stocks at the weighted purchase price', () => {
+    const diff = diffHoldings([], [holding('ITC', 100, 400), holding('ITC', 100, 500)]);
+
+    expect(diff.added).toEqual([expect.objectContaining({ key: 'ITC', quantity: 200, purchasePrice: 450 })]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for XIRR and time-weighted return utilities
+ */
+
+import {
+  calculateXirr,
+  calculateTimeWeightedReturn,
+  calculateReturns,
+  buildCashFlows
+} from '../../src/utils/returnCalculations.js';
+
+const lot = (date, price, quantity) => ({
+  transactionId: `txn_${date}`,
+  date,
+  price,
+  quantity,
+  investment: price * quantity
+});
+
+const holdingWith = ({ lots = [], realizedLots = [], cmp }) => ({
+  lots,
+  realizedLots,
+  cmp,
+  presentValue: cmp * lots.reduce((sum, l) => sum + l.quantity, 0)
+});
+
+describe('calculateXirr', () => {
+  test('should return the annual rate for a one-year doubling', () => {
+    const rate = calculateXirr([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2024-01-01', amount: 2000 }
+    ]);
+
+    expect(rate).toBeCloseTo(1, 4);
+  });
+
+  test('should annualize returns over multiple years', () => {
+    // 1000 growing to 1210 over two years is 10% a year
+    const rate = calculateXirr([
+      { date: '2022-01-01', amount: -1000 },
+      { date: '2024-01-01', amount: 1210 }
+    ]);
+
+    expect(rate).toBeCloseTo(0.1, 2);
+  });
+
+  test('should handle losses', () => {
+    const rate = calculateXirr([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2024-01-01', amount: 500 }
+    ]);
+
+    expect(rate).toBeCloseTo(-0.5, 4);
+  });
+
+  test('should return null without both investments and returns', () => {
+    expect(calculateXirr([{ date: '2023-01-01', amount: -1000 }])).toBeNull();
+    expect(calculateXirr([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2023-01-01', amount: 1100 }
+    ])).toBeNull();
+  });
+});
+
+describe('buildCashFlows', () => {
+  test('should reconstruct buys and sells from open and realized lots', () => {
+    const flows = buildCashFlows({
+      lots: [lot('2023-01-01', 100, 5)],
+      realizedLots: [{
+        buyDate: '2023-01-01',
+        sellDate: '2023-06-01',
+        quantity: 5,
+        buyPrice: 100,
+        sellPrice: 150,
+        costBasis: 500,
+        proceeds: 750,
+        gain: 250
+      }]
+    });
+
+    expect(flows).toEqual([
+      { date: '2023-01-01', amount: -500 },
+      { date: '2023-01-01', amount: -500 },
+      { date: '2023-06-01', amount: 750 }
+    ]);
+  });
+});
+
+describe('calculateTimeWeightedReturn', () => {
+  test('should equal the price return for a single buy', () => {
+    const twr = calculateTimeWeightedReturn([
+      holdingWith({ lots: [lot('2023-01-01', 100, 10)], cmp: 150 })
+    ]);
+
+    expect(twr).toBeCloseTo(0.5, 10);
+  });
+
+  test('should not be affected by the timing of additional purchases', () => {
+    // Price goes 100 -> 200 -> 300; a large top-up at 200 changes XIRR but not TWR
+    const holding = holdingWith({
+      lots: [lot('2022-01-01', 100, 1), lot('2023-01-01', 200, 100)],
+      cmp: 300
+    });
+
+    expect(calculateTimeWeightedReturn([holding])).toBeCloseTo(2, 10);
+  });
+
+  test('should chain sub-periods across instruments', () => {
+    const twr = calculateTimeWeightedReturn([
+      holdingWith({ lots: [lot('2022-01-01', 100, 10)], cmp: 110 }),
+      holdingWith({ lots: [lot('2023-01-01', 50, 20)], cmp: 50 })
+    ]);
+
+    // First holding alone until the second buy, then an equal-weight basket
+    expect(twr).toBeGreaterThan(0);
+    expect(twr).toBeLessThan(0.1);
+  });
+
+  test('should return null without trades', () => {
+    expect(calculateTimeWeightedReturn([holdingWith({ cmp: 100 })])).toBeNull();
+  });
+});
+
+describe('calculateReturns', () => {
+  test('should return percentages valued at the as-of date', () => {
+    const result = calculateReturns(
+      [holdingWith({ lots: [lot('2023-01-01', 100, 10)], cmp: 200 })],
+      '2024-01-01'
+    );
+
+    expect(result.xirr).toBeCloseTo(100, 2);
+    expect(result.twr).toBeCloseTo(100, 10);
+  });
+
+  test('should return nulls for holdings without ledger lots or CMP', () => {
+    expect(calculateReturns([holdingWith({ cmp: 200 })])).toEqual({ xirr: null, twr: null });
+    expect(calculateReturns([
+      holdingWith({ lots: [lot('2023-01-01', 100, 10)], cmp: 0 })
+    ])).toEqual({ xirr: null, twr: null });
+  });
+
+  test('should include realized sales in closed positions', () => {
+    const result = calculateReturns([
+      holdingWith({
+        realizedLots: [{
+          buyDate: '2023-01-01',
+          sellDate: '2024-01-01',
+          quantity: 10,
+          buyPrice: 100,
+          sellPrice: 110,
+          costBasis: 1000,
+          proceeds: 1100,
+          gain: 100
+        }],
+        cmp: 120
+      })
+    ], '2024-06-01');
+
+    expect(result.xirr).toBeCloseTo(10, 2);
+    expect(result.twr).toBeCloseTo(10, 10);
+  });
+});
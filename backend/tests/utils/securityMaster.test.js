@@ -0,0 +1,70 @@
+/**
+ * Tests for security list parsing
+ */
+
+import { parseSecurityListRows, mergeSecurities } from '../../src/utils/securityMaster.js';
+
+describe('securityMaster', () => {
+  const nseRows = [
+    ['SYMBOL', 'NAME OF COMPANY', ' SERIES', ' ISIN NUMBER'],
+    ['RELIANCE', 'Reliance Industries Limited', 'EQ', 'INE002A01018'],
+    ['INFY', 'Infosys Limited', 'EQ', 'INE009A01021']
+  ];
+  const bseRows = [
+    ['Security Code', 'Issuer Name', 'Security Id', 'Status', 'ISIN No', 'Industry', 'Instrument', 'Industry New Name'],
+    ['500325', 'Reliance Industries Ltd', 'RELIANCE', 'Active', 'INE002A01018', 'Refineries', 'Equity', 'Petroleum Products'],
+    ['511577', 'Savani Financials Ltd', 'SAVFI', 'Active', 'INE304E01018', 'Finance', 'Equity', null],
+    ['500001', 'Old Company Ltd', 'OLDCO', 'Delisted', 'INE000A01010', 'Textiles', 'Equity', null],
+    ['800100', 'ICICI Bank Bond', 'ICICIBOND', 'Active', 'INE090A08AB1', null, 'Debt Instruments', null]
+  ];
+
+  describe('parseSecurityListRows', () => {
+    test('should read the NSE equity list', () => {
+      const { exchange, securities } = parseSecurityListRows(nseRows, 'EQUITY_L.csv');
+
+      expect(exchange).toBe('NSE');
+      expect(securities[0]).toEqual({
+        isin: 'INE002A01018',
+        nseSymbol: 'RELIANCE',
+        bseCode: null,
+        bseSymbol: null,
+        name: 'Reliance Industries Limited',
+        industry: null
+      });
+    });
+
+    test('should read active BSE equities, preferring the new industry name', () => {
+      const { exchange, securities } = parseSecurityListRows(bseRows, 'Equity.csv');
+
+      expect(exchange).toBe('BSE');
+      expect(securities.map(s => [s.bseCode, s.bseSymbol, s.industry])).toEqual([
+        ['500325', 'RELIANCE', 'Petroleum Products'],
+        ['511577', 'SAVFI', 'Finance']
+      ]);
+    });
+
+    test('should reject other layouts', () => {
+      expect(() => parseSecurityListRows([['Date', 'Close']], 'prices.csv')).toThrow('Invalid security list: prices.csv');
+    });
+  });
+
+  describe('mergeSecurities', () => {
+    test('should join NSE and BSE listings by ISIN', () => {
+      const merged = mergeSecurities([
+        ...parseSecurityListRows(nseRows, 'EQUITY_L.csv').securities,
+        ...parseSecurityListRows(bseRows, 'Equity.csv').securities
+      ]);
+
+      expect(merged).toHaveLength(3);
+      expect(merged[0]).toEqual({
+        isin: 'INE002A01018',
+        nseSymbol: 'RELIANCE',
+        bseCode: '500325',
+        bseSymbol: 'RELIANCE',
+        name: 'Reliance Industries Limited',
+        industry: 'Petroleum Products'
+      });
+      expect(merged[2]).toMatchObject({ bseCode: '511577', nseSymbol: null });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for sparkline series utilities
+ */
+
+import { summarizeSeries, combineSeries } from '../../src/utils/seriesCalculations.js';
+
+describe('summarizeSeries', () => {
+  test('should report high, low and change over the period', () => {
+    const summary = summarizeSeries([
+      { timestamp: 't1', value: 100 },
+      { timestamp: 't2', value: 120 },
+      { timestamp: 't3', value: 90 },
+      { timestamp: 't4', value: 110 }
+    ]);
+
+    expect(summary).toMatchObject({ high: 120, low: 90, open: 100, close: 110, change: 10, changePercent: 10 });
+    expect(summary.points).toHaveLength(4);
+  });
+
+  test('should return null for an empty series', () => {
+    expect(summarizeSeries([])).toBeNull();
+  });
+});
+
+describe('combineSeries', () => {
+  test('should sum weighted closes per timestamp', () => {
+    const combined = combineSeries([
+      { weight: 10, points: [{ timestamp: 't1', close: 100 }, { timestamp: 't2', close: 110 }] },
+      { weight: 2, points: [{ timestamp: 't1', close: 50 }, { timestamp: 't2', close: 40 }] }
+    ]);
+
+    expect(combined).toEqual([
+      { timestamp: 't1', value: 1100 },
+      { timestamp: 't2', value: 1180 }
+    ]);
+  });
+
+  test('should start when every series has a price and carry closes forward', () => {
+    const combined = combineSeries([
+      { weight: 1, points: [{ timestamp: 't1', close: 10 }, { timestamp: 't2', close: 11 }, { timestamp: 't4', close: 12 }] },
+      { weight: 1, points: [{ timestamp: 't2', close: 5 }, { timestamp: 't3', close: 6 }] }
+    ]);
+
+    expect(combined).toEqual([
+      { timestamp: 't2', value: 16 },
+      { timestamp: 't3', value: 17 },
+      { timestamp: 't4', value: 18 }
+    ]);
+  });
+
+  test('should return an empty series without input', () => {
+    expect(combineSeries([])).toEqual([]);
+    expect(combineSeries([{ weight: 1, points: [] }])).toEqual([]);
+  });
+});
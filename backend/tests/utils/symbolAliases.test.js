@@ -0,0 +1,60 @@
+/**
+ * Tests for symbol alias resolution
+ */
+
+import { buildAliasIndex, resolveSymbolAlias, findAliasIsin } from '../../src/utils/symbolAliases.js';
+import { createSymbolAlias, validateSymbolAlias } from '../../src/models/SymbolAlias.js';
+
+describe('resolveSymbolAlias', () => {
+  const index = buildAliasIndex([
+    { from: 'ABC', to: 'ABCNEW', type: 'rename', date: '2023-01-01', isin: 'INE000A01011' },
+    { from: 'ABCNEW', to: 'XYZ', type: 'merger', date: '2024-06-01', isin: null },
+    { from: '511577', to: 'SAVFI', type: 'migration', date: '2025-02-01', isin: null },
+    { from: 'LOOPA', to: 'LOOPB', type: 'rename', date: null, isin: null },
+    { from: 'LOOPB', to: 'LOOPA', type: 'rename', date: null, isin: null }
+  ]);
+
+  test('should follow renames to the current code', () => {
+    expect(resolveSymbolAlias('abc', index)).toEqual({
+      code: 'XYZ',
+      isin: 'INE000A01011',
+      previousCodes: ['ABC', 'ABCNEW']
+    });
+    expect(resolveSymbolAlias('511577', index)).toEqual({ code: 'SAVFI', isin: null, previousCodes: ['511577'] });
+  });
+
+  test('should return null for codes without an alias', () => {
+    expect(resolveSymbolAlias('XYZ', index)).toBeNull();
+    expect(resolveSymbolAlias('', index)).toBeNull();
+    expect(resolveSymbolAlias(null, index)).toBeNull();
+  });
+
+  test('should give the ISIN of a current code', () => {
+    expect(findAliasIsin('abcnew', index)).toBe('INE000A01011');
+    expect(findAliasIsin('XYZ', index)).toBeNull();
+  });
+
+  test('should stop at a cycle', () => {
+    expect(resolveSymbolAlias('LOOPA', index)).toEqual({ code: 'LOOPA', isin: null, previousCodes: ['LOOPA', 'LOOPB'] });
+  });
+});
+
+describe('validateSymbolAlias', () => {
+  test('should accept a dated rename', () => {
+    const alias = createSymbolAlias({ from: ' zomato ', to: 'eternal', date: '20-03-2025', isin: 'ine758t01015' });
+
+    expect(alias).toEqual({ from: 'ZOMATO', to: 'ETERNAL', type: 'rename', date: '2025-03-20', isin: 'INE758T01015' });
+    expect(validateSymbolAlias(alias).isValid).toBe(true);
+  });
+
+  test('should report missing codes, unknown types, bad dates and ISINs', () => {
+    const { errors } = validateSymbolAlias(createSymbolAlias({ from: 'ABC', to: 'abc', type: 'delisting', date: 'soon', isin: 'US0378331005' }));
+
+    expect(errors).toEqual([
+      'Invalid to code: must differ from the from code',
+      'Invalid type: must be one of rename, merger, migration',
+      'Invalid date: use YYYY-MM-DD',
+      'Invalid isin: must be a 12 character Indian ISIN'
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for table export utilities
+ */
+
+import {
+  HOLDING_EXPORT_COLUMNS,
+  SECTOR_EXPORT_COLUMNS,
+  formatExportValue,
+  selectExportColumns,
+  buildExportRecords,
+  toCsv
+} from '../../src/utils/tableExport.js';
+
+const holdings = [
+  { particulars: 'HDFC Bank', nseCode: 'HDFCBANK', bseCode: null, investment: 123456.789, portfolioPercentage: 12.3456, peRatio: 18.694 },
+  { particulars: 'Tata "Motors"', nseCode: 'TATAMOTORS', bseCode: '500570', investment: 900, portfolioPercentage: 1, peRatio: null }
+];
+
+describe('formatExportValue', () => {
+  test('should format values the way the dashboard shows them', () => {
+    expect(formatExportValue(123456.789, 'currency')).toBe('₹1,23,456.79');
+    expect(formatExportValue(12.3456, 'percent')).toBe('12.35%');
+    expect(formatExportValue(18.694, 'ratio')).toBe('18.69');
+    expect(formatExportValue(150000, 'number')).toBe('1,50,000');
+    expect(formatExportValue(null, 'currency')).toBe('');
+    expect(formatExportValue('91.02', 'text')).toBe('91.02');
+  });
+});
+
+describe('selectExportColumns', () => {
+  test('should pick columns in the order asked for, all of them when none are', () => {
+    expect(selectExportColumns(HOLDING_EXPORT_COLUMNS, 'investment, particulars').map(column => column.key))
+      .toEqual(['investment', 'particulars']);
+    expect(selectExportColumns(SECTOR_EXPORT_COLUMNS, undefined)).toBe(SECTOR_EXPORT_COLUMNS);
+  });
+
+  test('should reject unknown columns', () => {
+    expect(() => selectExportColumns(HOLDING_EXPORT_COLUMNS, ['particulars', 'price']))
+      .toThrow('Invalid export columns: price');
+  });
+});
+
+describe('buildExportRecords', () => {
+  const columns = selectExportColumns(HOLDING_EXPORT_COLUMNS, 'particulars,investment,peRatio');
+
+  test('should format numbers unless raw numbers are asked for', () => {
+    expect(buildExportRecords(holdings, columns)[0]).toEqual({ particulars: 'HDFC Bank', investment: '₹1,23,456.79', peRatio: '18.69' });
+    expect(buildExportRecords(holdings, columns, { raw: true })[1]).toEqual({ particulars: 'Tata "Motors"', investment: 900, peRatio: null });
+  });
+});
+
+describe('toCsv', () => {
+  test('should write a label header and quote fields with commas or quotes', () => {
+    const columns = selectExportColumns(HOLDING_EXPORT_COLUMNS, 'particulars,investment');
+
+    expect(toCsv(buildExportRecords(holdings, columns), columns)).toBe([
+      'Particulars,Investment',
+      'HDFC Bank,"₹1,23,456.79"',
+      '"Tata ""Motors""",₹900',
+      ''
+    ].join('\n'));
+  });
+});
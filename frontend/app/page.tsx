@@ -1,19 +1,55 @@
 'use client';
 
 import { useMemo, useState, useEffect, useCallback } from 'react';
-import { usePortfolio, useErrorHandler } from '@/hooks';
-import { SectorGroup, AutoRefresh, ErrorBoundary, useToast, LoadingBar, ThemeToggle, PortfolioCharts, MetricCard, LoadingScreen, SkeletonDashboard } from '@/components';
-import { parseApiErrors } from '@/utils';
-import { Briefcase, TrendingUp, Wallet, Percent } from 'lucide-react';
-import type { Holding, SectorSummary } from '@/types';
+import { usePortfolio, usePortfolios, usePortfolioEvents, useErrorHandler } from '@/hooks';
+import { SectorGroup, AutoRefresh, ErrorBoundary, useToast, LoadingBar, ThemeToggle, PortfolioCharts, TaxReport, DividendLedger, ImportWizard, PortfolioSwitcher, ExportMenu, MetricCard, LoadingScreen, SkeletonDashboard } from '@/components';
+import { parseApiErrors, formatGainLossWithSign, HOLDING_EXPORT_COLUMNS, SECTOR_EXPORT_COLUMNS, type ExportDataset } from '@/utils';
+import { getStatementUrl } from '@/lib/api';
+import { Briefcase, TrendingUp, Wallet, Percent, Activity, Upload, FileText } from 'lucide-react';
+import type { Holding, SectorSummary, SectorGroupData, PortfolioTotals, PortfolioReloadEvent } from '@/types';
 
 // ... existing helper functions (groupHoldingsBySector, SectorGroupSkeleton, EmptyState, ErrorState) ...
 
+/**
+ * Formats XIRR and time-weighted return as a caption, or undefined without ledger data
+ */
+function formatReturnsCaption(xirr: number | null | undefined, twr: number | null | undefined): string | undefined {
+  if (xirr === null || xirr === undefined) return undefined;
+  const format = (v: number) => `${v.toFixed(2)}%`;
+  const twrText = twr === null || twr === undefined ? '' : ` · TWR ${formatGainLossWithSign(twr, format)}`;
+  return `XIRR ${formatGainLossWithSign(xirr, format)}${twrText}`;
+}
+
+/**
+ * Dividends received and the total return including them, when any were paid
+ */
+function formatDividendsCaption(totals: PortfolioTotals | undefined): string | undefined {
+  if (!totals || !totals.totalDividends) return undefined;
+  const format = (v: number) => `₹${Math.abs(v).toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+  return `+${format(totals.totalDividends)} dividends · Total ${formatGainLossWithSign(totals.totalReturn, format)}`;
+}
+
+/**
+ * Today's P&L across holdings, as an amount and against the previous close value
+ */
+function calculateDayChange(holdings: Holding[]): { dayChange: number; dayChangePercent: number } {
+  const dayChange = holdings.reduce((sum, h) => sum + (h.dayChange ?? 0), 0);
+  const previousValue = holdings.reduce((sum, h) => sum + (h.previousClose ? h.previousClose * h.quantity : 0), 0);
+  return {
+    dayChange,
+    dayChangePercent: previousValue > 0 ? (dayChange / previousValue) * 100 : 0,
+  };
+}
+
 /**
  * Groups holdings by sector and calculates sector summaries
+ * XIRR, time-weighted return and dividends are taken from the backend sector summaries
  * Requirements: 6.1 - Group stocks by Sector
  */
-function groupHoldingsBySector(holdings: Holding[]): Map<string, { holdings: Holding[]; summary: SectorSummary }> {
+function groupHoldingsBySector(
+  holdings: Holding[],
+  backendSectors: SectorGroupData[] = []
+): Map<string, { holdings: Holding[]; summary: SectorSummary }> {
   const sectorMap = new Map<string, Holding[]>();
 
   // Group holdings by sector
@@ -24,6 +60,8 @@ function groupHoldingsBySector(holdings: Holding[]): Map<string, { holdings: Hol
     sectorMap.set(sector, existing);
   }
 
+  const backendSummaries = new Map(backendSectors.map((group) => [group.sector, group.summary]));
+
   // Calculate summaries for each sector
   const result = new Map<string, { holdings: Holding[]; summary: SectorSummary }>();
 
@@ -39,6 +77,11 @@ function groupHoldingsBySector(holdings: Holding[]): Map<string, { holdings: Hol
       totalPresentValue,
       totalGainLoss,
       gainLossPercentage,
+      ...calculateDayChange(sectorHoldings),
+      xirr: backendSummaries.get(sector)?.xirr ?? null,
+      twr: backendSummaries.get(sector)?.twr ?? null,
+      dividendsReceived: backendSummaries.get(sector)?.dividendsReceived,
+      dividendYieldOnCost: backendSummaries.get(sector)?.dividendYieldOnCost,
       holdingsCount: sectorHoldings.length,
     };
 
@@ -148,10 +191,15 @@ function ErrorState({
 }
 
 function DashboardContent() {
-  const { data, isLoading, error, isRefetching, refresh, lastUpdated } = usePortfolio();
+  const [portfolioId, setPortfolioId] = useState<string | null>(null);
+  const { data, isLoading, error, isRefetching, refresh, lastUpdated } = usePortfolio({ portfolioId });
+  const { householdId } = usePortfolios();
+  const isHousehold = portfolioId !== null && portfolioId === householdId;
   const [autoRefreshEnabled, setAutoRefreshEnabled] = useState(true);
   const [showLoadingScreen, setShowLoadingScreen] = useState(true);
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
+  const [analysisTab, setAnalysisTab] = useState<'charts' | 'dividends' | 'tax'>('charts');
+  const [showImportWizard, setShowImportWizard] = useState(false);
   const { addToast } = useToast();
   const { handleError, isRetrying, retry, isOnline } = useErrorHandler({
     onRetry: refresh,
@@ -170,6 +218,16 @@ function DashboardContent() {
     }
   }, [data, hasLoadedOnce]);
 
+  // The backend re-parses the portfolio files when they change; failed reloads arrive with the portfolio's errors
+  usePortfolioEvents(useCallback((event: PortfolioReloadEvent) => {
+    if (event.reloaded.length > 0) {
+      addToast({ type: 'info', title: 'Portfolio reloaded', message: 'The portfolio file changed and was loaded again.' });
+    }
+    parseApiErrors(event.errors).forEach((err) => {
+      addToast({ type: 'warning', title: err.title, message: err.message, duration: 8000 });
+    });
+  }, [addToast]));
+
   const handleToggleAutoRefresh = useCallback(() => {
     setAutoRefreshEnabled(prev => !prev);
   }, []);
@@ -199,17 +257,28 @@ function DashboardContent() {
   }, [error, handleError]);
 
   const holdings = data?.holdings;
+  const sectors = data?.sectors;
+  const totals = data?.totals;
   const sectorGroups = useMemo(() => {
     if (!holdings || holdings.length === 0) {
       return new Map();
     }
-    return groupHoldingsBySector(holdings);
-  }, [holdings]);
+    return groupHoldingsBySector(holdings, sectors);
+  }, [holdings, sectors]);
 
   const sortedSectors = useMemo(() => {
     return Array.from(sectorGroups.keys()).sort((a, b) => a.localeCompare(b));
   }, [sectorGroups]);
 
+  // Holdings and sector summaries in the order the sector groups show them
+  const exportDatasets = useMemo((): ExportDataset[] => {
+    const groups = sortedSectors.map((sector) => sectorGroups.get(sector)!);
+    return [
+      { id: 'holdings', label: 'Holdings', rows: groups.flatMap((group) => group.holdings), columns: HOLDING_EXPORT_COLUMNS },
+      { id: 'sectors', label: 'Sectors', rows: groups.map((group) => group.summary), columns: SECTOR_EXPORT_COLUMNS },
+    ];
+  }, [sortedSectors, sectorGroups]);
+
   // Show full-screen loading on initial load
   const isInitialLoading = isLoading && !hasLoadedOnce;
 
@@ -217,6 +286,8 @@ function DashboardContent() {
     <div className="min-h-screen bg-background pb-10">
       {/* Full-screen loading experience for initial load */}
       <LoadingScreen isVisible={isInitialLoading && showLoadingScreen} />
+
+      {showImportWizard && <ImportWizard onClose={() => setShowImportWizard(false)} />}
       
       <LoadingBar isLoading={(isLoading || isRefetching) && !isInitialLoading} variant={isRefetching ? 'success' : 'primary'} />
 
@@ -230,6 +301,7 @@ function DashboardContent() {
             </h1>
             {lastUpdated && (
               <p className="text-sm text-muted-foreground mt-1 font-medium">
+                {portfolioId && data?.portfolio && `${data.portfolio.name} · `}
                 Last updated: {new Date(lastUpdated).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'medium' })}
               </p>
             )}
@@ -238,6 +310,17 @@ function DashboardContent() {
           <div className="flex flex-wrap items-center gap-2 sm:gap-3">
             <ThemeToggle />
 
+            <PortfolioSwitcher value={portfolioId} onChange={setPortfolioId} />
+
+            <button
+              onClick={() => setShowImportWizard(true)}
+              className="flex items-center gap-2 bg-card border border-border rounded-lg px-3 py-2 sm:py-2.5 text-sm font-medium text-foreground hover:bg-secondary transition-colors cursor-pointer"
+              title="Import a portfolio sheet"
+            >
+              <Upload className="w-4 h-4" />
+              <span className="hidden sm:inline">Import</span>
+            </button>
+
             {/* Auto-refresh controls - hidden on very small screens, simplified on mobile */}
             <div className="hidden sm:flex bg-card border border-border rounded-lg p-1 items-center gap-2">
               <div className="flex items-center px-2 sm:px-3 py-1.5 border-r border-border">
@@ -311,12 +394,13 @@ function DashboardContent() {
           <div className="animate-page-enter space-y-8">
 
             {/* Summary Metrics Cards */}
-            <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-5 stagger-children">
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3 sm:gap-5 stagger-children">
               {(() => {
                 const totalInvestment = holdings.reduce((sum, h) => sum + h.investment, 0);
                 const totalPresentValue = holdings.reduce((sum, h) => sum + h.presentValue, 0);
                 const totalGainLoss = totalPresentValue - totalInvestment;
                 const totalGainLossPercentage = totalInvestment > 0 ? (totalGainLoss / totalInvestment) * 100 : 0;
+                const { dayChange, dayChangePercent } = calculateDayChange(holdings);
 
                 return (
                   <>
@@ -341,6 +425,7 @@ function DashboardContent() {
                       trend={totalGainLossPercentage} // Using percentage as trend
                       gradientBorder={totalGainLoss >= 0 ? "border-l-4 border-l-emerald-500" : "border-l-4 border-l-red-500"}
                       delay={2}
+                      caption={formatDividendsCaption(totals)}
                     />
                     <MetricCard
                       title="Return"
@@ -350,6 +435,15 @@ function DashboardContent() {
                       trend={totalGainLossPercentage}
                       gradientBorder={totalGainLossPercentage >= 0 ? "border-l-4 border-l-emerald-500" : "border-l-4 border-l-red-500"}
                       delay={3}
+                      caption={formatReturnsCaption(totals?.xirr, totals?.twr)}
+                    />
+                    <MetricCard
+                      title="Today's P&L"
+                      value={dayChange}
+                      icon={Activity}
+                      trend={dayChangePercent}
+                      gradientBorder={dayChange >= 0 ? "border-l-4 border-l-emerald-500" : "border-l-4 border-l-red-500"}
+                      delay={4}
                     />
                   </>
                 );
@@ -360,15 +454,40 @@ function DashboardContent() {
             <div>
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-bold text-foreground">Portfolio Analysis</h2>
-                {/* Filters could go here */}
+                <div className="flex rounded-lg border border-border p-0.5 text-sm font-medium">
+                  {(['charts', 'dividends', 'tax'] as const).map((tab) => (
+                    <button
+                      key={tab}
+                      onClick={() => setAnalysisTab(tab)}
+                      className={`rounded-md px-3 py-1 transition-colors ${
+                        analysisTab === tab ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground'
+                      }`}
+                    >
+                      {tab === 'charts' ? 'Charts' : tab === 'dividends' ? 'Dividends' : 'Tax'}
+                    </button>
+                  ))}
+                </div>
               </div>
-              <PortfolioCharts holdings={holdings} />
+              {analysisTab === 'charts' && <PortfolioCharts holdings={holdings} portfolioId={portfolioId} />}
+              {analysisTab === 'dividends' && <DividendLedger portfolioId={portfolioId} />}
+              {analysisTab === 'tax' && <TaxReport portfolioId={portfolioId} />}
             </div>
 
             {/* Sector Groups / Tables */}
             <div className="space-y-6">
               <div className="flex items-center justify-between">
                 <h2 className="text-xl font-bold text-foreground">Financial Holdings</h2>
+                <div className="flex items-center gap-2">
+                  <a
+                    href={getStatementUrl(data?.portfolio?.id)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border bg-card text-xs font-medium text-muted-foreground hover:bg-secondary hover:text-foreground transition-colors"
+                    title="Download a printable PDF statement"
+                  >
+                    <FileText className="w-3.5 h-3.5" />
+                    Statement
+                  </a>
+                  <ExportMenu fileName={`portfolio-${data?.portfolio?.id ?? 'default'}`} datasets={exportDatasets} />
+                </div>
               </div>
 
               {/* Render Sector Groups */}
@@ -380,6 +499,8 @@ function DashboardContent() {
                     sector={sector}
                     holdings={sectorData.holdings}
                     summary={sectorData.summary}
+                    showPortfolio={isHousehold}
+                    portfolioId={portfolioId}
                   />
                 );
               })}
@@ -0,0 +1,277 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { isAxiosError } from 'axios';
+import { motion } from 'framer-motion';
+import { Trash2, Upload } from 'lucide-react';
+import { useDividends } from '@/hooks';
+import { useToast } from './Toast';
+import type { Dividend } from '@/types';
+
+/**
+ * Format currency value in Indian Rupees
+ */
+function formatCurrency(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * The backend's validation message when there is one, e.g. "Invalid dividend: ..."
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (isAxiosError(error) && typeof error.response?.data?.message === 'string') {
+    return error.response.data.message;
+  }
+  return error instanceof Error ? error.message : fallback;
+}
+
+const EMPTY_FORM = {
+  symbol: '',
+  paymentDate: '',
+  exDate: '',
+  amountPerShare: '',
+  quantity: '',
+  amount: '',
+  tds: '',
+};
+
+const inputClass = 'w-full rounded-lg border border-border bg-card px-2 py-1.5 text-sm text-foreground';
+
+function DividendsTable({ dividends, onDelete }: { dividends: Dividend[]; onDelete: (id: string) => void }) {
+  if (dividends.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No dividends recorded yet. Add one above or import a broker statement.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-xs uppercase tracking-wider text-muted-foreground">
+            <th className="px-3 py-2 text-left">Stock</th>
+            <th className="px-3 py-2 text-left">Ex-Date</th>
+            <th className="px-3 py-2 text-left">Paid</th>
+            <th className="px-3 py-2 text-right">Per Share</th>
+            <th className="px-3 py-2 text-right">Qty</th>
+            <th className="px-3 py-2 text-right">Gross</th>
+            <th className="px-3 py-2 text-right">TDS</th>
+            <th className="px-3 py-2 text-right">Net</th>
+            <th className="px-3 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {[...dividends].reverse().map((dividend) => (
+            <tr key={dividend.id} className="text-foreground">
+              <td className="px-3 py-2">
+                <div className="font-medium">{dividend.particulars || dividend.nseCode || dividend.bseCode}</div>
+                <div className="text-xs text-muted-foreground">
+                  {dividend.nseCode || dividend.bseCode}
+                  {dividend.source === 'import' && ' · imported'}
+                </div>
+              </td>
+              <td className="px-3 py-2 whitespace-nowrap">{dividend.exDate ?? '—'}</td>
+              <td className="px-3 py-2 whitespace-nowrap">{dividend.paymentDate}</td>
+              <td className="px-3 py-2 text-right">{dividend.amountPerShare ? formatCurrency(dividend.amountPerShare) : '—'}</td>
+              <td className="px-3 py-2 text-right">{dividend.quantity || '—'}</td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">{formatCurrency(dividend.amount)}</td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">{formatCurrency(dividend.tds)}</td>
+              <td className="px-3 py-2 text-right whitespace-nowrap font-medium">{formatCurrency(dividend.netAmount)}</td>
+              <td className="px-3 py-2 text-right">
+                <button
+                  onClick={() => onDelete(dividend.id)}
+                  className="p-1 rounded-md text-muted-foreground hover:text-red-600 dark:hover:text-red-400 transition-colors cursor-pointer"
+                  aria-label={`Remove dividend of ${dividend.nseCode || dividend.bseCode} paid ${dividend.paymentDate}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface DividendLedgerProps {
+  /**
+   * Portfolio id or 'household'; null for the default portfolio
+   */
+  portfolioId?: string | null;
+}
+
+/**
+ * Dividend ledger with manual entry and CSV import
+ * Changes refresh the portfolio so holdings pick up dividends received and yield on cost.
+ * The ledger belongs to the default portfolio; other portfolios show why it is empty instead
+ */
+export function DividendLedger({ portfolioId = null }: DividendLedgerProps) {
+  const { data, isLoading, error, add, importCsv, remove } = useDividends(portfolioId);
+  // Set when the selected portfolio has no ledger of its own
+  const ledgerNotice = data?.errors[0]?.message;
+  const { addToast } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const setField = (field: keyof typeof EMPTY_FORM) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((current) => ({ ...current, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbol = form.symbol.trim().toUpperCase();
+    const isBse = /^\d+$/.test(symbol);
+
+    setIsSaving(true);
+    try {
+      await add({
+        ...(isBse ? { bseCode: symbol } : { nseCode: symbol }),
+        paymentDate: form.paymentDate,
+        ...(form.exDate && { exDate: form.exDate }),
+        ...(form.amountPerShare && { amountPerShare: Number(form.amountPerShare) }),
+        ...(form.quantity && { quantity: Number(form.quantity) }),
+        ...(form.amount && { amount: Number(form.amount) }),
+        ...(form.tds && { tds: Number(form.tds) }),
+      });
+      setForm(EMPTY_FORM);
+      addToast({ type: 'success', title: `Dividend from ${symbol} added` });
+    } catch (err) {
+      addToast({ type: 'error', title: 'Failed to add dividend', message: getErrorMessage(err, 'Unknown error') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await importCsv(await file.text());
+      const skipped = result.skipped > 0 ? `, ${result.skipped} already recorded` : '';
+      const invalid = result.errors.length > 0 ? `, ${result.errors.length} invalid rows` : '';
+      addToast({
+        type: result.errors.length > 0 ? 'warning' : 'success',
+        title: `Imported ${result.imported.length} dividends${skipped}${invalid}`,
+        message: result.errors[0] && `Row ${result.errors[0].row}: ${result.errors[0].message}`,
+      });
+    } catch (err) {
+      addToast({ type: 'error', title: 'Failed to import dividends', message: getErrorMessage(err, 'Unknown error') });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await remove(id);
+    } catch (err) {
+      addToast({ type: 'error', title: 'Failed to remove dividend', message: getErrorMessage(err, 'Unknown error') });
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="bg-card border border-border rounded-xl shadow-sm overflow-hidden"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 sm:px-6 py-3 sm:py-4 border-b border-border">
+        <div>
+          <h3 className="text-base sm:text-lg font-bold text-foreground">Dividends</h3>
+          {data && !ledgerNotice && (
+            <p className="text-xs text-muted-foreground">
+              {formatCurrency(data.totals.amount)} received · {formatCurrency(data.totals.tds)} TDS ·{' '}
+              {formatCurrency(data.totals.netAmount)} net
+            </p>
+          )}
+        </div>
+        {!ledgerNotice && (
+          <>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-sm font-medium text-foreground hover:bg-secondary transition-colors cursor-pointer"
+            >
+              <Upload className="w-4 h-4" />
+              Import CSV
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </>
+        )}
+      </div>
+
+      {ledgerNotice ? (
+        <p className="px-4 py-8 text-center text-sm text-muted-foreground">{ledgerNotice}</p>
+      ) : (
+        <div className="p-3 sm:p-6 space-y-4">
+          <form onSubmit={handleSubmit} className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-2 items-end">
+            <label className="text-xs text-muted-foreground">
+              NSE/BSE
+              <input value={form.symbol} onChange={setField('symbol')} required placeholder="ITC" className={inputClass} />
+            </label>
+            <label className="text-xs text-muted-foreground">
+              Paid on
+              <input type="date" value={form.paymentDate} onChange={setField('paymentDate')} required className={inputClass} />
+            </label>
+            <label className="text-xs text-muted-foreground">
+              Ex-date
+              <input type="date" value={form.exDate} onChange={setField('exDate')} className={inputClass} />
+            </label>
+            <label className="text-xs text-muted-foreground">
+              Per share
+              <input type="number" step="any" min="0" value={form.amountPerShare} onChange={setField('amountPerShare')} className={inputClass} />
+            </label>
+            <label className="text-xs text-muted-foreground">
+              Qty
+              <input type="number" step="any" min="0" value={form.quantity} onChange={setField('quantity')} className={inputClass} />
+            </label>
+            <label className="text-xs text-muted-foreground">
+              Amount
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={form.amount}
+                onChange={setField('amount')}
+                placeholder="Per share × qty"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-muted-foreground">
+              TDS
+              <input type="number" step="any" min="0" value={form.tds} onChange={setField('tds')} className={inputClass} />
+            </label>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground disabled:opacity-50 cursor-pointer"
+            >
+              {isSaving ? 'Adding...' : 'Add'}
+            </button>
+          </form>
+
+          {isLoading && (
+            <p className="py-8 text-center text-sm text-muted-foreground">Loading dividends...</p>
+          )}
+          {error && !isLoading && (
+            <p className="py-8 text-center text-sm text-red-500">Failed to load dividends: {error.message}</p>
+          )}
+          {data && <DividendsTable dividends={data.dividends} onDelete={handleDelete} />}
+          <p className="text-xs text-muted-foreground">
+            CSV imports need Payment Date, NSE/BSE and either Amount or Per Share and Qty columns;
+            Ex-Date, Particulars and TDS are optional. Dividends already recorded are skipped.
+          </p>
+        </div>
+      )}
+    </motion.div>
+  );
+}
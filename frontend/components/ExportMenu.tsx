@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useRef, useState, type CSSProperties } from 'react';
+import { Download } from 'lucide-react';
+import { downloadExport, type ExportDataset, type ExportFormat } from '@/utils';
+
+export interface ExportMenuProps {
+  /**
+   * Rows that can be downloaded, e.g. the holdings shown and their sector summaries
+   */
+  datasets: ExportDataset[];
+  /**
+   * File name without extension; the dataset id is appended
+   */
+  fileName: string;
+}
+
+// Room the panel needs below the button before it opens above instead
+const PANEL_HEIGHT = 440;
+
+/**
+ * Export button with a panel for picking the data, format, columns and number formatting
+ * Rows are downloaded in the order they are shown. The panel is fixed to the viewport so
+ * cards that clip their overflow don't cut it off, and closes when the page scrolls
+ */
+export function ExportMenu({ datasets, fileName }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [datasetId, setDatasetId] = useState(datasets[0]?.id);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [raw, setRaw] = useState(false);
+  // Unticked column keys per dataset, so every column is picked by default
+  const [excluded, setExcluded] = useState<Record<string, string[]>>({});
+  const [panelStyle, setPanelStyle] = useState<CSSProperties>({});
+  const containerRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const isInside = (target: EventTarget | null) =>
+      !!containerRef.current && target instanceof Node && containerRef.current.contains(target);
+    const handleClick = (event: MouseEvent) => {
+      if (!isInside(event.target)) setIsOpen(false);
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    const handleScroll = (event: Event) => {
+      if (!isInside(event.target)) setIsOpen(false);
+    };
+    const handleResize = () => setIsOpen(false);
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKey);
+    document.addEventListener('scroll', handleScroll, true);
+    window.addEventListener('resize', handleResize);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKey);
+      document.removeEventListener('scroll', handleScroll, true);
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    const rect = buttonRef.current?.getBoundingClientRect();
+    if (!isOpen && rect) {
+      const opensAbove = rect.bottom + PANEL_HEIGHT > window.innerHeight && rect.top > PANEL_HEIGHT;
+      setPanelStyle({
+        right: Math.max(window.innerWidth - rect.right, 8),
+        ...(opensAbove ? { bottom: window.innerHeight - rect.top + 8 } : { top: rect.bottom + 8 }),
+      });
+    }
+    setIsOpen((prev) => !prev);
+  };
+
+  const dataset = datasets.find((candidate) => candidate.id === datasetId) ?? datasets[0];
+  if (!dataset) return null;
+
+  const excludedKeys = excluded[dataset.id] ?? [];
+  const columns = dataset.columns.filter((column) => !excludedKeys.includes(column.key));
+
+  const setExcludedKeys = (keys: string[]) => setExcluded((prev) => ({ ...prev, [dataset.id]: keys }));
+  const toggleColumn = (key: string) =>
+    setExcludedKeys(excludedKeys.includes(key) ? excludedKeys.filter((k) => k !== key) : [...excludedKeys, key]);
+
+  const handleDownload = () => {
+    downloadExport(dataset.rows, columns, { format, raw, fileName: `${fileName}-${dataset.id}` });
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={containerRef}>
+      <button
+        ref={buttonRef}
+        onClick={handleToggle}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border bg-card text-xs font-medium text-muted-foreground hover:bg-secondary hover:text-foreground transition-colors cursor-pointer"
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        title="Export as CSV or JSON"
+      >
+        <Download className="w-3.5 h-3.5" />
+        Export
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Export"
+          style={panelStyle}
+          className="fixed z-50 w-72 rounded-lg border border-border bg-card p-4 shadow-lg space-y-4 text-sm"
+        >
+          {datasets.length > 1 && (
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Data</p>
+              <div className="flex gap-1 bg-secondary rounded-lg p-1">
+                {datasets.map((candidate) => (
+                  <button
+                    key={candidate.id}
+                    onClick={() => setDatasetId(candidate.id)}
+                    className={`flex-1 px-2 py-1 rounded-md text-xs font-medium transition-colors cursor-pointer ${candidate.id === dataset.id ? 'bg-card text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+                  >
+                    {candidate.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Format</p>
+            <div className="flex gap-1 bg-secondary rounded-lg p-1">
+              {(['csv', 'json'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setFormat(option)}
+                  className={`flex-1 px-2 py-1 rounded-md text-xs font-medium uppercase transition-colors cursor-pointer ${option === format ? 'bg-card text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-foreground cursor-pointer">
+              <input type="checkbox" checked={raw} onChange={(e) => setRaw(e.target.checked)} />
+              Raw numbers (no ₹, % or digit grouping)
+            </label>
+          </div>
+
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Columns</p>
+              <div className="flex gap-2 text-xs">
+                <button onClick={() => setExcludedKeys([])} className="text-primary hover:underline cursor-pointer">
+                  All
+                </button>
+                <button
+                  onClick={() => setExcludedKeys(dataset.columns.map((column) => column.key))}
+                  className="text-primary hover:underline cursor-pointer"
+                >
+                  None
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1 max-h-48 overflow-y-auto">
+              {dataset.columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-xs text-foreground cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!excludedKeys.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleDownload}
+            disabled={columns.length === 0 || dataset.rows.length === 0}
+            className="w-full flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-primary text-primary-foreground text-xs font-semibold hover:opacity-90 transition-opacity cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Download {dataset.rows.length} row{dataset.rows.length !== 1 ? 's' : ''}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,388 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { isAxiosError } from 'axios';
+import { motion } from 'framer-motion';
+import { FileSpreadsheet, Upload, X } from 'lucide-react';
+import { usePortfolioImport } from '@/hooks';
+import { useToast } from './Toast';
+import type { ImportField, ImportPosition, ImportPreviewResponse, MappingProfile } from '@/types';
+
+export interface ImportWizardProps {
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'review';
+
+/**
+ * Format currency value in Indian Rupees
+ */
+function formatCurrency(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * The backend's validation message when there is one, e.g. "Invalid column mapping: ..."
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  if (isAxiosError(error) && typeof error.response?.data?.message === 'string') {
+    return error.response.data.message;
+  }
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Spreadsheet column letter and header, e.g. "C · Buy Price"
+ */
+function formatColumn(index: number, headers: string[]): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  const header = headers[index]?.replace(/\s+/g, ' ');
+  return header ? `${letter} · ${header}` : letter;
+}
+
+function MappingStep({
+  preview,
+  profiles,
+  onProfileChange,
+  onChange,
+}: {
+  preview: ImportPreviewResponse;
+  profiles: MappingProfile[];
+  onProfileChange: (profile: string) => void;
+  onChange: (field: ImportField, column: number | null) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <label className="block text-xs text-muted-foreground">
+        Mapping profile
+        <select
+          value={preview.profile.selection === 'auto' ? 'auto' : preview.profile.id}
+          onChange={(e) => onProfileChange(e.target.value)}
+          className="mt-1 w-full rounded-lg border border-border bg-card px-2 py-1.5 text-sm text-foreground"
+        >
+          <option value="auto">
+            Automatic{preview.profile.selection === 'auto' ? ` (${preview.profile.name})` : ''}
+          </option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="text-sm text-muted-foreground">
+        Headers found on row {preview.headerRow} of <span className="font-medium text-foreground">{preview.fileName}</span>.
+        Check the column used for each field.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {preview.columns.map(({ field, label, required }) => {
+          const column = preview.mapping[field];
+          const detected = preview.detectedMapping[field];
+          return (
+            <label key={field} className="text-xs text-muted-foreground">
+              {label}
+              {required && <span className="text-red-600 dark:text-red-400"> *</span>}
+              {column !== detected && (
+                <span className="ml-1">
+                  (detected: {detected === null ? 'none' : formatColumn(detected, preview.headers)})
+                </span>
+              )}
+              <select
+                value={column ?? ''}
+                onChange={(e) => onChange(field, e.target.value === '' ? null : Number(e.target.value))}
+                className="mt-1 w-full rounded-lg border border-border bg-card px-2 py-1.5 text-sm text-foreground"
+              >
+                <option value="">Not mapped</option>
+                {preview.headers.map((_, index) => (
+                  <option key={index} value={index}>
+                    {formatColumn(index, preview.headers)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          );
+        })}
+      </div>
+
+      {preview.missingColumns.length > 0 ? (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          Map the {preview.missingColumns.join(', ')} column{preview.missingColumns.length > 1 ? 's' : ''} to continue.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-xs uppercase tracking-wider text-muted-foreground">
+                <th className="px-3 py-2 text-left">Row</th>
+                <th className="px-3 py-2 text-left">Particulars</th>
+                <th className="px-3 py-2 text-right">Purchase Price</th>
+                <th className="px-3 py-2 text-right">Qty</th>
+                <th className="px-3 py-2 text-left">NSE/BSE</th>
+                <th className="px-3 py-2 text-left">Sector</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {preview.rows.slice(0, 5).map((row) => (
+                <tr key={row.row} className="text-foreground">
+                  <td className="px-3 py-2 text-muted-foreground">{row.row}</td>
+                  <td className="px-3 py-2">{row.Particulars}</td>
+                  <td className="px-3 py-2 text-right">{row['Purchase Price'] ?? '—'}</td>
+                  <td className="px-3 py-2 text-right">{row.Qty ?? '—'}</td>
+                  <td className="px-3 py-2">{row['NSE/BSE'] ?? '—'}</td>
+                  <td className="px-3 py-2">{row.Sector}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PositionList({ title, positions, className }: { title: string; positions: ImportPosition[]; className: string }) {
+  if (positions.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className={`text-sm font-semibold ${className}`}>{title} ({positions.length})</h4>
+      <ul className="mt-1 space-y-0.5 text-sm text-foreground">
+        {positions.map((position) => (
+          <li key={position.key}>
+            {position.particulars} <span className="text-muted-foreground">({position.key})</span> ·{' '}
+            {position.quantity} @ {formatCurrency(position.purchasePrice)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ReviewStep({ preview }: { preview: ImportPreviewResponse }) {
+  const { summary, diff, errors } = preview;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Read with the {preview.profile.name} profile ({preview.profile.selection === 'auto' ? 'picked automatically' : 'chosen'}) ·{' '}
+        {summary.validRows} of {summary.validRows + summary.invalidRows} stock rows are valid ·{' '}
+        {diff.added.length} added, {diff.removed.length} removed, {diff.changed.length} changed, {diff.unchanged} unchanged
+      </p>
+
+      <PositionList title="Added" positions={diff.added} className="text-emerald-600 dark:text-emerald-400" />
+      <PositionList title="Removed" positions={diff.removed} className="text-red-600 dark:text-red-400" />
+
+      {diff.changed.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-foreground">Changed ({diff.changed.length})</h4>
+          <ul className="mt-1 space-y-0.5 text-sm text-foreground">
+            {diff.changed.map((position) => (
+              <li key={position.key}>
+                {position.particulars} <span className="text-muted-foreground">({position.key})</span> ·{' '}
+                {Object.entries(position.changes)
+                  .map(([field, change]) => `${field} ${change?.before} → ${change?.after}`)
+                  .join(', ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-red-600 dark:text-red-400">Skipped rows ({errors.length})</h4>
+          <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+            {errors.slice(0, 10).map((error) => (
+              <li key={error.row}>Row {error.row}: {error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Wizard for replacing the portfolio with an uploaded xlsx or csv sheet
+ * Upload → confirm or override the detected column mapping → review the diff → commit
+ */
+export function ImportWizard({ onClose }: ImportWizardProps) {
+  const { activeImport, profiles, preview, upload, remap, commit, revert, reset } = usePortfolioImport();
+  const { addToast } = useToast();
+  const [step, setStep] = useState<Step>('upload');
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (title: string, action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      addToast({ type: 'error', title, message: getErrorMessage(err, 'Unknown error') });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    run('Failed to read the file', async () => {
+      await upload(file);
+      setStep('mapping');
+    });
+  };
+
+  const handleMappingChange = (field: ImportField, column: number | null) => {
+    if (!preview) return;
+    run('Failed to apply the mapping', async () => {
+      await remap({ profile: preview.profile.id, mapping: { ...preview.mapping, [field]: column } });
+    });
+  };
+
+  const handleProfileChange = (profile: string) => {
+    run('Failed to apply the profile', async () => {
+      await remap({ profile });
+    });
+  };
+
+  const handleCommit = () => run('Failed to import the portfolio', async () => {
+    const result = await commit();
+    addToast({
+      type: result.errors.length > 0 ? 'warning' : 'success',
+      title: `Imported ${result.holdings} holdings from ${result.import.fileName}`,
+      message: result.errors.length > 0 ? `${result.errors.length} rows skipped` : undefined,
+    });
+    onClose();
+  });
+
+  const handleRevert = () => run('Failed to restore the Excel file', async () => {
+    await revert();
+    addToast({ type: 'success', title: 'Using the configured Excel file again' });
+  });
+
+  const handleBack = () => {
+    if (step === 'review') {
+      setStep('mapping');
+    } else {
+      reset();
+      setStep('upload');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.2 }}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-wizard-title"
+        className="bg-card border border-border rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between px-4 sm:px-6 py-3 sm:py-4 border-b border-border">
+          <h3 id="import-wizard-title" className="text-base sm:text-lg font-bold text-foreground">
+            Import Portfolio
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              {step === 'upload' ? '1. Upload' : step === 'mapping' ? '2. Columns' : '3. Review'}
+            </span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 overflow-y-auto flex-1">
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+                className="w-full flex flex-col items-center gap-2 rounded-xl border-2 border-dashed border-border py-10 text-sm text-muted-foreground hover:bg-secondary transition-colors cursor-pointer disabled:opacity-50"
+              >
+                <Upload className="w-6 h-6" />
+                {isBusy ? 'Reading file...' : 'Choose an .xlsx or .csv portfolio'}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                onChange={handleFile}
+                className="hidden"
+              />
+              <p className="text-xs text-muted-foreground">
+                The sheet needs Particulars, Purchase Price, Qty and NSE/BSE columns; you can pick them by hand
+                if the headers differ. Nothing changes until you confirm the import.
+              </p>
+              {activeImport && (
+                <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-secondary px-3 py-2 text-sm">
+                  <span className="flex items-center gap-2 text-foreground">
+                    <FileSpreadsheet className="w-4 h-4" />
+                    Using {activeImport.fileName}, imported{' '}
+                    {new Date(activeImport.importedAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+                  </span>
+                  <button
+                    onClick={handleRevert}
+                    disabled={isBusy}
+                    className="text-sm font-medium text-primary hover:underline cursor-pointer disabled:opacity-50"
+                  >
+                    Use the Excel file instead
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+          {step === 'mapping' && preview && (
+            <MappingStep
+              preview={preview}
+              profiles={profiles}
+              onProfileChange={handleProfileChange}
+              onChange={handleMappingChange}
+            />
+          )}
+          {step === 'review' && preview && <ReviewStep preview={preview} />}
+        </div>
+
+        {step !== 'upload' && (
+          <div className="flex justify-between gap-2 px-4 sm:px-6 py-3 border-t border-border">
+            <button
+              onClick={handleBack}
+              disabled={isBusy}
+              className="rounded-lg border border-border px-3 py-1.5 text-sm font-medium text-foreground hover:bg-secondary transition-colors cursor-pointer disabled:opacity-50"
+            >
+              Back
+            </button>
+            {step === 'mapping' ? (
+              <button
+                onClick={() => setStep('review')}
+                disabled={isBusy || !preview || preview.missingColumns.length > 0}
+                className="rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground disabled:opacity-50 cursor-pointer"
+              >
+                Review changes
+              </button>
+            ) : (
+              <button
+                onClick={handleCommit}
+                disabled={isBusy || !preview || preview.summary.validRows === 0}
+                className="rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground disabled:opacity-50 cursor-pointer"
+              >
+                {isBusy ? 'Importing...' : `Import ${preview?.summary.validRows ?? 0} holdings`}
+              </button>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
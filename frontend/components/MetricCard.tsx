@@ -12,6 +12,7 @@ interface MetricCardProps {
   icon: any; // Lucide Icon
   gradientBorder?: string; // CSS class for gradient border
   delay?: number;
+  caption?: string; // Secondary line under the value
 }
 
 export function MetricCard({ 
@@ -21,7 +22,8 @@ export function MetricCard({
   trend, 
   icon: Icon,
   gradientBorder = "border-l-4 border-l-primary",
-  delay = 0 
+  delay = 0,
+  caption
 }: MetricCardProps) {
   
   const isPositive = trend !== undefined && trend >= 0;
@@ -61,6 +63,10 @@ export function MetricCard({
           <AnimatedPercentage value={value} />
         )}
       </div>
+
+      {caption && (
+        <p className="text-[10px] sm:text-xs text-muted-foreground mt-1 sm:mt-1.5 font-medium">{caption}</p>
+      )}
     </motion.div>
   );
 }
@@ -13,9 +13,21 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  AreaChart,
+  Area,
 } from 'recharts';
 import { motion } from 'framer-motion';
-import { Holding } from '@/types';
+import { Candle, DividendMonth, HistoryPoint, Holding } from '@/types';
+import {
+  usePortfolioHistory,
+  useDividends,
+  useBenchmarks,
+  useBenchmarkHistory,
+  getBenchmarkRange,
+  HISTORY_RANGES,
+  type HistoryRange,
+} from '@/hooks';
+import { getGainLossChartColor } from '@/utils';
 
 // Hook to detect current theme
 function useTheme() {
@@ -53,6 +65,73 @@ const COLORS = [
   '#14b8a6', // Teal-500
 ];
 
+const BENCHMARK_COLOR = '#f59e0b'; // Amber-500
+
+/**
+ * Rebases benchmark closes onto the portfolio's value at the first history point,
+ * so both lines start together and diverge by relative performance
+ * Each date uses the last close on or before it
+ */
+function rebaseBenchmark(points: HistoryPoint[], candles: Candle[]): (number | null)[] {
+  const closeOn = (date: string): number | null => {
+    let close: number | null = null;
+    for (const candle of candles) {
+      if (candle.date > date) break;
+      close = candle.close;
+    }
+    return close;
+  };
+
+  const baseClose = points.length > 0 ? closeOn(points[0].date) : null;
+  if (!baseClose) return points.map(() => null);
+
+  const baseValue = points[0].presentValue;
+  return points.map((point) => {
+    const close = closeOn(point.date);
+    return close === null ? null : Math.round((baseValue * close) / baseClose);
+  });
+}
+
+/**
+ * The twelve YYYY-MM months ending with (or starting from) the current month
+ */
+function getMonthWindow(direction: 'past' | 'next'): string[] {
+  const now = new Date();
+  return Array.from({ length: 12 }, (_, i) => {
+    const offset = direction === 'past' ? i - 11 : i;
+    const date = new Date(now.getFullYear(), now.getMonth() + offset, 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
+}
+
+const formatMonth = (month: string): string =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-IN', { month: 'short', year: '2-digit' });
+
+/**
+ * Dividend calendar for the next twelve months: scheduled payments from the ledger,
+ * plus stocks that paid in the same month last year as expected payers
+ */
+function buildDividendCalendar(monthly: DividendMonth[]) {
+  const byMonth = new Map(monthly.map((m) => [m.month, m]));
+
+  return getMonthWindow('next').map((month) => {
+    const scheduled = byMonth.get(month)?.dividends ?? [];
+    const scheduledSymbols = new Set(scheduled.map((d) => d.nseCode || d.bseCode));
+    const lastYear = `${Number(month.substring(0, 4)) - 1}${month.substring(4)}`;
+    const expected = (byMonth.get(lastYear)?.dividends ?? [])
+      .filter((d) => !scheduledSymbols.has(d.nseCode || d.bseCode));
+
+    return {
+      month,
+      scheduled: scheduled.map((d) => ({ symbol: d.nseCode || d.bseCode || '', amount: d.amount })),
+      expected: expected.map((d) => ({ symbol: d.nseCode || d.bseCode || '', amount: d.amount })),
+    };
+  });
+}
+
+const formatSignedPercent = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
 const SimpleCard = ({
   title,
   children,
@@ -77,10 +156,25 @@ const SimpleCard = ({
 
 interface PortfolioChartsProps {
   holdings: Holding[];
+  /**
+   * Portfolio id or 'household'; null for the default portfolio
+   */
+  portfolioId?: string | null;
 }
 
-export function PortfolioCharts({ holdings }: PortfolioChartsProps) {
+export function PortfolioCharts({ holdings, portfolioId = null }: PortfolioChartsProps) {
   const isDark = useTheme();
+  const [historyRange, setHistoryRange] = useState<HistoryRange>('3M');
+  const { data: history, isLoading: isHistoryLoading } = usePortfolioHistory(historyRange, portfolioId);
+  // '' follows the first configured benchmark, 'none' hides the overlay
+  const [benchmarkChoice, setBenchmarkChoice] = useState<string>('');
+  const { data: benchmarks } = useBenchmarks(getBenchmarkRange(historyRange), portfolioId);
+  const benchmarkSymbol = benchmarkChoice === 'none'
+    ? null
+    : benchmarkChoice || benchmarks?.benchmarks[0]?.symbol || null;
+  const selectedBenchmark = benchmarks?.benchmarks.find((b) => b.symbol === benchmarkSymbol);
+  const { candles: benchmarkCandles } = useBenchmarkHistory(benchmarkSymbol, historyRange);
+  const { data: dividends } = useDividends(portfolioId);
 
   // Theme-aware tooltip styles
   const tooltipStyle = {
@@ -233,6 +327,41 @@ export function PortfolioCharts({ holdings }: PortfolioChartsProps) {
     ];
   }, [holdings]);
 
+  // 7. Value Over Time (from daily snapshots)
+  const valueHistory = useMemo(() => {
+    const points = history?.portfolio ?? [];
+    const benchmarkValues = rebaseBenchmark(points, benchmarkSymbol ? benchmarkCandles : []);
+
+    return points.map((point, index) => ({
+      date: point.date,
+      Value: point.presentValue,
+      Invested: point.investment,
+      Benchmark: benchmarkValues[index],
+      gainLoss: point.gainLoss,
+    }));
+  }, [history, benchmarkSymbol, benchmarkCandles]);
+
+  const hasBenchmarkOverlay = valueHistory.some((point) => point.Benchmark !== null);
+
+  const latestHistoryGainLoss = valueHistory.length > 0 ? valueHistory[valueHistory.length - 1].gainLoss : 0;
+  const historyColor = getGainLossChartColor(latestHistoryGainLoss, isDark);
+
+  // 8. Dividend income over the last twelve months and the calendar ahead
+  const dividendIncome = useMemo(() => {
+    const byMonth = new Map((dividends?.monthly ?? []).map((m) => [m.month, m]));
+    return getMonthWindow('past').map((month) => ({
+      month,
+      Gross: byMonth.get(month)?.amount ?? 0,
+      Net: byMonth.get(month)?.netAmount ?? 0,
+    }));
+  }, [dividends]);
+
+  const dividendCalendar = useMemo(() => buildDividendCalendar(dividends?.monthly ?? []), [dividends]);
+
+  const trailingDividends = dividendIncome.reduce((sum, m) => sum + m.Gross, 0);
+  const hasDividends = (dividends?.dividends.length ?? 0) > 0;
+  const totalInvestment = holdings.reduce((sum, h) => sum + h.investment, 0);
+
   if (!holdings || holdings.length === 0) return null;
 
   // Custom legend for Donut chart
@@ -260,6 +389,224 @@ export function PortfolioCharts({ holdings }: PortfolioChartsProps) {
 
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 mb-6 sm:mb-8">
+      {/* 0. Value Over Time - Area Chart */}
+      <SimpleCard title="Value Over Time" className="sm:col-span-2 lg:col-span-3">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <div className="flex flex-wrap gap-1">
+            {HISTORY_RANGES.map((range) => (
+              <button
+                key={range}
+                onClick={() => setHistoryRange(range)}
+                className={`text-xs font-medium px-2.5 py-1 rounded-md transition-colors cursor-pointer ${
+                  historyRange === range
+                    ? 'bg-primary text-primary-foreground'
+                    : 'text-muted-foreground hover:text-foreground hover:bg-secondary'
+                }`}
+              >
+                {range}
+              </button>
+            ))}
+          </div>
+          {benchmarks && benchmarks.benchmarks.length > 0 && (
+            <select
+              value={benchmarkSymbol ?? 'none'}
+              onChange={(e) => setBenchmarkChoice(e.target.value)}
+              className="text-xs bg-secondary text-foreground border border-border rounded-md px-2 py-1 cursor-pointer"
+              aria-label="Benchmark overlay"
+            >
+              <option value="none">No benchmark</option>
+              {benchmarks.benchmarks.map((b) => (
+                <option key={b.symbol} value={b.symbol}>
+                  vs {b.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {selectedBenchmark && (
+          <p className="text-xs text-muted-foreground mb-3">
+            Holdings {formatSignedPercent(benchmarks?.portfolio.return)} vs {selectedBenchmark.name}{' '}
+            {formatSignedPercent(selectedBenchmark.return)} over {benchmarks?.range}
+            {selectedBenchmark.excessReturn !== null && (
+              <span
+                className={`ml-1.5 font-semibold ${
+                  selectedBenchmark.excessReturn >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'
+                }`}
+              >
+                ({selectedBenchmark.excessReturn >= 0 ? '+' : ''}
+                {selectedBenchmark.excessReturn.toFixed(2)} pts)
+              </span>
+            )}
+          </p>
+        )}
+        <div className="h-[220px] sm:h-[280px] w-full">
+          {valueHistory.length < 2 ? (
+            <div className="h-full flex items-center justify-center text-sm text-muted-foreground text-center px-4">
+              {isHistoryLoading
+                ? 'Loading history...'
+                : history?.errors[0]?.message ?? 'Not enough history yet. A snapshot is recorded every trading day.'}
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={valueHistory} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+                <defs>
+                  <linearGradient id="valueHistoryFill" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={historyColor} stopOpacity={0.3} />
+                    <stop offset="95%" stopColor={historyColor} stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} opacity={0.5} />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 11, fill: axisTextColor }}
+                  axisLine={false}
+                  tickLine={false}
+                  minTickGap={24}
+                  tickFormatter={(date: string) =>
+                    new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })
+                  }
+                />
+                <YAxis
+                  tick={{ fontSize: 11, fill: axisTextColor }}
+                  axisLine={false}
+                  tickLine={false}
+                  width={60}
+                  domain={['auto', 'auto']}
+                  tickFormatter={(value: number) => `₹${(value / 100000).toFixed(1)}L`}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                  formatter={(value: any, name: any) => [`₹${Number(value).toLocaleString('en-IN')}`, name]}
+                  labelFormatter={(date) =>
+                    new Date(String(date)).toLocaleDateString('en-IN', { dateStyle: 'medium' })
+                  }
+                  itemStyle={{ color: isDark ? '#fafafa' : '#0f172a' }}
+                />
+                <Legend
+                  wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }}
+                  formatter={(value) => <span className="text-muted-foreground">{value}</span>}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="Value"
+                  stroke={historyColor}
+                  strokeWidth={2}
+                  fill="url(#valueHistoryFill)"
+                  name="Present Value"
+                />
+                <Area
+                  type="stepAfter"
+                  dataKey="Invested"
+                  stroke={isDark ? '#64748b' : '#94a3b8'}
+                  strokeDasharray="4 4"
+                  strokeWidth={1.5}
+                  fill="none"
+                  name="Invested"
+                />
+                {hasBenchmarkOverlay && selectedBenchmark && (
+                  <Area
+                    type="monotone"
+                    dataKey="Benchmark"
+                    stroke={BENCHMARK_COLOR}
+                    strokeWidth={1.5}
+                    fill="none"
+                    connectNulls
+                    name={selectedBenchmark.name}
+                  />
+                )}
+              </AreaChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </SimpleCard>
+
+      {/* 0b. Dividend Income - monthly bars */}
+      {hasDividends && (
+        <SimpleCard title="Dividend Income" className="sm:col-span-2">
+          <p className="text-xs text-muted-foreground mb-3">
+            ₹{trailingDividends.toLocaleString('en-IN', { maximumFractionDigits: 0 })} over the last 12 months
+            {totalInvestment > 0 && ` · ${((trailingDividends / totalInvestment) * 100).toFixed(2)}% yield on cost`}
+          </p>
+          <div className="h-[220px] sm:h-[260px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={dividendIncome} margin={{ top: 10, right: 10, left: 10, bottom: 0 }} barGap={2}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} opacity={0.5} />
+                <XAxis
+                  dataKey="month"
+                  tick={{ fontSize: 11, fill: axisTextColor }}
+                  axisLine={false}
+                  tickLine={false}
+                  tickFormatter={formatMonth}
+                />
+                <YAxis
+                  tick={{ fontSize: 11, fill: axisTextColor }}
+                  axisLine={false}
+                  tickLine={false}
+                  width={50}
+                  tickFormatter={(value: number) => `₹${(value / 1000).toFixed(0)}K`}
+                />
+                <Tooltip
+                  cursor={{
+                    fill: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.05)',
+                  }}
+                  contentStyle={tooltipStyle}
+                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                  formatter={(value: any, name: any) => [`₹${Number(value).toLocaleString('en-IN')}`, name]}
+                  labelFormatter={(month) => formatMonth(String(month))}
+                  itemStyle={{ color: isDark ? '#fafafa' : '#0f172a' }}
+                />
+                <Legend
+                  wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }}
+                  formatter={(value) => <span className="text-muted-foreground">{value}</span>}
+                />
+                <Bar dataKey="Gross" fill="#10b981" radius={[6, 6, 0, 0]} name="Gross" />
+                <Bar dataKey="Net" fill={isDark ? '#64748b' : '#94a3b8'} radius={[6, 6, 0, 0]} name="After TDS" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </SimpleCard>
+      )}
+
+      {/* 0c. Dividend Calendar - next 12 months */}
+      {hasDividends && (
+        <SimpleCard title="Dividend Calendar">
+          <div className="h-auto sm:h-[290px] overflow-y-auto space-y-1.5">
+            {dividendCalendar.map(({ month, scheduled, expected }) => (
+              <div key={month} className="flex items-start gap-3 text-xs">
+                <span className="w-14 shrink-0 font-medium text-muted-foreground">{formatMonth(month)}</span>
+                <div className="flex flex-wrap gap-1 min-w-0">
+                  {scheduled.length === 0 && expected.length === 0 && (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                  {scheduled.map((d, i) => (
+                    <span
+                      key={`s-${d.symbol}-${i}`}
+                      className="rounded-md bg-emerald-50 dark:bg-emerald-500/10 px-1.5 py-0.5 font-medium text-emerald-600 dark:text-emerald-400"
+                      title={`₹${d.amount.toLocaleString('en-IN')} scheduled`}
+                    >
+                      {d.symbol}
+                    </span>
+                  ))}
+                  {expected.map((d, i) => (
+                    <span
+                      key={`e-${d.symbol}-${i}`}
+                      className="rounded-md bg-secondary px-1.5 py-0.5 text-muted-foreground"
+                      title={`Paid ₹${d.amount.toLocaleString('en-IN')} in this month last year`}
+                    >
+                      {d.symbol}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="mt-3 text-[10px] sm:text-xs text-muted-foreground">
+            Green: scheduled in the ledger · Grey: paid in the same month last year
+          </p>
+        </SimpleCard>
+      )}
+
       {/* 1. Sector Allocation - Donut Chart */}
       <SimpleCard title="Sector Allocation">
         <div className="h-[250px] sm:h-[300px] w-full relative">
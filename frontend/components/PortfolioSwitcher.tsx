@@ -0,0 +1,46 @@
+'use client';
+
+import { Briefcase } from 'lucide-react';
+import { usePortfolios } from '@/hooks';
+
+export interface PortfolioSwitcherProps {
+  /**
+   * Selected portfolio id, null for the default portfolio
+   */
+  value: string | null;
+  onChange: (portfolioId: string | null) => void;
+}
+
+/**
+ * Header select for switching between portfolios and the household view
+ * Hidden while there is only one portfolio
+ */
+export function PortfolioSwitcher({ value, onChange }: PortfolioSwitcherProps) {
+  const { portfolios, householdId } = usePortfolios();
+
+  if (portfolios.length < 2) return null;
+
+  const defaultId = portfolios.find((portfolio) => portfolio.isDefault)?.id ?? portfolios[0].id;
+
+  return (
+    <label className="flex items-center gap-2 bg-card border border-border rounded-lg px-3 py-2 sm:py-2.5 text-sm font-medium text-foreground">
+      <Briefcase className="w-4 h-4 text-muted-foreground" />
+      <span className="sr-only">Portfolio</span>
+      <select
+        value={value ?? defaultId}
+        onChange={(e) => onChange(e.target.value === defaultId ? null : e.target.value)}
+        className="bg-transparent text-sm font-medium text-foreground cursor-pointer focus:outline-none"
+        title="Switch portfolio"
+      >
+        {portfolios.map((portfolio) => (
+          <option key={portfolio.id} value={portfolio.id}>
+            {portfolio.name}
+          </option>
+        ))}
+        {householdId && <option value={householdId}>Household (all portfolios)</option>}
+      </select>
+    </label>
+  );
+}
+
+export default PortfolioSwitcher;
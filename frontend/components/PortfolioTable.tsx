@@ -2,8 +2,9 @@
 
 import { useState, memo } from 'react';
 import type { Holding } from '@/types';
-import { getGainLossColorClass, getGainLossBgClass, getGainLossBorderClass } from '@/utils';
+import { getGainLossColorClass, getGainLossBgClass, getGainLossBorderClass, HOLDING_EXPORT_COLUMNS } from '@/utils';
 import { AnimatedCurrency, AnimatedPercentage } from './AnimatedValue';
+import { ExportMenu } from './ExportMenu';
 
 /**
  * Props for the PortfolioTable component
@@ -128,6 +129,105 @@ function formatPercentage(value: number): string {
   return `${value.toFixed(2)}%`;
 }
 
+/**
+ * Whether a holding has ledger detail worth expanding (open lots, realized gain or corporate actions)
+ */
+function hasLotDetail(holding: Holding): boolean {
+  return (
+    (holding.lots?.length ?? 0) > 0 ||
+    (holding.realizedGain ?? 0) !== 0 ||
+    (holding.adjustments?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Open FIFO lots with per-lot gain/loss, corporate action adjustments, plus the realized/unrealized split
+ */
+function LotBreakdown({ holding }: { holding: Holding }) {
+  const lots = holding.lots ?? [];
+  const adjustments = holding.adjustments ?? [];
+
+  return (
+    <div className="space-y-2">
+      {lots.length > 0 && (
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-left text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+              <th className="px-2 py-1 whitespace-nowrap">Buy Date</th>
+              <th className="px-2 py-1 text-right whitespace-nowrap">Qty</th>
+              <th className="px-2 py-1 text-right whitespace-nowrap">Buy Price</th>
+              <th className="px-2 py-1 text-right whitespace-nowrap">Investment</th>
+              <th className="px-2 py-1 text-right whitespace-nowrap">Present Value</th>
+              <th className="px-2 py-1 text-right whitespace-nowrap">Gain/Loss</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lots.map((lot) => {
+              const lotGainLoss = lot.gainLoss ?? 0;
+              return (
+                <tr key={lot.transactionId} className="text-zinc-700 dark:text-zinc-300">
+                  <td className="px-2 py-1 whitespace-nowrap">
+                    {new Date(lot.date).toLocaleDateString('en-IN', { dateStyle: 'medium' })}
+                  </td>
+                  <td className="px-2 py-1 text-right whitespace-nowrap">{lot.quantity.toLocaleString('en-IN')}</td>
+                  <td className="px-2 py-1 text-right whitespace-nowrap">{formatCurrency(lot.price)}</td>
+                  <td className="px-2 py-1 text-right whitespace-nowrap">{formatCurrency(lot.investment)}</td>
+                  <td className="px-2 py-1 text-right whitespace-nowrap">{formatCurrency(lot.presentValue ?? 0)}</td>
+                  <td className={`px-2 py-1 text-right whitespace-nowrap font-medium ${getGainLossColorClass(lotGainLoss)}`}>
+                    {formatCurrency(lotGainLoss)} ({formatPercentage(lot.gainLossPercentage ?? 0)})
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {adjustments.length > 0 && (
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-left text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+              <th className="px-2 py-1 whitespace-nowrap">Ex-Date</th>
+              <th className="px-2 py-1 whitespace-nowrap">Corporate Action</th>
+              <th className="px-2 py-1 text-right whitespace-nowrap">Qty</th>
+              <th className="px-2 py-1 text-right whitespace-nowrap">Investment</th>
+            </tr>
+          </thead>
+          <tbody>
+            {adjustments.map((adjustment) => (
+              <tr key={adjustment.actionId} className="text-zinc-700 dark:text-zinc-300">
+                <td className="px-2 py-1 whitespace-nowrap">
+                  {new Date(adjustment.exDate).toLocaleDateString('en-IN', { dateStyle: 'medium' })}
+                </td>
+                <td className="px-2 py-1 whitespace-nowrap">{adjustment.description}</td>
+                <td className="px-2 py-1 text-right whitespace-nowrap">
+                  {adjustment.quantityBefore.toLocaleString('en-IN')} → {adjustment.quantityAfter.toLocaleString('en-IN')}
+                </td>
+                <td className="px-2 py-1 text-right whitespace-nowrap">
+                  {formatCurrency(adjustment.investmentBefore)} → {formatCurrency(adjustment.investmentAfter)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className="flex flex-wrap gap-4 px-2 text-xs">
+        <span className="text-zinc-500 dark:text-zinc-400">
+          Realized:{' '}
+          <span className={`font-semibold ${getGainLossColorClass(holding.realizedGain)}`}>
+            {formatCurrency(holding.realizedGain)}
+          </span>
+        </span>
+        <span className="text-zinc-500 dark:text-zinc-400">
+          Unrealized:{' '}
+          <span className={`font-semibold ${getGainLossColorClass(holding.unrealizedGain)}`}>
+            {formatCurrency(holding.unrealizedGain)}
+          </span>
+        </span>
+      </div>
+    </div>
+  );
+}
+
 /**
  * Table header component with all required columns
  * Requirements: 1.2 - All required columns must be present
@@ -155,93 +255,127 @@ function TableHeader() {
 /**
  * Single holding row component (desktop/tablet table view)
  * Uses AnimatedValue components for live data fields (CMP, Present Value, Gain/Loss)
+ * Rows with ledger data expand to show their open FIFO lots
  * Requirements: 2.3, 4.2, 4.3, 4.4 - Smooth transitions for value changes
  */
 const HoldingRow = memo(function HoldingRow({ holding }: { holding: Holding }) {
+  const [isExpanded, setIsExpanded] = useState(false);
   const gainLossColorClass = getGainLossColorClass(holding.gainLoss);
+  const canExpand = hasLotDetail(holding);
   
   return (
-    <tr className="text-sm hover:bg-zinc-50 dark:hover:bg-zinc-800/30 transition-colors active:bg-zinc-100 dark:active:bg-zinc-700/50">
-      {/* Particulars */}
-      <td className="px-3 py-3 text-zinc-900 dark:text-zinc-100 font-medium whitespace-nowrap">
-        {holding.particulars}
-      </td>
+    <>
+      <tr className="text-sm hover:bg-zinc-50 dark:hover:bg-zinc-800/30 transition-colors active:bg-zinc-100 dark:active:bg-zinc-700/50">
+        {/* Particulars */}
+        <td className="px-3 py-3 text-zinc-900 dark:text-zinc-100 font-medium whitespace-nowrap">
+          {canExpand ? (
+            <button
+              onClick={() => setIsExpanded(prev => !prev)}
+              className="inline-flex items-center gap-1.5 cursor-pointer hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+              aria-expanded={isExpanded}
+              aria-label={`${holding.particulars} lot breakdown`}
+            >
+              <svg
+                className={`w-4 h-4 text-zinc-400 transition-transform duration-200 ${isExpanded ? 'rotate-90' : ''}`}
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              {holding.particulars}
+            </button>
+          ) : (
+            holding.particulars
+          )}
+        </td>
       
-      {/* Purchase Price */}
-      <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
-        {formatCurrency(holding.purchasePrice)}
-      </td>
+        {/* Purchase Price */}
+        <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
+          {formatCurrency(holding.purchasePrice)}
+        </td>
       
-      {/* Quantity */}
-      <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
-        {holding.quantity.toLocaleString('en-IN')}
-      </td>
+        {/* Quantity */}
+        <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
+          {holding.quantity.toLocaleString('en-IN')}
+        </td>
       
-      {/* Investment */}
-      <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
-        {formatCurrency(holding.investment)}
-      </td>
+        {/* Investment */}
+        <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
+          {formatCurrency(holding.investment)}
+        </td>
       
-      {/* Portfolio % */}
-      <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
-        {formatPercentage(holding.portfolioPercentage)}
-      </td>
+        {/* Portfolio % */}
+        <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
+          {formatPercentage(holding.portfolioPercentage)}
+        </td>
       
-      {/* NSE/BSE Code */}
-      <td className="px-3 py-3 text-zinc-600 dark:text-zinc-400 whitespace-nowrap">
-        <span className="font-mono text-xs bg-zinc-100 dark:bg-zinc-700 px-1.5 py-0.5 rounded">
-          {holding.nseCode}
-        </span>
-        {holding.bseCode && (
-          <span className="font-mono text-xs bg-zinc-100 dark:bg-zinc-700 px-1.5 py-0.5 rounded ml-1">
-            {holding.bseCode}
+        {/* NSE/BSE Code */}
+        <td className="px-3 py-3 text-zinc-600 dark:text-zinc-400 whitespace-nowrap">
+          <span className="font-mono text-xs bg-zinc-100 dark:bg-zinc-700 px-1.5 py-0.5 rounded">
+            {holding.nseCode}
           </span>
-        )}
-      </td>
+          {holding.bseCode && (
+            <span className="font-mono text-xs bg-zinc-100 dark:bg-zinc-700 px-1.5 py-0.5 rounded ml-1">
+              {holding.bseCode}
+            </span>
+          )}
+        </td>
       
-      {/* CMP - Animated for live updates */}
-      <td className="px-3 py-3 text-right text-zinc-900 dark:text-zinc-100 font-medium whitespace-nowrap">
-        <AnimatedCurrency value={holding.cmp} showDirectionIndicator={true} />
-      </td>
+        {/* CMP - Animated for live updates */}
+        <td
+          className="px-3 py-3 text-right text-zinc-900 dark:text-zinc-100 font-medium whitespace-nowrap"
+          title={holding.priceProvider ? `Price from ${holding.priceProvider}` : undefined}
+        >
+          <AnimatedCurrency value={holding.cmp} showDirectionIndicator={true} />
+        </td>
       
-      {/* Present Value - Animated, recalculates when CMP updates */}
-      <td className="px-3 py-3 text-right text-zinc-900 dark:text-zinc-100 whitespace-nowrap">
-        <AnimatedCurrency value={holding.presentValue} />
-      </td>
+        {/* Present Value - Animated, recalculates when CMP updates */}
+        <td className="px-3 py-3 text-right text-zinc-900 dark:text-zinc-100 whitespace-nowrap">
+          <AnimatedCurrency value={holding.presentValue} />
+        </td>
       
-      {/* Gain/Loss - Google Finance style with arrow */}
-      <td className="px-3 py-3 text-right whitespace-nowrap">
-        <span className={`inline-flex items-center gap-1 font-semibold ${gainLossColorClass}`}>
-          {holding.gainLoss !== 0 && (
-            <svg
-              className={`w-3.5 h-3.5 ${holding.gainLoss > 0 ? '' : 'rotate-180'}`}
-              viewBox="0 0 20 20"
-              fill="currentColor"
-            >
-              <path
-                fillRule="evenodd"
-                d="M5.293 9.707a1 1 0 010-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 7.414V15a1 1 0 11-2 0V7.414L6.707 9.707a1 1 0 01-1.414 0z"
-                clipRule="evenodd"
-              />
-            </svg>
-          )}
-          <AnimatedCurrency value={holding.gainLoss} className={gainLossColorClass} />
-          <span className="text-xs opacity-80">
-            (<AnimatedPercentage value={holding.gainLossPercentage} showSign={true} className={gainLossColorClass} />)
+        {/* Gain/Loss - Google Finance style with arrow */}
+        <td className="px-3 py-3 text-right whitespace-nowrap">
+          <span className={`inline-flex items-center gap-1 font-semibold ${gainLossColorClass}`}>
+            {holding.gainLoss !== 0 && (
+              <svg
+                className={`w-3.5 h-3.5 ${holding.gainLoss > 0 ? '' : 'rotate-180'}`}
+                viewBox="0 0 20 20"
+                fill="currentColor"
+              >
+                <path
+                  fillRule="evenodd"
+                  d="M5.293 9.707a1 1 0 010-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414L11 7.414V15a1 1 0 11-2 0V7.414L6.707 9.707a1 1 0 01-1.414 0z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            )}
+            <AnimatedCurrency value={holding.gainLoss} className={gainLossColorClass} />
+            <span className="text-xs opacity-80">
+              (<AnimatedPercentage value={holding.gainLossPercentage} showSign={true} className={gainLossColorClass} />)
+            </span>
           </span>
-        </span>
-      </td>
+        </td>
       
-      {/* P/E Ratio */}
-      <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
-        {holding.peRatio !== null ? holding.peRatio.toFixed(2) : '—'}
-      </td>
+        {/* P/E Ratio */}
+        <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
+          {holding.peRatio !== null ? holding.peRatio.toFixed(2) : '—'}
+        </td>
       
-      {/* Latest Earnings */}
-      <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
-        {holding.latestEarnings ?? '—'}
-      </td>
-    </tr>
+        {/* Latest Earnings */}
+        <td className="px-3 py-3 text-right text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
+          {holding.latestEarnings ?? '—'}
+        </td>
+      </tr>
+      {isExpanded && (
+        <tr className="bg-zinc-50 dark:bg-zinc-800/50">
+          <td colSpan={11} className="px-6 py-3">
+            <LotBreakdown holding={holding} />
+          </td>
+        </tr>
+      )}
+    </>
   );
 });
 
@@ -356,6 +490,11 @@ const HoldingCard = memo(function HoldingCard({ holding, isExpanded, onToggle }:
               <p className="font-medium text-zinc-900 dark:text-zinc-100">{holding.latestEarnings ?? '—'}</p>
             </div>
           </div>
+          {hasLotDetail(holding) && (
+            <div className="mt-3 pt-3 border-t border-zinc-200 dark:border-zinc-700 overflow-x-auto">
+              <LotBreakdown holding={holding} />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -510,12 +649,16 @@ function PortfolioTableComponent({ holdings, isLoading, error }: PortfolioTableP
         )}
       </div>
       
-      {/* Table footer with holdings count */}
+      {/* Table footer with holdings count and export of the holdings shown */}
       {!isLoading && holdings.length > 0 && (
-        <div className="px-4 py-3 bg-zinc-50 dark:bg-zinc-800/50 border-t border-zinc-200 dark:border-zinc-700">
+        <div className="px-4 py-3 bg-zinc-50 dark:bg-zinc-800/50 border-t border-zinc-200 dark:border-zinc-700 flex items-center justify-between gap-2">
           <p className="text-sm text-zinc-600 dark:text-zinc-400">
             Showing <span className="font-medium text-zinc-900 dark:text-zinc-100">{holdings.length}</span> holding{holdings.length !== 1 ? 's' : ''}
           </p>
+          <ExportMenu
+            fileName="portfolio"
+            datasets={[{ id: 'holdings', label: 'Holdings', rows: holdings, columns: HOLDING_EXPORT_COLUMNS }]}
+          />
         </div>
       )}
     </div>
@@ -2,36 +2,127 @@
 
 import { useState, memo } from 'react';
 import { CompanyLogo } from './CompanyLogo';
-import type { Holding, SectorSummary } from '@/types';
+import type { BenchmarkComparison, Holding, InstrumentType, SectorSummary, SeriesSummary } from '@/types';
 import { AnimatedCurrency, AnimatedPercentage } from './AnimatedValue';
 import { ChevronDown, ChevronUp, Eye, ShoppingCart, DollarSign } from 'lucide-react';
+import { getGainLossColorClass, formatGainLossWithSign, getHoldingIdentity, HOLDING_EXPORT_COLUMNS, SECTOR_EXPORT_COLUMNS } from '@/utils';
+import { useSparklines, useBenchmarks } from '@/hooks';
+import { ExportMenu } from './ExportMenu';
 
 export interface SectorGroupProps {
   sector: string;
   holdings: Holding[];
   summary: SectorSummary;
+  /**
+   * Tag each holding with its portfolio (household view)
+   */
+  showPortfolio?: boolean;
+  /**
+   * Portfolio id or 'household' the sparklines and benchmarks are read for; null for the default portfolio
+   */
+  portfolioId?: string | null;
 }
 
+// Badge shown next to the code of holdings that aren't company shares
+const INSTRUMENT_TYPE_BADGES: Record<InstrumentType, string> = {
+  equity: 'EQ',
+  mutual_fund: 'MF',
+  etf: 'ETF',
+  bond: 'BOND',
+  gold: 'GOLD',
+};
+
 function formatCurrency(value: number): string {
   return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
 }
 
-// Sparkline Component - Enhanced visibility
-const TrendSparkline = ({ isPositive }: { isPositive: boolean }) => {
+function formatReturn(value: number): string {
+  return formatGainLossWithSign(value, (v) => `${v.toFixed(2)}%`);
+}
+
+/**
+ * Corporate action audit trail as tooltip lines
+ */
+function formatAdjustments(holding: Holding): string {
+  return holding.adjustments
+    .map(
+      (a) =>
+        `${a.exDate}: ${a.description} (qty ${a.quantityBefore} → ${a.quantityAfter}, cost ${formatCurrency(a.investmentBefore)} → ${formatCurrency(a.investmentAfter)})`
+    )
+    .join('\n');
+}
+
+const SPARKLINE_WIDTH = 80;
+const SPARKLINE_HEIGHT = 30;
+
+/**
+ * Scales series values into an SVG path inside the sparkline box
+ */
+function buildSparklinePath(series: SeriesSummary): string {
+  const { points, high, low } = series;
+  const span = high - low || 1;
+  const step = points.length > 1 ? SPARKLINE_WIDTH / (points.length - 1) : 0;
+
+  return points
+    .map((point, i) => {
+      const x = (i * step).toFixed(1);
+      const y = (SPARKLINE_HEIGHT - 2 - ((point.value - low) / span) * (SPARKLINE_HEIGHT - 4)).toFixed(1);
+      return `${i === 0 ? 'M' : 'L'}${x} ${y}`;
+    })
+    .join(' ');
+}
+
+// Sparkline Component - price series with high/low/change tooltip
+const TrendSparkline = ({ series, isCurrency = true }: { series?: SeriesSummary; isCurrency?: boolean }) => {
+  if (!series || series.points.length < 2) {
+    return (
+      <div className="flex justify-center items-center h-full w-24 text-xs text-muted-foreground">-</div>
+    );
+  }
+
+  const isPositive = series.change >= 0;
   const color = isPositive ? '#10b981' : '#ef4444';
   const fillColor = isPositive ? 'rgba(16, 185, 129, 0.1)' : 'rgba(239, 68, 68, 0.1)';
-
-  // More pronounced path
-  const path = isPositive
-    ? "M0 25 L10 22 L20 28 L30 15 L40 20 L50 8 L60 12 L70 5 L80 0"
-    : "M0 5 L10 12 L20 8 L30 20 L40 15 L50 28 L60 22 L70 25 L80 30";
+  const path = buildSparklinePath(series);
+  const format = (value: number) => (isCurrency ? formatCurrency(value) : value.toFixed(2));
 
   return (
-    <div className="flex justify-center items-center h-full w-24">
-      <svg width="80" height="30" viewBox="0 0 80 30" fill="none">
-        <path d={path} stroke={color} strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" />
-        <path d={`${path} L80 30 L0 30 Z`} fill={fillColor} stroke="none" />
+    <div className="relative group/spark flex justify-center items-center h-full w-24">
+      <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`} fill="none">
+        <path d={path} stroke={color} strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+        <path d={`${path} L${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT} L0 ${SPARKLINE_HEIGHT} Z`} fill={fillColor} stroke="none" />
       </svg>
+      <div className="hidden group-hover/spark:block absolute bottom-full left-1/2 -translate-x-1/2 mb-2 z-20 whitespace-nowrap rounded-lg border border-border bg-card px-3 py-2 text-left text-xs shadow-lg">
+        <div className="flex justify-between gap-4"><span className="text-muted-foreground">High</span><span className="font-medium text-foreground">{format(series.high)}</span></div>
+        <div className="flex justify-between gap-4"><span className="text-muted-foreground">Low</span><span className="font-medium text-foreground">{format(series.low)}</span></div>
+        <div className="flex justify-between gap-4">
+          <span className="text-muted-foreground">Change</span>
+          <span className={`font-medium ${getGainLossColorClass(series.change)}`}>
+            {formatGainLossWithSign(series.change, format)} ({formatReturn(series.changePercent)})
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Alpha against the sector index, with both returns in the tooltip
+const AlphaCell = ({ comparison }: { comparison?: BenchmarkComparison }) => {
+  if (!comparison || comparison.alpha === null) {
+    return <span className="text-xs text-muted-foreground">-</span>;
+  }
+
+  const { alpha, benchmarkName } = comparison;
+
+  return (
+    <div
+      className="flex flex-col items-end"
+      title={`Return ${comparison.return?.toFixed(2)}% vs ${benchmarkName} ${comparison.benchmarkReturn?.toFixed(2)}%`}
+    >
+      <span className={`font-semibold ${getGainLossColorClass(alpha)}`}>
+        {formatGainLossWithSign(alpha, (v) => `${v.toFixed(2)} pts`)}
+      </span>
+      <span className="text-xs text-muted-foreground mt-1">vs {benchmarkName}</span>
     </div>
   );
 };
@@ -51,7 +142,17 @@ const PortfolioBar = ({ percentage }: { percentage: number }) => (
   </div>
 );
 
-function SectorHeader({ sector, holdingsCount }: { sector: string; holdingsCount: number }) {
+function SectorHeader({
+  sector,
+  holdings,
+  summary,
+  series,
+}: {
+  sector: string;
+  holdings: Holding[];
+  summary: SectorSummary;
+  series?: SeriesSummary;
+}) {
   return (
     <div className="flex items-center justify-between px-6 py-4 bg-card border-b border-border">
       <div className="flex items-center gap-3">
@@ -59,9 +160,24 @@ function SectorHeader({ sector, holdingsCount }: { sector: string; holdingsCount
           {sector}
         </h3>
         <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-secondary text-secondary-foreground border border-border">
-          {holdingsCount}
+          {holdings.length}
         </span>
       </div>
+      <div className="flex items-center gap-4">
+        {series && (
+          <div className="hidden sm:flex items-center gap-3">
+            <span className="text-xs text-muted-foreground">5D</span>
+            <TrendSparkline series={series} />
+          </div>
+        )}
+        <ExportMenu
+          fileName={sector.toLowerCase().replace(/[^a-z0-9]+/g, '-')}
+          datasets={[
+            { id: 'holdings', label: 'Holdings', rows: holdings, columns: HOLDING_EXPORT_COLUMNS },
+            { id: 'summary', label: 'Summary', rows: [summary], columns: SECTOR_EXPORT_COLUMNS },
+          ]}
+        />
+      </div>
     </div>
   );
 }
@@ -75,6 +191,7 @@ function HoldingsTableHeader() {
         <th className="px-4 py-4 text-right">Value</th>
         <th className="px-4 py-4 text-right">P&L</th>
         <th className="px-4 py-4 text-center">Trend</th>
+        <th className="px-4 py-4 text-right" title="1-year return minus the sector index return">Alpha (1Y)</th>
         <th className="px-4 py-4">Portfolio %</th>
         <th className="px-4 py-4 text-right">Fundamentals</th>
         <th className="px-4 py-4 text-center rounded-tr-lg w-[140px]">Action</th>
@@ -83,7 +200,17 @@ function HoldingsTableHeader() {
   );
 }
 
-const HoldingRow = memo(function HoldingRow({ holding }: { holding: Holding }) {
+const HoldingRow = memo(function HoldingRow({
+  holding,
+  series,
+  comparison,
+  showPortfolio,
+}: {
+  holding: Holding;
+  series?: SeriesSummary;
+  comparison?: BenchmarkComparison;
+  showPortfolio?: boolean;
+}) {
   const isProfit = holding.gainLoss >= 0;
 
   return (
@@ -96,14 +223,35 @@ const HoldingRow = memo(function HoldingRow({ holding }: { holding: Holding }) {
           <div className="flex flex-col">
             <span className="font-bold text-foreground text-[15px]">{holding.particulars}</span>
             <div className="flex items-center gap-2 mt-1.5">
-              <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 dark:bg-blue-500/15 dark:text-blue-400 border border-blue-200 dark:border-blue-500/20">
-                {holding.nseCode}
+              <span
+                className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 dark:bg-blue-500/15 dark:text-blue-400 border border-blue-200 dark:border-blue-500/20"
+                title={holding.schemeCategory || holding.isin || undefined}
+              >
+                {holding.nseCode || holding.schemeCode || holding.bseCode}
               </span>
+              {holding.instrumentType && holding.instrumentType !== 'equity' && (
+                <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-700 dark:bg-emerald-500/15 dark:text-emerald-400 border border-emerald-200 dark:border-emerald-500/20">
+                  {INSTRUMENT_TYPE_BADGES[holding.instrumentType]}
+                </span>
+              )}
               {holding.bseCode && (
                 <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-secondary text-muted-foreground border border-border">
                   BSE
                 </span>
               )}
+              {holding.adjustments?.length > 0 && (
+                <span
+                  className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-500/15 dark:text-amber-400 border border-amber-200 dark:border-amber-500/20"
+                  title={formatAdjustments(holding)}
+                >
+                  ADJ
+                </span>
+              )}
+              {showPortfolio && holding.portfolioName && (
+                <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-violet-100 text-violet-700 dark:bg-violet-500/15 dark:text-violet-400 border border-violet-200 dark:border-violet-500/20">
+                  {holding.portfolioName}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -120,6 +268,11 @@ const HoldingRow = memo(function HoldingRow({ holding }: { holding: Holding }) {
           <span className="text-xs text-muted-foreground mt-1">
             Qty: <span className="text-foreground font-medium">{holding.quantity}</span>
           </span>
+          {holding.previousClose !== null && holding.previousClose !== undefined && (
+            <span className={`text-xs font-medium mt-0.5 ${getGainLossColorClass(holding.dayChangePercent)}`} title="Change since previous close">
+              Today {formatReturn(holding.dayChangePercent)}
+            </span>
+          )}
         </div>
       </td>
 
@@ -145,12 +298,22 @@ const HoldingRow = memo(function HoldingRow({ holding }: { holding: Holding }) {
             }`}>
             <AnimatedPercentage value={holding.gainLossPercentage} showSign={true} />
           </span>
+          {holding.xirr !== null && holding.xirr !== undefined && (
+            <span className="text-xs text-muted-foreground" title="Annualized money-weighted return">
+              XIRR <span className={`font-medium ${getGainLossColorClass(holding.xirr)}`}>{formatReturn(holding.xirr)}</span>
+            </span>
+          )}
         </div>
       </td>
 
       {/* Trend Sparkline */}
       <td className="px-4 py-4 text-center">
-        <TrendSparkline isPositive={isProfit} />
+        <TrendSparkline series={series} />
+      </td>
+
+      {/* Alpha vs sector index */}
+      <td className="px-4 py-4 text-right">
+        <AlphaCell comparison={comparison} />
       </td>
 
       {/* Portfolio % */}
@@ -193,7 +356,7 @@ const HoldingRow = memo(function HoldingRow({ holding }: { holding: Holding }) {
 });
 
 // Reuse existing HoldingCard logic but update styles
-const HoldingCard = memo(function HoldingCard({ holding, isExpanded, onToggle }: { holding: Holding; isExpanded: boolean; onToggle: () => void }) {
+const HoldingCard = memo(function HoldingCard({ holding, isExpanded, onToggle, showPortfolio }: { holding: Holding; isExpanded: boolean; onToggle: () => void; showPortfolio?: boolean }) {
   const isProfit = holding.gainLoss >= 0;
 
   return (
@@ -208,7 +371,9 @@ const HoldingCard = memo(function HoldingCard({ holding, isExpanded, onToggle }:
             <CompanyLogo name={holding.particulars} nseCode={holding.nseCode} size={40} />
             <div>
               <h4 className="font-semibold text-foreground text-sm">{holding.particulars}</h4>
-              <p className="text-xs text-muted-foreground">{holding.quantity} qty</p>
+              <p className="text-xs text-muted-foreground">
+                {holding.quantity} qty{showPortfolio && holding.portfolioName ? ` · ${holding.portfolioName}` : ''}
+              </p>
             </div>
           </div>
           <div className="text-right">
@@ -246,6 +411,24 @@ const HoldingCard = memo(function HoldingCard({ holding, isExpanded, onToggle }:
               <p className="text-muted-foreground">Fundamentals</p>
               <p className="text-foreground">P/E: {holding.peRatio?.toFixed(2) ?? '-'}</p>
             </div>
+            {holding.xirr !== null && holding.xirr !== undefined && (
+              <div className="space-y-1">
+                <p className="text-muted-foreground">XIRR / TWR</p>
+                <p className="text-foreground">
+                  {formatReturn(holding.xirr)} / {holding.twr !== null && holding.twr !== undefined ? formatReturn(holding.twr) : '-'}
+                </p>
+              </div>
+            )}
+            {holding.adjustments?.length > 0 && (
+              <div className="space-y-1 col-span-2">
+                <p className="text-muted-foreground">Corporate Actions</p>
+                {holding.adjustments.map((a) => (
+                  <p key={a.actionId} className="text-foreground">
+                    {a.exDate}: {a.description} · Qty {a.quantityBefore} → {a.quantityAfter}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
 
           <div className="grid grid-cols-3 gap-2 mt-4">
@@ -265,7 +448,7 @@ const HoldingCard = memo(function HoldingCard({ holding, isExpanded, onToggle }:
   );
 });
 
-function HoldingCardList({ holdings }: { holdings: Holding[] }) {
+function HoldingCardList({ holdings, showPortfolio }: { holdings: Holding[]; showPortfolio?: boolean }) {
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
   const handleToggle = (id: string) => {
@@ -280,14 +463,22 @@ function HoldingCardList({ holdings }: { holdings: Holding[] }) {
           holding={holding}
           isExpanded={expandedId === holding.id}
           onToggle={() => handleToggle(holding.id)}
+          showPortfolio={showPortfolio}
         />
       ))}
     </div>
   );
 }
 
-const SectorSummarySection = memo(function SectorSummarySection({ summary }: { summary: SectorSummary }) {
+const SectorSummarySection = memo(function SectorSummarySection({
+  summary,
+  comparison,
+}: {
+  summary: SectorSummary;
+  comparison?: BenchmarkComparison;
+}) {
   const isProfit = summary.totalGainLoss >= 0;
+  const { xirr, twr } = summary;
 
   return (
     <div className="bg-accent border-t border-border px-6 py-4 flex flex-col sm:flex-row gap-4 sm:items-center justify-between">
@@ -300,6 +491,42 @@ const SectorSummarySection = memo(function SectorSummarySection({ summary }: { s
           <span className="text-xs text-muted-foreground uppercase tracking-wider block mb-1">Current Value</span>
           <span className="font-semibold text-foreground text-sm sm:text-base"><AnimatedCurrency value={summary.totalPresentValue} /></span>
         </div>
+        <div>
+          <span className="text-xs text-muted-foreground uppercase tracking-wider block mb-1">Today</span>
+          <span className={`font-semibold text-sm sm:text-base ${getGainLossColorClass(summary.dayChange)}`}>
+            {formatGainLossWithSign(summary.dayChange, formatCurrency)} ({formatReturn(summary.dayChangePercent)})
+          </span>
+        </div>
+        {typeof xirr === 'number' && (
+          <div>
+            <span className="text-xs text-muted-foreground uppercase tracking-wider block mb-1">XIRR / TWR</span>
+            <span className="font-semibold text-sm sm:text-base">
+              <span className={getGainLossColorClass(xirr)}>{formatReturn(xirr)}</span>
+              {typeof twr === 'number' && (
+                <span className="text-muted-foreground"> / <span className={getGainLossColorClass(twr)}>{formatReturn(twr)}</span></span>
+              )}
+            </span>
+          </div>
+        )}
+        {!!summary.dividendsReceived && (
+          <div>
+            <span className="text-xs text-muted-foreground uppercase tracking-wider block mb-1">Dividends</span>
+            <span className="font-semibold text-foreground text-sm sm:text-base">
+              {formatCurrency(summary.dividendsReceived)}
+              <span className="text-muted-foreground font-medium text-xs"> · {(summary.dividendYieldOnCost ?? 0).toFixed(2)}% YoC</span>
+            </span>
+          </div>
+        )}
+        {comparison && comparison.alpha !== null && (
+          <div title={`1Y return ${comparison.return?.toFixed(2)}% vs ${comparison.benchmarkReturn?.toFixed(2)}%`}>
+            <span className="text-xs text-muted-foreground uppercase tracking-wider block mb-1">
+              Alpha vs {comparison.benchmarkName}
+            </span>
+            <span className={`font-semibold text-sm sm:text-base ${getGainLossColorClass(comparison.alpha)}`}>
+              {formatGainLossWithSign(comparison.alpha, (v) => `${v.toFixed(2)} pts`)}
+            </span>
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-3 bg-card px-4 py-2 rounded-lg border border-border shadow-sm">
@@ -316,16 +543,19 @@ const SectorSummarySection = memo(function SectorSummarySection({ summary }: { s
   );
 });
 
-function SectorGroupComponent({ sector, holdings, summary }: SectorGroupProps) {
+function SectorGroupComponent({ sector, holdings, summary, showPortfolio, portfolioId = null }: SectorGroupProps) {
+  const { data: sparklines } = useSparklines('5d', portfolioId);
+  const { data: benchmarks } = useBenchmarks('1y', portfolioId);
+
   if (holdings.length === 0) return null;
 
   return (
     <div className="bg-card rounded-xl shadow-sm border border-border overflow-hidden">
-      <SectorHeader sector={sector} holdingsCount={holdings.length} />
+      <SectorHeader sector={sector} holdings={holdings} summary={summary} series={sparklines?.sectors[sector]} />
 
       {/* Mobile Card View */}
       <div className="md:hidden p-4">
-        <HoldingCardList holdings={holdings} />
+        <HoldingCardList holdings={holdings} showPortfolio={showPortfolio} />
       </div>
 
       {/* Desktop Table View */}
@@ -335,14 +565,20 @@ function SectorGroupComponent({ sector, holdings, summary }: SectorGroupProps) {
             <HoldingsTableHeader />
             <tbody>
               {holdings.map((holding) => (
-                <HoldingRow key={holding.id} holding={holding} />
+                <HoldingRow
+                  key={holding.id}
+                  holding={holding}
+                  series={sparklines?.holdings[getHoldingIdentity(holding)]}
+                  comparison={benchmarks?.holdings[getHoldingIdentity(holding)]}
+                  showPortfolio={showPortfolio}
+                />
               ))}
             </tbody>
           </table>
         </div>
       </div>
 
-      <SectorSummarySection summary={summary} />
+      <SectorSummarySection summary={summary} comparison={benchmarks?.sectors[sector]} />
     </div>
   );
 }
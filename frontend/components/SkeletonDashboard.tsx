@@ -124,11 +124,12 @@ export const SkeletonDashboard = memo(function SkeletonDashboard() {
   return (
     <div className="space-y-6 sm:space-y-8 animate-fade-in">
       {/* Metric Cards */}
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-5">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3 sm:gap-5">
         <MetricCardSkeleton delay={0} />
         <MetricCardSkeleton delay={1} />
         <MetricCardSkeleton delay={2} />
         <MetricCardSkeleton delay={3} />
+        <MetricCardSkeleton delay={4} />
       </div>
 
       {/* Charts Section */}
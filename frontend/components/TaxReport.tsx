@@ -0,0 +1,222 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useTaxReport, getFinancialYear } from '@/hooks';
+import { getGainLossColorClass } from '@/utils';
+import type { TaxEntry, TaxSummary } from '@/types';
+
+/**
+ * Format currency value in Indian Rupees
+ */
+function formatCurrency(value: number): string {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Financial year labels from the current year back, newest first
+ */
+function getRecentFinancialYears(count: number): string[] {
+  const current = Number(getFinancialYear().substring(0, 4));
+  return Array.from({ length: count }, (_, i) => {
+    const startYear = current - i;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  });
+}
+
+const SummaryTile = ({
+  label,
+  value,
+  hint,
+  colorByValue = false,
+}: {
+  label: string;
+  value: number;
+  hint?: string;
+  colorByValue?: boolean;
+}) => (
+  <div className="rounded-lg border border-border p-3 sm:p-4">
+    <p className="text-xs font-medium text-muted-foreground">{label}</p>
+    <p className={`mt-1 text-lg font-bold ${colorByValue ? getGainLossColorClass(value) : 'text-foreground'}`}>
+      {formatCurrency(value)}
+    </p>
+    {hint && <p className="mt-1 text-xs text-muted-foreground">{hint}</p>}
+  </div>
+);
+
+function TaxSummaryGrid({ summary }: { summary: TaxSummary }) {
+  const carryForward = summary.lossCarryForward.shortTerm + summary.lossCarryForward.longTerm;
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+      <SummaryTile
+        label="Short-term (STCG)"
+        value={summary.shortTerm.net}
+        hint={`Taxable ${formatCurrency(summary.taxableShortTerm)}`}
+        colorByValue
+      />
+      <SummaryTile
+        label="Long-term (LTCG)"
+        value={summary.longTerm.net}
+        hint={`Taxable ${formatCurrency(summary.taxableLongTerm)}`}
+        colorByValue
+      />
+      <SummaryTile label="LTCG exemption used" value={summary.ltcgExemption} />
+      <SummaryTile label="Estimated tax" value={summary.estimatedTax} hint="Before surcharge and cess" />
+      <SummaryTile label="Loss to carry forward" value={carryForward} />
+    </div>
+  );
+}
+
+function TaxEntriesTable({ entries }: { entries: TaxEntry[] }) {
+  if (entries.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No sales in this financial year.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-xs uppercase tracking-wider text-muted-foreground">
+            <th className="px-3 py-2 text-left">Stock</th>
+            <th className="px-3 py-2 text-left">Bought</th>
+            <th className="px-3 py-2 text-left">Sold</th>
+            <th className="px-3 py-2 text-right">Qty</th>
+            <th className="px-3 py-2 text-right">Cost</th>
+            <th className="px-3 py-2 text-right">Proceeds</th>
+            <th className="px-3 py-2 text-right">Gain</th>
+            <th className="px-3 py-2 text-center">Term</th>
+            <th className="px-3 py-2 text-right">Rate</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {entries.map((entry, index) => (
+            <tr key={`${entry.holdingId}-${entry.buyDate}-${entry.sellDate}-${index}`} className="text-foreground">
+              <td className="px-3 py-2">
+                <div className="font-medium">{entry.particulars}</div>
+                <div className="text-xs text-muted-foreground">{entry.nseCode || entry.bseCode}</div>
+              </td>
+              <td className="px-3 py-2 whitespace-nowrap">{entry.buyDate}</td>
+              <td className="px-3 py-2 whitespace-nowrap">{entry.sellDate}</td>
+              <td className="px-3 py-2 text-right">{entry.quantity}</td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">
+                {formatCurrency(entry.costOfAcquisition)}
+                {entry.grandfathered && (
+                  <span className="ml-1 text-xs text-muted-foreground" title="Cost stepped up to 31-Jan-2018 fair market value">
+                    GF
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">{formatCurrency(entry.proceeds)}</td>
+              <td className={`px-3 py-2 text-right whitespace-nowrap font-medium ${getGainLossColorClass(entry.gain)}`}>
+                {formatCurrency(entry.gain)}
+              </td>
+              <td className="px-3 py-2 text-center">
+                <span className="rounded-full bg-muted px-2 py-0.5 text-xs font-medium">
+                  {entry.term === 'long' ? 'LTCG' : 'STCG'}
+                </span>
+              </td>
+              <td className="px-3 py-2 text-right">{entry.rate}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface TaxReportProps {
+  /**
+   * Portfolio id or 'household'; null for the default portfolio
+   */
+  portfolioId?: string | null;
+}
+
+/**
+ * Capital gains tax report for a financial year
+ * Shows realized STCG/LTCG with estimated tax and, for the current year,
+ * the projected position if every open lot were sold at today's price
+ */
+export function TaxReport({ portfolioId = null }: TaxReportProps) {
+  const financialYears = useMemo(() => getRecentFinancialYears(5), []);
+  const [financialYear, setFinancialYear] = useState(financialYears[0]);
+  const [view, setView] = useState<'realized' | 'hypothetical'>('realized');
+  const { data, isLoading, error } = useTaxReport(financialYear, portfolioId);
+
+  const canProject = Boolean(data?.projectedSummary);
+  const activeView = canProject ? view : 'realized';
+  const summary = activeView === 'hypothetical' && data?.projectedSummary
+    ? data.projectedSummary
+    : data?.summary;
+  const entries = activeView === 'hypothetical' ? data?.hypothetical ?? [] : data?.realized ?? [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="bg-card border border-border rounded-xl shadow-sm overflow-hidden"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 sm:px-6 py-3 sm:py-4 border-b border-border">
+        <h3 className="text-base sm:text-lg font-bold text-foreground">Capital Gains</h3>
+        <div className="flex items-center gap-2">
+          {canProject && (
+            <div className="flex rounded-lg border border-border p-0.5 text-xs font-medium">
+              {(['realized', 'hypothetical'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`rounded-md px-3 py-1 transition-colors ${
+                    activeView === option ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {option === 'realized' ? 'Realized' : 'If sold today'}
+                </button>
+              ))}
+            </div>
+          )}
+          <select
+            value={financialYear}
+            onChange={(e) => setFinancialYear(e.target.value)}
+            aria-label="Financial year"
+            className="rounded-lg border border-border bg-card px-2 py-1 text-sm text-foreground"
+          >
+            {financialYears.map((fy) => (
+              <option key={fy} value={fy}>
+                FY {fy}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="p-3 sm:p-6 space-y-4">
+        {isLoading && (
+          <p className="py-8 text-center text-sm text-muted-foreground">Loading tax report...</p>
+        )}
+        {error && !isLoading && (
+          <p className="py-8 text-center text-sm text-red-500">Failed to load tax report: {error.message}</p>
+        )}
+        {data && summary && (
+          <>
+            <TaxSummaryGrid summary={summary} />
+            <TaxEntriesTable entries={entries} />
+            {data.excluded.length > 0 && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                Left out, not listed equity: {data.excluded.map((entry) => entry.particulars).join(', ')}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Holding period over 12 months is long-term. Estimates exclude surcharge, cess and
+              set-off of brought-forward losses; confirm with your tax advisor.
+            </p>
+          </>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -37,6 +37,14 @@ export type {
 
 export { ThemeToggle } from './ThemeToggle';
 export { PortfolioCharts } from './PortfolioCharts';
+export { TaxReport } from './TaxReport';
+export { DividendLedger } from './DividendLedger';
+export { ImportWizard } from './ImportWizard';
+export type { ImportWizardProps } from './ImportWizard';
+export { ExportMenu } from './ExportMenu';
+export type { ExportMenuProps } from './ExportMenu';
+export { PortfolioSwitcher } from './PortfolioSwitcher';
+export type { PortfolioSwitcherProps } from './PortfolioSwitcher';
 export { MetricCard } from './MetricCard';
 export { LoadingScreen } from './LoadingScreen';
 export { SkeletonDashboard, MetricCardSkeleton, ChartsSkeleton, SectorGroupSkeleton } from './SkeletonDashboard';
@@ -5,8 +5,31 @@
 export { usePortfolio, usePortfolioQueryKey } from './usePortfolio';
 export type { UsePortfolioOptions, UsePortfolioReturn } from './usePortfolio';
 
+export { usePortfolios, usePortfoliosQueryKey } from './usePortfolios';
+export type { UsePortfoliosReturn } from './usePortfolios';
+
+export { usePortfolioEvents } from './usePortfolioEvents';
+
 export { useErrorHandler } from './useErrorHandler';
 export type { UseErrorHandlerOptions, UseErrorHandlerReturn } from './useErrorHandler';
 
 export { useValueTransition, useMultipleValueTransitions, getValueTransitionClass } from './useValueTransition';
 export type { UseValueTransitionOptions, UseValueTransitionReturn, ValueChangeDirection } from './useValueTransition';
+
+export { useTaxReport, getFinancialYear } from './useTaxReport';
+export type { UseTaxReportReturn } from './useTaxReport';
+
+export { usePortfolioHistory, getHistoryRangeParams, HISTORY_RANGES } from './usePortfolioHistory';
+export type { UsePortfolioHistoryReturn, HistoryRange } from './usePortfolioHistory';
+
+export { useSparklines } from './useSparklines';
+export type { UseSparklinesReturn } from './useSparklines';
+
+export { useBenchmarks, useBenchmarkHistory, getBenchmarkRange, getBenchmarkHistoryParams } from './useBenchmarks';
+export type { UseBenchmarksReturn, UseBenchmarkHistoryReturn } from './useBenchmarks';
+
+export { useDividends } from './useDividends';
+export type { UseDividendsReturn } from './useDividends';
+
+export { usePortfolioImport } from './usePortfolioImport';
+export type { UsePortfolioImportReturn } from './usePortfolioImport';
@@ -0,0 +1,130 @@
+/**
+ * Custom hooks for benchmark comparisons
+ *
+ * Features:
+ * - Portfolio, sector and holding returns against benchmark indices for a range
+ * - Benchmark candles matching a value chart range, for overlays
+ * - One cached query per portfolio and range; index closes change at most daily for these ranges
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchBenchmarks, fetchMarketHistory } from '@/lib/api';
+import type { BenchmarkRange, BenchmarksResponse, Candle, MarketHistoryRange } from '@/types';
+import type { HistoryRange } from './usePortfolioHistory';
+
+const BENCHMARKS_QUERY_KEY = 'portfolio-benchmarks';
+const BENCHMARK_HISTORY_QUERY_KEY = 'benchmark-history';
+
+export interface UseBenchmarksReturn {
+  /**
+   * Returns and alpha for the requested range
+   */
+  data: BenchmarksResponse | undefined;
+
+  /**
+   * Loading state - true when the range is being fetched for the first time
+   */
+  isLoading: boolean;
+
+  /**
+   * Error object if the query failed
+   */
+  error: Error | null;
+}
+
+export interface UseBenchmarkHistoryReturn {
+  /**
+   * Daily (weekly for ALL) candles of the benchmark, oldest first
+   */
+  candles: Candle[];
+
+  /**
+   * Loading state - true when the candles are being fetched for the first time
+   */
+  isLoading: boolean;
+}
+
+/**
+ * Returns the benchmark comparison range closest to a value chart range
+ *
+ * @param range - Value chart range
+ */
+export function getBenchmarkRange(range: HistoryRange): BenchmarkRange {
+  const ranges: Record<HistoryRange, BenchmarkRange> = {
+    '1W': '5d',
+    '1M': '1mo',
+    '3M': '3mo',
+    YTD: 'ytd',
+    '1Y': '1y',
+    ALL: '1y',
+  };
+  return ranges[range];
+}
+
+/**
+ * Returns the candle range and interval covering a value chart range
+ *
+ * @param range - Value chart range
+ */
+export function getBenchmarkHistoryParams(range: HistoryRange): { range: MarketHistoryRange; interval: string } {
+  switch (range) {
+    case '1W':
+    case '1M':
+      return { range: '1mo', interval: '1d' };
+    case '3M':
+      return { range: '3mo', interval: '1d' };
+    case 'YTD':
+      return { range: 'ytd', interval: '1d' };
+    case '1Y':
+      return { range: '1y', interval: '1d' };
+    case 'ALL':
+      return { range: '5y', interval: '1wk' };
+  }
+}
+
+/**
+ * Hook for fetching returns against benchmarks
+ *
+ * @param range - Comparison range (default '1y')
+ * @param portfolioId - Portfolio id or 'household'; null for the default portfolio
+ * @returns Benchmark data, loading state and error state
+ */
+export function useBenchmarks(range: BenchmarkRange = '1y', portfolioId: string | null = null): UseBenchmarksReturn {
+  const query = useQuery({
+    queryKey: [BENCHMARKS_QUERY_KEY, portfolioId ?? 'default', range],
+    queryFn: () => fetchBenchmarks(range, portfolioId),
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    retry: 1,
+  });
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+/**
+ * Hook for fetching a benchmark's candles for a value chart range
+ *
+ * @param symbol - Index symbol, or null for no overlay
+ * @param range - Value chart range
+ * @returns Candles and loading state
+ */
+export function useBenchmarkHistory(symbol: string | null, range: HistoryRange): UseBenchmarkHistoryReturn {
+  const params = getBenchmarkHistoryParams(range);
+  const query = useQuery({
+    queryKey: [BENCHMARK_HISTORY_QUERY_KEY, symbol, params.range, params.interval],
+    queryFn: () => fetchMarketHistory(symbol as string, params.range, params.interval),
+    enabled: symbol !== null,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    retry: 1,
+  });
+
+  return {
+    candles: query.data?.candles ?? [],
+    isLoading: query.isLoading,
+  };
+}
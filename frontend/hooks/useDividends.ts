@@ -0,0 +1,106 @@
+/**
+ * Custom hook for the dividend ledger
+ *
+ * Features:
+ * - Ledger, monthly income and upcoming payments in one query per portfolio; the ledger
+ *   belongs to the default portfolio, so other portfolios read an empty one
+ * - Add, import and delete refresh both the ledger and the portfolio,
+ *   whose dividend fields and totals depend on it
+ */
+
+'use client';
+
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchDividends, addDividend, importDividends, deleteDividend } from '@/lib/api';
+import type { Dividend, DividendInput, DividendImportResponse, DividendsResponse } from '@/types';
+import { usePortfolioQueryKey } from './usePortfolio';
+
+const DIVIDENDS_QUERY_KEY = ['dividends'];
+
+export interface UseDividendsReturn {
+  /**
+   * Dividend ledger with monthly income, upcoming payments and totals
+   */
+  data: DividendsResponse | undefined;
+
+  /**
+   * Loading state - true when the ledger is being fetched for the first time
+   */
+  isLoading: boolean;
+
+  /**
+   * Error object if the query failed
+   */
+  error: Error | null;
+
+  /**
+   * Adds a manually entered dividend
+   */
+  add: (input: DividendInput) => Promise<Dividend>;
+
+  /**
+   * Imports a CSV dividend statement
+   */
+  importCsv: (csv: string) => Promise<DividendImportResponse>;
+
+  /**
+   * Removes a dividend by id
+   */
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook for reading and editing the dividend ledger
+ *
+ * @param portfolioId - Portfolio id or 'household'; null for the default portfolio
+ * @returns Dividend ledger data, loading state, error state and ledger actions
+ */
+export function useDividends(portfolioId: string | null = null): UseDividendsReturn {
+  const queryClient = useQueryClient();
+  const portfolioQueryKey = usePortfolioQueryKey();
+
+  const query = useQuery({
+    queryKey: [...DIVIDENDS_QUERY_KEY, portfolioId ?? 'default'],
+    queryFn: () => fetchDividends(portfolioId),
+    staleTime: 60000, // 1 minute
+    retry: 1,
+  });
+
+  /**
+   * Refetches the ledger and the portfolio after a change
+   */
+  const invalidate = async (): Promise<void> => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: DIVIDENDS_QUERY_KEY }),
+      queryClient.invalidateQueries({ queryKey: portfolioQueryKey }),
+    ]);
+  };
+
+  const add = async (input: DividendInput): Promise<Dividend> => {
+    const dividend = await addDividend(input);
+    await invalidate();
+    return dividend;
+  };
+
+  const importCsv = async (csv: string): Promise<DividendImportResponse> => {
+    const result = await importDividends(csv);
+    if (result.imported.length > 0) {
+      await invalidate();
+    }
+    return result;
+  };
+
+  const remove = async (id: string): Promise<void> => {
+    await deleteDividend(id);
+    await invalidate();
+  };
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    add,
+    importCsv,
+    remove,
+  };
+}
@@ -4,6 +4,7 @@
  * Features:
  * - Automatic refetching every 15 seconds
  * - Manual refresh functionality
+ * - Any portfolio (or the household view) by id, the default one otherwise
  * - Loading and error state management
  * - React Query integration for caching and optimization
  * 
@@ -13,7 +14,7 @@
 'use client';
 
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { fetchPortfolio, refreshPortfolio } from '@/lib/api';
+import { fetchPortfolio, fetchPortfolioById, refreshPortfolio } from '@/lib/api';
 import type { PortfolioResponse } from '@/types';
 
 const PORTFOLIO_QUERY_KEY = ['portfolio'];
@@ -29,6 +30,11 @@ export interface UsePortfolioOptions {
    * Custom refetch interval in milliseconds (default: 15000)
    */
   refetchInterval?: number;
+
+  /**
+   * Portfolio id from /api/portfolios, or the household id; the default portfolio when omitted
+   */
+  portfolioId?: string | null;
 }
 
 export interface UsePortfolioReturn {
@@ -103,14 +109,16 @@ export function usePortfolio(options: UsePortfolioOptions = {}): UsePortfolioRet
   const {
     enabled = true,
     refetchInterval = REFETCH_INTERVAL,
+    portfolioId = null,
   } = options;
   
   const queryClient = useQueryClient();
+  const queryKey = [...PORTFOLIO_QUERY_KEY, portfolioId ?? 'default'];
   
   // Main query for portfolio data
   const query = useQuery({
-    queryKey: PORTFOLIO_QUERY_KEY,
-    queryFn: fetchPortfolio,
+    queryKey,
+    queryFn: () => (portfolioId ? fetchPortfolioById(portfolioId) : fetchPortfolio()),
     enabled,
     refetchInterval: enabled ? refetchInterval : false,
     refetchIntervalInBackground: false, // Pause when tab is not visible
@@ -126,17 +134,21 @@ export function usePortfolio(options: UsePortfolioOptions = {}): UsePortfolioRet
    */
   const refresh = async (): Promise<void> => {
     try {
-      // Call the refresh endpoint which forces fresh data
+      // Call the refresh endpoint which forces fresh data (and drops every portfolio's cache)
       const freshData = await refreshPortfolio();
       
-      // Update the cache with fresh data
-      queryClient.setQueryData(PORTFOLIO_QUERY_KEY, {
-        holdings: freshData.holdings,
-        lastUpdated: freshData.lastUpdated,
-        errors: [],
-      });
+      // Update the cache with fresh data; the refresh endpoint returns the default portfolio
+      if (!portfolioId) {
+        queryClient.setQueryData(queryKey, {
+          holdings: freshData.holdings,
+          sectors: freshData.sectors,
+          totals: freshData.totals,
+          lastUpdated: freshData.lastUpdated,
+          errors: [],
+        });
+      }
       
-      // Invalidate to trigger a refetch
+      // Invalidate every portfolio to trigger a refetch
       await queryClient.invalidateQueries({ queryKey: PORTFOLIO_QUERY_KEY });
     } catch (error) {
       // If refresh fails, just invalidate to trigger normal refetch
@@ -159,6 +171,7 @@ export function usePortfolio(options: UsePortfolioOptions = {}): UsePortfolioRet
 
 /**
  * Hook to get the portfolio query key for manual cache manipulation
+ * Prefix of every portfolio's key, so invalidating it refetches all of them
  */
 export function usePortfolioQueryKey() {
   return PORTFOLIO_QUERY_KEY;
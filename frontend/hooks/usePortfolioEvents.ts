@@ -0,0 +1,43 @@
+/**
+ * Custom hook for portfolio reloads pushed by the backend
+ *
+ * Features:
+ * - Refetches the portfolios as soon as the backend re-parses a changed portfolio file
+ * - Passes each reload to an optional callback, e.g. to tell the user
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { subscribeToPortfolioEvents } from '@/lib/api';
+import type { PortfolioReloadEvent } from '@/types';
+import { usePortfolioQueryKey } from './usePortfolio';
+import { usePortfoliosQueryKey } from './usePortfolios';
+
+/**
+ * Hook that keeps the dashboard in step with edits to the portfolio files
+ *
+ * @param onReload - Called with each reload after the portfolio queries are invalidated
+ */
+export function usePortfolioEvents(onReload?: (event: PortfolioReloadEvent) => void): void {
+  const queryClient = useQueryClient();
+  const portfolioQueryKey = usePortfolioQueryKey();
+  const portfoliosQueryKey = usePortfoliosQueryKey();
+
+  // Keep the latest callback without reconnecting on every render
+  const onReloadRef = useRef(onReload);
+  useEffect(() => {
+    onReloadRef.current = onReload;
+  }, [onReload]);
+
+  useEffect(() => {
+    return subscribeToPortfolioEvents((event) => {
+      void Promise.all([
+        queryClient.invalidateQueries({ queryKey: portfoliosQueryKey }),
+        queryClient.invalidateQueries({ queryKey: portfolioQueryKey }),
+      ]);
+      onReloadRef.current?.(event);
+    });
+  }, [queryClient, portfolioQueryKey, portfoliosQueryKey]);
+}
@@ -0,0 +1,94 @@
+/**
+ * Custom hook for fetching portfolio value history
+ *
+ * Features:
+ * - Translates a chart range (1W, 1M, ...) into from date and granularity
+ * - One cached query per portfolio and range; snapshots change at most hourly
+ * - Only the default portfolio records snapshots; others get empty series and an error
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchPortfolioHistory } from '@/lib/api';
+import type { HistoryGranularity, HistoryResponse } from '@/types';
+
+const HISTORY_QUERY_KEY = 'portfolio-history';
+
+export type HistoryRange = '1W' | '1M' | '3M' | 'YTD' | '1Y' | 'ALL';
+
+export const HISTORY_RANGES: HistoryRange[] = ['1W', '1M', '3M', 'YTD', '1Y', 'ALL'];
+
+export interface UsePortfolioHistoryReturn {
+  /**
+   * History for the requested range
+   */
+  data: HistoryResponse | undefined;
+
+  /**
+   * Loading state - true when the range is being fetched for the first time
+   */
+  isLoading: boolean;
+
+  /**
+   * Error object if the query failed
+   */
+  error: Error | null;
+}
+
+/**
+ * Returns the query parameters for a chart range
+ *
+ * @param range - Chart range
+ * @param today - Reference date (defaults to now)
+ */
+export function getHistoryRangeParams(
+  range: HistoryRange,
+  today: Date = new Date()
+): { from?: string; granularity: HistoryGranularity } {
+  const from = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()));
+
+  switch (range) {
+    case '1W':
+      from.setUTCDate(from.getUTCDate() - 7);
+      break;
+    case '1M':
+      from.setUTCMonth(from.getUTCMonth() - 1);
+      break;
+    case '3M':
+      from.setUTCMonth(from.getUTCMonth() - 3);
+      break;
+    case 'YTD':
+      from.setUTCMonth(0, 1);
+      break;
+    case '1Y':
+      from.setUTCFullYear(from.getUTCFullYear() - 1);
+      return { from: from.toISOString().substring(0, 10), granularity: 'week' };
+    case 'ALL':
+      return { granularity: 'week' };
+  }
+
+  return { from: from.toISOString().substring(0, 10), granularity: 'day' };
+}
+
+/**
+ * Hook for fetching the portfolio value series for a chart range
+ *
+ * @param range - Chart range
+ * @param portfolioId - Portfolio id or 'household'; null for the default portfolio
+ * @returns History data, loading state and error state
+ */
+export function usePortfolioHistory(range: HistoryRange, portfolioId: string | null = null): UsePortfolioHistoryReturn {
+  const query = useQuery({
+    queryKey: [HISTORY_QUERY_KEY, portfolioId ?? 'default', range],
+    queryFn: () => fetchPortfolioHistory(getHistoryRangeParams(range), portfolioId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 1,
+  });
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
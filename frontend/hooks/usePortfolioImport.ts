@@ -0,0 +1,136 @@
+/**
+ * Custom hook for uploading a portfolio sheet
+ *
+ * Features:
+ * - Upload, remap and commit steps keep the latest preview
+ * - Mapping profiles are listed so the user can override the automatic choice
+ * - Committing or reverting an import refreshes the portfolio
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { previewImport, remapImport, commitImport, fetchActiveImport, clearImport, fetchMappingProfiles } from '@/lib/api';
+import type { ActiveImport, ImportCommitResponse, ImportPreviewResponse, ImportSettings, MappingProfile } from '@/types';
+import { usePortfolioQueryKey } from './usePortfolio';
+import { usePortfoliosQueryKey } from './usePortfolios';
+
+const ACTIVE_IMPORT_QUERY_KEY = ['portfolio-import'];
+const MAPPING_PROFILES_QUERY_KEY = ['mapping-profiles'];
+
+export interface UsePortfolioImportReturn {
+  /**
+   * The committed upload, null when the configured Excel file is used
+   */
+  activeImport: ActiveImport | null | undefined;
+
+  /**
+   * Sheet mapping profiles an upload can be read with
+   */
+  profiles: MappingProfile[];
+
+  /**
+   * Preview of the pending upload, if any
+   */
+  preview: ImportPreviewResponse | null;
+
+  /**
+   * Uploads a file and previews it with the detected column mapping
+   */
+  upload: (file: File) => Promise<ImportPreviewResponse>;
+
+  /**
+   * Previews the pending upload again with another profile or column mapping overrides
+   */
+  remap: (settings: ImportSettings) => Promise<ImportPreviewResponse>;
+
+  /**
+   * Makes the pending upload the portfolio source with the previewed profile and mapping
+   */
+  commit: () => Promise<ImportCommitResponse>;
+
+  /**
+   * Drops the committed upload so the configured Excel file is used again
+   */
+  revert: () => Promise<void>;
+
+  /**
+   * Discards the pending preview
+   */
+  reset: () => void;
+}
+
+/**
+ * Hook for the portfolio upload wizard
+ *
+ * @returns Active import, pending preview and import actions
+ */
+export function usePortfolioImport(): UsePortfolioImportReturn {
+  const queryClient = useQueryClient();
+  const portfolioQueryKey = usePortfolioQueryKey();
+  const portfoliosQueryKey = usePortfoliosQueryKey();
+  const [preview, setPreview] = useState<ImportPreviewResponse | null>(null);
+
+  const query = useQuery({
+    queryKey: ACTIVE_IMPORT_QUERY_KEY,
+    queryFn: fetchActiveImport,
+    staleTime: 60000, // 1 minute
+    retry: 1,
+  });
+
+  const profilesQuery = useQuery({
+    queryKey: MAPPING_PROFILES_QUERY_KEY,
+    queryFn: fetchMappingProfiles,
+    staleTime: 5 * 60000, // 5 minutes
+    retry: 1,
+  });
+
+  /**
+   * Refetches the active import, the portfolio list and the portfolios after the source changes
+   */
+  const invalidate = async (): Promise<void> => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ACTIVE_IMPORT_QUERY_KEY }),
+      queryClient.invalidateQueries({ queryKey: portfoliosQueryKey }),
+      queryClient.invalidateQueries({ queryKey: portfolioQueryKey }),
+    ]);
+  };
+
+  const upload = async (file: File): Promise<ImportPreviewResponse> => {
+    const result = await previewImport(file);
+    setPreview(result);
+    return result;
+  };
+
+  const remap = async (settings: ImportSettings): Promise<ImportPreviewResponse> => {
+    if (!preview) throw new Error('No upload to remap');
+    const result = await remapImport(preview.importId, settings);
+    setPreview(result);
+    return result;
+  };
+
+  const commit = async (): Promise<ImportCommitResponse> => {
+    if (!preview) throw new Error('No upload to commit');
+    const result = await commitImport(preview.importId, { profile: preview.profile.id, mapping: preview.mapping });
+    setPreview(null);
+    await invalidate();
+    return result;
+  };
+
+  const revert = async (): Promise<void> => {
+    await clearImport();
+    await invalidate();
+  };
+
+  return {
+    activeImport: query.data,
+    profiles: profilesQuery.data ?? [],
+    preview,
+    upload,
+    remap,
+    commit,
+    revert,
+    reset: () => setPreview(null),
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Custom hook for the list of portfolios
+ *
+ * Features:
+ * - Portfolios served by the backend, one per sheet or per file, the default one first
+ * - The id of the household view that combines them
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchPortfolios } from '@/lib/api';
+import type { PortfolioSummary } from '@/types';
+
+const PORTFOLIOS_QUERY_KEY = ['portfolios'];
+
+export interface UsePortfoliosReturn {
+  /**
+   * Portfolios that can be viewed, the default one first
+   */
+  portfolios: PortfolioSummary[];
+
+  /**
+   * Id of the view combining every portfolio
+   */
+  householdId: string | undefined;
+
+  /**
+   * Loading state - true when the list is being fetched for the first time
+   */
+  isLoading: boolean;
+
+  /**
+   * Error object if the query failed
+   */
+  error: Error | null;
+}
+
+/**
+ * Hook for listing the portfolios a dashboard can switch between
+ *
+ * @returns Portfolios, the household id, loading state and error state
+ */
+export function usePortfolios(): UsePortfoliosReturn {
+  const query = useQuery({
+    queryKey: PORTFOLIOS_QUERY_KEY,
+    queryFn: fetchPortfolios,
+    staleTime: 5 * 60000, // 5 minutes
+    retry: 1,
+  });
+
+  return {
+    portfolios: query.data?.portfolios ?? [],
+    householdId: query.data?.householdId,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+/**
+ * Hook to get the portfolio list query key for manual cache manipulation
+ */
+export function usePortfoliosQueryKey() {
+  return PORTFOLIOS_QUERY_KEY;
+}
@@ -0,0 +1,49 @@
+/**
+ * Custom hook for fetching sparkline price series
+ *
+ * Features:
+ * - One shared query per portfolio and range, so every SectorGroup reuses the same request
+ * - Refetches every 5 minutes; intraday candles are 5-30 minutes apart
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchSparklines } from '@/lib/api';
+import type { SparklineRange, SparklinesResponse } from '@/types';
+
+const SPARKLINES_QUERY_KEY = 'portfolio-sparklines';
+
+export interface UseSparklinesReturn {
+  /**
+   * Series per holding and per sector
+   */
+  data: SparklinesResponse | undefined;
+
+  /**
+   * Loading state - true when the series are being fetched for the first time
+   */
+  isLoading: boolean;
+}
+
+/**
+ * Hook for fetching holding and sector sparklines
+ *
+ * @param range - Series range (default '5d')
+ * @param portfolioId - Portfolio id or 'household'; null for the default portfolio
+ * @returns Sparkline data and loading state
+ */
+export function useSparklines(range: SparklineRange = '5d', portfolioId: string | null = null): UseSparklinesReturn {
+  const query = useQuery({
+    queryKey: [SPARKLINES_QUERY_KEY, portfolioId ?? 'default', range],
+    queryFn: () => fetchSparklines(range, portfolioId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchInterval: 5 * 60 * 1000,
+    retry: 1,
+  });
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Custom hook for fetching the capital gains tax report
+ *
+ * Features:
+ * - One cached query per portfolio and financial year
+ * - No automatic refetching; tax figures only move with CMP for projections
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchTaxReport } from '@/lib/api';
+import type { TaxReportResponse } from '@/types';
+
+const TAX_REPORT_QUERY_KEY = 'tax-report';
+
+export interface UseTaxReportReturn {
+  /**
+   * Tax report for the requested financial year
+   */
+  data: TaxReportResponse | undefined;
+
+  /**
+   * Loading state - true when the report is being fetched for the first time
+   */
+  isLoading: boolean;
+
+  /**
+   * Error object if the query failed
+   */
+  error: Error | null;
+}
+
+/**
+ * Returns the financial year label (e.g. "2025-26") that contains a date
+ */
+export function getFinancialYear(date: Date = new Date()): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Hook for fetching the STCG/LTCG report of a financial year
+ *
+ * @param financialYear - Financial year label, e.g. "2025-26"
+ * @param portfolioId - Portfolio id or 'household'; null for the default portfolio
+ * @returns Tax report data, loading state and error state
+ */
+export function useTaxReport(financialYear: string, portfolioId: string | null = null): UseTaxReportReturn {
+  const query = useQuery({
+    queryKey: [TAX_REPORT_QUERY_KEY, portfolioId ?? 'default', financialYear],
+    queryFn: () => fetchTaxReport(financialYear, portfolioId),
+    staleTime: 60000, // 1 minute
+    retry: 1,
+  });
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -3,7 +3,7 @@
  */
 
 import axios from 'axios';
-import type { PortfolioResponse, RefreshResponse, HealthResponse } from '@/types';
+import type { PortfolioResponse, PortfoliosResponse, PortfolioReloadEvent, RefreshResponse, HealthResponse, TransactionsResponse, TaxReportResponse, HistoryResponse, HistoryGranularity, SparklinesResponse, SparklineRange, BenchmarksResponse, BenchmarkRange, MarketHistoryResponse, MarketHistoryRange, DividendsResponse, DividendInput, Dividend, DividendImportResponse, ImportPreviewResponse, ImportCommitResponse, ActiveImport, ImportSettings, MappingProfile } from '@/types';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -24,6 +24,22 @@ export async function fetchPortfolio(): Promise<PortfolioResponse> {
   return response.data;
 }
 
+/**
+ * Fetch the portfolios that can be viewed and the id of the combined household view
+ */
+export async function fetchPortfolios(): Promise<PortfoliosResponse> {
+  const response = await apiClient.get<PortfoliosResponse>('/api/portfolios');
+  return response.data;
+}
+
+/**
+ * Fetch one portfolio (or the household view) with live prices
+ */
+export async function fetchPortfolioById(id: string): Promise<PortfolioResponse> {
+  const response = await apiClient.get<PortfolioResponse>(`/api/portfolios/${encodeURIComponent(id)}`);
+  return response.data;
+}
+
 /**
  * Trigger manual refresh of portfolio data
  */
@@ -32,6 +48,204 @@ export async function refreshPortfolio(): Promise<RefreshResponse> {
   return response.data;
 }
 
+/**
+ * Fetch the buy/sell transaction ledger
+ */
+export async function fetchTransactions(): Promise<TransactionsResponse> {
+  const response = await apiClient.get<TransactionsResponse>('/api/portfolio/transactions');
+  return response.data;
+}
+
+/**
+ * Fetch the capital gains tax report for a financial year (e.g. "2025-26")
+ * Defaults to the current financial year and the default portfolio when omitted
+ */
+export async function fetchTaxReport(financialYear?: string, portfolioId?: string | null): Promise<TaxReportResponse> {
+  const response = await apiClient.get<TaxReportResponse>('/api/portfolio/tax-report', {
+    params: {
+      ...(financialYear && { fy: financialYear }),
+      ...(portfolioId && { portfolio: portfolioId }),
+    },
+  });
+  return response.data;
+}
+
+/**
+ * Fetch portfolio and per-sector value history from recorded snapshots
+ * Only the default portfolio records snapshots; others get empty series and an error
+ */
+export async function fetchPortfolioHistory(params: {
+  from?: string;
+  to?: string;
+  granularity?: HistoryGranularity;
+} = {}, portfolioId?: string | null): Promise<HistoryResponse> {
+  const response = await apiClient.get<HistoryResponse>('/api/portfolio/history', {
+    params: { ...params, ...(portfolioId && { portfolio: portfolioId }) },
+  });
+  return response.data;
+}
+
+/**
+ * Fetch sparkline series per holding and per sector of a portfolio (the default one when omitted)
+ */
+export async function fetchSparklines(
+  range: SparklineRange = '5d',
+  portfolioId?: string | null
+): Promise<SparklinesResponse> {
+  const response = await apiClient.get<SparklinesResponse>('/api/portfolio/sparklines', {
+    params: { range, ...(portfolioId && { portfolio: portfolioId }) },
+  });
+  return response.data;
+}
+
+/**
+ * Fetch portfolio, sector and holding returns against benchmark indices
+ * for a portfolio (the default one when omitted)
+ */
+export async function fetchBenchmarks(
+  range: BenchmarkRange = '1y',
+  portfolioId?: string | null
+): Promise<BenchmarksResponse> {
+  const response = await apiClient.get<BenchmarksResponse>('/api/portfolio/benchmarks', {
+    params: { range, ...(portfolioId && { portfolio: portfolioId }) },
+  });
+  return response.data;
+}
+
+/**
+ * Fetch historical OHLCV candles for a stock or index
+ * Bare codes are treated as NSE symbols (INFY -> INFY.NS)
+ */
+export async function fetchMarketHistory(
+  symbol: string,
+  range: MarketHistoryRange = '1mo',
+  interval?: string
+): Promise<MarketHistoryResponse> {
+  const response = await apiClient.get<MarketHistoryResponse>(
+    `/api/market/history/${encodeURIComponent(symbol)}`,
+    { params: { range, ...(interval && { interval }) } }
+  );
+  return response.data;
+}
+
+/**
+ * Fetch the dividend ledger with monthly income and upcoming payments
+ * The ledger belongs to the default portfolio and the household view; others get an empty one and an error
+ */
+export async function fetchDividends(portfolioId?: string | null): Promise<DividendsResponse> {
+  const response = await apiClient.get<DividendsResponse>('/api/portfolio/dividends', {
+    params: portfolioId ? { portfolio: portfolioId } : undefined,
+  });
+  return response.data;
+}
+
+/**
+ * Add a dividend to the ledger
+ */
+export async function addDividend(input: DividendInput): Promise<Dividend> {
+  const response = await apiClient.post<{ dividend: Dividend }>('/api/portfolio/dividends', input);
+  return response.data.dividend;
+}
+
+/**
+ * Import a CSV dividend statement; rows already in the ledger are skipped
+ */
+export async function importDividends(csv: string): Promise<DividendImportResponse> {
+  const response = await apiClient.post<DividendImportResponse>('/api/portfolio/dividends/import', csv, {
+    headers: { 'Content-Type': 'text/csv' },
+  });
+  return response.data;
+}
+
+/**
+ * Remove a dividend from the ledger
+ */
+export async function deleteDividend(id: string): Promise<Dividend> {
+  const response = await apiClient.delete<{ dividend: Dividend }>(`/api/portfolio/dividends/${encodeURIComponent(id)}`);
+  return response.data.dividend;
+}
+
+/**
+ * Upload an xlsx or csv portfolio and preview it; nothing changes until it is committed
+ */
+export async function previewImport(file: File): Promise<ImportPreviewResponse> {
+  const response = await apiClient.post<ImportPreviewResponse>('/api/portfolio/import', file, {
+    params: { fileName: file.name },
+    headers: { 'Content-Type': file.name.toLowerCase().endsWith('.csv') ? 'text/csv' : 'application/octet-stream' },
+  });
+  return response.data;
+}
+
+/**
+ * Preview a pending upload again with another mapping profile or column mapping overrides
+ */
+export async function remapImport(importId: string, settings: ImportSettings): Promise<ImportPreviewResponse> {
+  const response = await apiClient.post<ImportPreviewResponse>(
+    `/api/portfolio/import/${encodeURIComponent(importId)}/preview`,
+    settings
+  );
+  return response.data;
+}
+
+/**
+ * Make a pending upload the portfolio source
+ */
+export async function commitImport(importId: string, settings: ImportSettings): Promise<ImportCommitResponse> {
+  const response = await apiClient.post<ImportCommitResponse>(
+    `/api/portfolio/import/${encodeURIComponent(importId)}/commit`,
+    settings
+  );
+  return response.data;
+}
+
+/**
+ * Fetch the sheet mapping profiles in the order they are tried
+ */
+export async function fetchMappingProfiles(): Promise<MappingProfile[]> {
+  const response = await apiClient.get<{ profiles: MappingProfile[] }>('/api/portfolio/mapping-profiles');
+  return response.data.profiles;
+}
+
+/**
+ * Fetch the committed upload, null when the configured Excel file is used
+ */
+export async function fetchActiveImport(): Promise<ActiveImport | null> {
+  const response = await apiClient.get<{ import: ActiveImport | null }>('/api/portfolio/import');
+  return response.data.import;
+}
+
+/**
+ * Drop the committed upload and go back to the configured Excel file
+ */
+export async function clearImport(): Promise<boolean> {
+  const response = await apiClient.delete<{ cleared: boolean }>('/api/portfolio/import');
+  return response.data.cleared;
+}
+
+/**
+ * Listen for portfolio reloads pushed when the backend sees the portfolio files change
+ * @returns Function that closes the connection
+ */
+export function subscribeToPortfolioEvents(onReload: (event: PortfolioReloadEvent) => void): () => void {
+  const source = new EventSource(`${API_BASE_URL}/api/portfolio/events`);
+  source.addEventListener('reload', (event) => {
+    onReload(JSON.parse((event as MessageEvent<string>).data) as PortfolioReloadEvent);
+  });
+  return () => source.close();
+}
+
+/**
+ * URL of a portfolio's printable PDF statement, dated today unless asOf (YYYY-MM-DD) is given
+ */
+export function getStatementUrl(portfolioId?: string, asOf?: string): string {
+  const params = new URLSearchParams({
+    ...(portfolioId && { portfolio: portfolioId }),
+    ...(asOf && { asOf }),
+  });
+  const query = params.toString();
+  return `${API_BASE_URL}/api/portfolio/statement.pdf${query ? `?${query}` : ''}`;
+}
+
 /**
  * Check backend service health
  */
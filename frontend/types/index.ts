@@ -2,11 +2,16 @@
  * Core data models for the Portfolio Dashboard
  */
 
+/**
+ * Kind of instrument a holding is; mutual funds are priced by NAV and keyed by AMFI scheme code
+ */
+export type InstrumentType = 'equity' | 'mutual_fund' | 'etf' | 'bond' | 'gold';
+
 /**
  * Represents a single stock holding in the portfolio
  */
 export interface Holding {
-  id: string;
+  id: string; // Stable across reloads: the ISIN, or NSE:/BSE:/MF: code while the ISIN isn't known
   particulars: string; // Stock name
   purchasePrice: number;
   quantity: number;
@@ -14,16 +19,158 @@ export interface Holding {
   portfolioPercentage: number; // Calculated
   nseCode: string;
   bseCode?: string;
-  cmp: number; // Current Market Price from Yahoo Finance
+  isin?: string | null; // Canonical identity, from the security master or symbol aliases
+  previousCodes?: string[]; // Old tickers the symbol alias table mapped to this holding
+  instrumentType?: InstrumentType; // 'equity' unless the portfolio says otherwise
+  schemeCode?: string | null; // AMFI scheme code of a mutual fund
+  schemeCategory?: string | null; // AMFI scheme category, e.g. 'Equity Scheme - Large Cap Fund'
+  cmp: number; // Current Market Price (NAV for funds) from the first market data provider that had it
+  previousClose: number | null; // Previous session's close from the same provider
+  priceProvider?: string | null; // Market data provider that supplied cmp (e.g. 'yahoo'), null when unpriced
+  dayChange: number; // Calculated: (cmp - previousClose) * quantity
+  dayChangePercent: number; // Calculated: change from previousClose in percent
   presentValue: number; // Calculated: cmp * quantity
   gainLoss: number; // Calculated: presentValue - investment
   gainLossPercentage: number; // Calculated
+  realizedGain: number; // From FIFO-matched sells in the ledger
+  unrealizedGain: number; // Calculated: same as gainLoss on open quantity
+  lots: Lot[]; // Open FIFO lots (empty when no ledger is configured)
+  realizedLots: RealizedLot[]; // Sells matched against lots (FIFO)
+  adjustments: CorporateActionAdjustment[]; // Corporate action audit trail, oldest first
+  dividends: Dividend[]; // Dividends paid, from the dividend ledger
+  dividendsReceived: number; // Gross dividends paid to date
+  dividendYieldOnCost: number; // Trailing 12-month dividends / investment (%)
+  xirr: number | null; // Annualized money-weighted return (%), null without ledger dates
+  twr: number | null; // Cumulative time-weighted return (%), null without ledger dates
   peRatio: number | null; // From Google Finance
   latestEarnings: string | null; // From Google Finance
   sector: string;
+  portfolioId?: string; // Portfolio the holding is loaded from
+  portfolioName?: string; // Display name of that portfolio
   lastUpdated: Date;
 }
 
+/**
+ * An open FIFO lot remaining from a buy in the ledger
+ */
+export interface Lot {
+  transactionId: string;
+  date: string; // ISO date of the buy (YYYY-MM-DD)
+  quantity: number; // Remaining open quantity
+  price: number; // Buy price per unit
+  investment: number; // Remaining cost including buy charges
+  shareFactor?: number; // Shares held per share bought, once split or bonus adjusted
+  presentValue?: number; // Calculated once CMP is known
+  gainLoss?: number; // Calculated once CMP is known
+  gainLossPercentage?: number; // Calculated once CMP is known
+}
+
+/**
+ * A sell matched against an open lot (FIFO)
+ */
+export interface RealizedLot {
+  buyDate: string;
+  sellDate: string;
+  quantity: number;
+  buyPrice: number;
+  sellPrice: number;
+  costBasis: number; // Share of the lot's cost including buy charges
+  proceeds: number; // Sale value net of sell charges
+  gain: number;
+  shareFactor: number; // Shares sold per share bought, after splits and bonuses
+}
+
+/**
+ * Kind of corporate action
+ */
+export type CorporateActionType = 'split' | 'bonus' | 'rights' | 'demerger';
+
+/**
+ * A corporate action applied to a holding, with the position before and after
+ */
+export interface CorporateActionAdjustment {
+  actionId: string;
+  type: CorporateActionType;
+  exDate: string; // ISO date (YYYY-MM-DD)
+  description: string; // e.g. "Split 5:1"
+  quantityBefore: number;
+  quantityAfter: number;
+  investmentBefore: number;
+  investmentAfter: number;
+}
+
+/**
+ * How a dividend entered the ledger
+ */
+export type DividendSource = 'manual' | 'import';
+
+/**
+ * A dividend from the dividend ledger
+ */
+export interface Dividend {
+  id: string;
+  particulars: string;
+  nseCode: string;
+  bseCode: string | null;
+  exDate: string | null; // ISO date (YYYY-MM-DD)
+  paymentDate: string; // ISO date (YYYY-MM-DD)
+  amountPerShare: number;
+  quantity: number;
+  amount: number; // Gross dividend
+  tds: number; // Tax deducted at source
+  netAmount: number; // Calculated: amount - tds
+  source: DividendSource;
+}
+
+/**
+ * Fields accepted when adding a dividend manually
+ * Either amount or amountPerShare and quantity must be given
+ */
+export interface DividendInput {
+  particulars?: string;
+  nseCode?: string;
+  bseCode?: string;
+  exDate?: string;
+  paymentDate: string;
+  amountPerShare?: number;
+  quantity?: number;
+  amount?: number;
+  tds?: number;
+}
+
+/**
+ * Dividends paid in one month
+ */
+export interface DividendMonth {
+  month: string; // YYYY-MM
+  amount: number; // Gross
+  netAmount: number; // After TDS
+  dividends: Dividend[];
+}
+
+/**
+ * Side of a ledger transaction
+ */
+export type TransactionType = 'buy' | 'sell';
+
+/**
+ * A single buy or sell from the transaction ledger
+ */
+export interface Transaction {
+  id: string;
+  particulars: string;
+  nseCode: string;
+  bseCode: string | null;
+  sector: string;
+  type: TransactionType;
+  date: string; // ISO date (YYYY-MM-DD)
+  price: number;
+  quantity: number;
+  charges: number; // Brokerage, taxes and fees
+  amount: number; // Calculated: price * quantity
+  netAmount: number; // Calculated: amount + charges for buys, amount - charges for sells
+}
+
 /**
  * Summary statistics for a sector group
  */
@@ -33,6 +180,43 @@ export interface SectorSummary {
   totalPresentValue: number;
   totalGainLoss: number;
   gainLossPercentage: number;
+  dayChange: number; // Today's P&L
+  dayChangePercent: number; // Today's change against the previous close value
+  xirr?: number | null; // Annualized money-weighted return (%)
+  twr?: number | null; // Cumulative time-weighted return (%)
+  dividendsReceived?: number; // Gross dividends paid to date
+  dividendYieldOnCost?: number; // Trailing 12-month dividends / investment (%)
+  benchmark?: string; // Sector index symbol, e.g. "^CNXIT"
+  holdingsCount: number;
+}
+
+/**
+ * Holdings of one sector with their summary, as grouped by the backend
+ */
+export interface SectorGroupData {
+  sector: string;
+  holdings: Holding[];
+  summary: SectorSummary;
+}
+
+/**
+ * Whole-portfolio totals
+ */
+export interface PortfolioTotals {
+  totalInvestment: number;
+  totalPresentValue: number;
+  totalGainLoss: number;
+  totalGainLossPercentage: number;
+  totalUnrealizedGain: number;
+  totalRealizedGain: number;
+  totalDayChange: number; // Today's P&L
+  totalDayChangePercent: number; // Today's change against the previous close value
+  totalDividends: number; // Gross dividends paid to date
+  dividendYieldOnCost: number; // Trailing 12-month dividends / investment (%)
+  totalReturn: number; // Unrealized + realized gain + dividends
+  totalReturnPercentage: number; // totalReturn against totalInvestment
+  xirr: number | null; // Annualized money-weighted return (%)
+  twr: number | null; // Cumulative time-weighted return (%)
   holdingsCount: number;
 }
 
@@ -40,7 +224,7 @@ export interface SectorSummary {
  * Error information from API calls
  */
 export interface ApiError {
-  source: 'yahoo' | 'google' | 'system' | 'excel';
+  source: 'yahoo' | 'google' | 'bhavcopy' | 'system' | 'excel';
   message: string;
   symbol?: string;
   timestamp?: Date;
@@ -63,11 +247,46 @@ export interface ExcelRow {
  * API Response Types
  */
 
+/**
+ * A portfolio listed by /api/portfolios (one per sheet or per file)
+ */
+export interface PortfolioSummary {
+  id: string;
+  name: string;
+  fileName: string;
+  sheet: string | number | null; // Null when the mapping profile's sheet is read
+  isDefault: boolean; // The portfolio served by /api/portfolio
+}
+
+/**
+ * Response from /api/portfolios endpoint
+ */
+export interface PortfoliosResponse {
+  portfolios: PortfolioSummary[];
+  householdId: string; // Id of the view combining every portfolio
+  lastUpdated: string;
+  errors: ApiError[];
+}
+
+/**
+ * 'reload' event from /api/portfolio/events, sent when watched portfolio files change
+ */
+export interface PortfolioReloadEvent {
+  reloaded: string[]; // Portfolio ids parsed again
+  failed: string[]; // Portfolio ids still served from their last good load
+  lastUpdated: string;
+  errors: ApiError[]; // Problems not tied to a portfolio, e.g. an incomplete save
+}
+
 /**
  * Response from /api/portfolio endpoint
+ * /api/portfolios/:id adds the portfolio's id and name
  */
 export interface PortfolioResponse {
+  portfolio?: { id: string; name: string };
   holdings: Holding[];
+  sectors: SectorGroupData[];
+  totals: PortfolioTotals;
   lastUpdated: string;
   errors: ApiError[];
 }
@@ -77,9 +296,378 @@ export interface PortfolioResponse {
  */
 export interface RefreshResponse {
   holdings: Holding[];
+  sectors: SectorGroupData[];
+  totals: PortfolioTotals;
   lastUpdated: string;
 }
 
+/**
+ * Response from /api/portfolio/transactions endpoint
+ */
+export interface TransactionsResponse {
+  transactions: Transaction[];
+  lastUpdated: string;
+  errors: ApiError[];
+}
+
+/**
+ * Response from /api/portfolio/dividends endpoint
+ */
+export interface DividendsResponse {
+  dividends: Dividend[];
+  monthly: DividendMonth[]; // Oldest first
+  upcoming: Dividend[]; // Payment date after today
+  totals: { amount: number; tds: number; netAmount: number }; // Paid to date
+  lastUpdated: string;
+  errors: ApiError[];
+}
+
+/**
+ * Response from /api/portfolio/dividends/import endpoint
+ */
+export interface DividendImportResponse {
+  imported: Dividend[];
+  skipped: number; // Rows already in the ledger
+  lastUpdated: string;
+  errors: ApiError[]; // Invalid rows, with their row number
+}
+
+/**
+ * Portfolio sheet fields a column can be mapped to
+ */
+export type ImportField =
+  | 'number'
+  | 'particulars'
+  | 'purchasePrice'
+  | 'quantity'
+  | 'stockCode'
+  | 'pe'
+  | 'earnings'
+  | 'sector'
+  | 'instrumentType';
+
+/**
+ * Field to column index in the uploaded sheet's header row, null when unmapped
+ */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/**
+ * How a portfolio sheet is read: header aliases, sheet, sector rows and number format
+ */
+export interface MappingProfile {
+  id: string;
+  name: string;
+  sheet: number | string; // Sheet index or name
+  columns: Partial<Record<ImportField, string[]>>; // Header aliases per field
+  sectorRows: {
+    mode: 'keywords' | 'nameOnly' | 'none';
+    keywords: string[];
+    strip: string[];
+    defaultSector: string;
+  };
+  numberFormat: { decimalSeparator: string; thousandsSeparator: string; currencySymbols: string[] };
+}
+
+/**
+ * The mapping profile a sheet was read with
+ */
+export interface ImportProfile {
+  id: string;
+  name: string;
+  selection: 'auto' | 'explicit'; // Picked as the best fit, or requested
+}
+
+/**
+ * A field of the portfolio sheet layout
+ */
+export interface ImportColumn {
+  field: ImportField;
+  label: string; // Column name in the standard layout, e.g. "Purchase Price"
+  required: boolean;
+}
+
+/**
+ * A stock row as parsed with the current mapping (ExcelRow fields)
+ */
+export interface ImportPreviewRow {
+  row: number; // 1-based sheet row
+  Particulars: string;
+  'Purchase Price': number | string | null;
+  Qty: number | string | null;
+  'NSE/BSE': string | null;
+  Sector: string;
+}
+
+/**
+ * One stock's position in an import diff; repeated stocks are combined
+ */
+export interface ImportPosition {
+  key: string; // NSE code, else BSE code or name
+  particulars: string;
+  nseCode: string;
+  bseCode: string | null;
+  quantity: number;
+  purchasePrice: number;
+  sector: string;
+}
+
+/**
+ * A position whose quantity, purchase price or sector differs after the import
+ */
+export interface ImportChangedPosition extends ImportPosition {
+  changes: Partial<Record<'quantity' | 'purchasePrice' | 'sector', { before: number | string; after: number | string }>>;
+}
+
+/**
+ * Response from /api/portfolio/import and /api/portfolio/import/:id/preview
+ */
+export interface ImportPreviewResponse {
+  importId: string;
+  fileName: string;
+  profile: ImportProfile;
+  headers: string[];
+  headerRow: number; // 1-based sheet row of the headers
+  columns: ImportColumn[];
+  detectedMapping: ColumnMapping;
+  mapping: ColumnMapping; // Detected mapping with overrides applied
+  missingColumns: string[]; // Labels of required fields left unmapped
+  rows: ImportPreviewRow[]; // First rows only
+  summary: { totalRows: number; validRows: number; invalidRows: number };
+  diff: {
+    added: ImportPosition[];
+    removed: ImportPosition[];
+    changed: ImportChangedPosition[];
+    unchanged: number;
+  };
+  lastUpdated: string;
+  errors: ApiError[]; // Rows failing validation, with their row number
+}
+
+/**
+ * How to read an upload: a mapping profile id ('auto' picks the best fit) and column mapping overrides
+ */
+export interface ImportSettings {
+  profile?: string;
+  mapping?: Partial<ColumnMapping>;
+}
+
+/**
+ * A committed portfolio upload, which replaces the configured Excel file
+ */
+export interface ActiveImport {
+  fileName: string;
+  importedAt: string;
+  profile: string; // Mapping profile id
+  mapping: ColumnMapping;
+}
+
+/**
+ * Response from /api/portfolio/import/:id/commit
+ */
+export interface ImportCommitResponse {
+  import: ActiveImport;
+  profile: ImportProfile;
+  holdings: number; // Holdings loaded from the upload
+  lastUpdated: string;
+  errors: ApiError[];
+}
+
+/**
+ * Capital gains holding-period classification
+ */
+export type TaxTerm = 'short' | 'long';
+
+/**
+ * A realized or hypothetical sale classified for capital gains tax
+ */
+export interface TaxEntry {
+  holdingId: string;
+  particulars: string;
+  nseCode: string;
+  bseCode: string | null;
+  buyDate: string;
+  sellDate: string;
+  quantity: number;
+  costBasis: number; // Actual cost
+  costOfAcquisition: number; // Cost after 31-Jan-2018 grandfathering
+  proceeds: number;
+  gain: number;
+  holdingDays: number;
+  term: TaxTerm;
+  rate: number; // Tax rate in percent
+  grandfathered: boolean;
+  grandfatheringMissing: boolean;
+  hypothetical: boolean; // True for "if sold today" projections of open lots
+}
+
+/**
+ * A holding left out of the tax report because it isn't listed equity
+ */
+export interface TaxExcludedHolding {
+  holdingId: string;
+  particulars: string;
+  nseCode: string;
+  bseCode: string | null;
+  instrumentType: InstrumentType;
+}
+
+/**
+ * Netted capital gains and estimated tax for a set of entries
+ */
+export interface TaxSummary {
+  shortTerm: { gains: number; losses: number; net: number };
+  longTerm: { gains: number; losses: number; net: number };
+  ltcgExemption: number;
+  taxableShortTerm: number;
+  taxableLongTerm: number;
+  estimatedTax: number; // Before surcharge and cess
+  lossCarryForward: { shortTerm: number; longTerm: number };
+}
+
+/**
+ * Response from /api/portfolio/tax-report endpoint
+ */
+export interface TaxReportResponse {
+  financialYear: string; // e.g. "2025-26"
+  from: string;
+  to: string;
+  asOf: string;
+  realized: TaxEntry[];
+  hypothetical: TaxEntry[];
+  excluded: TaxExcludedHolding[]; // Non-equity holdings with sales or open lots, not classified
+  summary: TaxSummary;
+  projectedSummary: TaxSummary | null; // Realized plus hypothetical, current year only
+  lastUpdated: string;
+  errors: ApiError[];
+}
+
+/**
+ * Chart range accepted by /api/market/history
+ */
+export type MarketHistoryRange = '1d' | '5d' | '1mo' | '3mo' | '6mo' | 'ytd' | '1y' | '2y' | '5y' | '10y' | 'max';
+
+/**
+ * OHLCV price candle
+ */
+export interface Candle {
+  timestamp: string; // ISO timestamp of the candle start
+  date: string; // ISO date (YYYY-MM-DD)
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number;
+  adjClose?: number | null; // Split/dividend adjusted close (daily and longer candles)
+  volume: number | null;
+}
+
+/**
+ * Response from /api/market/history/:symbol endpoint
+ */
+export interface MarketHistoryResponse {
+  symbol: string; // Yahoo Finance symbol, e.g. "INFY.NS" or "^NSEI"
+  range: MarketHistoryRange;
+  interval: string;
+  candles: Candle[];
+  lastUpdated: string;
+}
+
+/**
+ * Range of a sparkline price series
+ */
+export type SparklineRange = '1d' | '5d' | '1mo' | '3mo' | '6mo' | 'ytd' | '1y';
+
+/**
+ * Price or value series with its high, low and change over the period
+ */
+export interface SeriesSummary {
+  points: { timestamp: string; value: number }[];
+  high: number;
+  low: number;
+  open: number;
+  close: number;
+  change: number;
+  changePercent: number;
+}
+
+/**
+ * Response from /api/portfolio/sparklines endpoint
+ */
+export interface SparklinesResponse {
+  range: SparklineRange;
+  interval: string;
+  holdings: Record<string, SeriesSummary>; // Keyed by holding identity (see getHoldingIdentity)
+  sectors: Record<string, SeriesSummary>; // Sector market value series
+  lastUpdated: string;
+  errors: ApiError[];
+}
+
+/**
+ * Range of a benchmark comparison (the sparkline ranges)
+ */
+export type BenchmarkRange = SparklineRange;
+
+/**
+ * A return over the range next to its index's return
+ */
+export interface BenchmarkComparison {
+  benchmark: string; // Index symbol, e.g. "^CNXIT"
+  benchmarkName: string; // e.g. "NIFTY IT"
+  return: number | null; // Price return over the range (%)
+  benchmarkReturn: number | null; // Index return over the range (%)
+  alpha: number | null; // return - benchmarkReturn, in percentage points
+}
+
+/**
+ * A configured benchmark's return against the portfolio's
+ */
+export interface BenchmarkReturn {
+  symbol: string;
+  name: string;
+  return: number | null; // Index return over the range (%)
+  excessReturn: number | null; // Portfolio return minus index return, in percentage points
+}
+
+/**
+ * Response from /api/portfolio/benchmarks endpoint
+ */
+export interface BenchmarksResponse {
+  range: BenchmarkRange;
+  portfolio: { return: number | null }; // Price return of current quantities (%)
+  benchmarks: BenchmarkReturn[];
+  sectors: Record<string, BenchmarkComparison>;
+  holdings: Record<string, BenchmarkComparison>; // Keyed by holding identity (see getHoldingIdentity)
+  lastUpdated: string;
+  errors: ApiError[];
+}
+
+/**
+ * Bucket size for value history series
+ */
+export type HistoryGranularity = 'day' | 'week' | 'month';
+
+/**
+ * Portfolio or sector value at a snapshot date
+ */
+export interface HistoryPoint {
+  date: string; // ISO date (YYYY-MM-DD)
+  investment: number;
+  presentValue: number;
+  gainLoss: number;
+}
+
+/**
+ * Response from /api/portfolio/history endpoint
+ */
+export interface HistoryResponse {
+  from: string | null;
+  to: string;
+  granularity: HistoryGranularity;
+  portfolio: HistoryPoint[];
+  sectors: { sector: string; series: HistoryPoint[] }[];
+  lastUpdated: string;
+  errors: ApiError[];
+}
+
 /**
  * Response from /api/health endpoint
  */
@@ -0,0 +1,139 @@
+/**
+ * Export utilities for holdings and sector summaries
+ *
+ * Columns and formatting match the backend's /api/portfolio/export.csv and
+ * export.json routes, so a download from the dashboard and a scripted export agree
+ */
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportValueFormat = 'text' | 'currency' | 'percent' | 'number' | 'ratio';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  format: ExportValueFormat;
+}
+
+/**
+ * Rows that can be exported, with their columns
+ */
+export interface ExportDataset {
+  id: string;
+  label: string;
+  rows: object[];
+  columns: ExportColumn[];
+}
+
+export type ExportRecord = Record<string, string | number | null>;
+
+export const HOLDING_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'particulars', label: 'Particulars', format: 'text' },
+  { key: 'nseCode', label: 'NSE Code', format: 'text' },
+  { key: 'bseCode', label: 'BSE Code', format: 'text' },
+  { key: 'isin', label: 'ISIN', format: 'text' },
+  { key: 'schemeCode', label: 'Scheme Code', format: 'text' },
+  { key: 'instrumentType', label: 'Type', format: 'text' },
+  { key: 'sector', label: 'Sector', format: 'text' },
+  { key: 'purchasePrice', label: 'Purchase Price', format: 'currency' },
+  { key: 'quantity', label: 'Quantity', format: 'number' },
+  { key: 'investment', label: 'Investment', format: 'currency' },
+  { key: 'portfolioPercentage', label: 'Portfolio %', format: 'percent' },
+  { key: 'cmp', label: 'CMP', format: 'currency' },
+  { key: 'presentValue', label: 'Present Value', format: 'currency' },
+  { key: 'gainLoss', label: 'Gain/Loss', format: 'currency' },
+  { key: 'gainLossPercentage', label: 'Gain/Loss %', format: 'percent' },
+  { key: 'dayChange', label: 'Day Change', format: 'currency' },
+  { key: 'peRatio', label: 'P/E Ratio', format: 'ratio' },
+  { key: 'latestEarnings', label: 'Latest Earnings', format: 'text' },
+  { key: 'dividendsReceived', label: 'Dividends', format: 'currency' },
+  { key: 'xirr', label: 'XIRR %', format: 'percent' },
+];
+
+export const SECTOR_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'sector', label: 'Sector', format: 'text' },
+  { key: 'holdingsCount', label: 'Holdings', format: 'number' },
+  { key: 'totalInvestment', label: 'Investment', format: 'currency' },
+  { key: 'totalPresentValue', label: 'Present Value', format: 'currency' },
+  { key: 'totalGainLoss', label: 'Gain/Loss', format: 'currency' },
+  { key: 'gainLossPercentage', label: 'Gain/Loss %', format: 'percent' },
+  { key: 'dayChange', label: 'Day Change', format: 'currency' },
+  { key: 'dividendsReceived', label: 'Dividends', format: 'currency' },
+  { key: 'xirr', label: 'XIRR %', format: 'percent' },
+];
+
+/**
+ * Formats a value the way the dashboard shows it (formatCurrency, formatPercentage)
+ */
+export function formatExportValue(value: unknown, format: ExportValueFormat): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value !== 'number') return String(value);
+
+  switch (format) {
+    case 'currency':
+      return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+    case 'percent':
+      return `${value.toFixed(2)}%`;
+    case 'ratio':
+      return value.toFixed(2);
+    case 'number':
+      return value.toLocaleString('en-IN');
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * One record per row keyed by column key, formatted unless raw numbers are asked for
+ */
+export function buildExportRecords(rows: object[], columns: ExportColumn[], raw: boolean): ExportRecord[] {
+  return rows.map((row) => {
+    const values = row as Record<string, unknown>;
+    return Object.fromEntries(
+      columns.map(({ key, format }) => {
+        const value = values[key] ?? null;
+        if (!raw) return [key, formatExportValue(value, format)];
+        return [key, typeof value === 'number' || value === null ? value : String(value)];
+      })
+    );
+  });
+}
+
+/**
+ * CSV with a header row of column labels; fields holding commas (₹1,23,456), quotes or line breaks are quoted
+ */
+export function toCsv(records: ExportRecord[], columns: ExportColumn[]): string {
+  const escape = (value: string | number | null | undefined) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    columns.map((column) => escape(column.label)).join(','),
+    ...records.map((record) => columns.map((column) => escape(record[column.key])).join(',')),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Downloads rows as a CSV or JSON file
+ * CSV starts with a byte order mark so Excel reads the ₹ sign as UTF-8
+ */
+export function downloadExport(
+  rows: object[],
+  columns: ExportColumn[],
+  options: { format: ExportFormat; raw: boolean; fileName: string }
+): void {
+  const records = buildExportRecords(rows, columns, options.raw);
+  const blob = options.format === 'csv'
+    ? new Blob(['\uFEFF', toCsv(records, columns)], { type: 'text/csv;charset=utf-8' })
+    : new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${options.fileName}.${options.format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
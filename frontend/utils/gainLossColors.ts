@@ -31,6 +31,15 @@ export const GAIN_LOSS_COLORS = {
   },
 } as const;
 
+/**
+ * Hex values of the gain/loss colors for charts, which can't use Tailwind classes
+ */
+export const GAIN_LOSS_CHART_COLORS = {
+  positive: { light: '#16a34a', dark: '#4ade80' },
+  negative: { light: '#dc2626', dark: '#f87171' },
+  neutral: { light: '#52525b', dark: '#a1a1aa' },
+} as const;
+
 /**
  * Type for gain/loss color categories
  */
@@ -71,6 +80,18 @@ export function getGainLossColorClass(value: number): string {
   return `${colors.light} dark:${colors.dark}`;
 }
 
+/**
+ * Returns the hex chart color for a gain/loss value
+ * 
+ * @param value - The gain/loss value to color code
+ * @param isDark - Whether the dark theme is active
+ * @returns Hex color string matching getGainLossColorClass
+ */
+export function getGainLossChartColor(value: number, isDark = false): string {
+  const colors = GAIN_LOSS_CHART_COLORS[getGainLossColorType(value)];
+  return isDark ? colors.dark : colors.light;
+}
+
 /**
  * Returns background color classes for gain/loss indicators
  * Useful for badges or highlighted sections
@@ -0,0 +1,24 @@
+/**
+ * Holding identity
+ *
+ * Mirrors the backend's canonical identity of a holding: its ISIN, or its exchange code
+ * while the ISIN isn't known. Per-holding series and benchmark comparisons are keyed by it,
+ * so they survive ticker changes and match the same security in every portfolio.
+ */
+
+import type { Holding } from '@/types';
+
+/**
+ * Canonical identity of a holding
+ * @param holding - Holding with isin, schemeCode, nseCode or bseCode
+ * @returns ISIN, MF:<scheme code>, NSE:<symbol> or BSE:<scrip code>; empty without any code
+ */
+export function getHoldingIdentity(
+  holding: Pick<Holding, 'isin' | 'schemeCode' | 'nseCode' | 'bseCode'>
+): string {
+  if (holding.isin) return holding.isin.toUpperCase();
+  if (holding.schemeCode) return `MF:${holding.schemeCode}`;
+  if (holding.nseCode) return `NSE:${holding.nseCode.trim().toUpperCase()}`;
+  if (holding.bseCode) return `BSE:${holding.bseCode.trim()}`;
+  return '';
+}
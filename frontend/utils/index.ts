@@ -4,8 +4,10 @@
 
 export {
   GAIN_LOSS_COLORS,
+  GAIN_LOSS_CHART_COLORS,
   getGainLossColorType,
   getGainLossColorClass,
+  getGainLossChartColor,
   getGainLossBgClass,
   getGainLossBorderClass,
   getGainLossStyles,
@@ -25,3 +27,19 @@ export {
   type ErrorSource,
   type ParsedError,
 } from './errorUtils';
+
+export {
+  HOLDING_EXPORT_COLUMNS,
+  SECTOR_EXPORT_COLUMNS,
+  formatExportValue,
+  buildExportRecords,
+  toCsv,
+  downloadExport,
+  type ExportFormat,
+  type ExportValueFormat,
+  type ExportColumn,
+  type ExportDataset,
+  type ExportRecord,
+} from './exportUtils';
+
+export { getHoldingIdentity } from './holdingIdentity';